@@ -15,6 +15,7 @@ import Conexoes from "./pages/Conexoes";
 import Login from "./pages/Login";
 import ResetPassword from "./pages/ResetPassword";
 import BlingDashboard from "./pages/BlingDashboard";
+import Diagnostico from "./pages/Diagnostico";
 
 const queryClient = new QueryClient();
 
@@ -32,6 +33,7 @@ const App = () => (
             <Route path="/dashboard/:connectionId" element={<BlingDashboard />} />
             <Route path="/reset-password" element={<ResetPassword />} />
             <Route path="/history" element={<History />} />
+            <Route path="/diagnostico" element={<Diagnostico />} />
             <Route path="/profile" element={<Profile />} />
             <Route path="/bling/callback" element={<BlingCallback />} />
             <Route path="/auth/bling/callback" element={<AuthBlingCallback />} />
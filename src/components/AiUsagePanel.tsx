@@ -0,0 +1,168 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Activity, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAiUsage } from '@/hooks/useAiUsage';
+import { AI_FUNCTION_LABELS, getUsageMonth } from '@/core';
+
+// Months offered in the selector, current one included
+const MONTHS_SHOWN = 6;
+
+const formatNumber = (value: number) => value.toLocaleString('pt-BR');
+
+const formatCost = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'USD', maximumFractionDigits: value < 1 ? 4 : 2 });
+
+// Usage months are UTC; shown as the same calendar month in local time
+const monthLabel = (month: string) => {
+  const date = new Date(month);
+  return format(new Date(date.getUTCFullYear(), date.getUTCMonth(), 1), "MMMM 'de' yyyy", { locale: ptBR });
+};
+
+interface QuotaBarProps {
+  label: string;
+  used: number;
+  limit: number | null;
+  formatValue: (value: number) => string;
+}
+
+const QuotaBar = ({ label, used, limit, formatValue }: QuotaBarProps) => {
+  const percent = limit ? Math.min((used / limit) * 100, 100) : 0;
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">{label}</span>
+        <span className={`font-medium ${limit !== null && used >= limit ? 'text-destructive' : ''}`}>
+          {formatValue(used)}
+          {limit !== null ? ` de ${formatValue(limit)}` : ' (sem limite)'}
+        </span>
+      </div>
+      {limit !== null && <Progress value={percent} className="h-2" />}
+    </div>
+  );
+};
+
+/**
+ * Monthly AI usage of the signed-in user, against their quota
+ */
+const AiUsagePanel = () => {
+  const months = useMemo(
+    () => Array.from({ length: MONTHS_SHOWN }, (_, i) => getUsageMonth(new Date(), i)),
+    []
+  );
+  const [month, setMonth] = useState(months[0]);
+  const { usage, quota, loading, refresh } = useAiUsage(month);
+  const isCurrentMonth = month === months[0];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Activity className="h-5 w-5" />
+              Consumo de IA
+            </CardTitle>
+            <CardDescription>
+              Chamadas, tokens e custo estimado das funções de IA. O custo usa preços de tabela e pode diferir da fatura.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={month} onValueChange={setMonth}>
+              <SelectTrigger className="w-[180px] h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {months.map(value => (
+                  <SelectItem key={value} value={value} className="capitalize">
+                    {monthLabel(value)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="icon" onClick={refresh} disabled={loading} title="Atualizar">
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Quota: only the current month counts against it */}
+        {isCurrentMonth && usage && (
+          <div className="space-y-4">
+            <QuotaBar label="Chamadas" used={usage.calls} limit={quota?.calls ?? null} formatValue={formatNumber} />
+            <QuotaBar label="Tokens" used={usage.tokens} limit={quota?.tokens ?? null} formatValue={formatNumber} />
+            <QuotaBar label="Custo estimado" used={usage.costUsd} limit={quota?.costUsd ?? null} formatValue={formatCost} />
+            <p className="text-xs text-muted-foreground">
+              A cota é renovada no primeiro dia de cada mês (UTC). Ao atingi-la, as funções de IA param até a renovação.
+            </p>
+          </div>
+        )}
+
+        {!isCurrentMonth && usage && (
+          <div className="grid grid-cols-3 gap-4">
+            <div className="p-3 bg-muted/50 rounded-lg text-center">
+              <p className="text-xl font-bold">{formatNumber(usage.calls)}</p>
+              <p className="text-xs text-muted-foreground">Chamadas</p>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg text-center">
+              <p className="text-xl font-bold">{formatNumber(usage.tokens)}</p>
+              <p className="text-xs text-muted-foreground">Tokens</p>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg text-center">
+              <p className="text-xl font-bold">{formatCost(usage.costUsd)}</p>
+              <p className="text-xs text-muted-foreground">Custo estimado</p>
+            </div>
+          </div>
+        )}
+
+        {usage && usage.byFunction.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Função</TableHead>
+                <TableHead>Modelo</TableHead>
+                <TableHead className="text-right">Chamadas</TableHead>
+                <TableHead className="text-right">Tokens (entrada / saída)</TableHead>
+                <TableHead className="text-right">Custo</TableHead>
+                <TableHead className="text-right">Latência média</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {usage.byFunction.map(row => (
+                <TableRow key={`${row.functionName}-${row.provider}-${row.model}`}>
+                  <TableCell>{AI_FUNCTION_LABELS[row.functionName] ?? row.functionName}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{row.provider} · {row.model}</TableCell>
+                  <TableCell className="text-right">
+                    {formatNumber(row.calls)}
+                    {row.failedCalls > 0 && (
+                      <span className="text-xs text-destructive ml-1">+{formatNumber(row.failedCalls)} falha(s)</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatNumber(row.promptTokens)} / {formatNumber(row.completionTokens)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCost(row.costUsd)}</TableCell>
+                  <TableCell className="text-right">{formatNumber(row.avgLatencyMs)} ms</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          !loading && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              Nenhum uso de IA em {monthLabel(month)}.
+            </p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AiUsagePanel;
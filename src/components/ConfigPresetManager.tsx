@@ -16,6 +16,7 @@ import { useUserPresets, type UserPreset } from '@/hooks/useUserPresets';
 import { useAuth } from '@/hooks/useAuth';
 import { Download, Upload, Settings2, Cloud, HardDrive, Trash2, Loader2, Check, Sparkles, Package } from 'lucide-react';
 import type { ColumnConfig } from '@/utils/dataProcessors';
+import type { PromptSettings, TitleTemplate, TransformRule } from '@/core/types';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { BUILTIN_PRESETS, applyPresetToColumns, type PresetDefinition } from '@/data/blingPreset';
@@ -26,18 +27,34 @@ interface ConfigPreset {
   exportedAt: string;
   abbreviations: Record<string, string>;
   columnConfig: Record<string, ColumnConfig>;
+  transformRules?: TransformRule[];
+  titleTemplates?: TitleTemplate[];
+  promptSettings?: PromptSettings;
 }
 
 interface ConfigPresetManagerProps {
   abbreviations: Record<string, string>;
   columnConfig: Record<string, ColumnConfig>;
-  onImport: (abbreviations: Record<string, string>, columnConfig: Record<string, ColumnConfig>) => void;
+  transformRules?: TransformRule[];
+  titleTemplates?: TitleTemplate[];
+  // Saved and restored only when given, so other screens keep the preset's choice
+  promptSettings?: PromptSettings;
+  onImport: (
+    abbreviations: Record<string, string>,
+    columnConfig: Record<string, ColumnConfig>,
+    transformRules?: TransformRule[],
+    titleTemplates?: TitleTemplate[],
+    promptSettings?: PromptSettings
+  ) => void;
   detectedColumns?: string[]; // Para aplicar preset inteligente
 }
 
 export function ConfigPresetManager({ 
   abbreviations, 
   columnConfig, 
+  transformRules = [],
+  titleTemplates = [],
+  promptSettings,
   onImport,
   detectedColumns = [],
 }: ConfigPresetManagerProps) {
@@ -55,7 +72,10 @@ export function ConfigPresetManager({
       version: '1.0',
       exportedAt: new Date().toISOString(),
       abbreviations,
-      columnConfig
+      columnConfig,
+      transformRules,
+      titleTemplates,
+      promptSettings
     };
 
     const blob = new Blob([JSON.stringify(preset, null, 2)], { type: 'application/json' });
@@ -92,7 +112,7 @@ export function ConfigPresetManager({
           preset.columnConfig = {};
         }
 
-        onImport(preset.abbreviations, preset.columnConfig);
+        onImport(preset.abbreviations, preset.columnConfig, preset.transformRules || [], preset.titleTemplates || [], preset.promptSettings);
         
         toast({
           title: 'Configuração aplicada',
@@ -126,14 +146,14 @@ export function ConfigPresetManager({
       return;
     }
 
-    const success = await savePreset(presetName, abbreviations, columnConfig);
+    const success = await savePreset(presetName, abbreviations, columnConfig, transformRules, titleTemplates, promptSettings);
     if (success) {
       setPresetName('Minha Configuração');
     }
   };
 
   const handleLoadFromCloud = (preset: UserPreset) => {
-    onImport(preset.abbreviations, preset.columnConfig);
+    onImport(preset.abbreviations, preset.columnConfig, preset.transformRules, preset.titleTemplates, preset.promptSettings);
     toast({
       title: 'Preset aplicado',
       description: `"${preset.name}" foi carregado com sucesso.`
@@ -0,0 +1,173 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArrowRight, AlertTriangle } from 'lucide-react';
+import { getMappingConfidenceLevel, type ColumnMappingSuggestion, type ProductData } from '@/core';
+import { cn } from '@/lib/utils';
+
+const NO_TARGET = '__none__';
+
+interface ColumnMappingModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  suggestions: ColumnMappingSuggestion[];
+  targets: string[];
+  sampleRow?: ProductData;
+  initialSupplier?: string;
+  canSave: boolean;
+  onConfirm: (mapping: Record<string, string | null>, saveAsSupplier: string | null) => void;
+}
+
+const CONFIDENCE_STYLES: Record<string, { label: string; className: string }> = {
+  alta: { label: 'Alta', className: 'border-success text-success' },
+  media: { label: 'Média', className: 'border-warning text-warning' },
+  baixa: { label: 'Baixa', className: 'border-destructive text-destructive' },
+  salvo: { label: 'Salvo', className: 'border-primary text-primary' },
+  manual: { label: 'Manual', className: 'border-muted-foreground text-muted-foreground' },
+};
+
+export function ColumnMappingModal({
+  open,
+  onOpenChange,
+  suggestions,
+  targets,
+  sampleRow,
+  initialSupplier = '',
+  canSave,
+  onConfirm,
+}: ColumnMappingModalProps) {
+  const [mapping, setMapping] = useState<Record<string, string | null>>({});
+  const [edited, setEdited] = useState<Set<string>>(new Set());
+  const [supplier, setSupplier] = useState('');
+  const [saveForSupplier, setSaveForSupplier] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setMapping(Object.fromEntries(suggestions.map(s => [s.source, s.target])));
+    setEdited(new Set());
+    setSupplier(initialSupplier);
+    setSaveForSupplier(canSave && !!initialSupplier);
+  }, [open, suggestions, initialSupplier, canSave]);
+
+  // Targets picked by more than one header; only the first keeps the name
+  const conflicts = useMemo(() => {
+    const counts = new Map<string, number>();
+    Object.values(mapping).forEach(t => { if (t) counts.set(t, (counts.get(t) || 0) + 1); });
+    return new Set([...counts.entries()].filter(([, n]) => n > 1).map(([t]) => t));
+  }, [mapping]);
+
+  const mappedCount = Object.values(mapping).filter(Boolean).length;
+
+  const handleChange = (source: string, value: string) => {
+    setMapping(prev => ({ ...prev, [source]: value === NO_TARGET ? null : value }));
+    setEdited(prev => new Set(prev).add(source));
+  };
+
+  const confidenceFor = (suggestion: ColumnMappingSuggestion) => {
+    if (edited.has(suggestion.source)) return CONFIDENCE_STYLES.manual;
+    if (!mapping[suggestion.source]) return null;
+    if (suggestion.reason === 'saved') return CONFIDENCE_STYLES.salvo;
+    return CONFIDENCE_STYLES[getMappingConfidenceLevel(suggestion)];
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Mapear colunas do fornecedor</DialogTitle>
+          <DialogDescription>
+            Confirme para qual coluna padrão do Bling cada coluna da planilha deve ir. {mappedCount} de {suggestions.length} colunas mapeadas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[420px] border rounded-lg">
+          <div className="p-2 space-y-1">
+            {suggestions.map((suggestion) => {
+              const target = mapping[suggestion.source];
+              const confidence = confidenceFor(suggestion);
+              const sample = sampleRow?.[suggestion.source];
+
+              return (
+                <div key={suggestion.source} className="grid grid-cols-[1fr_auto_1fr_auto] items-center gap-3 p-2 rounded hover:bg-muted/50">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{suggestion.source}</p>
+                    {sample !== undefined && sample !== '' && (
+                      <p className="text-xs text-muted-foreground truncate">{String(sample)}</p>
+                    )}
+                  </div>
+                  <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                  <Select
+                    value={target ?? NO_TARGET}
+                    onValueChange={(value) => handleChange(suggestion.source, value)}
+                  >
+                    <SelectTrigger className={cn('h-8 text-xs', target && conflicts.has(target) && 'border-destructive')}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TARGET} className="text-xs">— Manter nome original —</SelectItem>
+                      {targets.map((t) => (
+                        <SelectItem key={t} value={t} className="text-xs">{t}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="w-16 text-right">
+                    {confidence && (
+                      <Badge variant="outline" className={cn('text-[10px]', confidence.className)}>
+                        {confidence.label}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        {conflicts.size > 0 && (
+          <p className="text-xs text-destructive flex items-center gap-1.5">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            {[...conflicts].join(', ')} {conflicts.size > 1 ? 'foram escolhidas' : 'foi escolhida'} para mais de uma coluna.
+          </p>
+        )}
+
+        <div className="flex items-end gap-3">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="supplier-name" className="text-xs text-muted-foreground">Fornecedor</Label>
+            <Input
+              id="supplier-name"
+              value={supplier}
+              onChange={(e) => setSupplier(e.target.value)}
+              placeholder="Ex.: Distribuidora XYZ"
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-1.5">
+            <Checkbox
+              id="save-supplier"
+              checked={saveForSupplier}
+              disabled={!canSave || !supplier.trim()}
+              onCheckedChange={(checked) => setSaveForSupplier(!!checked)}
+            />
+            <Label htmlFor="save-supplier" className="text-sm cursor-pointer">Salvar para este fornecedor</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Manter colunas originais</Button>
+          <Button
+            disabled={conflicts.size > 0}
+            onClick={() => onConfirm(mapping, saveForSupplier && supplier.trim() ? supplier.trim() : null)}
+          >
+            Aplicar mapeamento
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
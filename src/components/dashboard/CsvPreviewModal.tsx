@@ -0,0 +1,156 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import type { CsvColumnType, CsvDialect, CsvPreview } from '@/core';
+import { cn } from '@/lib/utils';
+
+interface CsvPreviewModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filename: string;
+  preview: CsvPreview;
+  loading: boolean;
+  onDialectChange: (dialect: CsvDialect) => void;
+  onConfirm: () => void;
+}
+
+const ENCODING_OPTIONS: { value: CsvDialect['encoding']; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 (ANSI)' },
+];
+
+const DELIMITER_OPTIONS: { value: string; label: string }[] = [
+  { value: ';', label: 'Ponto e vírgula (;)' },
+  { value: ',', label: 'Vírgula (,)' },
+  { value: '\t', label: 'Tabulação' },
+  { value: '|', label: 'Barra vertical (|)' },
+];
+
+const QUOTE_OPTIONS: { value: string; label: string }[] = [
+  { value: '"', label: 'Aspas duplas (")' },
+  { value: "'", label: "Aspas simples (')" },
+];
+
+const DECIMAL_OPTIONS: { value: CsvDialect['decimal']; label: string }[] = [
+  { value: ',', label: '1.234,56 (Brasil)' },
+  { value: '.', label: '1,234.56 (internacional)' },
+];
+
+const DATE_OPTIONS: { value: CsvDialect['dateFormat']; label: string }[] = [
+  { value: 'dmy', label: 'DD/MM/AAAA' },
+  { value: 'mdy', label: 'MM/DD/AAAA' },
+  { value: 'ymd', label: 'AAAA-MM-DD' },
+];
+
+const TYPE_LABELS: Record<CsvColumnType, string> = {
+  text: 'Texto',
+  number: 'Número',
+  date: 'Data',
+};
+
+export function CsvPreviewModal({
+  open,
+  onOpenChange,
+  filename,
+  preview,
+  loading,
+  onDialectChange,
+  onConfirm,
+}: CsvPreviewModalProps) {
+  const { dialect } = preview;
+
+  const renderSelect = <T extends string>(
+    label: string,
+    key: keyof CsvDialect,
+    options: { value: T; label: string }[]
+  ) => (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Select
+        value={dialect[key]}
+        onValueChange={(value) => onDialectChange({ ...dialect, [key]: value })}
+        disabled={loading}
+      >
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((o) => (
+            <SelectItem key={o.value} value={o.value} className="text-xs">{o.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Prévia da importação CSV</DialogTitle>
+          <DialogDescription>
+            Formato detectado automaticamente para {filename}. Ajuste se os acentos ou números aparecerem errados.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+          {renderSelect('Codificação', 'encoding', ENCODING_OPTIONS)}
+          {renderSelect('Separador', 'delimiter', DELIMITER_OPTIONS)}
+          {renderSelect('Aspas', 'quote', QUOTE_OPTIONS)}
+          {renderSelect('Números', 'decimal', DECIMAL_OPTIONS)}
+          {renderSelect('Datas', 'dateFormat', DATE_OPTIONS)}
+        </div>
+
+        <div className="relative rounded-lg border overflow-auto max-h-[360px]">
+          {loading && (
+            <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          )}
+          <table className="w-full text-xs border-collapse">
+            <thead className="sticky top-0 bg-muted">
+              <tr>
+                {preview.columns.map((col) => (
+                  <th key={col.name} className="px-3 py-2 text-left font-medium whitespace-nowrap">
+                    <div className="flex items-center gap-1.5">
+                      <span>{col.name}</span>
+                      <Badge
+                        variant="outline"
+                        className={cn('text-[10px] px-1 py-0', col.type !== 'text' && 'border-primary/40 text-primary')}
+                      >
+                        {TYPE_LABELS[col.type]}
+                      </Badge>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row, idx) => (
+                <tr key={idx} className="border-t">
+                  {preview.columns.map((col) => (
+                    <td key={col.name} className="px-3 py-1.5 whitespace-nowrap max-w-[220px] truncate">
+                      {col.type === 'number' && typeof row[col.name] === 'number'
+                        ? (row[col.name] as number).toLocaleString('pt-BR')
+                        : String(row[col.name] ?? '')}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button disabled={loading || preview.rowCount === 0} onClick={onConfirm}>
+            Importar {preview.rowCount.toLocaleString('pt-BR')} linhas
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Check, GitMerge, Lock, Undo2, X } from 'lucide-react';
+import {
+  suggestSurvivor,
+  type ColumnConfig,
+  type DuplicateResolution,
+  type DuplicateResult,
+  type ProductData,
+} from '@/core';
+import { cn } from '@/lib/utils';
+
+interface DuplicateResolutionModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  duplicates: DuplicateResult[];
+  data: ProductData[];
+  columns: string[];
+  columnConfig: Record<string, ColumnConfig>;
+  onApply: (resolutions: Record<number, DuplicateResolution>) => void;
+}
+
+const display = (value: unknown) => {
+  const text = String(value ?? '').trim();
+  return text || '—';
+};
+
+export function DuplicateResolutionModal({
+  open,
+  onOpenChange,
+  duplicates,
+  data,
+  columns,
+  columnConfig,
+  onApply,
+}: DuplicateResolutionModalProps) {
+  const [current, setCurrent] = useState(0);
+  const [resolutions, setResolutions] = useState<Record<number, DuplicateResolution>>({});
+  const [draft, setDraft] = useState<{ survivor: number; fieldSources: Record<string, number> } | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setCurrent(0);
+    setResolutions({});
+  }, [open]);
+
+  const group = duplicates[current];
+
+  // Start each group from its saved resolution or a suggested survivor
+  useEffect(() => {
+    if (!group) return;
+    const saved = resolutions[current];
+    setDraft(saved
+      ? { survivor: saved.survivor, fieldSources: saved.fieldSources }
+      : { survivor: suggestSurvivor(group.linhas, data), fieldSources: {} });
+  }, [current, group, data, resolutions]);
+
+  // Only columns whose values differ inside the group need a choice
+  const differing = useMemo(() => {
+    if (!group) return [];
+    return columns.filter(col => new Set(group.linhas.map(i => display(data[i]?.[col]))).size > 1);
+  }, [group, columns, data]);
+
+  const resolvedCount = Object.keys(resolutions).length;
+
+  const goNext = () => {
+    const next = duplicates.findIndex((_, i) => i > current && !resolutions[i]);
+    if (next !== -1) setCurrent(next);
+  };
+
+  const resolve = (action: DuplicateResolution['action']) => {
+    if (!draft) return;
+    setResolutions(prev => ({ ...prev, [current]: { action, ...draft } }));
+    goNext();
+  };
+
+  const clearResolution = () => {
+    setResolutions(prev => {
+      const next = { ...prev };
+      delete next[current];
+      return next;
+    });
+  };
+
+  const sourceFor = (col: string) => draft?.fieldSources[col] ?? draft?.survivor;
+
+  const pickField = (col: string, row: number) => {
+    if (columnConfig[col]?.isProtected) return;
+    setDraft(prev => (prev ? { ...prev, fieldSources: { ...prev.fieldSources, [col]: row } } : prev));
+  };
+
+  const statusBadge = (index: number) => {
+    const resolution = resolutions[index];
+    if (!resolution) return null;
+    return resolution.action === 'merge'
+      ? <Badge variant="outline" className="text-[10px] border-primary text-primary">Mesclar</Badge>
+      : <Badge variant="outline" className="text-[10px]">Não duplicado</Badge>;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Resolver duplicados</DialogTitle>
+          <DialogDescription>
+            Escolha a linha que permanece e, para cada coluna diferente, de qual linha vem o valor. Colunas protegidas mantêm o valor da linha escolhida.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[220px_1fr] gap-4 min-h-0 flex-1">
+          <ScrollArea className="h-[480px] border rounded-lg">
+            <div className="p-1 space-y-0.5">
+              {duplicates.map((dup, index) => (
+                <button
+                  key={index}
+                  onClick={() => setCurrent(index)}
+                  className={cn(
+                    'w-full text-left p-2 rounded text-xs hover:bg-muted/50',
+                    index === current && 'bg-muted'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-1">
+                    <span className="font-medium truncate">{dup.tipo}</span>
+                    {statusBadge(index)}
+                  </div>
+                  <p className="text-muted-foreground truncate">{dup.valor}</p>
+                  <p className="text-muted-foreground">{dup.linhas.length} linhas · {Math.round(dup.similaridade * 100)}%</p>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {group && draft && (
+            <div className="min-w-0 flex flex-col gap-3">
+              <div className="overflow-auto border rounded-lg max-h-[420px]">
+                <table className="w-full text-xs border-collapse">
+                  <thead className="sticky top-0 bg-muted">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Coluna</th>
+                      {group.linhas.map((row) => (
+                        <th key={row} className="px-3 py-2 text-left font-medium whitespace-nowrap">
+                          <button
+                            onClick={() => setDraft({ survivor: row, fieldSources: {} })}
+                            className={cn(
+                              'flex items-center gap-1.5 px-2 py-1 rounded border',
+                              draft.survivor === row ? 'border-primary text-primary' : 'border-transparent hover:border-border'
+                            )}
+                          >
+                            {draft.survivor === row && <Check className="h-3 w-3" />}
+                            Linha {row + 1}
+                          </button>
+                          {data[row]?.__source_file && (
+                            <p className="text-[10px] text-muted-foreground font-normal mt-0.5">{String(data[row].__source_file)}</p>
+                          )}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {differing.map((col) => {
+                      const isProtected = !!columnConfig[col]?.isProtected;
+                      return (
+                        <tr key={col} className="border-t">
+                          <td className="px-3 py-1.5 font-medium whitespace-nowrap">
+                            <span className="flex items-center gap-1">
+                              {isProtected && <Lock className="h-3 w-3 text-muted-foreground" />}
+                              {col}
+                            </span>
+                          </td>
+                          {group.linhas.map((row) => {
+                            const selected = isProtected ? row === draft.survivor : sourceFor(col) === row;
+                            return (
+                              <td key={row} className="px-1 py-1 max-w-[240px]">
+                                <button
+                                  disabled={isProtected}
+                                  onClick={() => pickField(col, row)}
+                                  className={cn(
+                                    'w-full text-left px-2 py-1 rounded truncate',
+                                    selected ? 'bg-primary/10 text-primary font-medium' : 'text-muted-foreground',
+                                    !isProtected && 'hover:bg-muted'
+                                  )}
+                                >
+                                  {display(data[row]?.[col])}
+                                </button>
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {columns.length - differing.length} colunas com valores iguais foram ocultadas.
+              </p>
+
+              <div className="flex items-center gap-2">
+                <Button size="sm" onClick={() => resolve('merge')} className="gap-1.5">
+                  <GitMerge className="h-4 w-4" /> Mesclar
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => resolve('not_duplicate')} className="gap-1.5">
+                  <X className="h-4 w-4" /> Não é duplicado
+                </Button>
+                {resolutions[current] && (
+                  <Button size="sm" variant="ghost" onClick={clearResolution} className="gap-1.5">
+                    <Undo2 className="h-4 w-4" /> Desfazer
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <span className="text-xs text-muted-foreground mr-auto self-center">
+            {resolvedCount} de {duplicates.length} grupos resolvidos
+          </span>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button disabled={resolvedCount === 0} onClick={() => onApply(resolutions)}>
+            Aplicar {resolvedCount} resolução(ões)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
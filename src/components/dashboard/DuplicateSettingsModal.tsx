@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { MIN_DUPLICATE_THRESHOLD, SIMILARITY_METRICS, type DuplicateOptions, type SimilarityMetric } from '@/core';
+
+interface DuplicateSettingsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  columns: string[];
+  options: DuplicateOptions;
+  onConfirm: (options: DuplicateOptions) => void;
+}
+
+export function DuplicateSettingsModal({
+  open,
+  onOpenChange,
+  columns,
+  options,
+  onConfirm,
+}: DuplicateSettingsModalProps) {
+  const [draft, setDraft] = useState<DuplicateOptions>(options);
+
+  useEffect(() => {
+    if (open) setDraft({ ...options, columns: options.columns.filter(c => columns.includes(c)) });
+  }, [open, options, columns]);
+
+  const toggleColumn = (column: string) => {
+    setDraft(prev => ({
+      ...prev,
+      columns: prev.columns.includes(column)
+        ? prev.columns.filter(c => c !== column)
+        : [...prev.columns, column]
+    }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Verificar duplicados</DialogTitle>
+          <DialogDescription>
+            SKUs repetidos são sempre apontados. Escolha como comparar os textos para encontrar produtos parecidos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Métrica de similaridade</Label>
+            <Select
+              value={draft.metric}
+              onValueChange={(value) => setDraft(prev => ({ ...prev, metric: value as SimilarityMetric }))}
+            >
+              <SelectTrigger className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SIMILARITY_METRICS) as SimilarityMetric[]).map((metric) => (
+                  <SelectItem key={metric} value={metric}>{SIMILARITY_METRICS[metric].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{SIMILARITY_METRICS[draft.metric].description}</p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Similaridade mínima</Label>
+              <span className="text-sm font-medium">{Math.round(draft.threshold * 100)}%</span>
+            </div>
+            <Slider
+              min={Math.round(MIN_DUPLICATE_THRESHOLD * 100)}
+              max={100}
+              step={1}
+              value={[Math.round(draft.threshold * 100)]}
+              onValueChange={([value]) => setDraft(prev => ({ ...prev, threshold: value / 100 }))}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">
+              Colunas comparadas {draft.columns.length === 0 && '(automático: descrição ou nome)'}
+            </Label>
+            <ScrollArea className="h-[180px] border rounded-lg">
+              <div className="p-2 space-y-1">
+                {columns.map((column) => (
+                  <label key={column} className="flex items-center gap-2 p-1.5 rounded hover:bg-muted/50 cursor-pointer">
+                    <Checkbox
+                      checked={draft.columns.includes(column)}
+                      onCheckedChange={() => toggleColumn(column)}
+                    />
+                    <span className="text-sm truncate">{column}</span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button onClick={() => onConfirm(draft)}>Verificar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Download, ListChecks } from 'lucide-react';
+import {
+  FISCAL_ERROR_LABELS,
+  FISCAL_FIELD_LABELS,
+  fiscalIssuesToRows,
+  exportToExcel,
+  type FiscalErrorCode,
+  type FiscalIssue,
+  type ProductData,
+} from '@/core';
+import { cn } from '@/lib/utils';
+
+// Rows rendered in the table; the export carries all of them
+const VISIBLE_ROWS = 300;
+
+interface FiscalValidationModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  data: ProductData[];
+  columns: string[];
+  issues: FiscalIssue[];
+  // Whether NCMs were checked against ncm_cache, not only their format
+  checkedReference: boolean;
+  onSelectRows: (rows: number[], label: string) => void;
+}
+
+export function FiscalValidationModal({
+  open,
+  onOpenChange,
+  data,
+  columns,
+  issues,
+  checkedReference,
+  onSelectRows,
+}: FiscalValidationModalProps) {
+  const [codeFilter, setCodeFilter] = useState<FiscalErrorCode | null>(null);
+
+  useEffect(() => {
+    if (open) setCodeFilter(null);
+  }, [open]);
+
+  const counts = useMemo(() => issues.reduce<Partial<Record<FiscalErrorCode, number>>>((acc, issue) => {
+    acc[issue.code] = (acc[issue.code] || 0) + 1;
+    return acc;
+  }, {}), [issues]);
+
+  const shown = useMemo(
+    () => (codeFilter ? issues.filter(issue => issue.code === codeFilter) : issues),
+    [issues, codeFilter]
+  );
+
+  const shownRows = useMemo(() => [...new Set(shown.map(issue => issue.row))], [shown]);
+
+  const productLabel = (row: number) => {
+    const column = columns.find(col => /^nome$|^descri[cç][aã]o$/i.test(col.trim()));
+    return column ? String(data[row]?.[column] ?? '') : `Linha ${row + 1}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Validação fiscal</DialogTitle>
+          <DialogDescription>
+            {issues.length} erro(s) em {new Set(issues.map(issue => issue.row)).size} produto(s) nos campos NCM, CEST, origem e unidade.
+            O CEST é conferido contra o NCM pelos itens do Convênio ICMS 142/18 incluídos no app; os demais, só no formato.
+            {!checkedReference && ' Sem a base NCM sincronizada (ou sem login), só o formato do NCM foi conferido.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(FISCAL_ERROR_LABELS) as FiscalErrorCode[])
+            .filter(code => counts[code])
+            .map(code => (
+              <Badge
+                key={code}
+                variant={codeFilter === code ? 'default' : 'secondary'}
+                className="cursor-pointer"
+                onClick={() => setCodeFilter(prev => (prev === code ? null : code))}
+              >
+                {FISCAL_ERROR_LABELS[code]}: {counts[code]}
+              </Badge>
+            ))}
+        </div>
+
+        <div className="overflow-auto border rounded-lg min-h-0 flex-1">
+          <table className="w-full text-xs border-collapse">
+            <thead className="sticky top-0 bg-muted">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">Linha</th>
+                <th className="px-3 py-2 text-left font-medium">Produto</th>
+                <th className="px-3 py-2 text-left font-medium">Campo</th>
+                <th className="px-3 py-2 text-left font-medium">Valor</th>
+                <th className="px-3 py-2 text-left font-medium">Erro</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.slice(0, VISIBLE_ROWS).map(issue => (
+                <tr key={`${issue.row}-${issue.field}`} className="border-t">
+                  <td className="px-3 py-1.5 text-muted-foreground">{issue.row + 1}</td>
+                  <td className="px-3 py-1.5 max-w-[320px] truncate">{productLabel(issue.row)}</td>
+                  <td className="px-3 py-1.5 whitespace-nowrap">{FISCAL_FIELD_LABELS[issue.field]}</td>
+                  <td className="px-3 py-1.5 font-mono">{issue.value || '—'}</td>
+                  <td className={cn('px-3 py-1.5 whitespace-nowrap', issue.code.endsWith('_missing') ? 'text-warning' : 'text-destructive')}>
+                    {FISCAL_ERROR_LABELS[issue.code]}
+                  </td>
+                </tr>
+              ))}
+              {shown.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-3 py-8 text-center text-muted-foreground">
+                    Nenhum erro fiscal encontrado
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        {shown.length > VISIBLE_ROWS && (
+          <p className="text-xs text-muted-foreground">
+            Mostrando {VISIBLE_ROWS} de {shown.length}; o relatório exportado traz todos.
+          </p>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            className="gap-1.5"
+            disabled={shown.length === 0}
+            onClick={() => exportToExcel(fiscalIssuesToRows(data, columns, shown), 'ultradata_fiscal')}
+          >
+            <Download className="h-4 w-4" />
+            Exportar relatório
+          </Button>
+          <Button
+            className="gap-1.5"
+            disabled={shownRows.length === 0}
+            onClick={() => onSelectRows(shownRows, codeFilter ? FISCAL_ERROR_LABELS[codeFilter] : 'Erros fiscais')}
+          >
+            <ListChecks className="h-4 w-4" />
+            Selecionar {shownRows.length} produto(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { MeasureProposal, ProductData } from '@/core';
+import { cn } from '@/lib/utils';
+
+// Rows rendered in the review table; the rest follow their column's checkbox
+const VISIBLE_ROWS = 300;
+
+interface MeasurementsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  proposals: MeasureProposal[];
+  data: ProductData[];
+  columns: string[];
+  onApply: (accepted: MeasureProposal[]) => void;
+}
+
+export function MeasurementsModal({
+  open,
+  onOpenChange,
+  proposals,
+  data,
+  columns,
+  onApply,
+}: MeasurementsModalProps) {
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+  const [excludedColumns, setExcludedColumns] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!open) return;
+    setRejected(new Set());
+    setExcludedColumns(new Set());
+  }, [open, proposals]);
+
+  const nameColumn = columns.find(col => /^nome$|descri[cç][aã]o/i.test(col.trim()));
+
+  const countsByColumn = useMemo(() => {
+    const counts = new Map<string, number>();
+    proposals.forEach(p => counts.set(p.column, (counts.get(p.column) || 0) + 1));
+    return [...counts.entries()];
+  }, [proposals]);
+
+  const isAccepted = (index: number) =>
+    !rejected.has(index) && !excludedColumns.has(proposals[index].column);
+  const acceptedCount = proposals.filter((_, i) => isAccepted(i)).length;
+
+  const toggle = <T,>(set: Set<T>, value: T) => {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value);
+    else next.add(value);
+    return next;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Extrair medidas do nome</DialogTitle>
+          <DialogDescription>
+            Valores lidos do nome e da descrição para colunas vazias: pesos em kg, volumes em litros e dimensões em cm. Revise antes de aplicar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-3">
+          {countsByColumn.map(([column, count]) => (
+            <label key={column} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={!excludedColumns.has(column)}
+                onCheckedChange={() => setExcludedColumns(prev => toggle(prev, column))}
+              />
+              {column}
+              <Badge variant="secondary" className="text-[10px]">{count}</Badge>
+              {!columns.includes(column) && <Badge variant="outline" className="text-[10px]">nova coluna</Badge>}
+            </label>
+          ))}
+        </div>
+
+        <div className="overflow-auto border rounded-lg min-h-0 flex-1 max-h-[460px]">
+          <table className="w-full text-xs border-collapse">
+            <thead className="sticky top-0 bg-muted">
+              <tr>
+                <th className="px-3 py-2 w-8" />
+                <th className="px-3 py-2 text-left font-medium">Linha</th>
+                <th className="px-3 py-2 text-left font-medium">Produto</th>
+                <th className="px-3 py-2 text-left font-medium">Trecho</th>
+                <th className="px-3 py-2 text-left font-medium">Coluna</th>
+                <th className="px-3 py-2 text-left font-medium">Valor</th>
+              </tr>
+            </thead>
+            <tbody>
+              {proposals.slice(0, VISIBLE_ROWS).map((proposal, index) => {
+                const accepted = isAccepted(index);
+                return (
+                  <tr key={index} className={cn('border-t', !accepted && 'opacity-50')}>
+                    <td className="px-3 py-1.5">
+                      <Checkbox
+                        checked={accepted}
+                        disabled={excludedColumns.has(proposal.column)}
+                        onCheckedChange={() => setRejected(prev => toggle(prev, index))}
+                      />
+                    </td>
+                    <td className="px-3 py-1.5 text-muted-foreground">{proposal.row + 1}</td>
+                    <td className="px-3 py-1.5 max-w-[280px] truncate">
+                      {nameColumn ? String(data[proposal.row]?.[nameColumn] ?? '') : '—'}
+                    </td>
+                    <td className="px-3 py-1.5 font-mono text-muted-foreground whitespace-nowrap">{proposal.source}</td>
+                    <td className="px-3 py-1.5 whitespace-nowrap">{proposal.column}</td>
+                    <td className="px-3 py-1.5 font-medium whitespace-nowrap">{proposal.value}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        {proposals.length > VISIBLE_ROWS && (
+          <p className="text-xs text-muted-foreground">
+            Mostrando {VISIBLE_ROWS} de {proposals.length} propostas; as demais seguem a seleção da coluna.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            disabled={acceptedCount === 0}
+            onClick={() => onApply(proposals.filter((_, i) => isAccepted(i)))}
+          >
+            Aplicar {acceptedCount} valor(es)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
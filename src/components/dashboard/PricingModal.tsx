@@ -0,0 +1,322 @@
+import { useState, useEffect, useMemo, useDeferredValue } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Download, Plus, Trash2 } from 'lucide-react';
+import {
+  PRICING_SCOPE_LABELS,
+  PRICING_MODE_LABELS,
+  PRICE_ROUNDING_LABELS,
+  PRICE_ISSUE_LABELS,
+  createPricingRule,
+  getPricingColumns,
+  validatePrices,
+  planRepricing,
+  repricingToRows,
+  priceIssuesToRows,
+  exportToExcel,
+  type PriceChange,
+  type PriceIssueStatus,
+  type PriceRounding,
+  type PricingMode,
+  type PricingRule,
+  type PricingScope,
+  type ProductData,
+} from '@/core';
+import { cn } from '@/lib/utils';
+
+// Rows rendered in each table; exports carry all of them
+const VISIBLE_ROWS = 300;
+
+interface PricingModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  columns: string[];
+  data: ProductData[];
+  rules: PricingRule[];
+  minMargin: number;
+  onSave: (rules: PricingRule[], minMargin: number) => void;
+  onApply: (changes: PriceChange[], rules: PricingRule[], minMargin: number) => void;
+}
+
+const currency = (value: number | null) =>
+  value === null ? '—' : value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const percent = (value: number | null) =>
+  value === null ? '—' : `${value.toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`;
+
+export function PricingModal({
+  open,
+  onOpenChange,
+  columns,
+  data,
+  rules,
+  minMargin,
+  onSave,
+  onApply,
+}: PricingModalProps) {
+  const [draft, setDraft] = useState<PricingRule[]>([]);
+  const [draftMinMargin, setDraftMinMargin] = useState(minMargin);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(rules.length > 0 ? rules : [createPricingRule()]);
+    setDraftMinMargin(minMargin);
+  }, [open, rules, minMargin]);
+
+  const pricingColumns = getPricingColumns(columns);
+
+  const matchOptions = useMemo(() => {
+    const distinct = (column?: string) => column
+      ? [...new Set(data.map(row => String(row[column] ?? '').trim()).filter(Boolean))].sort().slice(0, 300)
+      : [];
+    return { brand: distinct(pricingColumns.brand), category: distinct(pricingColumns.category) };
+  }, [data, pricingColumns.brand, pricingColumns.category]);
+
+  const deferredDraft = useDeferredValue(draft);
+  const deferredMinMargin = useDeferredValue(draftMinMargin);
+  const issues = useMemo(() => validatePrices(data, columns, deferredMinMargin), [data, columns, deferredMinMargin]);
+  const plan = useMemo(() => planRepricing(data, columns, deferredDraft), [data, columns, deferredDraft]);
+
+  const issueCounts = issues.reduce<Partial<Record<PriceIssueStatus, number>>>((acc, issue) => {
+    acc[issue.status] = (acc[issue.status] || 0) + 1;
+    return acc;
+  }, {});
+  const lowMarginPlan = plan.filter(change => change.proposedMargin < draftMinMargin).length;
+
+  const updateRule = (id: string, patch: Partial<PricingRule>) => {
+    setDraft(prev => prev.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const productLabel = (row: number) => {
+    const column = columns.find(col => /^nome$|^descri[cç][aã]o$/i.test(col.trim()));
+    return column ? String(data[row]?.[column] ?? '') : `Linha ${row + 1}`;
+  };
+
+  if (!pricingColumns.cost) {
+    return (
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Preços e margens</DialogTitle>
+            <DialogDescription>
+              A planilha não tem coluna de custo ("Preço de Custo", "Preço Custo" ou "Custo"), necessária para calcular margens.
+            </DialogDescription>
+          </DialogHeader>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Preços e margens</DialogTitle>
+          <DialogDescription>
+            Margem calculada sobre o preço de venda: (preço − custo) ÷ preço. Custo em "{pricingColumns.cost}"
+            {pricingColumns.price && `, preço em "${pricingColumns.price}"`}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Label className="text-sm">Margem mínima</Label>
+          <Input
+            type="number"
+            min={0}
+            max={99}
+            value={draftMinMargin}
+            onChange={(e) => setDraftMinMargin(Number(e.target.value) || 0)}
+            className="h-9 w-24 text-sm"
+          />
+          <span className="text-sm text-muted-foreground">%</span>
+        </div>
+
+        <Tabs defaultValue="validation" className="min-h-0 flex-1 flex flex-col">
+          <TabsList className="w-fit">
+            <TabsTrigger value="validation">Validação ({issues.length})</TabsTrigger>
+            <TabsTrigger value="repricing">Reprecificação ({plan.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="validation" className="space-y-3 min-h-0 overflow-auto">
+            <div className="flex flex-wrap items-center gap-2">
+              {(Object.keys(PRICE_ISSUE_LABELS) as PriceIssueStatus[]).map(status => (
+                <Badge key={status} variant={status === 'below_cost' ? 'destructive' : 'secondary'}>
+                  {PRICE_ISSUE_LABELS[status]}: {issueCounts[status] || 0}
+                </Badge>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                className="ml-auto gap-1.5"
+                disabled={issues.length === 0}
+                onClick={() => exportToExcel(priceIssuesToRows(data, columns, issues), 'ultradata_margens')}
+              >
+                <Download className="h-4 w-4" />
+                Exportar relatório
+              </Button>
+            </div>
+            <div className="overflow-auto border rounded-lg max-h-[420px]">
+              <table className="w-full text-xs border-collapse">
+                <thead className="sticky top-0 bg-muted">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">Linha</th>
+                    <th className="px-3 py-2 text-left font-medium">Produto</th>
+                    <th className="px-3 py-2 text-left font-medium">Problema</th>
+                    <th className="px-3 py-2 text-right font-medium">Custo</th>
+                    <th className="px-3 py-2 text-right font-medium">Preço</th>
+                    <th className="px-3 py-2 text-right font-medium">Margem</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {issues.slice(0, VISIBLE_ROWS).map(issue => (
+                    <tr key={issue.row} className="border-t">
+                      <td className="px-3 py-1.5 text-muted-foreground">{issue.row + 1}</td>
+                      <td className="px-3 py-1.5 max-w-[320px] truncate">{productLabel(issue.row)}</td>
+                      <td className={cn('px-3 py-1.5 whitespace-nowrap', issue.status === 'below_cost' ? 'text-destructive' : 'text-warning')}>
+                        {PRICE_ISSUE_LABELS[issue.status]}
+                      </td>
+                      <td className="px-3 py-1.5 text-right">{currency(issue.cost)}</td>
+                      <td className="px-3 py-1.5 text-right">{currency(issue.price)}</td>
+                      <td className="px-3 py-1.5 text-right">{percent(issue.margin)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="repricing" className="space-y-3 min-h-0 overflow-auto">
+            <datalist id="pricing-brands">
+              {matchOptions.brand.map(value => <option key={value} value={value} />)}
+            </datalist>
+            <datalist id="pricing-categories">
+              {matchOptions.category.map(value => <option key={value} value={value} />)}
+            </datalist>
+
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Cada produto usa a regra da sua marca; sem ela, a da categoria mais específica; sem ela, a regra para todos.
+              </p>
+              {draft.map(rule => (
+                <div key={rule.id} className={cn('grid grid-cols-[150px_1fr_190px_90px_170px_auto_auto] gap-2 items-center', !rule.enabled && 'opacity-50')}>
+                  <Select value={rule.scope} onValueChange={(scope) => updateRule(rule.id, { scope: scope as PricingScope })}>
+                    <SelectTrigger className="h-9 text-sm"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(PRICING_SCOPE_LABELS) as PricingScope[]).map(s => (
+                        <SelectItem key={s} value={s}>{PRICING_SCOPE_LABELS[s]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    list={rule.scope === 'brand' ? 'pricing-brands' : 'pricing-categories'}
+                    value={rule.match}
+                    disabled={rule.scope === 'all'}
+                    placeholder={rule.scope === 'brand' ? 'Marca' : rule.scope === 'category' ? 'Categoria' : ''}
+                    onChange={(e) => updateRule(rule.id, { match: e.target.value })}
+                    className="h-9 text-sm"
+                  />
+                  <Select value={rule.mode} onValueChange={(mode) => updateRule(rule.id, { mode: mode as PricingMode })}>
+                    <SelectTrigger className="h-9 text-sm"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(PRICING_MODE_LABELS) as PricingMode[]).map(m => (
+                        <SelectItem key={m} value={m}>{PRICING_MODE_LABELS[m]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      value={rule.value}
+                      onChange={(e) => updateRule(rule.id, { value: Number(e.target.value) || 0 })}
+                      className={cn('h-9 text-sm', rule.mode === 'margin' && rule.value >= 100 && 'border-destructive')}
+                    />
+                    <span className="text-sm text-muted-foreground">%</span>
+                  </div>
+                  <Select value={rule.rounding} onValueChange={(rounding) => updateRule(rule.id, { rounding: rounding as PriceRounding })}>
+                    <SelectTrigger className="h-9 text-sm"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(PRICE_ROUNDING_LABELS) as PriceRounding[]).map(r => (
+                        <SelectItem key={r} value={r}>{PRICE_ROUNDING_LABELS[r]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Switch checked={rule.enabled} onCheckedChange={(enabled) => updateRule(rule.id, { enabled })} />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDraft(prev => prev.filter(r => r.id !== rule.id))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" className="gap-1.5" onClick={() => setDraft(prev => [...prev, createPricingRule('category')])}>
+                <Plus className="h-4 w-4" />
+                Adicionar regra
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <p className="text-xs text-muted-foreground">{plan.length} preço(s) alterado(s)</p>
+              {lowMarginPlan > 0 && (
+                <span className="flex items-center gap-1 text-xs text-warning">
+                  <AlertTriangle className="h-3 w-3" />
+                  {lowMarginPlan} ficam abaixo da margem mínima
+                </span>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                className="ml-auto gap-1.5"
+                disabled={plan.length === 0}
+                onClick={() => exportToExcel(repricingToRows(data, columns, plan), 'ultradata_reprecificacao')}
+              >
+                <Download className="h-4 w-4" />
+                Exportar plano
+              </Button>
+            </div>
+            <div className="overflow-auto border rounded-lg max-h-[260px]">
+              <table className="w-full text-xs border-collapse">
+                <thead className="sticky top-0 bg-muted">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">Linha</th>
+                    <th className="px-3 py-2 text-left font-medium">Produto</th>
+                    <th className="px-3 py-2 text-right font-medium">Custo</th>
+                    <th className="px-3 py-2 text-right font-medium">Preço atual</th>
+                    <th className="px-3 py-2 text-right font-medium">Novo preço</th>
+                    <th className="px-3 py-2 text-right font-medium">Margem</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.slice(0, VISIBLE_ROWS).map(change => (
+                    <tr key={change.row} className="border-t">
+                      <td className="px-3 py-1.5 text-muted-foreground">{change.row + 1}</td>
+                      <td className="px-3 py-1.5 max-w-[300px] truncate">{productLabel(change.row)}</td>
+                      <td className="px-3 py-1.5 text-right">{currency(change.cost)}</td>
+                      <td className="px-3 py-1.5 text-right text-muted-foreground">{currency(change.current)}</td>
+                      <td className="px-3 py-1.5 text-right font-medium">{currency(change.proposed)}</td>
+                      <td className={cn('px-3 py-1.5 text-right whitespace-nowrap', change.proposedMargin < draftMinMargin && 'text-warning')}>
+                        {percent(change.currentMargin)} → {percent(change.proposedMargin)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button variant="outline" onClick={() => onSave(draft, draftMinMargin)}>Salvar regras</Button>
+          <Button disabled={plan.length === 0} onClick={() => onApply(plan, draft, draftMinMargin)}>
+            Aplicar {plan.length} preço(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
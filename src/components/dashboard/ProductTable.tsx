@@ -1,17 +1,26 @@
-import { useState, useMemo } from 'react';
-import { Settings2, CheckSquare, Square, ChevronDown, ChevronUp, Edit3, MoreVertical, Tags, EyeOff } from 'lucide-react';
+import { useState, useMemo, useEffect } from 'react';
+import { Settings2, CheckSquare, Square, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, Edit3, MoreVertical, Tags, EyeOff, Layers } from 'lucide-react';
 // Table components replaced with native elements to avoid double-scroll-container conflict
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Badge } from '@/components/ui/badge';
+import { FISCAL_ERROR_LABELS, GTIN_STATUS_LABELS, isGtinColumn, normalizeGtin, type FiscalIssue } from '@/core';
 import { cn } from '@/lib/utils';
 
 export interface ProductRow {
   [key: string]: string | number | null | undefined;
 }
 
+// Parent product shown collapsed over its variation rows
+export interface VariantRowGroup {
+  name: string;
+  attributes: string[];
+  parent?: ProductRow;
+  rows: ProductRow[];
+}
+
 interface ProductTableProps {
   data: ProductRow[];
   columns: string[];
@@ -25,8 +34,16 @@ interface ProductTableProps {
   ncmSuggestions?: Record<string, { codigo: string; descricao: string; relevancia: number }[]>;
   onCorrectNcm?: (rowIndex: number) => void;
   onViewCanonicalTags?: (productId: string, productName: string) => void;
+  variantGroups?: VariantRowGroup[];
+  // Fiscal errors of the last validation, by row
+  fiscalIssues?: Map<ProductRow, FiscalIssue[]>;
+  // Changes when another dataset is loaded or the filters change; edits keep it
+  viewKey?: string;
 }
 
+// Rows rendered per page; large catalogs would block the main thread if rendered at once
+const PAGE_SIZE = 100;
+
 export function ProductTable({
   data,
   columns,
@@ -40,9 +57,19 @@ export function ProductTable({
   ncmSuggestions,
   onCorrectNcm,
   onViewCanonicalTags,
+  variantGroups = [],
+  fiscalIssues,
+  viewKey,
 }: ProductTableProps) {
   const [sortColumn, setSortColumn] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [page, setPage] = useState(0);
+  const [expanded, setExpanded] = useState<Set<VariantRowGroup>>(new Set());
+
+  // Back to the first page for another dataset, filter or sort; edits, undo and merges stay on the page
+  useEffect(() => {
+    setPage(0);
+  }, [viewKey, sortColumn, sortDirection]);
 
   const sortedData = useMemo(() => {
     if (!sortColumn) return data;
@@ -54,6 +81,52 @@ export function ProductTable({
     });
   }, [data, sortColumn, sortDirection]);
 
+  // Position of each row in `data`, which is what selection and NCM edits refer to
+  const rowIndex = useMemo(() => new Map(data.map((row, i) => [row, i])), [data]);
+
+  // Variations collapse into their parent, at the position of the first one
+  const entries = useMemo(() => {
+    const groupOf = new Map<ProductRow, VariantRowGroup>();
+    variantGroups.forEach(group => {
+      [group.parent, ...group.rows].forEach(row => { if (row) groupOf.set(row, group); });
+    });
+    if (groupOf.size === 0) return sortedData.map(row => ({ row }));
+
+    const shown = new Set<VariantRowGroup>();
+    const list: ({ row: ProductRow; child?: boolean } | { group: VariantRowGroup })[] = [];
+    sortedData.forEach(row => {
+      const group = groupOf.get(row);
+      if (!group) {
+        list.push({ row });
+        return;
+      }
+      if (shown.has(group)) return;
+      shown.add(group);
+      list.push({ group });
+      if (expanded.has(group)) {
+        [group.parent, ...group.rows]
+          .filter((r): r is ProductRow => !!r && rowIndex.has(r))
+          .forEach(r => list.push({ row: r, child: true }));
+      }
+    });
+    return list;
+  }, [sortedData, variantGroups, expanded, rowIndex]);
+
+  const toggleGroup = (group: VariantRowGroup) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(group)) next.delete(group);
+      else next.add(group);
+      return next;
+    });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(entries.length / PAGE_SIZE));
+  // Merges and undos can shrink the table under the current page
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageStart = currentPage * PAGE_SIZE;
+  const pageEntries = entries.slice(pageStart, pageStart + PAGE_SIZE);
+
   const handleSort = (col: string) => {
     if (sortColumn === col) {
       setSortDirection(d => (d === 'asc' ? 'desc' : 'asc'));
@@ -131,12 +204,45 @@ export function ProductTable({
                 </td>
               </tr>
             ) : (
-              sortedData.map((row, idx) => (
+              pageEntries.map((entry) => {
+                if ('group' in entry) {
+                  const { group } = entry;
+                  const isOpen = expanded.has(group);
+                  return (
+                    <tr
+                      key={`group-${rowIndex.get(group.rows[0]) ?? group.name}`}
+                      className="border-b bg-muted/30 hover:bg-muted/50 cursor-pointer"
+                      onClick={() => toggleGroup(group)}
+                    >
+                      <td className="p-4 align-middle">
+                        {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </td>
+                      <td className="p-4 align-middle text-muted-foreground">
+                        <Layers className="h-4 w-4" />
+                      </td>
+                      <td colSpan={visibleColumns.length + 1} className="p-4 align-middle">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">{group.name}</span>
+                          <Badge variant="secondary">{group.rows.length} variações</Badge>
+                          {group.attributes.length > 0 && (
+                            <span className="text-xs text-muted-foreground">{group.attributes.join(' · ')}</span>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                }
+
+                const { row, child } = entry;
+                const idx = rowIndex.get(row) ?? 0;
+                const rowFiscalIssues = fiscalIssues?.get(row);
+                return (
                 <tr
                   key={idx}
                   className={cn(
                     "border-b transition-colors hover:bg-muted/50",
-                    selectedRows.has(idx) && "bg-primary/5"
+                    selectedRows.has(idx) && "bg-primary/5",
+                    child && "bg-muted/10"
                   )}
                 >
                   <td className="p-4 align-middle">
@@ -145,7 +251,20 @@ export function ProductTable({
                       onCheckedChange={() => onToggleRow(idx)}
                     />
                   </td>
-                  <td className="p-4 align-middle text-muted-foreground text-xs">{idx + 1}</td>
+                  <td className={cn("p-4 align-middle text-muted-foreground text-xs", child && "pl-8")}>
+                    <div className="flex items-center gap-1.5">
+                      {idx + 1}
+                      {rowFiscalIssues && (
+                        <Badge
+                          variant="destructive"
+                          className="px-1.5 py-0 text-[10px] cursor-help"
+                          title={rowFiscalIssues.map(issue => `${issue.column}: ${FISCAL_ERROR_LABELS[issue.code]}`).join('\n')}
+                        >
+                          Fiscal {rowFiscalIssues.length}
+                        </Badge>
+                      )}
+                    </div>
+                  </td>
                   {visibleColumns.map((col) => {
                     const value = row[col];
                     const isNcm = isNcmColumn(col);
@@ -208,6 +327,21 @@ export function ProductTable({
                       );
                     }
 
+                    if (isGtinColumn(col)) {
+                      const { status } = normalizeGtin(value);
+                      const flagged = status !== 'valid' && status !== 'empty';
+                      return (
+                        <td key={col} className="p-4 align-middle">
+                          <span
+                            className={cn("text-sm font-mono truncate block max-w-[200px]", flagged && "text-destructive")}
+                            title={flagged ? GTIN_STATUS_LABELS[status] : undefined}
+                          >
+                            {flagged && '⚠️ '}{value != null && value !== '' ? String(value) : '—'}
+                          </span>
+                        </td>
+                      );
+                    }
+
                     const isLongField = /nome|descri|observa/i.test(col);
                     return (
                       <td key={col} className="p-4 align-middle">
@@ -255,14 +389,30 @@ export function ProductTable({
                     </DropdownMenu>
                   </td>
                 </tr>
-              ))
+                );
+              })
             )}
           </tbody>
         </table>
       </div>
-      <p className="text-xs text-muted-foreground text-right">
-        {data.length} produto{data.length !== 1 ? 's' : ''} encontrado{data.length !== 1 ? 's' : ''}
-      </p>
+      <div className="flex items-center justify-end gap-3">
+        {pageCount > 1 && (
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" className="h-7 w-7" disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              Página {currentPage + 1} de {pageCount}
+            </span>
+            <Button variant="ghost" size="icon" className="h-7 w-7" disabled={currentPage >= pageCount - 1} onClick={() => setPage(currentPage + 1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {data.length} produto{data.length !== 1 ? 's' : ''} encontrado{data.length !== 1 ? 's' : ''}
+        </p>
+      </div>
     </div>
   );
 }
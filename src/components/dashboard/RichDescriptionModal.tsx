@@ -0,0 +1,312 @@
+import { useState, useEffect, useMemo, useDeferredValue } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ChevronLeft, ChevronRight, Code2, Copy, Download, Eye } from 'lucide-react';
+import {
+  buildDescriptions,
+  sanitizeDescriptions,
+  descriptionsToRows,
+  looksLikeHtml,
+  exportToExcel,
+  type DescriptionPreview,
+  type DescriptionTemplate,
+  type ProductData,
+} from '@/core';
+
+// Sanitize previews listed at once; applying covers every cell
+const VISIBLE_ROWS = 50;
+const NONE = '__none__';
+
+// Styles for the rendered preview, close to how a product page shows it
+const PREVIEW_CLASSES =
+  'text-sm space-y-2 [&_h2]:text-base [&_h2]:font-semibold [&_h3]:font-semibold [&_h3]:mt-3 [&_h4]:font-medium ' +
+  '[&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_a]:text-primary [&_a]:underline ' +
+  '[&_table]:w-full [&_table]:border [&_th]:border [&_td]:border [&_th]:bg-muted [&_th]:text-left [&_th]:px-2 [&_td]:px-2 [&_th]:py-1 [&_td]:py-1';
+
+interface RichDescriptionModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  columns: string[];
+  data: ProductData[];
+  template: DescriptionTemplate;
+  onSaveTemplate: (template: DescriptionTemplate) => void;
+  onApply: (previews: DescriptionPreview[], column: string, label: string) => void;
+  onCopy: (html: string) => void;
+}
+
+// Output of sanitizeHtml / renderDescription only, never raw cell values
+const HtmlPreview = ({ html, mode }: { html: string; mode: 'rendered' | 'code' }) =>
+  mode === 'code' ? (
+    <pre className="text-xs font-mono whitespace-pre-wrap break-all">{html}</pre>
+  ) : (
+    <div className={PREVIEW_CLASSES} dangerouslySetInnerHTML={{ __html: html }} />
+  );
+
+const ColumnChecklist = ({
+  columns,
+  selected,
+  onChange,
+}: {
+  columns: string[];
+  selected: string[];
+  onChange: (columns: string[]) => void;
+}) => (
+  <ScrollArea className="h-32 border rounded-lg">
+    <div className="p-2 space-y-1">
+      {columns.map(col => (
+        <label key={col} className="flex items-center gap-2 text-xs cursor-pointer">
+          <Checkbox
+            checked={selected.includes(col)}
+            onCheckedChange={checked =>
+              onChange(checked ? [...selected, col] : selected.filter(c => c !== col))
+            }
+          />
+          <span className="truncate">{col}</span>
+        </label>
+      ))}
+    </div>
+  </ScrollArea>
+);
+
+export function RichDescriptionModal({
+  open,
+  onOpenChange,
+  columns,
+  data,
+  template,
+  onSaveTemplate,
+  onApply,
+  onCopy,
+}: RichDescriptionModalProps) {
+  const [tab, setTab] = useState<'build' | 'sanitize'>('build');
+  const [draft, setDraft] = useState<DescriptionTemplate>(template);
+  const [position, setPosition] = useState(0);
+  const [mode, setMode] = useState<'rendered' | 'code'>('rendered');
+  const [sanitizeColumn, setSanitizeColumn] = useState('');
+
+  // Columns where at least one cell has HTML, the candidates for sanitizing
+  const htmlColumns = useMemo(
+    () => columns.filter(col => data.some(row => typeof row[col] === 'string' && looksLikeHtml(row[col] as string))),
+    [columns, data]
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(template);
+    setPosition(0);
+    setSanitizeColumn(htmlColumns[0] ?? '');
+  }, [open, template, htmlColumns]);
+
+  const deferredDraft = useDeferredValue(draft);
+  const built = useMemo(() => buildDescriptions(data, deferredDraft), [data, deferredDraft]);
+  const sanitized = useMemo(
+    () => (sanitizeColumn ? sanitizeDescriptions(data, sanitizeColumn) : []),
+    [data, sanitizeColumn]
+  );
+
+  useEffect(() => {
+    setPosition(0);
+  }, [built.length]);
+
+  const current = built[Math.min(position, built.length - 1)];
+  const targetColumn = draft.targetColumn.trim();
+
+  const update = (patch: Partial<DescriptionTemplate>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const productLabel = (row: number) => {
+    const column = columns.find(col => /^nome$|^descri[cç][aã]o$/i.test(col.trim()));
+    return column ? String(data[row]?.[column] ?? '') : `Linha ${row + 1}`;
+  };
+
+  const columnSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value || NONE} onValueChange={v => onChange(v === NONE ? '' : v)}>
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>Nenhuma</SelectItem>
+        {columns.map(col => <SelectItem key={col} value={col}>{col}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Descrição complementar em HTML</DialogTitle>
+          <DialogDescription>
+            Gera a descrição a partir de um modelo ou limpa o HTML colado de fornecedores. Só tags de formatação permitidas pelo Bling são mantidas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={v => setTab(v as 'build' | 'sanitize')} className="flex flex-col min-h-0 flex-1">
+          <TabsList className="self-start">
+            <TabsTrigger value="build">Gerar descrição ({built.length})</TabsTrigger>
+            <TabsTrigger value="sanitize">Sanitizar HTML ({sanitized.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="build" className="min-h-0 overflow-auto">
+            <datalist id="rich-description-columns">
+              {columns.map(col => <option key={col} value={col} />)}
+            </datalist>
+            <div className="grid grid-cols-[300px_1fr] gap-4">
+              <div className="space-y-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Coluna de destino</Label>
+                  <Input
+                    list="rich-description-columns"
+                    value={draft.targetColumn}
+                    onChange={e => update({ targetColumn: e.target.value })}
+                    className="h-8 text-xs"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Parágrafo de abertura</Label>
+                  {columnSelect(draft.introColumn, introColumn => update({ introColumn }))}
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Características (lista)</Label>
+                  <ColumnChecklist
+                    columns={columns}
+                    selected={draft.attributeColumns}
+                    onChange={attributeColumns => update({ attributeColumns })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Especificações técnicas (tabela)</Label>
+                  <ColumnChecklist
+                    columns={columns}
+                    selected={draft.specColumns}
+                    onChange={specColumns => update({ specColumns })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Conteúdo da embalagem</Label>
+                  {columnSelect(draft.packageColumn, packageColumn => update({ packageColumn }))}
+                  <Input
+                    value={draft.packageText}
+                    onChange={e => update({ packageText: e.target.value })}
+                    placeholder="Se vazia: 1 produto; 1 manual"
+                    className="h-8 text-xs"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2 min-w-0">
+                <div className="flex items-center gap-2">
+                  <Button variant="ghost" size="icon" className="h-7 w-7" disabled={position === 0} onClick={() => setPosition(p => p - 1)}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <span className="text-xs text-muted-foreground">
+                    {built.length > 0 ? `${Math.min(position, built.length - 1) + 1} de ${built.length}` : 'Nenhuma descrição'}
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" disabled={position >= built.length - 1} onClick={() => setPosition(p => p + 1)}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                  {current && <span className="text-xs font-medium truncate">{productLabel(current.row)}</span>}
+                  <div className="ml-auto flex items-center gap-1">
+                    <Button variant={mode === 'rendered' ? 'secondary' : 'ghost'} size="sm" className="h-7 gap-1" onClick={() => setMode('rendered')}>
+                      <Eye className="h-3.5 w-3.5" /> Visualizar
+                    </Button>
+                    <Button variant={mode === 'code' ? 'secondary' : 'ghost'} size="sm" className="h-7 gap-1" onClick={() => setMode('code')}>
+                      <Code2 className="h-3.5 w-3.5" /> HTML
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-7 gap-1" disabled={!current} onClick={() => current && onCopy(current.after)}>
+                      <Copy className="h-3.5 w-3.5" /> Copiar
+                    </Button>
+                  </div>
+                </div>
+                <div className="border rounded-lg p-4 h-[440px] overflow-auto">
+                  {current ? (
+                    <HtmlPreview html={current.after} mode={mode} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Escolha ao menos uma coluna; produtos sem nenhum valor nas colunas escolhidas ficam sem descrição.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="sanitize" className="space-y-3 min-h-0 overflow-auto">
+            <div className="flex items-center gap-2">
+              <Label className="text-xs shrink-0">Coluna</Label>
+              <Select value={sanitizeColumn} onValueChange={setSanitizeColumn}>
+                <SelectTrigger className="h-8 text-xs w-[280px]">
+                  <SelectValue placeholder="Nenhuma coluna com HTML" />
+                </SelectTrigger>
+                <SelectContent>
+                  {htmlColumns.map(col => <SelectItem key={col} value={col}>{col}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Badge variant="secondary">{sanitized.length} célula(s) alteradas</Badge>
+            </div>
+            <div className="space-y-2">
+              {sanitized.slice(0, VISIBLE_ROWS).map(preview => (
+                <div key={preview.row} className="border rounded-lg p-2 space-y-1">
+                  <p className="text-xs font-medium truncate">
+                    <span className="text-muted-foreground mr-2">{preview.row + 1}</span>
+                    {productLabel(preview.row)}
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <pre className="text-[11px] font-mono whitespace-pre-wrap break-all bg-destructive/5 rounded p-2 max-h-40 overflow-auto">{preview.before}</pre>
+                    <pre className="text-[11px] font-mono whitespace-pre-wrap break-all bg-success/10 rounded p-2 max-h-40 overflow-auto">{preview.after}</pre>
+                  </div>
+                </div>
+              ))}
+              {sanitized.length > VISIBLE_ROWS && (
+                <p className="text-xs text-muted-foreground">Mostrando {VISIBLE_ROWS} de {sanitized.length}.</p>
+              )}
+              {sanitizeColumn && sanitized.length === 0 && (
+                <p className="text-sm text-muted-foreground py-6 text-center">O HTML desta coluna já está limpo.</p>
+              )}
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          {tab === 'build' ? (
+            <>
+              <Button
+                variant="outline"
+                className="gap-1.5"
+                disabled={built.length === 0}
+                onClick={() => exportToExcel(descriptionsToRows(data, columns, built), 'ultradata_descricoes')}
+              >
+                <Download className="h-4 w-4" />
+                Exportar
+              </Button>
+              <Button variant="outline" onClick={() => onSaveTemplate(draft)}>Salvar modelo</Button>
+              <Button
+                disabled={built.length === 0 || !targetColumn}
+                onClick={() => {
+                  onSaveTemplate(draft);
+                  onApply(built, targetColumn, 'Gerar descrição HTML');
+                }}
+              >
+                Aplicar {built.length} descrição(ões)
+              </Button>
+            </>
+          ) : (
+            <Button
+              disabled={sanitized.length === 0}
+              onClick={() => onApply(sanitized, sanitizeColumn, 'Sanitizar HTML')}
+            >
+              Sanitizar {sanitized.length} célula(s)
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
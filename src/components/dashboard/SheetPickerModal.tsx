@@ -0,0 +1,123 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { FileSpreadsheet, AlertTriangle } from 'lucide-react';
+import { alignSheetHeaders, type SheetSummary } from '@/core';
+import { cn } from '@/lib/utils';
+
+interface SheetPickerModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filename: string;
+  sheets: SheetSummary[];
+  onConfirm: (sheetNames: string[]) => void;
+}
+
+export function SheetPickerModal({
+  open,
+  onOpenChange,
+  filename,
+  sheets,
+  onConfirm,
+}: SheetPickerModalProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  // Preselect every sheet that has data when the modal opens
+  useEffect(() => {
+    if (open) setSelected(sheets.filter(s => s.rowCount > 0).map(s => s.name));
+  }, [open, sheets]);
+
+  const selectedSheets = useMemo(
+    () => sheets.filter(s => selected.includes(s.name)),
+    [sheets, selected]
+  );
+
+  const alignment = useMemo(() => alignSheetHeaders(selectedSheets), [selectedSheets]);
+  const partialColumns = alignment.filter(a => a.sheets.length < selectedSheets.length);
+  const totalRows = selectedSheets.reduce((sum, s) => sum + s.rowCount, 0);
+
+  const toggleSheet = (name: string) => {
+    setSelected(prev => (prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Selecionar abas da planilha</DialogTitle>
+          <DialogDescription>
+            {filename} contém {sheets.length} abas. As abas selecionadas serão unidas em uma única tabela.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setSelected(sheets.map(s => s.name))}>Marcar todas</Button>
+          <Button variant="outline" size="sm" onClick={() => setSelected([])}>Desmarcar todas</Button>
+        </div>
+
+        <div className="space-y-2">
+          {sheets.map((sheet) => (
+            <div
+              key={sheet.name}
+              className={cn(
+                'flex items-center gap-3 p-3 rounded-lg border transition-colors',
+                selected.includes(sheet.name) ? 'border-primary/40 bg-primary/5' : 'border-border'
+              )}
+            >
+              <Checkbox
+                id={`sheet-${sheet.name}`}
+                checked={selected.includes(sheet.name)}
+                onCheckedChange={() => toggleSheet(sheet.name)}
+              />
+              <FileSpreadsheet className="h-4 w-4 text-muted-foreground shrink-0" />
+              <Label htmlFor={`sheet-${sheet.name}`} className="flex-1 text-sm cursor-pointer truncate">
+                {sheet.name}
+              </Label>
+              <Badge variant="secondary">{sheet.rowCount.toLocaleString('pt-BR')} linhas</Badge>
+              <Badge variant="outline">{sheet.headers.length} colunas</Badge>
+            </div>
+          ))}
+        </div>
+
+        {selectedSheets.length > 1 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              Alinhamento de colunas ({alignment.length} colunas no resultado)
+            </p>
+            {partialColumns.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Todas as abas selecionadas têm as mesmas colunas.</p>
+            ) : (
+              <>
+                <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                  <AlertTriangle className="h-3.5 w-3.5 text-warning" />
+                  {partialColumns.length} colunas não existem em todas as abas e ficarão vazias nas demais.
+                </p>
+                <ScrollArea className="h-[160px] border rounded-lg">
+                  <div className="p-2 space-y-1">
+                    {partialColumns.map((col) => (
+                      <div key={col.column} className="flex items-center justify-between text-xs p-1.5 rounded bg-muted/50">
+                        <span className="font-medium truncate">{col.column}</span>
+                        <span className="text-muted-foreground truncate ml-2">{col.sheets.join(', ')}</span>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button disabled={selected.length === 0} onClick={() => onConfirm(selected)}>
+            Importar {totalRows.toLocaleString('pt-BR')} linhas
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
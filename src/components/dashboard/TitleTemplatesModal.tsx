@@ -0,0 +1,355 @@
+import { useState, useEffect, useMemo, useDeferredValue } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import {
+  TEXT_CASING_LABELS,
+  createTitleTemplate,
+  getTemplateFields,
+  getTemplateError,
+  getTitleColumn,
+  normalizeHeader,
+  renderTitles,
+  type ProductData,
+  type TextCasing,
+  type TitleTemplate,
+} from '@/core';
+import type { UserPreset } from '@/hooks/useUserPresets';
+import { cn } from '@/lib/utils';
+
+// Preview runs on every edit; larger sheets are sampled
+const PREVIEW_ROWS = 5000;
+const SAMPLE_ROWS = 50;
+
+interface TitleTemplatesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  columns: string[];
+  data: ProductData[];
+  templates: TitleTemplate[];
+  presets: UserPreset[];
+  canSaveToPreset: boolean;
+  onSave: (templates: TitleTemplate[], apply: boolean) => void;
+  onSaveToPreset: (name: string, templates: TitleTemplate[]) => Promise<boolean>;
+}
+
+const words = (text: string) => new Set(text.toLocaleLowerCase('pt-BR').split(/\s+/).filter(Boolean));
+
+// Words only in `text` are highlighted: removed ones in "Antes", added ones in "Depois"
+const DiffText = ({ text, other, kind }: { text: string; other: string; kind: 'removed' | 'added' }) => {
+  const otherWords = words(other);
+  return (
+    <>
+      {text.split(/(\s+)/).map((part, i) => {
+        if (!part.trim() || otherWords.has(part.toLocaleLowerCase('pt-BR'))) return part;
+        return (
+          <span
+            key={i}
+            className={kind === 'added' ? 'bg-success/20 rounded-sm' : 'line-through text-destructive/80'}
+          >
+            {part}
+          </span>
+        );
+      })}
+    </>
+  );
+};
+
+export function TitleTemplatesModal({
+  open,
+  onOpenChange,
+  columns,
+  data,
+  templates,
+  presets,
+  canSaveToPreset,
+  onSave,
+  onSaveToPreset,
+}: TitleTemplatesModalProps) {
+  const [draft, setDraft] = useState<TitleTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(templates);
+    setSelectedId(templates[0]?.id ?? null);
+  }, [open, templates]);
+
+  const titleColumn = getTitleColumn(columns);
+  const sample = useMemo(() => data.slice(0, PREVIEW_ROWS), [data]);
+
+  const categories = useMemo(() => {
+    const column = columns.find(col => /categoria|category/i.test(col));
+    if (!column) return [];
+    return [...new Set(sample.map(row => String(row[column] ?? '').trim()).filter(Boolean))].sort().slice(0, 200);
+  }, [columns, sample]);
+
+  const deferredDraft = useDeferredValue(draft);
+  const preview = useMemo(
+    () => renderTitles(sample, columns, deferredDraft, titleColumn),
+    [sample, columns, deferredDraft, titleColumn]
+  );
+  const countsByTemplate = useMemo(() => {
+    const counts: Record<string, number> = {};
+    preview.forEach(p => { counts[p.templateId] = (counts[p.templateId] || 0) + 1; });
+    return counts;
+  }, [preview]);
+
+  const selected = draft.find(t => t.id === selectedId);
+  const selectedFields = selected ? getTemplateFields(selected.template) : [];
+
+  const updateTemplate = (id: string, patch: Partial<TitleTemplate>) => {
+    setDraft(prev => prev.map(t => (t.id === id ? { ...t, ...patch } : t)));
+  };
+
+  const addTemplate = () => {
+    // The first template covers every category; later ones are meant for a specific one
+    const template = createTitleTemplate(draft.length === 0 ? '' : categories[0] ?? '');
+    setDraft(prev => [...prev, template]);
+    setSelectedId(template.id);
+  };
+
+  const removeTemplate = (id: string) => {
+    setDraft(prev => prev.filter(t => t.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const insertField = (template: TitleTemplate, column: string) => {
+    const separator = template.template && !template.template.endsWith(' ') ? ' ' : '';
+    updateTemplate(template.id, { template: `${template.template}${separator}{${column}}` });
+  };
+
+  const loadPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+    setDraft(preset.titleTemplates);
+    setSelectedId(preset.titleTemplates[0]?.id ?? null);
+    setPresetName(preset.name);
+  };
+
+  const handleSaveToPreset = async () => {
+    if (await onSaveToPreset(presetName.trim(), draft)) setPresetName('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Modelos de título</DialogTitle>
+          <DialogDescription>
+            Monta a coluna "{titleColumn}" a partir das colunas de atributos. Cada produto usa o modelo da categoria mais específica que o contém; o modelo sem categoria vale para os demais.
+          </DialogDescription>
+        </DialogHeader>
+
+        <datalist id="title-template-categories">
+          {categories.map(category => <option key={category} value={category} />)}
+        </datalist>
+
+        <div className="grid grid-cols-[260px_1fr] gap-4 min-h-0 flex-1">
+          <div className="flex flex-col gap-2 min-h-0">
+            <ScrollArea className="h-[360px] border rounded-lg">
+              <div className="p-1 space-y-0.5">
+                {draft.length === 0 && (
+                  <p className="p-3 text-xs text-muted-foreground">Nenhum modelo. Adicione o primeiro abaixo.</p>
+                )}
+                {draft.map(template => {
+                  const error = getTemplateError(template, columns);
+                  return (
+                    <div
+                      key={template.id}
+                      onClick={() => setSelectedId(template.id)}
+                      className={cn(
+                        'p-2 rounded text-xs cursor-pointer hover:bg-muted/50',
+                        template.id === selectedId && 'bg-muted',
+                        !template.enabled && 'opacity-50'
+                      )}
+                    >
+                      <div className="flex items-center gap-1">
+                        <span className="font-medium truncate flex-1">{template.category || 'Todas as categorias'}</span>
+                        {error
+                          ? <AlertTriangle className="h-3 w-3 text-warning shrink-0" />
+                          : <Badge variant="outline" className="text-[10px]">{countsByTemplate[template.id] || 0}</Badge>}
+                      </div>
+                      <p className="text-muted-foreground truncate mt-1 font-mono">{error || template.template}</p>
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+            <Button variant="outline" size="sm" onClick={addTemplate} className="gap-1.5">
+              <Plus className="h-4 w-4" />
+              Adicionar modelo
+            </Button>
+            {presets.length > 0 && (
+              <Select value="" onValueChange={loadPreset}>
+                <SelectTrigger className="h-9 text-sm">
+                  <SelectValue placeholder="Carregar modelos de um preset" />
+                </SelectTrigger>
+                <SelectContent>
+                  {presets.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name} ({p.titleTemplates.length} modelos)</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="min-w-0 flex flex-col gap-3 overflow-auto">
+            {selected ? (
+              <div className="space-y-3 border rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">Modelo</p>
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Switch checked={selected.enabled} onCheckedChange={(enabled) => updateTemplate(selected.id, { enabled })} />
+                      Ativo
+                    </label>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeTemplate(selected.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-[1fr_140px] gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Categoria (vazio para todas)</Label>
+                    <Input
+                      list="title-template-categories"
+                      value={selected.category}
+                      onChange={(e) => updateTemplate(selected.id, { category: e.target.value })}
+                      className="h-9 text-sm"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Tamanho máximo</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={selected.maxLength}
+                      onChange={(e) => updateTemplate(selected.id, { maxLength: Math.max(0, Number(e.target.value) || 0) })}
+                      className="h-9 text-sm"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">
+                    Modelo: colunas entre chaves; trechos entre colchetes somem quando o campo está vazio e são cortados primeiro
+                  </Label>
+                  <Input
+                    value={selected.template}
+                    onChange={(e) => updateTemplate(selected.id, { template: e.target.value })}
+                    className="h-9 text-sm font-mono"
+                  />
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    {columns.filter(col => col !== titleColumn).map(col => (
+                      <Badge
+                        key={col}
+                        variant="outline"
+                        className="text-[10px] cursor-pointer hover:bg-muted"
+                        onClick={() => insertField(selected, col)}
+                      >
+                        + {col}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                {selectedFields.length > 0 && (
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Maiúsculas e minúsculas por campo</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {selectedFields.map(field => (
+                        <div key={field} className="flex items-center gap-2">
+                          <span className={cn(
+                            'text-sm truncate w-28',
+                            !columns.some(col => normalizeHeader(col) === normalizeHeader(field)) && 'text-warning'
+                          )}>
+                            {field}
+                          </span>
+                          <Select
+                            value={selected.fieldCasing[field] ?? 'none'}
+                            onValueChange={(casing) => updateTemplate(selected.id, {
+                              fieldCasing: { ...selected.fieldCasing, [field]: casing as TextCasing }
+                            })}
+                          >
+                            <SelectTrigger className="h-8 text-xs flex-1"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(TEXT_CASING_LABELS) as TextCasing[]).map(c => (
+                                <SelectItem key={c} value={c}>{TEXT_CASING_LABELS[c]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground p-3">Selecione um modelo para editar.</p>
+            )}
+
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                Prévia: {preview.length} título(s) alterado(s)
+                {data.length > PREVIEW_ROWS && ` nas primeiras ${PREVIEW_ROWS.toLocaleString('pt-BR')} linhas`}
+              </p>
+              <div className="overflow-auto border rounded-lg max-h-[240px]">
+                <table className="w-full text-xs border-collapse">
+                  <thead className="sticky top-0 bg-muted">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Linha</th>
+                      <th className="px-3 py-2 text-left font-medium">Antes</th>
+                      <th className="px-3 py-2 text-left font-medium">Depois</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.slice(0, SAMPLE_ROWS).map(title => (
+                      <tr key={title.row} className="border-t align-top">
+                        <td className="px-3 py-1.5 text-muted-foreground">{title.row + 1}</td>
+                        <td className="px-3 py-1.5 text-muted-foreground">
+                          {title.before ? <DiffText text={title.before} other={title.after} kind="removed" /> : '—'}
+                        </td>
+                        <td className="px-3 py-1.5 font-medium">
+                          <DiffText text={title.after} other={title.before} kind="added" />
+                          <span className="ml-2 text-[10px] text-muted-foreground">{title.after.length}</span>
+                          {title.missing.length > 0 && (
+                            <p className="text-[10px] font-normal text-warning">Sem: {title.missing.join(', ')}</p>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {canSaveToPreset && (
+            <div className="flex items-center gap-2 mr-auto">
+              <Input
+                placeholder="Nome do preset"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                className="h-9 w-48 text-sm"
+              />
+              <Button variant="outline" disabled={!presetName.trim()} onClick={handleSaveToPreset}>
+                Salvar no preset
+              </Button>
+            </div>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button variant="outline" onClick={() => onSave(draft, false)}>Salvar modelos</Button>
+          <Button onClick={() => onSave(draft, true)}>Salvar e aplicar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
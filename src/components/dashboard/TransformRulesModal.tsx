@@ -0,0 +1,452 @@
+import { useState, useEffect, useMemo, useDeferredValue } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import {
+  RULE_TYPE_LABELS,
+  RULE_CONDITION_LABELS,
+  TEXT_CASING_LABELS,
+  createTransformRule,
+  getRuleError,
+  parseLookupTable,
+  formatLookupTable,
+  previewTransformRules,
+  type ColumnConfig,
+  type ProductData,
+  type RuleCondition,
+  type TextCasing,
+  type TransformRule,
+  type TransformRuleType,
+} from '@/core';
+import type { UserPreset } from '@/hooks/useUserPresets';
+import { cn } from '@/lib/utils';
+
+// Preview runs on every edit; larger sheets are sampled
+const PREVIEW_ROWS = 5000;
+
+interface TransformRulesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  columns: string[];
+  data: ProductData[];
+  columnConfig: Record<string, ColumnConfig>;
+  rules: TransformRule[];
+  presets: UserPreset[];
+  canSaveToPreset: boolean;
+  onSave: (rules: TransformRule[], apply: boolean) => void;
+  onSaveToPreset: (name: string, rules: TransformRule[]) => Promise<boolean>;
+}
+
+const display = (value: unknown) => {
+  const text = String(value ?? '').trim();
+  return text || '—';
+};
+
+export function TransformRulesModal({
+  open,
+  onOpenChange,
+  columns,
+  data,
+  columnConfig,
+  rules,
+  presets,
+  canSaveToPreset,
+  onSave,
+  onSaveToPreset,
+}: TransformRulesModalProps) {
+  const [draft, setDraft] = useState<TransformRule[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState('');
+  // Lookup tables are edited as text and parsed as the user types
+  const [lookupText, setLookupText] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(rules);
+    setSelectedId(rules[0]?.id ?? null);
+    setLookupText({});
+  }, [open, rules]);
+
+  const deferredDraft = useDeferredValue(draft);
+  const preview = useMemo(
+    () => previewTransformRules(data.slice(0, PREVIEW_ROWS), deferredDraft, columnConfig),
+    [data, deferredDraft, columnConfig]
+  );
+
+  const selected = draft.find(r => r.id === selectedId);
+
+  const updateRule = (id: string, patch: Partial<TransformRule>) => {
+    setDraft(prev => prev.map(r => (r.id === id ? { ...r, ...patch } as TransformRule : r)));
+  };
+
+  const addRule = (type: TransformRuleType) => {
+    const rule = createTransformRule(type, columns[0] ?? '');
+    setDraft(prev => [...prev, rule]);
+    setSelectedId(rule.id);
+  };
+
+  const removeRule = (id: string) => {
+    setDraft(prev => prev.filter(r => r.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    setDraft(prev => {
+      const next = [...prev];
+      const [rule] = next.splice(index, 1);
+      next.splice(index + offset, 0, rule);
+      return next;
+    });
+  };
+
+  const loadPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+    setDraft(preset.transformRules);
+    setSelectedId(preset.transformRules[0]?.id ?? null);
+    setPresetName(preset.name);
+  };
+
+  const handleSaveToPreset = async () => {
+    if (await onSaveToPreset(presetName.trim(), draft)) setPresetName('');
+  };
+
+  const ruleLabel = (rule: TransformRule) => {
+    switch (rule.type) {
+      case 'concat': return `${rule.sources.join(' + ') || '…'} → ${rule.column || '…'}`;
+      case 'lookup': return `${rule.source || '…'} → ${rule.column || '…'}`;
+      case 'conditional_fill': return `se ${rule.when.column || '…'} ${RULE_CONDITION_LABELS[rule.when.condition]} → ${rule.column || '…'}`;
+      default: return rule.column || '…';
+    }
+  };
+
+  const columnSelect = (value: string, onChange: (column: string) => void) => (
+    <Select value={value || undefined} onValueChange={onChange}>
+      <SelectTrigger className="h-9 text-sm">
+        <SelectValue placeholder="Escolha a coluna" />
+      </SelectTrigger>
+      <SelectContent>
+        {columns.map(col => <SelectItem key={col} value={col}>{col}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+
+  // Target columns accept a new name, created when the rules run
+  const targetInput = (rule: TransformRule) => (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">Coluna de destino</Label>
+      <Input
+        list="transform-rule-columns"
+        value={rule.column}
+        onChange={(e) => updateRule(rule.id, { column: e.target.value })}
+        className="h-9 text-sm"
+      />
+      {columnConfig[rule.column]?.isProtected && (
+        <p className="text-xs text-warning">Coluna protegida: a regra não altera seus valores.</p>
+      )}
+    </div>
+  );
+
+  const renderEditor = (rule: TransformRule) => {
+    switch (rule.type) {
+      case 'replace':
+        return (
+          <>
+            {targetInput(rule)}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Localizar (regex)</Label>
+                <Input value={rule.pattern} onChange={(e) => updateRule(rule.id, { pattern: e.target.value })} className="h-9 text-sm font-mono" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Substituir por ($1, $2…)</Label>
+                <Input value={rule.replacement} onChange={(e) => updateRule(rule.id, { replacement: e.target.value })} className="h-9 text-sm font-mono" />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={rule.ignoreCase} onCheckedChange={(v) => updateRule(rule.id, { ignoreCase: v === true })} />
+              Ignorar maiúsculas e minúsculas
+            </label>
+          </>
+        );
+      case 'conditional_fill':
+        return (
+          <>
+            <div className="grid grid-cols-[1fr_160px_1fr] gap-2 items-end">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Se a coluna</Label>
+                {columnSelect(rule.when.column, (column) => updateRule(rule.id, { when: { ...rule.when, column } }))}
+              </div>
+              <Select
+                value={rule.when.condition}
+                onValueChange={(condition) => updateRule(rule.id, { when: { ...rule.when, condition: condition as RuleCondition } })}
+              >
+                <SelectTrigger className="h-9 text-sm"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RULE_CONDITION_LABELS) as RuleCondition[]).map(c => (
+                    <SelectItem key={c} value={c}>{RULE_CONDITION_LABELS[c]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={rule.when.value}
+                disabled={rule.when.condition === 'empty' || rule.when.condition === 'not_empty'}
+                onChange={(e) => updateRule(rule.id, { when: { ...rule.when, value: e.target.value } })}
+                className="h-9 text-sm"
+              />
+            </div>
+            {targetInput(rule)}
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Valor</Label>
+              <Input value={rule.value} onChange={(e) => updateRule(rule.id, { value: e.target.value })} className="h-9 text-sm" />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={rule.overwrite} onCheckedChange={(v) => updateRule(rule.id, { overwrite: v === true })} />
+              Sobrescrever valores já preenchidos
+            </label>
+          </>
+        );
+      case 'concat':
+        return (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Colunas, na ordem em que são unidas</Label>
+              <ScrollArea className="h-[140px] border rounded-lg">
+                <div className="p-2 space-y-1">
+                  {columns.map(col => {
+                    const position = rule.sources.indexOf(col);
+                    return (
+                      <label key={col} className="flex items-center gap-2 p-1 rounded hover:bg-muted/50 cursor-pointer text-sm">
+                        <Checkbox
+                          checked={position !== -1}
+                          onCheckedChange={() => updateRule(rule.id, {
+                            sources: position !== -1 ? rule.sources.filter(c => c !== col) : [...rule.sources, col]
+                          })}
+                        />
+                        <span className="truncate flex-1">{col}</span>
+                        {position !== -1 && <Badge variant="secondary" className="text-[10px]">{position + 1}</Badge>}
+                      </label>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Separador</Label>
+              <Input value={rule.separator} onChange={(e) => updateRule(rule.id, { separator: e.target.value })} className="h-9 text-sm font-mono" />
+            </div>
+            {targetInput(rule)}
+          </>
+        );
+      case 'trim_case':
+        return (
+          <>
+            {targetInput(rule)}
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={rule.trim} onCheckedChange={(v) => updateRule(rule.id, { trim: v === true })} />
+              Remover espaços extras
+            </label>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Maiúsculas e minúsculas</Label>
+              <Select value={rule.casing} onValueChange={(casing) => updateRule(rule.id, { casing: casing as TextCasing })}>
+                <SelectTrigger className="h-9 text-sm"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TEXT_CASING_LABELS) as TextCasing[]).map(c => (
+                    <SelectItem key={c} value={c}>{TEXT_CASING_LABELS[c]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        );
+      case 'lookup':
+        return (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Procurar o valor da coluna</Label>
+              {columnSelect(rule.source, (source) => updateRule(rule.id, { source }))}
+            </div>
+            {targetInput(rule)}
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Tabela, uma linha por valor: original = novo</Label>
+              <Textarea
+                rows={6}
+                value={lookupText[rule.id] ?? formatLookupTable(rule.table)}
+                onChange={(e) => {
+                  setLookupText(prev => ({ ...prev, [rule.id]: e.target.value }));
+                  updateRule(rule.id, { table: parseLookupTable(e.target.value) });
+                }}
+                className="text-sm font-mono"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={rule.keepUnmatched} onCheckedChange={(v) => updateRule(rule.id, { keepUnmatched: v === true })} />
+              Manter o valor quando não estiver na tabela
+            </label>
+          </>
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Regras de transformação</DialogTitle>
+          <DialogDescription>
+            As regras rodam de cima para baixo, depois da limpeza das colunas; cada uma vê o resultado das anteriores. Colunas protegidas não são alteradas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <datalist id="transform-rule-columns">
+          {columns.map(col => <option key={col} value={col} />)}
+        </datalist>
+
+        <div className="grid grid-cols-[280px_1fr] gap-4 min-h-0 flex-1">
+          <div className="flex flex-col gap-2 min-h-0">
+            <ScrollArea className="h-[360px] border rounded-lg">
+              <div className="p-1 space-y-0.5">
+                {draft.length === 0 && (
+                  <p className="p-3 text-xs text-muted-foreground">Nenhuma regra. Adicione a primeira abaixo.</p>
+                )}
+                {draft.map((rule, index) => {
+                  const error = getRuleError(rule);
+                  return (
+                    <div
+                      key={rule.id}
+                      onClick={() => setSelectedId(rule.id)}
+                      className={cn(
+                        'p-2 rounded text-xs cursor-pointer hover:bg-muted/50',
+                        rule.id === selectedId && 'bg-muted',
+                        !rule.enabled && 'opacity-50'
+                      )}
+                    >
+                      <div className="flex items-center gap-1">
+                        <span className="text-muted-foreground w-4">{index + 1}.</span>
+                        <span className="font-medium truncate flex-1">{RULE_TYPE_LABELS[rule.type]}</span>
+                        {error
+                          ? <AlertTriangle className="h-3 w-3 text-warning shrink-0" />
+                          : <Badge variant="outline" className="text-[10px]">{preview.changesByRule[rule.id] || 0}</Badge>}
+                      </div>
+                      <div className="flex items-center gap-1 mt-1 pl-5">
+                        <span className="text-muted-foreground truncate flex-1">{error || ruleLabel(rule)}</span>
+                        <Button variant="ghost" size="icon" className="h-5 w-5" disabled={index === 0}
+                          onClick={(e) => { e.stopPropagation(); moveRule(index, -1); }}>
+                          <ArrowUp className="h-3 w-3" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-5 w-5" disabled={index === draft.length - 1}
+                          onClick={(e) => { e.stopPropagation(); moveRule(index, 1); }}>
+                          <ArrowDown className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+            <Select value="" onValueChange={(type) => addRule(type as TransformRuleType)}>
+              <SelectTrigger className="h-9 text-sm">
+                <span className="flex items-center gap-1.5"><Plus className="h-4 w-4" /> Adicionar regra</span>
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RULE_TYPE_LABELS) as TransformRuleType[]).map(type => (
+                  <SelectItem key={type} value={type}>{RULE_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {presets.length > 0 && (
+              <Select value="" onValueChange={loadPreset}>
+                <SelectTrigger className="h-9 text-sm">
+                  <SelectValue placeholder="Carregar regras de um preset" />
+                </SelectTrigger>
+                <SelectContent>
+                  {presets.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name} ({p.transformRules.length} regras)</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="min-w-0 flex flex-col gap-3 overflow-auto">
+            {selected ? (
+              <div className="space-y-3 border rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">{RULE_TYPE_LABELS[selected.type]}</p>
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Switch checked={selected.enabled} onCheckedChange={(enabled) => updateRule(selected.id, { enabled })} />
+                      Ativa
+                    </label>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeRule(selected.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {renderEditor(selected)}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground p-3">Selecione uma regra para editar.</p>
+            )}
+
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                Prévia: {preview.affectedRows} linha(s) alterada(s)
+                {data.length > PREVIEW_ROWS && ` nas primeiras ${PREVIEW_ROWS.toLocaleString('pt-BR')}`}
+              </p>
+              <div className="overflow-auto border rounded-lg max-h-[220px]">
+                <table className="w-full text-xs border-collapse">
+                  <thead className="sticky top-0 bg-muted">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Linha</th>
+                      <th className="px-3 py-2 text-left font-medium">Coluna</th>
+                      <th className="px-3 py-2 text-left font-medium">Antes</th>
+                      <th className="px-3 py-2 text-left font-medium">Depois</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.samples.map((change, i) => (
+                      <tr key={i} className="border-t">
+                        <td className="px-3 py-1.5 text-muted-foreground">{change.row + 1}</td>
+                        <td className="px-3 py-1.5 whitespace-nowrap">{change.column}</td>
+                        <td className="px-3 py-1.5 text-muted-foreground max-w-[240px] truncate">{display(change.before)}</td>
+                        <td className="px-3 py-1.5 font-medium max-w-[240px] truncate">{display(change.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {canSaveToPreset && (
+            <div className="flex items-center gap-2 mr-auto">
+              <Input
+                placeholder="Nome do preset"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                className="h-9 w-48 text-sm"
+              />
+              <Button variant="outline" disabled={!presetName.trim()} onClick={handleSaveToPreset}>
+                Salvar no preset
+              </Button>
+            </div>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button variant="outline" onClick={() => onSave(draft, false)}>Salvar regras</Button>
+          <Button onClick={() => onSave(draft, true)}>Salvar e aplicar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,6 +10,8 @@ import { Switch } from '@/components/ui/switch';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import type { PromptSettings } from '@/core/types';
+import type { NcmVerificacao } from '@/types/ultradata';
 
 interface EnrichmentOptions {
   nome: boolean;
@@ -24,6 +26,9 @@ interface EnrichmentResult {
   nome_padronizado?: string;
   descricao_enriquecida?: string;
   categoria_inferida?: string;
+  // Only with an active category tree: closest paths, and the model's category when it is not in the tree
+  categoria_alternativas?: { caminho: string; pontuacao: number }[];
+  categoria_proposta?: string | null;
   marca_inferida?: string;
   origem_inferida?: string;
   ncm_sugerido?: {
@@ -32,11 +37,13 @@ interface EnrichmentResult {
     confianca: 'alta' | 'media' | 'baixa';
     observacao: string;
   };
+  ncm_verificacao?: NcmVerificacao;
   status_inferencia?: {
     necessita_revisao: boolean;
     razao: string;
   };
   tempo_processamento_ms?: number;
+  prompt_versao?: number;
 }
 
 interface UltraDataEnrichmentModalProps {
@@ -44,6 +51,8 @@ interface UltraDataEnrichmentModalProps {
   onClose: () => void;
   userId?: string;
   onEnrichmentComplete?: (result: EnrichmentResult) => void;
+  // Prompt version or custom system prompt chosen in the preset
+  promptSettings?: PromptSettings;
 }
 
 const DEFAULT_OPTIONS: EnrichmentOptions = {
@@ -60,6 +69,7 @@ const UltraDataEnrichmentModal = ({
   onClose,
   userId,
   onEnrichmentComplete,
+  promptSettings,
 }: UltraDataEnrichmentModalProps) => {
   const { toast } = useToast();
   const [productName, setProductName] = useState('');
@@ -92,6 +102,7 @@ const UltraDataEnrichmentModal = ({
         body: {
           produto,
           user_id: userId,
+          prompt: promptSettings?.enriquecer_produto,
         },
       });
 
@@ -111,7 +122,7 @@ const UltraDataEnrichmentModal = ({
 
       toast({
         title: 'Enriquecimento concluído!',
-        description: `Processado em ${data.tempo_processamento_ms}ms via DeepSeek`,
+        description: `Processado em ${data.tempo_processamento_ms}ms via DeepSeek${data.prompt_versao ? ` (prompt v${data.prompt_versao})` : ''}`,
       });
     } catch (err) {
       console.error('Erro no enriquecimento:', err);
@@ -283,6 +294,31 @@ const UltraDataEnrichmentModal = ({
                         onCopy={() => copyToClipboard(result.categoria_inferida!)}
                       />
                     )}
+                    {!result.categoria_inferida && options.categoria &&
+                      (result.categoria_proposta || (result.categoria_alternativas?.length ?? 0) > 0) && (
+                      <div className="p-3 rounded-lg border border-amber-500/30 bg-amber-500/5 space-y-2">
+                        <Label className="text-xs text-muted-foreground uppercase tracking-wider">Categoria</Label>
+                        {result.categoria_proposta && (
+                          <p className="text-sm">
+                            <span className="font-medium">{result.categoria_proposta}</span>
+                            <span className="text-muted-foreground"> não existe na sua árvore de categorias e foi registrada como proposta.</span>
+                          </p>
+                        )}
+                        {(result.categoria_alternativas?.length ?? 0) > 0 && (
+                          <div className="space-y-1">
+                            <p className="text-xs text-muted-foreground">Categorias mais próximas:</p>
+                            {result.categoria_alternativas!.map(alt => (
+                              <div key={alt.caminho} className="flex items-center justify-between gap-2 text-sm">
+                                <span>{alt.caminho}</span>
+                                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => copyToClipboard(alt.caminho)}>
+                                  <Copy className="h-3 w-3" />
+                                </Button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
                     {result.marca_inferida && options.marca && (
                       <ResultField
                         label="Marca"
@@ -321,6 +357,21 @@ const UltraDataEnrichmentModal = ({
                         {result.ncm_sugerido.observacao && (
                           <p className="text-xs text-muted-foreground italic">{result.ncm_sugerido.observacao}</p>
                         )}
+                        {result.ncm_verificacao?.status === 'valido' && (
+                          <p className="flex items-center gap-1 text-xs text-success">
+                            <Check className="h-3 w-3" />
+                            Conferido na tabela NCM oficial
+                          </p>
+                        )}
+                        {result.ncm_verificacao?.status === 'substituido' && (
+                          <NcmVerificationNote verification={result.ncm_verificacao} onCopy={copyToClipboard} />
+                        )}
+                      </div>
+                    )}
+                    {result.ncm_verificacao?.status === 'invalido' && options.ncm && (
+                      <div className="p-3 rounded-lg border border-amber-500/30 bg-amber-500/5 space-y-2">
+                        <Label className="text-xs text-muted-foreground uppercase tracking-wider">NCM Sugerido</Label>
+                        <NcmVerificationNote verification={result.ncm_verificacao} onCopy={copyToClipboard} />
                       </div>
                     )}
                   </div>
@@ -343,6 +394,41 @@ const UltraDataEnrichmentModal = ({
   );
 };
 
+// Why the model's NCM was replaced or dropped, with the other valid items
+const NcmVerificationNote = ({
+  verification,
+  onCopy,
+}: {
+  verification: NcmVerificacao;
+  onCopy: (text: string) => void;
+}) => (
+  <div className="space-y-1">
+    <p className="flex items-start gap-1 text-xs text-amber-600 dark:text-amber-400">
+      <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+      <span>
+        {verification.status === 'substituido' ? `Substitui ${verification.codigo_original}: ` : ''}
+        {verification.motivos.join('; ')}
+      </span>
+    </p>
+    {verification.alternativas.length > 0 && (
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">Outros códigos possíveis:</p>
+        {verification.alternativas.map(alt => (
+          <div key={alt.codigo} className="flex items-center justify-between gap-2 text-sm">
+            <span>
+              <code className="font-mono">{alt.codigo}</code>
+              <span className="text-muted-foreground"> {alt.descricao}</span>
+            </span>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onCopy(alt.codigo)}>
+              <Copy className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
 // Sub-component for showing original → enriched comparison
 const ResultField = ({
   label,
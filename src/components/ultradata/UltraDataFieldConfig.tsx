@@ -6,8 +6,10 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/components/ui/tooltip';
 import { ConfigPresetManager } from '@/components/ConfigPresetManager';
+import UltraDataPromptSettings from './UltraDataPromptSettings';
 import type { FieldConfig, ProductRow } from '@/types/ultradata';
 import type { ColumnConfig } from '@/utils/dataProcessors';
+import type { PromptSettings, TitleTemplate, TransformRule } from '@/core/types';
 
 interface UltraDataFieldConfigProps {
   columns: string[];
@@ -15,6 +17,9 @@ interface UltraDataFieldConfigProps {
   onConfigChange: (configs: FieldConfig[]) => void;
   sampleData: ProductRow[];
   onNext: () => void;
+  // Prompt choice for the AI calls, saved with the preset
+  promptSettings?: PromptSettings;
+  onPromptSettingsChange?: (settings: PromptSettings) => void;
 }
 
 const UltraDataFieldConfig = ({
@@ -23,6 +28,8 @@ const UltraDataFieldConfig = ({
   onConfigChange,
   sampleData,
   onNext,
+  promptSettings,
+  onPromptSettingsChange,
 }: UltraDataFieldConfigProps) => {
   const updateConfig = (column: string, updates: Partial<FieldConfig>) => {
     onConfigChange(
@@ -58,7 +65,15 @@ const UltraDataFieldConfig = ({
     };
   });
 
-  const handlePresetImport = (abbreviations: Record<string, string>, columnConfig: Record<string, ColumnConfig>) => {
+  const handlePresetImport = (
+    abbreviations: Record<string, string>,
+    columnConfig: Record<string, ColumnConfig>,
+    transformRules?: TransformRule[],
+    titleTemplates?: TitleTemplate[],
+    importedPromptSettings?: PromptSettings
+  ) => {
+    if (importedPromptSettings) onPromptSettingsChange?.(importedPromptSettings);
+
     // Apply imported column config to field configs
     const updatedConfigs = fieldConfigs.map(fc => {
       const imported = columnConfig[fc.column];
@@ -92,6 +107,7 @@ const UltraDataFieldConfig = ({
           <ConfigPresetManager
             abbreviations={{}}
             columnConfig={columnConfigForPreset}
+            promptSettings={promptSettings}
             onImport={handlePresetImport}
             detectedColumns={columns}
           />
@@ -213,6 +229,10 @@ const UltraDataFieldConfig = ({
           </Table>
         </div>
 
+        {promptSettings && onPromptSettingsChange && (
+          <UltraDataPromptSettings settings={promptSettings} onChange={onPromptSettingsChange} />
+        )}
+
         {/* Actions */}
         <div className="flex items-center justify-between pt-4 border-t">
           <p className="text-sm text-muted-foreground">
@@ -1,16 +1,22 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Sparkles, AlertTriangle, Check, Loader2, Play, Pause, Camera, ImageIcon, Zap } from 'lucide-react';
+import { Sparkles, AlertTriangle, Check, Loader2, Play, Pause, Camera, ImageIcon, Zap, Database, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useEnrichmentCache } from '@/hooks/useEnrichmentCache';
+import { useEnrichmentJob } from '@/hooks/useEnrichmentJob';
 import { supabase } from '@/integrations/supabase/client';
 import { getAbbreviations } from '@/config';
+import { getEnrichmentJobResults, getSessionCacheStats } from '@/core';
+import type { EnrichmentCacheMode, EnrichmentJobItem, EnrichmentJobProgress, PromptSettings } from '@/core/types';
 import UltraDataImageSearch from './UltraDataImageSearch';
-import type { ProductRow, FieldConfig, ProcessedProduct } from '@/types/ultradata';
+import type { ProductRow, FieldConfig, ProcessedProduct, NcmSugerido, NcmVerificacao, CategoriaAlternativa } from '@/types/ultradata';
 
 interface UltraDataProcessingProps {
   rawData: ProductRow[];
@@ -22,9 +28,11 @@ interface UltraDataProcessingProps {
   onDataUpdate?: (data: ProductRow[]) => void;
   sessionId?: string | null;
   onSessionUpdate?: (sessionId: string, updates: {
-    status?: 'pending' | 'processing' | 'paused' | 'completed' | 'failed';
+    status?: 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
     itemsProcessed?: number;
   }) => Promise<boolean>;
+  // Prompt version or custom system prompt chosen in the preset
+  promptSettings?: PromptSettings;
 }
 
 const UltraDataProcessing = ({
@@ -37,6 +45,7 @@ const UltraDataProcessing = ({
   onDataUpdate,
   sessionId,
   onSessionUpdate,
+  promptSettings,
 }: UltraDataProcessingProps) => {
   const { toast } = useToast();
   const [progress, setProgress] = useState(0);
@@ -48,9 +57,36 @@ const UltraDataProcessing = ({
   const [imageSearchQuery, setImageSearchQuery] = useState('');
   const [imageSearchProductIndex, setImageSearchProductIndex] = useState<number | null>(null);
   const [batchSize, setBatchSize] = useState(3);
+  const [cacheMode, setCacheMode] = useState<EnrichmentCacheMode>('usar');
+  const [cacheHits, setCacheHits] = useState(0);
+  const { stats: cacheStats, clearing: clearingCache, clearCache, refreshStats: refreshCacheStats } = useEnrichmentCache();
   const abortRef = useRef(false);
   const cacheRef = useRef<Map<string, ProcessedProduct>>(new Map());
 
+  // Background mode: the enriquecer-lote worker processes the rows, so the run
+  // survives closing the tab and can be followed from any device
+  const [preferBackground, setPreferBackground] = useState(true);
+  const backgroundMode = Boolean(userId) && preferBackground;
+  const [jobSessionId, setJobSessionId] = useState<string | null>(sessionId ?? null);
+  const {
+    job,
+    busy: jobBusy,
+    submit: submitJob,
+    pause: pauseJob,
+    resume: resumeJob,
+    cancel: cancelJob,
+  } = useEnrichmentJob(userId ? jobSessionId : null);
+  // Results already loaded from produtos_processados (nextIndex: first item
+  // not loaded); watching: the job ran while this screen was open
+  const jobSyncRef = useRef({
+    sessionId: sessionId ?? null,
+    products: [] as ProcessedProduct[],
+    nextIndex: 0,
+    loading: false,
+    watching: false,
+  });
+  const latestJobRef = useRef<EnrichmentJobProgress | null>(null);
+
   // Load abbreviations from config
   const abbreviations = useRef(getAbbreviations());
 
@@ -60,13 +96,18 @@ const UltraDataProcessing = ({
 
   const analyzeColumns = fieldConfigs.filter(fc => fc.action === 'analyze').map(fc => fc.column);
 
-  const processProduct = async (row: ProductRow, index: number): Promise<ProcessedProduct> => {
-    const productToEnrich: Record<string, any> = {};
+  const pickAnalyzedFields = (row: ProductRow): Record<string, unknown> => {
+    const fields: Record<string, unknown> = {};
     analyzeColumns.forEach(col => {
       if (row[col] !== undefined && row[col] !== null) {
-        productToEnrich[col] = row[col];
+        fields[col] = row[col];
       }
     });
+    return fields;
+  };
+
+  const processProduct = async (row: ProductRow, index: number): Promise<ProcessedProduct> => {
+    const productToEnrich = pickAnalyzedFields(row);
 
     // Check cache
     const cacheKey = JSON.stringify(productToEnrich);
@@ -81,7 +122,10 @@ const UltraDataProcessing = ({
         body: {
           produto: productToEnrich,
           user_id: userId,
+          session_id: sessionId ?? undefined,
           abbreviations: abbreviations.current,
+          prompt: promptSettings?.enriquecer_produto,
+          cache: cacheMode,
         },
       });
 
@@ -99,8 +143,11 @@ const UltraDataProcessing = ({
       }
 
       const needsReview = data.status_inferencia?.necessita_revisao ?? false;
-      
-      if (needsReview) {
+      if (data.cache_hit) setCacheHits(prev => prev + 1);
+
+      if (data.cache_hit) {
+        addLog('info', `Item ${index + 1}: Resposta salva reaproveitada ⚡`);
+      } else if (needsReview) {
         addLog('warning', `Item ${index + 1}: Necessita revisão - ${data.status_inferencia?.razao}`);
       } else {
         addLog('success', `Item ${index + 1}: Processado em ${data.tempo_processamento_ms}ms`);
@@ -112,9 +159,11 @@ const UltraDataProcessing = ({
           nome_padronizado: data.nome_padronizado,
           descricao_enriquecida: data.descricao_enriquecida,
           categoria_inferida: data.categoria_inferida,
+          categoria_alternativas: data.categoria_alternativas,
           marca_inferida: data.marca_inferida,
           origem_inferida: data.origem_inferida,
           ncm_sugerido: data.ncm_sugerido,
+          ncm_verificacao: data.ncm_verificacao,
         },
         necessita_revisao: needsReview,
         razao_revisao: data.status_inferencia?.razao,
@@ -139,14 +188,169 @@ const UltraDataProcessing = ({
     }
   };
 
+  // A job row back in the shape of the browser loop's results. The worker
+  // only got the analyzed columns, so the full row comes from rawData when
+  // it is the same upload.
+  const toProcessedProduct = (item: EnrichmentJobItem, totalItems: number): ProcessedProduct => ({
+    original: rawData.length === totalItems && rawData[item.itemIndex]
+      ? rawData[item.itemIndex]
+      : (item.produtoOriginal as ProductRow),
+    enriched: {
+      nome_padronizado: item.nomePadronizado ?? undefined,
+      descricao_enriquecida: item.descricaoEnriquecida ?? undefined,
+      categoria_inferida: item.categoriaInferida ?? undefined,
+      categoria_alternativas: item.metadata.categoria_alternativas as CategoriaAlternativa[] | undefined,
+      marca_inferida: item.marcaInferida ?? undefined,
+      origem_inferida: item.origemInferida ?? undefined,
+      ncm_sugerido: (item.metadata.ncm_sugerido as NcmSugerido | null) ?? undefined,
+      ncm_verificacao: (item.metadata.ncm_verificacao as NcmVerificacao | null) ?? undefined,
+    },
+    necessita_revisao: item.necessitaRevisao,
+    razao_revisao: item.razaoRevisao ?? undefined,
+    validado: false,
+    tempo_processamento_ms: item.tempoProcessamentoMs ?? undefined,
+  });
+
+  const logJobItem = (item: EnrichmentJobItem) => {
+    const label = `Item ${item.itemIndex + 1}`;
+    if (item.metadata.erro) {
+      addLog('error', `${label}: ${item.metadata.erro}`);
+    } else if (item.metadata.cache_hit) {
+      addLog('info', `${label}: Resposta salva reaproveitada ⚡`);
+    } else if (item.necessitaRevisao) {
+      addLog('warning', `${label}: Necessita revisão - ${item.razaoRevisao}`);
+    } else {
+      addLog('success', `${label}: Processado em ${item.tempoProcessamentoMs}ms`);
+    }
+  };
+
+  const finishJob = async (finished: EnrichmentJobProgress, results: ProcessedProduct[]) => {
+    const needsReview = results.filter(r => r.necessita_revisao).length;
+
+    if (finished.status === 'cancelled') {
+      addLog('warning', `Processamento cancelado: ${results.length} de ${finished.totalItems} itens processados`);
+      toast({
+        title: 'Processamento cancelado',
+        description: `${results.length} produtos processados antes do cancelamento.`,
+      });
+    } else {
+      addLog('info', `Processamento concluído: ${results.length} itens, ${needsReview} necessitam revisão, ${finished.itemsFailed} com erro`);
+      const sessionCache = await getSessionCacheStats(finished.sessionId);
+      if (sessionCache.hits + sessionCache.misses > 0) {
+        addLog('info', `Cache da sessão: ${sessionCache.hits} de ${sessionCache.hits + sessionCache.misses} respostas reaproveitadas (${Math.round(sessionCache.hitRate * 100)}%)`);
+      }
+      toast({
+        title: "Processamento concluído!",
+        description: `${results.length} produtos processados. ${needsReview} necessitam revisão.`,
+      });
+    }
+    refreshCacheStats();
+
+    if (results.length > 0) {
+      onComplete(results);
+    }
+  };
+
+  // Load the rows the worker saved since the last poll, in item order
+  const syncJobResults = async () => {
+    const sync = jobSyncRef.current;
+    if (sync.loading) return;
+
+    sync.loading = true;
+    try {
+      let current = latestJobRef.current;
+      while (current && current.sessionId === sync.sessionId && current.itemsProcessed > sync.nextIndex) {
+        const items = await getEnrichmentJobResults(current.sessionId, sync.nextIndex);
+        if (items.length === 0) break;
+
+        sync.nextIndex = items[items.length - 1].itemIndex + 1;
+        sync.products = [...sync.products, ...items.map(item => toProcessedProduct(item, current!.totalItems))];
+        setProcessedProducts(sync.products);
+        setCacheHits(prev => prev + items.filter(item => item.metadata.cache_hit === true).length);
+        items.forEach(logJobItem);
+        current = latestJobRef.current;
+      }
+    } catch (err) {
+      addLog('error', `Erro ao carregar resultados: ${(err as Error).message}`);
+    } finally {
+      sync.loading = false;
+    }
+
+    const latest = latestJobRef.current;
+    if (sync.watching && latest?.sessionId === sync.sessionId && (latest.status === 'completed' || latest.status === 'cancelled')) {
+      sync.watching = false;
+      await finishJob(latest, sync.products);
+    }
+  };
+  const syncJobResultsRef = useRef(syncJobResults);
+  syncJobResultsRef.current = syncJobResults;
+
+  // Follow the job: progress from the session checkpoint, results as they are saved
+  useEffect(() => {
+    latestJobRef.current = job;
+    if (!backgroundMode || !job || job.sessionId !== jobSyncRef.current.sessionId) return;
+
+    const running = job.status === 'processing' || job.status === 'paused';
+    if (running) jobSyncRef.current.watching = true;
+    setIsProcessing(running);
+    setIsPaused(job.status === 'paused');
+    setCurrentItem(job.itemsProcessed);
+    setProgress(job.totalItems > 0 ? (job.itemsProcessed / job.totalItems) * 100 : 0);
+    syncJobResultsRef.current();
+  }, [job, backgroundMode, setIsProcessing]);
+
+  // The session opened from the history may already have a job
+  useEffect(() => {
+    if (sessionId && sessionId !== jobSyncRef.current.sessionId) {
+      jobSyncRef.current = { sessionId, products: [], nextIndex: 0, loading: false, watching: false };
+      setJobSessionId(sessionId);
+    }
+  }, [sessionId]);
+
+  const startBackgroundJob = async () => {
+    setProgress(0);
+    setCurrentItem(0);
+    setProcessedProducts([]);
+    setLogs([]);
+    setCacheHits(0);
+
+    addLog('info', `Enviando ${rawData.length} itens para processamento em segundo plano...`);
+    addLog('info', `Colunas para análise: ${analyzeColumns.join(', ')}`);
+
+    const id = await submitJob(
+      rawData.map(pickAnalyzedFields),
+      {
+        abbreviations: abbreviations.current,
+        prompt: promptSettings?.enriquecer_produto ?? null,
+        cache: cacheMode,
+      },
+      { sessionId: jobSessionId }
+    );
+    if (!id) {
+      addLog('error', 'O processamento não foi iniciado');
+      return;
+    }
+
+    jobSyncRef.current = { sessionId: id, products: [], nextIndex: 0, loading: false, watching: true };
+    setJobSessionId(id);
+    setIsProcessing(true);
+    addLog('info', 'Processamento iniciado. Pode fechar esta aba: o progresso fica salvo na sessão.');
+  };
+
   const startProcessing = async () => {
     if (rawData.length === 0) return;
 
+    if (backgroundMode) {
+      await startBackgroundJob();
+      return;
+    }
+
     setIsProcessing(true);
     setProgress(0);
     setCurrentItem(0);
     setProcessedProducts([]);
     setLogs([]);
+    setCacheHits(0);
     abortRef.current = false;
 
     if (sessionId && onSessionUpdate) {
@@ -191,6 +395,15 @@ const UltraDataProcessing = ({
     const needsReview = results.filter(r => r.necessita_revisao).length;
     addLog('info', `Processamento concluído: ${results.length} itens, ${needsReview} necessitam revisão`);
 
+    // Hit rate of the whole session, including earlier runs of it
+    if (sessionId && cacheMode !== 'desligado') {
+      const sessionCache = await getSessionCacheStats(sessionId);
+      if (sessionCache.hits + sessionCache.misses > 0) {
+        addLog('info', `Cache da sessão: ${sessionCache.hits} de ${sessionCache.hits + sessionCache.misses} respostas reaproveitadas (${Math.round(sessionCache.hitRate * 100)}%)`);
+      }
+    }
+    refreshCacheStats();
+
     toast({
       title: "Processamento concluído!",
       description: `${results.length} produtos processados. ${needsReview} necessitam revisão.`,
@@ -202,6 +415,11 @@ const UltraDataProcessing = ({
   };
 
   const pauseProcessing = async () => {
+    if (backgroundMode && jobSessionId) {
+      if (await pauseJob()) addLog('info', 'Processamento pausado');
+      return;
+    }
+
     setIsPaused(true);
     addLog('info', 'Processamento pausado');
     
@@ -214,6 +432,11 @@ const UltraDataProcessing = ({
   };
 
   const resumeProcessing = async () => {
+    if (backgroundMode && jobSessionId) {
+      if (await resumeJob()) addLog('info', 'Processamento retomado');
+      return;
+    }
+
     setIsPaused(false);
     addLog('info', 'Processamento retomado');
     
@@ -223,6 +446,11 @@ const UltraDataProcessing = ({
   };
 
   const cancelProcessing = async () => {
+    if (backgroundMode && jobSessionId) {
+      await cancelJob();
+      return;
+    }
+
     abortRef.current = true;
     setIsPaused(false);
     setIsProcessing(false);
@@ -329,8 +557,27 @@ const UltraDataProcessing = ({
         </div>
       </div>
 
+      {/* Background mode: only for signed-in users, results go to their session */}
+      {userId && !isProcessing && (
+        <div className="flex items-center gap-3 p-4 bg-muted/30 rounded-lg">
+          <Switch
+            id="background-mode"
+            checked={preferBackground}
+            onCheckedChange={setPreferBackground}
+          />
+          <Label htmlFor="background-mode" className="text-sm font-medium cursor-pointer">
+            Processar em segundo plano
+          </Label>
+          <span className="text-xs text-muted-foreground">
+            {preferBackground
+              ? 'Continua com a aba fechada; acompanhe e pause de qualquer dispositivo.'
+              : 'Processa neste navegador; fechar a aba interrompe o lote.'}
+          </span>
+        </div>
+      )}
+
       {/* Batch Size Control */}
-      {!isProcessing && processedProducts.length === 0 && (
+      {!backgroundMode && !isProcessing && processedProducts.length === 0 && (
         <div className="flex items-center gap-4 p-4 bg-muted/30 rounded-lg">
           <div className="flex items-center gap-2">
             <Zap className="h-4 w-4 text-primary" />
@@ -350,16 +597,75 @@ const UltraDataProcessing = ({
           </span>
         </div>
       )}
+
+      {/* Persistent cache: answers saved per user, by product, prompt version and model */}
+      {userId && !isProcessing && (
+        <div className="flex flex-wrap items-center gap-3 p-4 bg-muted/30 rounded-lg">
+          <div className="flex items-center gap-2">
+            <Database className="h-4 w-4 text-primary" />
+            <Label className="text-sm font-medium whitespace-nowrap">Cache de respostas:</Label>
+          </div>
+          <Select value={cacheMode} onValueChange={(value: EnrichmentCacheMode) => setCacheMode(value)}>
+            <SelectTrigger className="w-[200px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="usar">Reaproveitar respostas</SelectItem>
+              <SelectItem value="renovar">Renovar (chamar a IA)</SelectItem>
+              <SelectItem value="desligado">Desligado</SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">
+            {cacheStats.entries} resposta(s) salva(s), {cacheStats.hits} reaproveitamento(s)
+            {cacheStats.expired > 0 && `, ${cacheStats.expired} vencida(s)`}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-1.5 ml-auto"
+            disabled={clearingCache || cacheStats.entries === 0}
+            onClick={() => {
+              if (confirm('Remover todas as respostas salvas? Os próximos produtos serão enviados de novo para a IA.')) {
+                clearCache('all');
+              }
+            }}
+          >
+            <Trash2 className="h-4 w-4" />
+            Limpar cache
+          </Button>
+        </div>
+      )}
       {/* Progress */}
       {(isProcessing || processedProducts.length > 0) && (
         <div className="space-y-2">
           <div className="flex items-center justify-between text-sm">
             <span className="text-muted-foreground">
-              Processando item {currentItem} de {rawData.length}
+              {backgroundMode && job
+                ? `${job.status === 'paused' ? 'Pausado em' : 'Processados'} ${job.itemsProcessed} de ${job.totalItems}`
+                : `Processando item ${currentItem} de ${rawData.length}`}
+              {backgroundMode && job && job.itemsFailed > 0 && ` • ${job.itemsFailed} com erro`}
+            </span>
+            <span className="font-medium">
+              {cacheHits > 0 && (
+                <span className="text-xs text-muted-foreground font-normal mr-2">
+                  {cacheHits} do cache ({Math.round((cacheHits / Math.max(processedProducts.length, cacheHits)) * 100)}%)
+                </span>
+              )}
+              {Math.round(progress)}%
             </span>
-            <span className="font-medium">{Math.round(progress)}%</span>
           </div>
           <Progress value={progress} className="h-3" />
+          {/* Worker waiting to retry, or paused by an error that affects every item */}
+          {backgroundMode && job?.lastError && (job.status === 'paused' || (job.status === 'processing' && job.attempts > 0)) && (
+            <p className="text-xs text-warning flex items-start gap-1.5">
+              <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              <span>
+                {job.status === 'paused' ? 'Pausado pelo erro' : `Tentativa ${job.attempts} falhou`}: {job.lastError}
+                {job.status === 'processing' && job.nextAttemptAt &&
+                  ` — nova tentativa às ${new Date(job.nextAttemptAt).toLocaleTimeString('pt-BR')}`}
+              </span>
+            </p>
+          )}
         </div>
       )}
 
@@ -367,7 +673,7 @@ const UltraDataProcessing = ({
       <div className="flex gap-3">
         {!isProcessing ? (
           <>
-            <Button onClick={startProcessing} size="lg" className="flex-1">
+            <Button onClick={startProcessing} size="lg" className="flex-1" disabled={jobBusy}>
               <Sparkles className="h-4 w-4 mr-2" />
               {processedProducts.length > 0 ? 'Reprocessar' : 'Iniciar Enriquecimento'}
             </Button>
@@ -388,17 +694,17 @@ const UltraDataProcessing = ({
         ) : (
           <>
             {isPaused ? (
-              <Button onClick={resumeProcessing} variant="outline" className="flex-1">
+              <Button onClick={resumeProcessing} variant="outline" className="flex-1" disabled={jobBusy}>
                 <Play className="h-4 w-4 mr-2" />
                 Continuar
               </Button>
             ) : (
-              <Button onClick={pauseProcessing} variant="outline" className="flex-1">
+              <Button onClick={pauseProcessing} variant="outline" className="flex-1" disabled={jobBusy}>
                 <Pause className="h-4 w-4 mr-2" />
                 Pausar
               </Button>
             )}
-            <Button onClick={cancelProcessing} variant="destructive">
+            <Button onClick={cancelProcessing} variant="destructive" disabled={jobBusy}>
               Cancelar
             </Button>
           </>
@@ -459,10 +765,14 @@ const UltraDataProcessing = ({
                       <p className="font-medium text-foreground truncate">
                         {product.enriched.nome_padronizado || product.original['nome'] || product.original['Nome'] || `Item ${idx + 1}`}
                       </p>
-                      {product.enriched.categoria_inferida && (
+                      {product.enriched.categoria_inferida ? (
                         <p className="text-xs text-muted-foreground truncate">
                           {product.enriched.categoria_inferida}
                         </p>
+                      ) : (product.enriched.categoria_alternativas?.length ?? 0) > 0 && (
+                        <p className="text-xs text-warning truncate">
+                          Categoria a escolher: {product.enriched.categoria_alternativas!.map(alt => alt.caminho).join(' · ')}
+                        </p>
                       )}
                     </div>
                     <div className="flex items-center gap-2 flex-shrink-0">
@@ -0,0 +1,108 @@
+import { MessageSquareText, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getCurrentPrompt, getPromptVersions } from '@/config';
+import type { PromptName, PromptOverride, PromptSettings } from '@/core/types';
+
+interface UltraDataPromptSettingsProps {
+  settings: PromptSettings;
+  onChange: (settings: PromptSettings) => void;
+}
+
+const PROMPT_LABELS: Record<PromptName, { title: string; description: string }> = {
+  enriquecer_produto: {
+    title: 'Enriquecimento',
+    description: 'Nome, descrição, categoria, marca, origem e NCM sugeridos pela IA.'
+  },
+  corrigir_texto: {
+    title: 'Correção de texto',
+    description: 'Ortografia, acentuação e capitalização dos textos.'
+  }
+};
+
+const CURRENT = 'current';
+
+const UltraDataPromptSettings = ({ settings, onChange }: UltraDataPromptSettingsProps) => {
+  const update = (name: PromptName, changes: Partial<PromptOverride>) => {
+    const next: PromptOverride = { ...settings[name], ...changes };
+    if (next.version === undefined) delete next.version;
+    if (!next.system?.trim()) delete next.system;
+
+    const rest = { ...settings };
+    delete rest[name];
+    onChange(Object.keys(next).length > 0 ? { ...rest, [name]: next } : rest);
+  };
+
+  return (
+    <div className="space-y-4 border rounded-lg p-4">
+      <div>
+        <h3 className="font-medium text-foreground flex items-center gap-2">
+          <MessageSquareText className="h-4 w-4 text-primary" />
+          Prompts da IA
+        </h3>
+        <p className="text-xs text-muted-foreground mt-1">
+          Fixe uma versão para manter os resultados estáveis ou escreva um prompt de sistema próprio.
+          A escolha é salva no preset e a versão usada fica registrada em cada produto processado.
+        </p>
+      </div>
+
+      {(Object.keys(PROMPT_LABELS) as PromptName[]).map(name => {
+        const override = settings[name] ?? {};
+        const versions = getPromptVersions(name);
+        const current = getCurrentPrompt(name);
+        const base = versions.find(v => v.version === override.version) ?? current;
+
+        return (
+          <div key={name} className="space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <Label className="flex items-center gap-2">
+                  {PROMPT_LABELS[name].title}
+                  {override.system && <Badge variant="secondary">Personalizado</Badge>}
+                </Label>
+                <p className="text-xs text-muted-foreground">{PROMPT_LABELS[name].description}</p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Select
+                  value={override.version !== undefined ? String(override.version) : CURRENT}
+                  onValueChange={(value) => update(name, { version: value === CURRENT ? undefined : Number(value) })}
+                >
+                  <SelectTrigger className="w-[160px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CURRENT}>Atual (v{current.version})</SelectItem>
+                    {versions.map(v => (
+                      <SelectItem key={v.version} value={String(v.version)}>Fixar v{v.version}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title="Restaurar padrão"
+                  disabled={!settings[name]}
+                  onClick={() => update(name, { version: undefined, system: undefined })}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <Textarea
+              value={override.system ?? ''}
+              onChange={(e) => update(name, { system: e.target.value })}
+              placeholder={base.system}
+              className="min-h-[96px] font-mono text-xs"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default UltraDataPromptSettings;
@@ -11,6 +11,7 @@ import {
   CheckCircle,
   AlertCircle,
   Pause,
+  XCircle,
   RotateCcw,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -70,6 +71,11 @@ const statusConfig = {
     color: 'bg-destructive/20 text-destructive',
     icon: AlertCircle,
   },
+  cancelled: {
+    label: 'Cancelado',
+    color: 'bg-muted text-muted-foreground',
+    icon: XCircle,
+  },
 };
 
 const UltraDataSessionHistory = ({
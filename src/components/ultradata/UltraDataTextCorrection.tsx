@@ -28,12 +28,23 @@ import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useUserAbbreviations } from '@/hooks/useUserAbbreviations';
 import type { ProductRow, FieldConfig } from '@/types/ultradata';
+import {
+  getRowKey,
+  compileAbbreviations,
+  type AbbreviationContext,
+  type AbbreviationExpander,
+  type CellChange,
+  type PromptSettings,
+} from '@/core';
+import { getAbbreviationScopes } from '@/config';
 
 interface UltraDataTextCorrectionProps {
   rawData: ProductRow[];
   columns: string[];
   fieldConfigs: FieldConfig[];
-  onDataUpdate: (data: ProductRow[]) => void;
+  onDataUpdate: (data: ProductRow[], changes?: CellChange[]) => void;
+  // Prompt version or custom system prompt chosen in the preset
+  promptSettings?: PromptSettings;
 }
 
 interface TextCorrection {
@@ -57,6 +68,7 @@ const UltraDataTextCorrection = ({
   columns,
   fieldConfigs,
   onDataUpdate,
+  promptSettings,
 }: UltraDataTextCorrectionProps) => {
   const { toast } = useToast();
   const { abbreviations, loading: loadingAbbreviations } = useUserAbbreviations();
@@ -85,32 +97,20 @@ const UltraDataTextCorrection = ({
       });
   }, [fieldConfigs, rawData]);
 
-  // Expandir abreviações usando a biblioteca
-  const expandAbbreviations = (text: string, abbreviations: Record<string, string>): {
+  // Expandir abreviações com o mesmo motor da limpeza local
+  const expandAbbreviations = (text: string, expand: AbbreviationExpander, context: AbbreviationContext): {
     expanded: string;
     changes: Array<{ original: string; corrigido: string; tipo: string }>;
   } => {
-    let result = text;
-    const changes: Array<{ original: string; corrigido: string; tipo: string }> = [];
-
-    Object.entries(abbreviations).forEach(([abbr, full]) => {
-      // Criar regex para encontrar abreviação como palavra inteira
-      const regex = new RegExp(`\\b${abbr.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
-      const matches = result.match(regex);
-      
-      if (matches) {
-        matches.forEach(match => {
-          changes.push({
-            original: match,
-            corrigido: full,
-            tipo: 'abreviacao',
-          });
-        });
-        result = result.replace(regex, full);
-      }
-    });
-
-    return { expanded: result, changes };
+    const { text: expanded, matches } = expand(text, context);
+    return {
+      expanded,
+      changes: matches.map(match => ({
+        original: match.original,
+        corrigido: match.expanded,
+        tipo: 'abreviacao',
+      })),
+    };
   };
 
   // Processar expansão de abreviações
@@ -123,6 +123,8 @@ const UltraDataTextCorrection = ({
     const newCorrections: TextCorrection[] = [];
     const total = rawData.length * textColumns.length;
     let processed = 0;
+    const expand = compileAbbreviations(abbreviations, getAbbreviationScopes());
+    const categoryColumn = columns.find(col => /categoria|category/i.test(col));
 
     for (let rowIndex = 0; rowIndex < rawData.length; rowIndex++) {
       const row = rawData[rowIndex];
@@ -131,7 +133,10 @@ const UltraDataTextCorrection = ({
         const originalText = row[column]?.toString() || '';
         
         if (originalText.trim()) {
-          const { expanded, changes } = expandAbbreviations(originalText, abbreviations);
+          const { expanded, changes } = expandAbbreviations(originalText, expand, {
+            column,
+            category: categoryColumn ? String(row[categoryColumn] ?? '') : undefined,
+          });
           
           if (changes.length > 0) {
             newCorrections.push({
@@ -213,7 +218,7 @@ const UltraDataTextCorrection = ({
       
       try {
         const { data, error } = await supabase.functions.invoke('corrigir-texto', {
-          body: { textos: batch },
+          body: { textos: batch, prompt: promptSettings?.corrigir_texto },
         });
 
         if (error) throw error;
@@ -326,17 +331,30 @@ const UltraDataTextCorrection = ({
     }
 
     const newData = [...rawData];
+    const timestamp = new Date().toISOString();
     
-    acceptedCorrections.forEach(correction => {
+    // Cada correção vira uma entrada no histórico de alterações
+    const changes: CellChange[] = acceptedCorrections.map(correction => {
       // Usa o texto editado manualmente se existir, senão usa o corrigido
       const finalText = correction.manualEdit ?? correction.corrected;
       newData[correction.rowIndex] = {
         ...newData[correction.rowIndex],
         [correction.column]: finalText,
       };
+      return {
+        row: correction.rowIndex,
+        rowKey: getRowKey(rawData[correction.rowIndex], correction.rowIndex, columns),
+        column: correction.column,
+        oldValue: correction.original,
+        newValue: finalText,
+        source: correction.manualEdit !== undefined
+          ? 'manual'
+          : correction.source === 'abbreviation' ? 'abbreviation' : 'ai',
+        timestamp,
+      };
     });
 
-    onDataUpdate(newData);
+    onDataUpdate(newData, changes);
     setCorrections([]);
     
     toast({
@@ -3,10 +3,14 @@
 // =====================================================
 
 import type { ColumnConfig } from '@/utils/dataProcessors';
+import { scoreHeaderMatch } from '@/core/columnMapping';
+import type { PromptName } from '@/core/types';
 import columnsConfig from './columns.json';
 import abbreviationsConfig from './abbreviations.json';
-import promptsConfig from './prompts.json';
+// Versioned prompts ship with the edge functions, which load them at runtime
+import promptsConfig from '../../supabase/functions/_shared/prompts.json';
 import imageQueriesConfig from './imageQueries.json';
+import fiscalConfig from './fiscal.json';
 
 // ---- Column Config ----
 
@@ -101,6 +105,52 @@ export function getAbbreviationGroups(): Record<string, Record<string, string>>
   };
 }
 
+/**
+ * Entries limited to some columns or product categories, keyed by abbreviation
+ */
+export function getAbbreviationScopes(): Record<string, { columns?: string[]; categories?: string[] }> {
+  return abbreviationsConfig.scopes;
+}
+
+/**
+ * Measure and unit abbreviations, used to read quantities from product names
+ */
+export function getMeasureUnitAbbreviations(): { measures: Record<string, string>; units: Record<string, string> } {
+  return {
+    measures: abbreviationsConfig.measures,
+    units: abbreviationsConfig.units,
+  };
+}
+
+// ---- Fiscal ----
+
+/**
+ * Product origin codes (0-8) accepted on NF-e, with their descriptions
+ */
+export function getFiscalOrigins(): Record<string, string> {
+  return fiscalConfig.origins;
+}
+
+/**
+ * Commercial units accepted in the "Unidade" column (SEFAZ table and usual Bling codes)
+ */
+export function getCommercialUnits(): string[] {
+  return fiscalConfig.commercial_units;
+}
+
+/**
+ * CEST -> NCM prefixes it applies to (Convênio ICMS 142/18 annexes, the
+ * items most used in retail), both as digits only
+ */
+export function getCestNcmPrefixes(): Record<string, string[]> {
+  return Object.fromEntries(
+    Object.entries(fiscalConfig.cest_ncm).map(([cest, ncms]) => [
+      cest.replace(/\D/g, ''),
+      ncms.map(ncm => ncm.replace(/\D/g, ''))
+    ])
+  );
+}
+
 // ---- Prompts ----
 
 export interface PromptConfig {
@@ -109,20 +159,43 @@ export interface PromptConfig {
   model: string;
 }
 
-export function getEnrichmentPrompt(): PromptConfig {
-  return promptsConfig.enriquecer_produto;
+export interface PromptVersionConfig extends PromptConfig {
+  version: number;
+}
+
+/**
+ * Published versions of a prompt, oldest first
+ */
+export function getPromptVersions(name: PromptName): PromptVersionConfig[] {
+  return promptsConfig[name].versions;
+}
+
+const currentVersion = <T extends { version: number }>(config: { current: number; versions: T[] }): T =>
+  config.versions.find(v => v.version === config.current) ?? config.versions[config.versions.length - 1];
+
+/**
+ * Version used when a preset does not pin one
+ */
+export function getCurrentPrompt(name: PromptName): PromptVersionConfig {
+  return currentVersion<PromptVersionConfig>(promptsConfig[name]);
+}
+
+export function getEnrichmentPrompt(): PromptVersionConfig {
+  return getCurrentPrompt('enriquecer_produto');
 }
 
-export function getTextCorrectionPrompt(): PromptConfig {
-  return promptsConfig.corrigir_texto;
+export function getTextCorrectionPrompt(): PromptVersionConfig {
+  return getCurrentPrompt('corrigir_texto');
 }
 
-export function getTagGenerationPrompt(): PromptConfig {
-  return promptsConfig.gerar_tags;
+// Tags and images run on the current version only; presets can't pin them
+
+export function getTagGenerationPrompt(): PromptVersionConfig {
+  return currentVersion(promptsConfig.gerar_tags);
 }
 
 export function getImageGenerationConfig() {
-  return promptsConfig.gerar_imagem;
+  return currentVersion(promptsConfig.gerar_imagem);
 }
 
 // ---- Image Queries ----
@@ -170,6 +243,16 @@ export function buildImageSearchQuery(
 
 // ---- Apply preset to detected columns ----
 
+// Below this score a column falls back to the protected-column regex
+const PRESET_MATCH_MIN_SCORE = 0.65;
+
+/**
+ * Canonical column names a supplier header can be mapped onto
+ */
+export function getMappingTargets(): string[] {
+  return Object.keys(getColumnConfig());
+}
+
 /**
  * Match detected spreadsheet columns to preset config
  */
@@ -198,13 +281,13 @@ export function applyPresetToColumns(
       return;
     }
 
-    // Partial match
-    const partialMatch = Object.keys(presetConfig).find(k =>
-      lowerCol.includes(k.toLowerCase()) || k.toLowerCase().includes(lowerCol)
-    );
+    // Scored match (expands abbreviations like "Cod." and weighs the leading word)
+    const bestMatch = Object.keys(presetConfig)
+      .map(k => ({ key: k, score: scoreHeaderMatch(col, k) }))
+      .sort((a, b) => b.score - a.score)[0];
 
-    if (partialMatch) {
-      result[col] = presetConfig[partialMatch];
+    if (bestMatch && bestMatch.score >= PRESET_MATCH_MIN_SCORE) {
+      result[col] = presetConfig[bestMatch.key];
       return;
     }
 
@@ -0,0 +1,144 @@
+// =====================================================
+// ULTRACLEAN - Abbreviation Expansion
+// =====================================================
+
+import { containsCategory, normalizeHeader } from './columnMapping';
+import type {
+  AbbreviationContext,
+  AbbreviationExpansion,
+  AbbreviationMatch,
+  AbbreviationScope,
+  AbbreviationScopes
+} from './types';
+
+interface CompiledEntry {
+  abbr: string;
+  full: string;
+  scope?: AbbreviationScope;
+  // "c/", "p/": written glued to the next word
+  prefix: boolean;
+}
+
+export type AbbreviationExpander = (text: string, context?: AbbreviationContext) => AbbreviationExpansion;
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+const DIGIT = /\p{N}/u;
+const LETTER = /\p{L}/u;
+const UPPER = /\p{Lu}/u;
+const QUANTITY = /^\d+(?:[.,]\d+)*$/;
+
+const isWordChar = (char: string | undefined) => !!char && WORD_CHAR.test(char);
+
+// "CX" -> "CAIXA", "Cx" -> "Caixa", "cx" -> entry as written
+const matchCase = (original: string, full: string): string => {
+  const letters = [...original].filter(char => LETTER.test(char));
+  if (letters.length === 0 || !UPPER.test(letters[0])) return full;
+  if (letters.length > 1 && letters.every(char => UPPER.test(char))) return full.toUpperCase();
+  return full.charAt(0).toUpperCase() + full.slice(1);
+};
+
+const inScope = (scope: AbbreviationScope | undefined, context: AbbreviationContext): boolean => {
+  if (!scope) return true;
+  if (scope.columns?.length) {
+    const column = normalizeHeader(context.column ?? '');
+    if (!scope.columns.some(col => normalizeHeader(col) === column)) return false;
+  }
+  if (scope.categories?.length) {
+    // Bling categories are paths ("Vestuário > Camisetas"); any level counts
+    const category = context.category ?? '';
+    if (!scope.categories.some(cat => containsCategory(category, cat))) return false;
+  }
+  return true;
+};
+
+// The whitespace-delimited chunk around a position, without trailing punctuation
+const chunkAt = (text: string, start: number, end: number): string => {
+  let from = start;
+  let to = end;
+  while (from > 0 && !/\s/.test(text[from - 1])) from--;
+  while (to < text.length && !/\s/.test(text[to])) to++;
+  return text.slice(from, to).replace(/[.,;:!?)]+$/, '');
+};
+
+// "10cm", "10 cm" and codes like "MOD-200" or "Ref.123" keep their tokens
+const isProtected = (text: string, start: number, end: number, entry: CompiledEntry): boolean => {
+  if (entry.prefix) return false;
+
+  const chunk = chunkAt(text, start, end);
+  if (chunk.length > end - start && DIGIT.test(chunk)) return true;
+
+  // Units after a quantity: "10 cm", "2,5 kg"
+  const previous = text.slice(0, start).trimEnd().split(/\s+/).pop() ?? '';
+  return QUANTITY.test(previous);
+};
+
+/**
+ * Build an expander for a dictionary. Entries are matched on Unicode word
+ * boundaries, longest first, and keep the casing of the text they replace.
+ */
+export const compileAbbreviations = (
+  abbreviations: Record<string, string>,
+  scopes: AbbreviationScopes = {}
+): AbbreviationExpander => {
+  // Entries indexed by first character, longest first
+  const byFirstChar = new Map<string, CompiledEntry[]>();
+  Object.entries(abbreviations).forEach(([abbr, full]) => {
+    const key = abbr.trim().toLowerCase();
+    if (!key || !full) return;
+    const entry: CompiledEntry = {
+      abbr: key,
+      full,
+      scope: scopes[key] ?? scopes[abbr],
+      prefix: !isWordChar(key[key.length - 1])
+    };
+    const bucket = byFirstChar.get(key[0]) ?? [];
+    bucket.push(entry);
+    byFirstChar.set(key[0], bucket);
+  });
+  byFirstChar.forEach(bucket => bucket.sort((a, b) => b.abbr.length - a.abbr.length));
+
+  return (text, context = {}) => {
+    if (!text || typeof text !== 'string' || byFirstChar.size === 0) return { text, matches: [] };
+
+    const matches: AbbreviationMatch[] = [];
+    let result = '';
+    let i = 0;
+
+    while (i < text.length) {
+      const candidates = isWordChar(text[i - 1]) ? undefined : byFirstChar.get(text[i].toLowerCase());
+      const entry = candidates?.find(candidate => {
+        const end = i + candidate.abbr.length;
+        if (text.slice(i, end).toLowerCase() !== candidate.abbr) return false;
+        if (!candidate.prefix && isWordChar(text[end])) return false;
+        return inScope(candidate.scope, context) && !isProtected(text, i, end, candidate);
+      });
+
+      if (!entry) {
+        result += text[i];
+        i++;
+        continue;
+      }
+
+      const original = text.slice(i, i + entry.abbr.length);
+      const expanded = matchCase(original, entry.full);
+      matches.push({ original, expanded, index: i });
+      result += expanded;
+      i += entry.abbr.length;
+      // "c/gaveta" -> "com gaveta"
+      if (entry.prefix && isWordChar(text[i])) result += ' ';
+    }
+
+    return { text: result, matches };
+  };
+};
+
+/**
+ * Expand abbreviations in a single text. Prefer compileAbbreviations when
+ * expanding many cells with the same dictionary.
+ */
+export const expandAbbreviations = (
+  text: string,
+  abbreviations: Record<string, string>,
+  context: AbbreviationContext = {},
+  scopes: AbbreviationScopes = {}
+): AbbreviationExpansion => compileAbbreviations(abbreviations, scopes)(text, context);
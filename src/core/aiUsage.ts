@@ -0,0 +1,82 @@
+// =====================================================
+// ULTRACLEAN - AI Usage and Quotas
+// =====================================================
+
+import { supabase } from '@/integrations/supabase/client';
+import type { AiQuota, AiUsageBreakdown, AiUsageSummary } from './types';
+
+export const AI_FUNCTION_LABELS: Record<string, string> = {
+  'enriquecer-produto': 'Enriquecimento',
+  'enriquecer-lote': 'Enriquecimento em segundo plano',
+  'corrigir-texto': 'Correção de texto',
+  'generate-tags': 'Geração de tags',
+  'generate-image': 'Geração de imagens'
+};
+
+/**
+ * First day of the month in UTC, the boundary the edge functions use for quotas
+ */
+export const getUsageMonth = (date: Date = new Date(), monthsBack: number = 0): string =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - monthsBack, 1)).toISOString();
+
+/**
+ * The user's AI usage in a month, per function and model
+ */
+export const getAiUsage = async (userId: string, month: string = getUsageMonth()): Promise<AiUsageSummary> => {
+  const { data, error } = await supabase
+    .from('ai_usage_monthly')
+    .select('function_name, provider, model, calls, failed_calls, prompt_tokens, completion_tokens, estimated_cost_usd, avg_latency_ms')
+    .eq('user_id', userId)
+    .eq('month', month);
+
+  if (error) {
+    throw new Error(`Failed to load AI usage: ${error.message}`);
+  }
+
+  const byFunction: AiUsageBreakdown[] = data
+    .map(row => ({
+      functionName: row.function_name ?? '',
+      provider: row.provider ?? '',
+      model: row.model ?? '',
+      calls: Number(row.calls ?? 0),
+      failedCalls: Number(row.failed_calls ?? 0),
+      promptTokens: Number(row.prompt_tokens ?? 0),
+      completionTokens: Number(row.completion_tokens ?? 0),
+      costUsd: Number(row.estimated_cost_usd ?? 0),
+      avgLatencyMs: Number(row.avg_latency_ms ?? 0)
+    }))
+    .sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls);
+
+  return {
+    month,
+    calls: byFunction.reduce((sum, row) => sum + row.calls, 0),
+    failedCalls: byFunction.reduce((sum, row) => sum + row.failedCalls, 0),
+    tokens: byFunction.reduce((sum, row) => sum + row.promptTokens + row.completionTokens, 0),
+    costUsd: byFunction.reduce((sum, row) => sum + row.costUsd, 0),
+    byFunction
+  };
+};
+
+/**
+ * Monthly limits for the user: their own quota, else the default one
+ */
+export const getAiQuota = async (userId: string): Promise<AiQuota | null> => {
+  const { data, error } = await supabase
+    .from('ai_usage_quotas')
+    .select('user_id, monthly_calls, monthly_tokens, monthly_cost_usd')
+    .or(`user_id.eq.${userId},user_id.is.null`);
+
+  if (error) {
+    console.error('Error fetching AI quota:', error);
+    return null;
+  }
+
+  const row = data.find(quota => quota.user_id === userId) ?? data[0];
+  if (!row) return null;
+
+  return {
+    calls: row.monthly_calls,
+    tokens: row.monthly_tokens,
+    costUsd: row.monthly_cost_usd === null ? null : Number(row.monthly_cost_usd)
+  };
+};
@@ -0,0 +1,256 @@
+// =====================================================
+// ULTRACLEAN - Cell Change Journal (Undo/Redo/Audit)
+// =====================================================
+
+import type { CellChange, ChangeSource, DatasetSnapshot, JournalEntry, ProductData, StructureChange } from './types';
+
+export const CHANGE_SOURCE_LABELS: Record<ChangeSource, string> = {
+  manual: 'Manual',
+  ncm: 'NCM',
+  ai: 'IA',
+  abbreviation: 'Abreviação',
+  cleanup: 'Limpeza',
+  rule: 'Regra',
+  gtin: 'GTIN',
+  measure: 'Medidas',
+  title: 'Título',
+  price: 'Preço',
+  description: 'Descrição',
+  import: 'Importação',
+  nfe: 'NF-e',
+  duplicates: 'Duplicados',
+  variants: 'Variações'
+};
+
+// Identifier columns, most specific first
+const ROW_KEY_COLUMNS = [/^(sku|c[oó]digo)$/i, /sku|c[oó]digo/i, /gtin|ean/i];
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+/**
+ * Readable key of a row for the audit trail: its SKU or code, or its line
+ */
+export const getRowKey = (row: ProductData, index: number, columns: string[]): string => {
+  for (const pattern of ROW_KEY_COLUMNS) {
+    const column = columns.find(col => pattern.test(col) && text(row[col]).trim());
+    if (column) return `${column}: ${text(row[column]).trim()}`;
+  }
+  return `Linha ${index + 1}`;
+};
+
+/**
+ * Record a single cell edit
+ */
+export const createCellChange = (
+  data: ProductData[],
+  row: number,
+  column: string,
+  newValue: unknown,
+  source: ChangeSource,
+  columns: string[]
+): CellChange => ({
+  row,
+  rowKey: getRowKey(data[row], row, columns),
+  column,
+  oldValue: data[row][column],
+  newValue,
+  source,
+  timestamp: new Date().toISOString()
+});
+
+/**
+ * Cells that differ between two versions of the same rows. Both arrays
+ * must hold the same rows in the same order.
+ */
+export const diffDatasets = (
+  before: ProductData[],
+  after: ProductData[],
+  columns: string[],
+  source: ChangeSource
+): CellChange[] => {
+  const timestamp = new Date().toISOString();
+  const changes: CellChange[] = [];
+
+  after.forEach((row, index) => {
+    const previous = before[index];
+    if (!previous || previous === row) return;
+    columns.forEach(column => {
+      if (text(previous[column]) === text(row[column])) return;
+      changes.push({
+        row: index,
+        rowKey: getRowKey(previous, index, columns),
+        column,
+        oldValue: previous[column],
+        newValue: row[column],
+        source,
+        timestamp
+      });
+    });
+  });
+
+  return changes;
+};
+
+// Copy only the rows that change; the others keep their identity
+const writeCells = (
+  data: ProductData[],
+  cells: { row: number; column: string; value: unknown }[]
+): ProductData[] => {
+  const next = [...data];
+  const copied = new Set<number>();
+  cells.forEach(({ row, column, value }) => {
+    if (!next[row]) return;
+    if (!copied.has(row)) {
+      next[row] = { ...next[row] };
+      copied.add(row);
+    }
+    next[row][column] = value;
+  });
+  return next;
+};
+
+/**
+ * Apply recorded changes to a new copy of the dataset
+ */
+export const applyCellChanges = (data: ProductData[], changes: CellChange[]): ProductData[] =>
+  writeCells(data, changes.map(c => ({ row: c.row, column: c.column, value: c.newValue })));
+
+/**
+ * Undo recorded changes, latest first, on a new copy of the dataset
+ */
+export const revertCellChanges = (data: ProductData[], changes: CellChange[]): ProductData[] =>
+  writeCells(data, [...changes].reverse().map(c => ({ row: c.row, column: c.column, value: c.oldValue })));
+
+export const createJournalEntry = (
+  label: string,
+  source: ChangeSource,
+  changes: CellChange[]
+): JournalEntry => ({
+  id: crypto.randomUUID(),
+  label,
+  source,
+  timestamp: changes[0]?.timestamp ?? new Date().toISOString(),
+  changes
+});
+
+/**
+ * Rows and columns added, removed or merged between two versions of the
+ * dataset. `removed` lists indices of `before`, with the row each merged into.
+ */
+export const describeStructure = (
+  before: DatasetSnapshot,
+  after: DatasetSnapshot,
+  removed: { row: number; mergedInto?: number }[] = []
+): StructureChange => {
+  const keyOf = (row: number) => getRowKey(before.data[row], row, before.columns);
+  return {
+    rowsBefore: before.data.length,
+    rowsAfter: after.data.length,
+    columnsAdded: after.columns.filter(col => !before.columns.includes(col)),
+    columnsRemoved: before.columns.filter(col => !after.columns.includes(col)),
+    removedRows: removed
+      .filter(({ row }) => before.data[row])
+      .map(({ row, mergedInto }) => ({
+        rowKey: keyOf(row),
+        ...(mergedInto !== undefined && before.data[mergedInto] ? { mergedInto: keyOf(mergedInto) } : {})
+      }))
+  };
+};
+
+/**
+ * A change to the rows or columns; undo restores the whole `before` dataset
+ */
+export const createStructureEntry = (
+  label: string,
+  source: ChangeSource,
+  before: DatasetSnapshot,
+  after: DatasetSnapshot,
+  removed: { row: number; mergedInto?: number }[] = [],
+  changes: CellChange[] = []
+): JournalEntry => ({
+  ...createJournalEntry(label, source, changes),
+  structure: describeStructure(before, after, removed),
+  snapshot: { before, after }
+});
+
+/**
+ * Audit copy of an entry undone or redone: cell values swap on undo, and
+ * so do the row counts and columns of a structural change
+ */
+export const createReplayEntry = (entry: JournalEntry, replay: 'undo' | 'redo'): JournalEntry => {
+  const timestamp = new Date().toISOString();
+  const undo = replay === 'undo';
+  const structure = entry.structure && (undo
+    ? {
+      rowsBefore: entry.structure.rowsAfter,
+      rowsAfter: entry.structure.rowsBefore,
+      columnsAdded: entry.structure.columnsRemoved,
+      columnsRemoved: entry.structure.columnsAdded,
+      removedRows: []
+    }
+    : entry.structure);
+
+  return {
+    id: crypto.randomUUID(),
+    label: `${undo ? 'Desfeito' : 'Refeito'}: ${entry.label}`,
+    source: entry.source,
+    timestamp,
+    changes: entry.changes.map(change => ({
+      ...change,
+      oldValue: undo ? change.newValue : change.oldValue,
+      newValue: undo ? change.oldValue : change.newValue,
+      timestamp
+    })),
+    ...(structure ? { structure } : {}),
+    replay
+  };
+};
+
+const SITUATION: Record<NonNullable<JournalEntry['replay']> | 'applied', string> = {
+  applied: 'Aplicada',
+  undo: 'Desfeita',
+  redo: 'Refeita'
+};
+
+/**
+ * Flatten the audit log into spreadsheet rows. A structural entry gives a
+ * summary row, one per column added or removed and one per row removed.
+ */
+export const journalToRows = (entries: JournalEntry[]): Record<string, unknown>[] =>
+  entries.flatMap(entry => {
+    const row = (fields: { linha?: number; produto?: string; coluna?: string; anterior?: string; novo?: string }) => ({
+      'Data/Hora': new Date(entry.timestamp).toLocaleString('pt-BR'),
+      'Operação': entry.label,
+      'Origem': CHANGE_SOURCE_LABELS[entry.source],
+      'Linha': fields.linha ?? '',
+      'Produto': fields.produto ?? '',
+      'Coluna': fields.coluna ?? '',
+      'Valor Anterior': fields.anterior ?? '',
+      'Novo Valor': fields.novo ?? '',
+      'Situação': SITUATION[entry.replay ?? 'applied']
+    });
+
+    const structure = entry.structure;
+    const structureRows = structure
+      ? [
+        row({ anterior: `${structure.rowsBefore} linha(s)`, novo: `${structure.rowsAfter} linha(s)` }),
+        ...structure.columnsAdded.map(coluna => row({ coluna, novo: 'Coluna adicionada' })),
+        ...structure.columnsRemoved.map(coluna => row({ coluna, anterior: 'Coluna removida' })),
+        ...structure.removedRows.map(removed => row({
+          produto: removed.rowKey,
+          novo: removed.mergedInto ? `Mesclada em ${removed.mergedInto}` : 'Linha removida'
+        }))
+      ]
+      : [];
+
+    return [
+      ...structureRows,
+      ...entry.changes.map(change => row({
+        linha: change.row + 1,
+        produto: change.rowKey,
+        coluna: change.column,
+        anterior: text(change.oldValue),
+        novo: text(change.newValue)
+      }))
+    ];
+  });
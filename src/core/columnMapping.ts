@@ -0,0 +1,236 @@
+// =====================================================
+// ULTRACLEAN - Supplier Column Mapping
+// =====================================================
+
+import type {
+  ColumnMappingSuggestion,
+  ProductData,
+  SupplierMapping
+} from './types';
+
+// Minimum score for a header to be mapped automatically
+const MIN_MAPPING_SCORE = 0.5;
+
+// Minimum header overlap for a saved supplier mapping to be reused
+const MIN_SIGNATURE_OVERLAP = 0.8;
+
+// Abbreviations commonly found in supplier headers
+const HEADER_ALIASES: Record<string, string> = {
+  cod: 'codigo',
+  cd: 'codigo',
+  ref: 'referencia',
+  desc: 'descricao',
+  descr: 'descricao',
+  qt: 'quantidade',
+  qtd: 'quantidade',
+  qtde: 'quantidade',
+  vl: 'valor',
+  vlr: 'valor',
+  prc: 'preco',
+  pr: 'preco',
+  un: 'unidade',
+  und: 'unidade',
+  unid: 'unidade',
+  cat: 'categoria',
+  fab: 'fabricante',
+  est: 'estoque',
+  obs: 'observacoes',
+  observacao: 'observacoes',
+  img: 'imagem',
+  imagens: 'imagem',
+  barra: 'barras',
+  ean13: 'ean',
+  titulo: 'nome',
+};
+
+const STOPWORDS = new Set(['de', 'do', 'da', 'dos', 'das', 'e', 'o', 'a']);
+
+// Words that make a field someone else's: "Cod. Fabricante" is not our "Código"
+const QUALIFIERS = new Set(['fabricante', 'fornecedor', 'pai', 'barras', 'marca']);
+
+/**
+ * Normalize a header so spellings like "Preço", "preco " and "PREÇO" align
+ */
+export const normalizeHeader = (header: string): string => {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+};
+
+/**
+ * Levels of a Bling category path: "Vestuário > Camisetas" -> ['vestuario', 'camisetas']
+ */
+export const categorySegments = (path: string): string[] =>
+  path.split('>').map(normalizeHeader).filter(Boolean);
+
+/**
+ * Whether a category path holds another as whole consecutive levels:
+ * "Camisetas" matches "Vestuário > Camisetas" but not "Camisetas Polo",
+ * and "Moda" doesn't match "Acomodação"
+ */
+export const containsCategory = (path: string, match: string): boolean => {
+  const levels = categorySegments(path);
+  const wanted = categorySegments(match);
+  return wanted.length > 0 && levels.some((_, start) => wanted.every((level, i) => levels[start + i] === level));
+};
+
+/**
+ * Split a header into normalized tokens with abbreviations expanded
+ */
+export const tokenizeHeader = (header: string): string[] => {
+  return normalizeHeader(header)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(token => HEADER_ALIASES[token] || token)
+    .filter(token => !STOPWORDS.has(token));
+};
+
+/**
+ * Score how well a supplier header matches a canonical column (0 to 1).
+ * The first token weighs more because it names the field: "Cod. Fabricante"
+ * is a code, not a manufacturer. A qualifier the target lacks rules the
+ * match out, so that code never lands on our own "Código" either.
+ */
+export const scoreHeaderMatch = (source: string, target: string): number => {
+  if (normalizeHeader(source) === normalizeHeader(target)) return 1;
+
+  const sourceTokens = tokenizeHeader(source);
+  const targetTokens = tokenizeHeader(target);
+  if (sourceTokens.length === 0 || targetTokens.length === 0) return 0;
+  if (sourceTokens.join(' ') === targetTokens.join(' ')) return 0.95;
+
+  const targetSet = new Set(targetTokens);
+  if (sourceTokens.some(t => QUALIFIERS.has(t) && !targetSet.has(t))) return 0;
+  const shared = new Set(sourceTokens.filter(t => targetSet.has(t))).size;
+  if (shared === 0) return 0;
+
+  const dice = (2 * shared) / (new Set(sourceTokens).size + targetSet.size);
+  const headBonus = sourceTokens[0] === targetTokens[0] ? 0.15 : -0.1;
+
+  return Math.max(0, Math.min(0.9, dice * 0.85 + headBonus));
+};
+
+/**
+ * Suggest a canonical column for every supplier header. Saved mappings win;
+ * the rest are assigned greedily by score so each target is used only once.
+ */
+export const suggestColumnMappings = (
+  headers: string[],
+  targets: string[],
+  saved?: Record<string, string | null>
+): ColumnMappingSuggestion[] => {
+  const suggestions = new Map<string, ColumnMappingSuggestion>();
+  const usedTargets = new Set<string>();
+
+  if (saved) {
+    headers.forEach(header => {
+      if (!(header in saved)) return;
+      const target = saved[header];
+      if (target && usedTargets.has(target)) return;
+      suggestions.set(header, { source: header, target, confidence: 1, reason: 'saved' });
+      if (target) usedTargets.add(target);
+    });
+  }
+
+  const candidates: { source: string; target: string; score: number }[] = [];
+  headers.forEach(source => {
+    if (suggestions.has(source)) return;
+    targets.forEach(target => {
+      const score = scoreHeaderMatch(source, target);
+      if (score > 0) candidates.push({ source, target, score });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  candidates.forEach(({ source, target, score }) => {
+    if (suggestions.has(source) || usedTargets.has(target) || score < MIN_MAPPING_SCORE) return;
+    suggestions.set(source, {
+      source,
+      target,
+      confidence: score,
+      reason: score === 1 ? 'exact' : score >= 0.95 ? 'normalized' : 'fuzzy'
+    });
+    usedTargets.add(target);
+  });
+
+  return headers.map(source => suggestions.get(source) ?? {
+    source,
+    target: null,
+    confidence: candidates.find(c => c.source === source)?.score ?? 0,
+    reason: 'none'
+  });
+};
+
+/**
+ * Confidence bucket shown in the mapping wizard
+ */
+export const getMappingConfidenceLevel = (
+  suggestion: ColumnMappingSuggestion
+): 'alta' | 'media' | 'baixa' => {
+  if (suggestion.reason === 'saved' || suggestion.confidence >= 0.9) return 'alta';
+  if (suggestion.confidence >= 0.65) return 'media';
+  return 'baixa';
+};
+
+/**
+ * Find the saved supplier mapping whose headers best match a new file
+ */
+export const findMatchingSupplierMapping = <T extends { supplierName: string; mapping: SupplierMapping }>(
+  headers: string[],
+  candidates: T[]
+): T | null => {
+  const headerSet = new Set(headers.map(normalizeHeader));
+  let best: T | null = null;
+  let bestOverlap = 0;
+
+  candidates.forEach(candidate => {
+    const saved = new Set(candidate.mapping.headers.map(normalizeHeader));
+    if (saved.size === 0) return;
+    const shared = [...headerSet].filter(h => saved.has(h)).length;
+    const overlap = shared / Math.max(headerSet.size, saved.size);
+    if (overlap > bestOverlap) {
+      bestOverlap = overlap;
+      best = candidate;
+    }
+  });
+
+  return bestOverlap >= MIN_SIGNATURE_OVERLAP ? best : null;
+};
+
+/**
+ * Rename dataset columns according to a confirmed mapping. Unmapped
+ * headers keep their original name; internal __ fields are preserved.
+ */
+export const applyColumnMapping = (
+  data: ProductData[],
+  columns: string[],
+  mapping: Record<string, string | null>
+): { data: ProductData[]; columns: string[] } => {
+  const renamed = new Map<string, string>();
+  // Unmapped headers keep their names, so reserve them before renaming
+  const taken = new Set(columns.filter(col => !mapping[col]));
+
+  columns.forEach(col => {
+    const target = mapping[col];
+    if (!target) {
+      renamed.set(col, col);
+      return;
+    }
+    const name = taken.has(target) ? col : target;
+    renamed.set(col, name);
+    taken.add(name);
+  });
+
+  const mapped = data.map(row => {
+    const next: ProductData = {};
+    Object.entries(row).forEach(([key, value]) => {
+      next[renamed.get(key) ?? key] = value;
+    });
+    return next;
+  });
+
+  return { data: mapped, columns: columns.map(col => renamed.get(col)!) };
+};
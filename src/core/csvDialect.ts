@@ -0,0 +1,318 @@
+// =====================================================
+// ULTRACLEAN - CSV Dialect Detection
+// =====================================================
+
+import type {
+  CsvColumnType,
+  CsvDialect,
+  CsvPreview,
+  ProductData
+} from './types';
+
+const DELIMITERS = [';', ',', '\t', '|'];
+const SAMPLE_LINES = 50;
+const PREVIEW_ROWS = 10;
+
+// Identifier columns keep leading zeros and long digit runs, so they stay text
+const TEXT_ONLY_COLUMN = /c[oó]digo|sku|gtin|ean|ncm|cest|barras|^id$|telefone|cep|cnpj|cpf/i;
+
+/**
+ * Check whether a file should go through the CSV importer
+ */
+export const isCsvFile = (filename: string): boolean => {
+  return /\.(csv|txt|tsv)$/i.test(filename);
+};
+
+/**
+ * Detect the text encoding. Supplier CSVs exported by Excel on Windows are
+ * usually Windows-1252; anything that is not valid UTF-8 is treated as such.
+ */
+export const detectEncoding = (bytes: Uint8Array): CsvDialect['encoding'] => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+/**
+ * Decode the raw bytes with the given encoding, dropping any BOM
+ */
+export const decodeCsv = (bytes: Uint8Array, encoding: CsvDialect['encoding']): string => {
+  return new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, '');
+};
+
+/**
+ * Split CSV text into rows of fields. Handles quoted fields with embedded
+ * delimiters, doubled quotes and line breaks.
+ */
+export const parseCsv = (
+  text: string,
+  delimiter: string,
+  quote: string,
+  maxRows: number = Infinity
+): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === quote) {
+        if (text[i + 1] === quote) {
+          field += quote;
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === quote && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      field = '';
+      if (row.some(f => f.trim() !== '')) rows.push(row);
+      row = [];
+      if (rows.length >= maxRows) return rows;
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(f => f.trim() !== '')) rows.push(row);
+
+  return rows;
+};
+
+/**
+ * Pick the delimiter that yields the most consistent field count across
+ * the first lines. Ties favour ";" because it is the Brazilian Excel default.
+ */
+const detectDelimiter = (text: string, quote: string): string => {
+  let best = DELIMITERS[0];
+  let bestScore = -1;
+
+  DELIMITERS.forEach(delimiter => {
+    const rows = parseCsv(text, delimiter, quote, SAMPLE_LINES);
+    if (rows.length === 0) return;
+
+    const counts = new Map<number, number>();
+    rows.forEach(r => counts.set(r.length, (counts.get(r.length) || 0) + 1));
+    const [mode, frequency] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    if (mode < 2) return;
+
+    const score = (frequency / rows.length) * 1000 + mode;
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  });
+
+  return best;
+};
+
+/**
+ * Pick the quote character by counting quotes that open a field
+ */
+const detectQuote = (text: string): string => {
+  const sample = text.slice(0, 20000);
+  const opening = (q: string) => (sample.match(new RegExp(`(^|[;,\\t|\\n])${q}`, 'g')) || []).length;
+  return opening("'") > opening('"') ? "'" : '"';
+};
+
+/**
+ * Decide the decimal separator from the numeric values in the sample.
+ * "1.234,56" and "12,5" vote for comma; "1,234.56" and "12.5" vote for dot.
+ */
+const detectDecimal = (rows: string[][]): CsvDialect['decimal'] => {
+  let comma = 0;
+  let dot = 0;
+
+  rows.forEach(r => r.forEach(value => {
+    const v = value.trim();
+    if (/^-?\d{1,3}(\.\d{3})+,\d+$/.test(v) || /^-?\d+,\d{1,2}$/.test(v)) comma++;
+    else if (/^-?\d{1,3}(,\d{3})+\.\d+$/.test(v) || /^-?\d+\.\d{1,2}$/.test(v)) dot++;
+  }));
+
+  return dot > comma ? '.' : ',';
+};
+
+/**
+ * Decide the date order from values like 31/12/2024, 12/31/2024 or 2024-12-31
+ */
+const detectDateFormat = (rows: string[][]): CsvDialect['dateFormat'] => {
+  let dmy = 0;
+  let mdy = 0;
+  let ymd = 0;
+
+  rows.forEach(r => r.forEach(value => {
+    const v = value.trim();
+    if (/^\d{4}-\d{2}-\d{2}/.test(v)) {
+      ymd++;
+      return;
+    }
+    const match = v.match(/^(\d{1,2})[/.-](\d{1,2})[/.-]\d{2,4}$/);
+    if (!match) return;
+    if (Number(match[1]) > 12) dmy++;
+    else if (Number(match[2]) > 12) mdy++;
+  }));
+
+  if (ymd > dmy && ymd > mdy) return 'ymd';
+  return mdy > dmy ? 'mdy' : 'dmy';
+};
+
+/**
+ * Detect encoding, delimiter, quote and number/date locale of a CSV file
+ */
+export const detectCsvDialect = (bytes: Uint8Array): CsvDialect => {
+  const encoding = detectEncoding(bytes);
+  const text = decodeCsv(bytes, encoding);
+  const quote = detectQuote(text);
+  const delimiter = detectDelimiter(text, quote);
+  const sample = parseCsv(text, delimiter, quote, SAMPLE_LINES).slice(1);
+
+  return {
+    encoding,
+    delimiter,
+    quote,
+    decimal: detectDecimal(sample),
+    dateFormat: detectDateFormat(sample)
+  };
+};
+
+/**
+ * Parse a number written with the dialect's decimal separator.
+ * Returns null when the value is not a plain number.
+ */
+export const parseLocaleNumber = (value: string, decimal: CsvDialect['decimal']): number | null => {
+  const v = value.trim().replace(/^R\$\s*/, '');
+  if (!v) return null;
+
+  const thousands = decimal === ',' ? '\\.' : ',';
+  const pattern = new RegExp(`^-?(\\d{1,3}(${thousands}\\d{3})+|\\d+)(\\${decimal}\\d+)?$`);
+  if (!pattern.test(v)) return null;
+
+  const normalized = v
+    .split(decimal === ',' ? '.' : ',').join('')
+    .replace(decimal, '.');
+  const parsed = Number(normalized);
+
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Parse a date in the dialect's order into ISO format (YYYY-MM-DD)
+ */
+export const parseLocaleDate = (value: string, dateFormat: CsvDialect['dateFormat']): string | null => {
+  const v = value.trim();
+
+  const iso = v.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const match = v.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (!match || dateFormat === 'ymd') return null;
+
+  const [day, month] = dateFormat === 'dmy' ? [match[1], match[2]] : [match[2], match[1]];
+  const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+  if (Number(month) > 12 || Number(day) > 31) return null;
+
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+/**
+ * Keep numbers with leading zeros as text, e.g. "00789" or "0123"
+ */
+const hasLeadingZero = (value: string): boolean => /^-?0\d/.test(value.trim());
+
+/**
+ * Infer a type per column. A column is numeric or date only when every
+ * non-empty value converts.
+ */
+const inferColumnTypes = (headers: string[], rows: string[][], dialect: CsvDialect): CsvColumnType[] => {
+  return headers.map((header, col) => {
+    if (TEXT_ONLY_COLUMN.test(header)) return 'text';
+
+    const values = rows.map(r => (r[col] ?? '').trim()).filter(Boolean);
+    if (values.length === 0) return 'text';
+
+    if (values.every(v => !hasLeadingZero(v) && parseLocaleNumber(v, dialect.decimal) !== null)) return 'number';
+    if (values.every(v => parseLocaleDate(v, dialect.dateFormat) !== null)) return 'date';
+    return 'text';
+  });
+};
+
+/**
+ * Give every header a unique, non-empty name
+ */
+const normalizeCsvHeaders = (raw: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return raw.map((h, i) => {
+    const base = h.trim() || `Coluna ${i + 1}`;
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base} (${count + 1})`;
+  });
+};
+
+const convertValue = (value: string, type: CsvColumnType, dialect: CsvDialect): string | number => {
+  const v = value.trim();
+  if (!v) return '';
+  if (type === 'number') return parseLocaleNumber(v, dialect.decimal) ?? v;
+  if (type === 'date') return parseLocaleDate(v, dialect.dateFormat) ?? v;
+  return value;
+};
+
+/**
+ * Parse a CSV file with a given dialect into typed rows
+ */
+export const readCsv = (
+  bytes: Uint8Array,
+  dialect: CsvDialect,
+  filename: string
+): { data: ProductData[]; columns: string[]; types: CsvColumnType[] } => {
+  const [headerRow = [], ...rows] = parseCsv(decodeCsv(bytes, dialect.encoding), dialect.delimiter, dialect.quote);
+  const columns = normalizeCsvHeaders(headerRow);
+  const types = inferColumnTypes(columns, rows, dialect);
+
+  const data = rows.map((r, index) => {
+    const row: ProductData = {};
+    columns.forEach((col, c) => {
+      row[col] = convertValue(r[c] ?? '', types[c], dialect);
+    });
+    row.__source_file = filename;
+    row.__row_index = index;
+    return row;
+  });
+
+  return { data, columns, types };
+};
+
+/**
+ * Build the preview shown before a CSV import is committed
+ */
+export const previewCsv = (bytes: Uint8Array, dialect: CsvDialect, filename: string): CsvPreview => {
+  const { data, columns, types } = readCsv(bytes, dialect, filename);
+
+  return {
+    dialect,
+    columns: columns.map((name, i) => ({ name, type: types[i] })),
+    rows: data.slice(0, PREVIEW_ROWS),
+    rowCount: data.length
+  };
+};
@@ -5,31 +5,174 @@
 import * as XLSX from 'xlsx';
 import { saveAs } from 'file-saver';
 import type { 
+  AbbreviationScopes,
   ColumnConfig, 
+  DuplicateOptions,
   DuplicateResult, 
   ProcessingResult, 
   ProcessingStats,
-  ProductData 
+  ProductData,
+  ProgressCallback,
+  SheetSummary,
+  HeaderAlignment,
+  TransformRule
 } from './types';
 import { DEFAULT_ABBREVIATIONS } from './types';
+import { detectCsvDialect, isCsvFile, readCsv } from './csvDialect';
+import { normalizeHeader } from './columnMapping';
+import { DEFAULT_DUPLICATE_OPTIONS, findSimilarGroups } from './similarity';
+import { isGtinColumn, normalizeGtin, toGtin14 } from './gtin';
+import { compileTransformRules } from './transformRules';
+import { compileAbbreviations, expandAbbreviations } from './abbreviations';
 
 /**
- * Parse Excel/CSV file and extract data
+ * Read a workbook from a raw file buffer
  */
-export const parseFile = (file: File): Promise<{ data: ProductData[]; columns: string[] }> => {
+export const readWorkbook = (buffer: ArrayBuffer): XLSX.WorkBook => {
+  return XLSX.read(new Uint8Array(buffer), { type: 'array' });
+};
+
+/**
+ * Read the header cells of a sheet without converting the whole sheet
+ */
+const readHeaderRow = (sheet: XLSX.WorkSheet): string[] => {
+  if (!sheet['!ref']) return [];
+
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const headers: string[] = [];
+
+  for (let col = range.s.c; col <= range.e.c; col++) {
+    const cell = sheet[XLSX.utils.encode_cell({ r: range.s.r, c: col })];
+    const value = cell ? String(cell.w ?? cell.v ?? '').trim() : '';
+    if (value) headers.push(value);
+  }
+
+  return headers;
+};
+
+/**
+ * List the sheets of a workbook with their headers and row counts
+ */
+export const summarizeSheets = (workbook: XLSX.WorkBook): SheetSummary[] => {
+  return workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name];
+    const range = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']) : null;
+    const rowCount = range ? Math.max(0, range.e.r - range.s.r) : 0;
+
+    return { name, headers: readHeaderRow(sheet), rowCount };
+  });
+};
+
+/**
+ * Align the headers of several sheets. The first spelling seen for a
+ * normalized header becomes the canonical column name. Headers of one sheet
+ * that normalize alike ("Preço" and "preco") stay separate columns, each
+ * aligned with the same repeat in the other sheets.
+ */
+export const alignSheetHeaders = (sheets: SheetSummary[]): HeaderAlignment[] => {
+  const alignment = new Map<string, HeaderAlignment>();
+  const names = new Set<string>();
+
+  // Column names must stay distinct, or the later column would overwrite the earlier one
+  const uniqueName = (header: string) => {
+    let name = header;
+    for (let n = 2; names.has(name); n++) name = `${header} (${n})`;
+    names.add(name);
+    return name;
+  };
+
+  sheets.forEach(sheet => {
+    const repeats = new Map<string, number>();
+    const copies = new Map<string, number>();
+
+    sheet.headers.forEach(header => {
+      const base = normalizeHeader(header);
+      const repeat = repeats.get(base) ?? 0;
+      repeats.set(base, repeat + 1);
+      // sheet_to_json reads a header written twice as "Nome", then "Nome_1"
+      const copy = copies.get(header) ?? 0;
+      copies.set(header, copy + 1);
+      const original = copy > 0 ? `${header}_${copy}` : header;
+
+      const key = repeat > 0 ? `${base}#${repeat + 1}` : base;
+      if (!alignment.has(key)) {
+        alignment.set(key, { column: uniqueName(header), variants: {}, sheets: [] });
+      }
+      const entry = alignment.get(key)!;
+      entry.variants[sheet.name] = original;
+      if (!entry.sheets.includes(sheet.name)) entry.sheets.push(sheet.name);
+    });
+  });
+
+  return [...alignment.values()];
+};
+
+/**
+ * Label used in __source_file for a row read from a given sheet
+ */
+export const formatSourceLabel = (filename: string, sheetName: string, sheetCount: number): string => {
+  return sheetCount > 1 ? `${filename} › ${sheetName}` : filename;
+};
+
+/**
+ * Merge the selected sheets of a workbook into one dataset with aligned
+ * columns. Each row keeps its origin in __source_file and __row_index.
+ */
+export const mergeSheets = (
+  workbook: XLSX.WorkBook,
+  sheetNames: string[],
+  filename: string
+): { data: ProductData[]; columns: string[] } => {
+  const selected = summarizeSheets(workbook).filter(s => sheetNames.includes(s.name));
+  const alignment = alignSheetHeaders(selected);
+  const columns = alignment.map(a => a.column);
+
+  const data: ProductData[] = [];
+
+  selected.forEach(summary => {
+    const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[summary.name], { defval: '' });
+    const sourceFile = formatSourceLabel(filename, summary.name, selected.length);
+
+    rows.forEach((row, index) => {
+      const merged: ProductData = {};
+      alignment.forEach(({ column, variants }) => {
+        const original = variants[summary.name];
+        merged[column] = original !== undefined ? row[original] ?? '' : '';
+      });
+      merged.__source_file = sourceFile;
+      merged.__row_index = index;
+      data.push(merged);
+    });
+  });
+
+  return { data, columns };
+};
+
+/**
+ * Parse Excel/CSV file and extract data. Reads the first sheet unless
+ * sheetNames selects others, in which case they are merged. CSV files
+ * go through dialect detection instead of XLSX.
+ */
+export const parseFile = (
+  file: File,
+  sheetNames?: string[]
+): Promise<{ data: ProductData[]; columns: string[] }> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     
     reader.onload = (event) => {
       try {
-        const data = new Uint8Array(event.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-        const jsonData = XLSX.utils.sheet_to_json(firstSheet) as ProductData[];
-        
-        const columns = jsonData.length > 0 ? Object.keys(jsonData[0]).filter(k => !k.startsWith('__')) : [];
+        if (isCsvFile(file.name)) {
+          const bytes = new Uint8Array(event.target?.result as ArrayBuffer);
+          const { data, columns } = readCsv(bytes, detectCsvDialect(bytes), file.name);
+          resolve({ data, columns });
+          return;
+        }
+
+        const workbook = readWorkbook(event.target?.result as ArrayBuffer);
+        const selected = sheetNames?.length ? sheetNames : [workbook.SheetNames[0]];
         
-        resolve({ data: jsonData, columns });
+        resolve(mergeSheets(workbook, selected, file.name));
       } catch (error) {
         reject(new Error('Erro ao ler o arquivo. Verifique se é um Excel/CSV válido.'));
       }
@@ -41,19 +184,25 @@ export const parseFile = (file: File): Promise<{ data: ProductData[]; columns: s
 };
 
 /**
- * Detect duplicate entries in the dataset
+ * Detect duplicate entries in the dataset: repeated SKUs, plus rows whose
+ * comparison columns are similar under the chosen metric and threshold
  */
 export const detectDuplicates = (
   data: ProductData[],
-  columnConfig: Record<string, ColumnConfig>
+  columnConfig: Record<string, ColumnConfig>,
+  overrides: Partial<DuplicateOptions> = {},
+  onProgress?: ProgressCallback
 ): DuplicateResult[] => {
   const duplicates: DuplicateResult[] = [];
+  const options = { ...DEFAULT_DUPLICATE_OPTIONS, ...overrides };
   
-  // Find SKU column
+  // Find SKU column ("Código de Barras" is a GTIN, not a SKU)
   const skuColumn = Object.keys(columnConfig).find(col =>
-    col.toLowerCase().includes('sku') || 
-    col.toLowerCase().includes('código') || 
-    col.toLowerCase().includes('codigo')
+    !isGtinColumn(col) && (
+      col.toLowerCase().includes('sku') || 
+      col.toLowerCase().includes('código') || 
+      col.toLowerCase().includes('codigo')
+    )
   );
   
   if (skuColumn) {
@@ -86,127 +235,84 @@ export const detectDuplicates = (
       }
     });
   }
+
+  // Rows sharing a valid GTIN under different SKUs
+  const gtinColumn = Object.keys(columnConfig).find(isGtinColumn);
+  if (gtinColumn) {
+    const gtinMap = new Map<string, number[]>();
+
+    data.forEach((row, index) => {
+      const { normalized, status } = normalizeGtin(row[gtinColumn]);
+      if (status !== 'valid') return;
+      const key = toGtin14(normalized);
+      if (!gtinMap.has(key)) gtinMap.set(key, []);
+      gtinMap.get(key)!.push(index);
+    });
+
+    gtinMap.forEach(rows => {
+      if (rows.length < 2) return;
+      const skus = new Set(rows.map(i => (skuColumn ? String(data[i][skuColumn] ?? '').trim() : String(i))));
+      if (skus.size < 2) return;
+
+      const sourceFiles = [...new Set(rows.map(i => data[i].__source_file).filter(Boolean))] as string[];
+      duplicates.push({
+        tipo: 'GTIN Duplicado',
+        valor: normalizeGtin(data[rows[0]][gtinColumn]).normalized,
+        linhas: rows,
+        similaridade: 1.0,
+        isCrossFile: sourceFiles.length > 1,
+        sourceFiles
+      });
+    });
+  }
   
-  // Find description column for similarity check
+  // Compare the chosen columns, or the first description-like column
   const descColumn = Object.keys(columnConfig).find(col =>
     col.toLowerCase().includes('descricao') ||
     col.toLowerCase().includes('descrição') ||
     col.toLowerCase().includes('nome')
   );
-  
-  if (descColumn) {
-    const maxItemsForFullComparison = 500;
-    const dataLength = data.length;
-    
-    if (dataLength <= maxItemsForFullComparison) {
-      for (let i = 0; i < dataLength; i++) {
-        if (duplicates.some(d => d.linhas.includes(i) && d.tipo === 'Descrição Similar')) continue;
-        
-        const desc1 = String(data[i][descColumn] || '').toLowerCase().trim();
-        if (!desc1 || desc1.length < 5) continue;
-        
-        for (let j = i + 1; j < dataLength; j++) {
-          const desc2 = String(data[j][descColumn] || '').toLowerCase().trim();
-          if (!desc2 || desc2.length < 5) continue;
-          
-          const similarity = calculateSimilarity(desc1, desc2);
-          if (similarity > 0.85) {
-            const sourceFiles = [
-              data[i].__source_file as string,
-              data[j].__source_file as string
-            ].filter(Boolean);
-            const uniqueFiles = [...new Set(sourceFiles)];
-            
-            duplicates.push({
-              tipo: 'Descrição Similar',
-              valor: desc1.substring(0, 40) + (desc1.length > 40 ? '...' : ''),
-              linhas: [i, j],
-              similaridade: Math.round(similarity * 100) / 100,
-              isCrossFile: uniqueFiles.length > 1,
-              sourceFiles: uniqueFiles
-            });
-            break;
-          }
-        }
-      }
-    } else {
-      // Use fingerprinting for large datasets
-      const fingerprints = new Map<string, { index: number; sourceFile?: string }[]>();
-      
-      data.forEach((row, index) => {
-        const desc = String(row[descColumn] || '').toLowerCase().trim();
-        if (!desc || desc.length < 5) return;
-        
-        const words = desc.split(/\W+/).filter(w => w.length > 2).slice(0, 4);
-        const fingerprint = words.sort().join('_');
-        
-        if (fingerprint) {
-          if (!fingerprints.has(fingerprint)) {
-            fingerprints.set(fingerprint, []);
-          }
-          fingerprints.get(fingerprint)!.push({ 
-            index, 
-            sourceFile: row.__source_file as string | undefined 
-          });
-        }
-      });
-      
-      fingerprints.forEach((entries) => {
-        if (entries.length > 1) {
-          for (let i = 0; i < entries.length; i++) {
-            for (let j = i + 1; j < entries.length; j++) {
-              const idx1 = entries[i].index;
-              const idx2 = entries[j].index;
-              
-              if (duplicates.some(d => 
-                d.tipo === 'Descrição Similar' && 
-                d.linhas.includes(idx1) && 
-                d.linhas.includes(idx2)
-              )) continue;
-              
-              const desc1 = String(data[idx1][descColumn] || '').toLowerCase().trim();
-              const desc2 = String(data[idx2][descColumn] || '').toLowerCase().trim();
-              
-              const similarity = calculateSimilarity(desc1, desc2);
-              if (similarity > 0.85) {
-                const sourceFiles = [
-                  entries[i].sourceFile,
-                  entries[j].sourceFile
-                ].filter(Boolean) as string[];
-                const uniqueFiles = [...new Set(sourceFiles)];
-                
-                duplicates.push({
-                  tipo: 'Descrição Similar',
-                  valor: desc1.substring(0, 40) + (desc1.length > 40 ? '...' : ''),
-                  linhas: [idx1, idx2],
-                  similaridade: Math.round(similarity * 100) / 100,
-                  isCrossFile: uniqueFiles.length > 1,
-                  sourceFiles: uniqueFiles
-                });
-              }
-            }
-          }
-        }
+  const compareColumns = options.columns.length > 0
+    ? options.columns
+    : [descColumn].filter(Boolean) as string[];
+
+  if (compareColumns.length > 0) {
+    const texts = data.map(row => compareColumns.map(col => String(row[col] ?? '')).join(' '));
+    let report: ((done: number) => void) | undefined;
+    const groups = findSimilarGroups(texts, options, (done, total) => {
+      report ??= throttleProgress(total, onProgress);
+      report(done);
+    });
+
+    groups.forEach(({ rows, similarity }) => {
+      const uniqueFiles = [...new Set(rows.map(i => data[i].__source_file).filter(Boolean))] as string[];
+      const desc = texts[rows[0]].trim();
+
+      duplicates.push({
+        tipo: 'Descrição Similar',
+        valor: desc.substring(0, 40) + (desc.length > 40 ? '...' : ''),
+        linhas: rows,
+        similaridade: Math.round(similarity * 100) / 100,
+        isCrossFile: uniqueFiles.length > 1,
+        sourceFiles: uniqueFiles
       });
-    }
+    });
   }
   
+  onProgress?.(data.length, data.length);
   return duplicates;
 };
 
 /**
- * Calculate string similarity using Jaccard index
+ * Wrap a progress callback so it fires at most every 1% of the work
  */
-const calculateSimilarity = (str1: string, str2: string): number => {
-  const words1 = new Set(str1.split(/\W+/).filter(w => w.length > 2));
-  const words2 = new Set(str2.split(/\W+/).filter(w => w.length > 2));
-  
-  if (words1.size === 0 || words2.size === 0) return 0;
-  
-  const intersection = new Set([...words1].filter(x => words2.has(x)));
-  const union = new Set([...words1, ...words2]);
-  
-  return intersection.size / union.size;
+const throttleProgress = (total: number, onProgress?: ProgressCallback) => {
+  const step = Math.max(1, Math.floor(total / 100));
+  return (done: number) => {
+    if (onProgress && (done % step === 0 || done === total)) {
+      onProgress(done, total);
+    }
+  };
 };
 
 /**
@@ -217,33 +323,37 @@ export const correctAbbreviations = (
   abbreviations: Record<string, string>
 ): string => {
   if (!text || typeof text !== 'string') return text;
-  
-  let corrected = text;
-  Object.entries(abbreviations).forEach(([abbr, full]) => {
-    const pattern = new RegExp(`\\b${abbr}\\b`, 'gi');
-    corrected = corrected.replace(pattern, full);
-  });
-  
-  return corrected;
+  return expandAbbreviations(text, abbreviations).text;
 };
 
 /**
- * Main data processing function
+ * Main data processing function. Column actions and abbreviations run
+ * first, then the transformation rules in their list order. Abbreviation
+ * scopes are matched against each column and the row's category.
  */
 export const processData = (
   data: ProductData[],
   columnConfig: Record<string, ColumnConfig>,
-  abbreviations: Record<string, string>
+  abbreviations: Record<string, string>,
+  rules: TransformRule[] = [],
+  abbreviationScopes: AbbreviationScopes = {},
+  onProgress?: ProgressCallback
 ): ProcessingResult => {
   const enrichedData = data.map(row => ({ ...row }));
   const stats: ProcessingStats = {
     camposPreenchidos: 0,
     abreviaturasCorrigidas: 0,
     camposProtegidos: 0,
-    camposIgnorados: 0
+    camposIgnorados: 0,
+    regrasAplicadas: 0
   };
+  const report = throttleProgress(data.length, onProgress);
+  const transform = compileTransformRules(rules, columnConfig);
+  const expand = compileAbbreviations(abbreviations, abbreviationScopes);
+  const categoryColumn = Object.keys(columnConfig).find(col => /categoria|category/i.test(col));
   
   enrichedData.forEach((row, rowIndex) => {
+    report(rowIndex);
     Object.entries(columnConfig).forEach(([column, config]) => {
       const originalValue = row[column];
       let newValue = originalValue;
@@ -271,8 +381,9 @@ export const processData = (
         }
       }
       
-      if (typeof newValue === 'string' && Object.keys(abbreviations).length > 0) {
-        const corrected = correctAbbreviations(newValue, abbreviations);
+      if (typeof newValue === 'string') {
+        const category = categoryColumn ? String(data[rowIndex][categoryColumn] ?? '') : undefined;
+        const corrected = expand(newValue, { column, category }).text;
         if (corrected !== newValue) {
           newValue = corrected;
           stats.abreviaturasCorrigidas++;
@@ -281,6 +392,8 @@ export const processData = (
       
       enrichedData[rowIndex][column] = newValue;
     });
+
+    stats.regrasAplicadas += transform(row);
   });
   
   // Ensure protected fields are never altered
@@ -292,6 +405,7 @@ export const processData = (
     }
   });
   
+  report(data.length);
   return { enrichedData, stats };
 };
 
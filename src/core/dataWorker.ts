@@ -0,0 +1,102 @@
+// =====================================================
+// ULTRACLEAN - Background Data Worker
+// =====================================================
+
+import type * as XLSX from 'xlsx';
+import {
+  readWorkbook,
+  summarizeSheets,
+  mergeSheets,
+  detectDuplicates,
+  processData
+} from './dataProcessor';
+import { detectCsvDialect, previewCsv, readCsv } from './csvDialect';
+import type { WorkerRequest, WorkerResponse, WorkerStage } from './types';
+
+const ctx = self as unknown as Worker;
+
+// Workbooks opened but not merged yet, kept until the user picks the sheets
+const workbooks = new Map<string, XLSX.WorkBook>();
+// Raw CSV bytes kept while the user reviews the detected dialect
+const csvFiles = new Map<string, Uint8Array>();
+let nextToken = 0;
+
+const post = (message: WorkerResponse) => ctx.postMessage(message);
+
+const progressFor = (id: number, stage: WorkerStage) => (done: number, total: number) => {
+  post({ id, type: 'progress', progress: { stage, done, total } });
+};
+
+const handle = (request: WorkerRequest): unknown => {
+  switch (request.type) {
+    case 'open': {
+      progressFor(request.id, 'reading')(0, 1);
+      let workbook: XLSX.WorkBook;
+      try {
+        workbook = readWorkbook(request.buffer);
+      } catch {
+        throw new Error('Erro ao ler o arquivo. Verifique se é um Excel/CSV válido.');
+      }
+      const token = String(++nextToken);
+      workbooks.set(token, workbook);
+      progressFor(request.id, 'reading')(1, 1);
+      return { token, sheets: summarizeSheets(workbook) };
+    }
+    case 'merge': {
+      const workbook = workbooks.get(request.token);
+      if (!workbook) throw new Error('Planilha não está mais disponível. Envie o arquivo novamente.');
+      progressFor(request.id, 'merging')(0, 1);
+      const result = mergeSheets(workbook, request.sheetNames, request.filename);
+      workbooks.delete(request.token);
+      progressFor(request.id, 'merging')(1, 1);
+      return result;
+    }
+    case 'inspectCsv': {
+      progressFor(request.id, 'reading')(0, 1);
+      const token = request.token ?? String(++nextToken);
+      if (request.buffer) csvFiles.set(token, new Uint8Array(request.buffer));
+      const bytes = csvFiles.get(token);
+      if (!bytes) throw new Error('Arquivo não está mais disponível. Envie o arquivo novamente.');
+      const preview = previewCsv(bytes, request.dialect ?? detectCsvDialect(bytes), request.filename);
+      progressFor(request.id, 'reading')(1, 1);
+      return { token, preview };
+    }
+    case 'mergeCsv': {
+      const bytes = csvFiles.get(request.token);
+      if (!bytes) throw new Error('Arquivo não está mais disponível. Envie o arquivo novamente.');
+      progressFor(request.id, 'merging')(0, 1);
+      const { data, columns } = readCsv(bytes, request.dialect, request.filename);
+      csvFiles.delete(request.token);
+      progressFor(request.id, 'merging')(1, 1);
+      return { data, columns };
+    }
+    case 'close':
+      workbooks.delete(request.token);
+      csvFiles.delete(request.token);
+      return null;
+    case 'duplicates':
+      return detectDuplicates(request.data, request.columnConfig, request.options, progressFor(request.id, 'duplicates'));
+    case 'process':
+      return processData(
+        request.data,
+        request.columnConfig,
+        request.abbreviations,
+        request.rules,
+        request.abbreviationScopes,
+        progressFor(request.id, 'processing')
+      );
+  }
+};
+
+ctx.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  try {
+    post({ id: request.id, type: 'result', result: handle(request) });
+  } catch (error) {
+    post({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Erro desconhecido no processamento'
+    });
+  }
+};
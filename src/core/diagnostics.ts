@@ -0,0 +1,172 @@
+// =====================================================
+// ULTRACLEAN - Catalog Quality Diagnostics
+// =====================================================
+
+import { normalizeHeader } from './columnMapping';
+import { isGtinColumn, normalizeGtin } from './gtin';
+import { BLING_STANDARD_COLUMNS } from './types';
+import type { CatalogDiagnostics, ColumnDiagnostic, DiagnosticCheck, ProductData, ProductScore } from './types';
+
+export const DIAGNOSTIC_CHECK_LABELS: Record<DiagnosticCheck, string> = {
+  required: 'Campos obrigatórios',
+  image: 'Imagem',
+  ncm: 'NCM válido',
+  gtin: 'GTIN válido',
+  description: 'Descrição completa'
+};
+
+// Weight of each check in the 0-100 score
+const CHECK_WEIGHTS: Record<DiagnosticCheck, number> = {
+  required: 40,
+  image: 15,
+  ncm: 15,
+  gtin: 15,
+  description: 15
+};
+
+// Descriptions shorter than this, without HTML, don't count as complete
+export const MIN_DESCRIPTION_LENGTH = 100;
+
+// Spellings of the required Bling columns found in exports and supplier sheets
+const REQUIRED_ALIASES: Record<string, string[]> = {
+  'SKU': ['SKU', 'Código', 'Código Produto', 'Código do Produto'],
+  'Nome': ['Nome', 'Nome Produto', 'Descrição'],
+  'Preço': ['Preço', 'Preço de Venda', 'Preço Venda'],
+  'Estoque': ['Estoque', 'Saldo', 'Quantidade']
+};
+
+const IMAGE_COLUMN = /imagem|imagens|image|foto/i;
+const DESCRIPTION_COLUMNS = ['Descrição Completa', 'Descrição Complementar', 'Descrição Longa', 'Descrição do Produto', 'Descrição Curta'];
+const EXAMPLE_COUNT = 5;
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
+/**
+ * Fill rate, distinct values and examples of a column
+ */
+export const analyzeColumn = (data: ProductData[], column: string): ColumnDiagnostic => {
+  const distinct = new Set<string>();
+  const examples: string[] = [];
+  let filled = 0;
+
+  data.forEach(row => {
+    const value = text(row[column]);
+    if (!value) return;
+    filled++;
+    if (!distinct.has(value) && examples.length < EXAMPLE_COUNT) examples.push(value);
+    distinct.add(value);
+  });
+
+  return {
+    column,
+    total: data.length,
+    filled,
+    empty: data.length - filled,
+    fillRate: data.length > 0 ? (filled / data.length) * 100 : 0,
+    unique: distinct.size,
+    examples
+  };
+};
+
+/**
+ * NCM with 8 digits, dots allowed, that isn't a placeholder like 00000000
+ */
+export const isValidNcm = (value: unknown): boolean => {
+  const digits = text(value).replace(/\./g, '');
+  return /^\d{8}$/.test(digits) && !/^(\d)\1{7}$/.test(digits);
+};
+
+const stripHtml = (value: string) => value.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+const resolveColumns = (columns: string[]) => {
+  const byName = new Map(columns.map(col => [normalizeHeader(col), col]));
+  const find = (candidates: string[]) =>
+    candidates.map(c => byName.get(normalizeHeader(c))).find((col): col is string => !!col);
+
+  const required = BLING_STANDARD_COLUMNS.filter(c => c.required).map(c => ({
+    name: c.name,
+    column: find(REQUIRED_ALIASES[c.name] ?? [c.name])
+  }));
+
+  return {
+    required,
+    images: columns.filter(col => IMAGE_COLUMN.test(col)),
+    ncm: find(['NCM', 'Classificação Fiscal']),
+    gtin: columns.find(isGtinColumn),
+    description: find(DESCRIPTION_COLUMNS)
+  };
+};
+
+/**
+ * Score every product on required fields, image, NCM, GTIN and description,
+ * and profile every column. Required fields count in proportion to how many
+ * are filled; "SEM GTIN" passes, since Bling accepts it for products without
+ * a barcode.
+ */
+export const diagnoseCatalog = (data: ProductData[], columns: string[]): CatalogDiagnostics => {
+  const col = resolveColumns(columns);
+  const failing: Record<DiagnosticCheck, number[]> = { required: [], image: [], ncm: [], gtin: [], description: [] };
+
+  const scores: ProductScore[] = data.map((row, index) => {
+    const missingRequired = col.required
+      .filter(({ column }) => !column || !text(row[column]))
+      .map(({ name }) => name);
+
+    const gtinStatus = col.gtin ? normalizeGtin(row[col.gtin]).status : 'empty';
+    const passed: Record<DiagnosticCheck, boolean> = {
+      required: missingRequired.length === 0,
+      image: col.images.some(column => text(row[column])),
+      ncm: !!col.ncm && isValidNcm(row[col.ncm]),
+      gtin: gtinStatus === 'valid' || gtinStatus === 'placeholder',
+      description: !!col.description && stripHtml(text(row[col.description])).length >= MIN_DESCRIPTION_LENGTH
+    };
+
+    let score = 0;
+    const failed: DiagnosticCheck[] = [];
+    (Object.keys(CHECK_WEIGHTS) as DiagnosticCheck[]).forEach(check => {
+      if (check === 'required') {
+        const share = col.required.length > 0 ? 1 - missingRequired.length / col.required.length : 1;
+        score += CHECK_WEIGHTS.required * share;
+      } else if (passed[check]) {
+        score += CHECK_WEIGHTS[check];
+      }
+      if (!passed[check]) {
+        failed.push(check);
+        failing[check].push(index);
+      }
+    });
+
+    return { row: index, score: Math.round(score), failed, missingRequired };
+  });
+
+  const averageScore = scores.length > 0
+    ? Math.round(scores.reduce((sum, s) => sum + s.score, 0) / scores.length)
+    : 0;
+
+  return {
+    scores,
+    averageScore,
+    failing,
+    columns: columns.map(column => analyzeColumn(data, column))
+  };
+};
+
+/**
+ * Products per score range, for the distribution chart
+ */
+export const scoreDistribution = (
+  scores: ProductScore[],
+  step = 20
+): { range: string; min: number; max: number; rows: number[] }[] => {
+  const buckets = [];
+  for (let min = 0; min < 100; min += step) {
+    const max = Math.min(100, min + step);
+    buckets.push({
+      range: `${min}–${max}`,
+      min,
+      max,
+      rows: scores.filter(s => s.score >= min && (s.score < max || max === 100)).map(s => s.row)
+    });
+  }
+  return buckets;
+};
@@ -0,0 +1,201 @@
+// =====================================================
+// ULTRACLEAN - Duplicate Resolution & Merge
+// =====================================================
+
+import type {
+  ColumnConfig,
+  DuplicateDecision,
+  DuplicateResolution,
+  DuplicateResult,
+  ProductData
+} from './types';
+import { normalizeSimilarityText } from './similarity';
+
+// Identifier columns that keep a row recognizable across sessions, most
+// specific first. Only these exact headers count: "Código no Fornecedor" or
+// "Código Pai" identify something else.
+const IDENTITY_COLUMNS = [/^sku$/i, /^c[oó]digo$/i, /^(gtin|ean)(\s*\/\s*(gtin|ean))?$/i, /^c[oó]digo de barras$/i];
+
+const isInternal = (column: string) => column.startsWith('__');
+
+/**
+ * The one identifier column of a sheet, so every row of it is identified
+ * the same way
+ */
+export const getIdentityColumn = (columns: string[]): string | undefined => {
+  for (const pattern of IDENTITY_COLUMNS) {
+    const column = columns.find(col => pattern.test(col.trim()));
+    if (column) return column;
+  }
+  return undefined;
+};
+
+/**
+ * Stable identity of a row: the value of the sheet's identifier column, or
+ * its normalized contents when that is empty. Row indices change between
+ * imports; this doesn't.
+ */
+export const getRowIdentity = (
+  row: ProductData,
+  columnConfig: Record<string, ColumnConfig>
+): string => {
+  const idColumn = getIdentityColumn(Object.keys(columnConfig));
+  const id = idColumn ? String(row[idColumn] ?? '').trim() : '';
+  if (idColumn && id) return `${idColumn}:${id}`;
+
+  const contents = Object.keys(row)
+    .filter(col => !isInternal(col))
+    .sort()
+    .map(col => String(row[col] ?? ''))
+    .join(' ');
+  return `txt:${normalizeSimilarityText(contents)}`;
+};
+
+/**
+ * Order-independent key for a pair of rows
+ */
+export const getPairKey = (identityA: string, identityB: string): string => {
+  return [identityA, identityB].sort().join('||');
+};
+
+const groupPairs = (rows: number[]): [number, number][] => {
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < rows.length; i++) {
+    for (let j = i + 1; j < rows.length; j++) pairs.push([rows[i], rows[j]]);
+  }
+  return pairs;
+};
+
+/**
+ * Drop rows already marked as not duplicate of every other row in their
+ * group, and groups left with fewer than two rows
+ */
+export const filterDecidedDuplicates = (
+  duplicates: DuplicateResult[],
+  data: ProductData[],
+  columnConfig: Record<string, ColumnConfig>,
+  notDuplicateKeys: Set<string>
+): DuplicateResult[] => {
+  if (notDuplicateKeys.size === 0) return duplicates;
+
+  return duplicates.flatMap(dup => {
+    const identities = new Map(dup.linhas.map(i => [i, getRowIdentity(data[i], columnConfig)]));
+    const decided = (a: number, b: number) =>
+      notDuplicateKeys.has(getPairKey(identities.get(a)!, identities.get(b)!));
+
+    const linhas = dup.linhas.filter(a => dup.linhas.some(b => b !== a && !decided(a, b)));
+    return linhas.length > 1 ? [{ ...dup, linhas }] : [];
+  });
+};
+
+/**
+ * Suggest the row to keep: the one with the most filled fields
+ */
+export const suggestSurvivor = (rows: number[], data: ProductData[]): number => {
+  const filled = (i: number) =>
+    Object.entries(data[i]).filter(([col, value]) => !isInternal(col) && String(value ?? '').trim()).length;
+  return rows.reduce((best, i) => (filled(i) > filled(best) ? i : best), rows[0]);
+};
+
+/**
+ * Build the surviving row of a merge. Field values come from the chosen
+ * rows, except protected columns, which always keep the survivor's value.
+ */
+export const buildMergedRow = (
+  data: ProductData[],
+  resolution: DuplicateResolution,
+  columnConfig: Record<string, ColumnConfig>
+): ProductData => {
+  const merged: ProductData = { ...data[resolution.survivor] };
+
+  Object.entries(resolution.fieldSources).forEach(([col, source]) => {
+    if (columnConfig[col]?.isProtected || isInternal(col)) return;
+    merged[col] = data[source]?.[col] ?? merged[col];
+  });
+
+  return merged;
+};
+
+/**
+ * Apply merge and not-duplicate decisions to the dataset. Returns the new
+ * data, the still-unresolved groups with remapped row indices, and the pair
+ * decisions to store so they aren't flagged again. A merge touching a row
+ * already merged in this pass is skipped: its group stays unresolved and
+ * no decision is stored for it.
+ */
+export const applyDuplicateResolutions = (
+  data: ProductData[],
+  duplicates: DuplicateResult[],
+  resolutions: Record<number, DuplicateResolution>,
+  columnConfig: Record<string, ColumnConfig>
+): {
+  data: ProductData[];
+  duplicates: DuplicateResult[];
+  decisions: { pairKey: string; decision: DuplicateDecision }[];
+  merged: number;
+  removed: number;
+  skipped: number;
+  // Original index of each removed row and of the row it went into
+  mergedInto: { row: number; survivor: number }[];
+} => {
+  const replaced = new Map<number, ProductData>();
+  const removed = new Map<number, number>();
+  const decisions = new Map<string, DuplicateDecision>();
+  const resolved = new Set<number>();
+  let merged = 0;
+  let skipped = 0;
+
+  const decide = (group: DuplicateResult, decision: DuplicateDecision) => {
+    groupPairs(group.linhas).forEach(([a, b]) => {
+      const key = getPairKey(getRowIdentity(data[a], columnConfig), getRowIdentity(data[b], columnConfig));
+      decisions.set(key, decision);
+    });
+  };
+
+  Object.entries(resolutions).forEach(([groupIndex, resolution]) => {
+    const group = duplicates[Number(groupIndex)];
+    if (!group) return;
+
+    if (resolution.action !== 'merge') {
+      decide(group, 'not_duplicate');
+      resolved.add(Number(groupIndex));
+      return;
+    }
+
+    // A row may only be merged once per pass; later groups that touch it wait for the next one
+    if (group.linhas.some(i => removed.has(i) || replaced.has(i))) {
+      skipped++;
+      return;
+    }
+
+    replaced.set(resolution.survivor, buildMergedRow(data, resolution, columnConfig));
+    group.linhas.forEach(i => { if (i !== resolution.survivor) removed.set(i, resolution.survivor); });
+    decide(group, 'merged');
+    resolved.add(Number(groupIndex));
+    merged++;
+  });
+
+  const newIndex = new Map<number, number>();
+  const nextData: ProductData[] = [];
+  data.forEach((row, i) => {
+    if (removed.has(i)) return;
+    newIndex.set(i, nextData.length);
+    nextData.push(replaced.get(i) ?? row);
+  });
+
+  const remaining = duplicates.flatMap((dup, groupIndex) => {
+    if (resolved.has(groupIndex)) return [];
+    const linhas = dup.linhas.filter(i => newIndex.has(i)).map(i => newIndex.get(i)!);
+    return linhas.length > 1 ? [{ ...dup, linhas }] : [];
+  });
+
+  return {
+    data: nextData,
+    duplicates: remaining,
+    decisions: [...decisions.entries()].map(([pairKey, decision]) => ({ pairKey, decision })),
+    merged,
+    removed: removed.size,
+    skipped,
+    mergedInto: [...removed.entries()].map(([row, survivor]) => ({ row, survivor }))
+  };
+};
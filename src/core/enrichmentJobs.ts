@@ -0,0 +1,152 @@
+// =====================================================
+// ULTRACLEAN - Background Enrichment Jobs
+// =====================================================
+
+import { supabase } from '@/integrations/supabase/client';
+import type {
+  EnrichmentJobAction,
+  EnrichmentJobConfig,
+  EnrichmentJobItem,
+  EnrichmentJobProgress,
+  EnrichmentSession
+} from './types';
+
+// Rows read per request when loading a job's results
+const RESULTS_PAGE_SIZE = 1000;
+
+/**
+ * Call enriquecer-lote, surfacing the function's own message on HTTP errors
+ */
+const invokeJobFunction = async (body: Record<string, unknown>): Promise<{ session_id: string }> => {
+  const { data, error } = await supabase.functions.invoke('enriquecer-lote', { body });
+
+  if (error) {
+    const context = (error as { context?: unknown }).context;
+    const payload = context instanceof Response ? await context.json().catch(() => null) : null;
+    throw new Error(payload?.mensagem || error.message);
+  }
+  if (data?.error) {
+    throw new Error(data.mensagem);
+  }
+
+  return data;
+};
+
+/**
+ * Hand a session's rows to the worker. Reusing a session replaces its
+ * previous job and results. Returns the session id.
+ */
+export const submitEnrichmentJob = async (
+  items: Record<string, unknown>[],
+  config: EnrichmentJobConfig,
+  options: { sessionId?: string | null; filename?: string } = {}
+): Promise<string> => {
+  const data = await invokeJobFunction({
+    acao: 'iniciar',
+    session_id: options.sessionId ?? undefined,
+    nome_arquivo: options.filename,
+    itens: items,
+    config
+  });
+  return data.session_id;
+};
+
+/**
+ * Pause, resume or cancel a job
+ */
+export const controlEnrichmentJob = async (
+  sessionId: string,
+  action: EnrichmentJobAction
+): Promise<void> => {
+  await invokeJobFunction({ acao: action, session_id: sessionId });
+};
+
+/**
+ * Ask for a worker run; a no-op when one is already working on the session
+ */
+export const kickEnrichmentJob = async (sessionId: string): Promise<void> => {
+  await invokeJobFunction({ acao: 'executar', session_id: sessionId });
+};
+
+/**
+ * Progress of a job, as checkpointed by the worker
+ */
+export const getEnrichmentJob = async (sessionId: string): Promise<EnrichmentJobProgress | null> => {
+  const { data, error } = await supabase
+    .from('product_enrichment_sessions')
+    .select('id, status, total_items, items_processed, items_failed, job_attempts, job_last_error, job_next_attempt_at, job_locked_until, updated_at')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching enrichment job:', error);
+    return null;
+  }
+  if (!data) return null;
+
+  return {
+    sessionId: data.id,
+    status: data.status as EnrichmentSession['status'],
+    totalItems: data.total_items,
+    itemsProcessed: data.items_processed,
+    itemsFailed: data.items_failed,
+    attempts: data.job_attempts,
+    lastError: data.job_last_error,
+    nextAttemptAt: data.job_next_attempt_at,
+    lockedUntil: data.job_locked_until,
+    updatedAt: data.updated_at
+  };
+};
+
+/**
+ * Whether a running job has no worker and nothing scheduled, e.g. after the
+ * function was shut down mid-run
+ */
+export const isEnrichmentJobStalled = (job: EnrichmentJobProgress, now: number = Date.now()): boolean => {
+  if (job.status !== 'processing') return false;
+  if (job.lockedUntil && Date.parse(job.lockedUntil) > now) return false;
+  if (job.nextAttemptAt && Date.parse(job.nextAttemptAt) > now) return false;
+  return true;
+};
+
+/**
+ * Results of a job in item order
+ */
+export const getEnrichmentJobResults = async (
+  sessionId: string,
+  fromIndex: number = 0
+): Promise<EnrichmentJobItem[]> => {
+  const items: EnrichmentJobItem[] = [];
+
+  for (let from = 0; ; from += RESULTS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('produtos_processados')
+      .select('item_index, produto_original, nome_padronizado, descricao_enriquecida, categoria_inferida, marca_inferida, origem_inferida, necessita_revisao, razao_revisao, tempo_processamento_ms, metadata')
+      .eq('session_id', sessionId)
+      .gte('item_index', fromIndex)
+      .order('item_index', { ascending: true })
+      .range(from, from + RESULTS_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load job results: ${error.message}`);
+    }
+
+    items.push(...data.map(row => ({
+      itemIndex: row.item_index as number,
+      produtoOriginal: (row.produto_original as Record<string, unknown>) || {},
+      nomePadronizado: row.nome_padronizado,
+      descricaoEnriquecida: row.descricao_enriquecida,
+      categoriaInferida: row.categoria_inferida,
+      marcaInferida: row.marca_inferida,
+      origemInferida: row.origem_inferida,
+      necessitaRevisao: row.necessita_revisao,
+      razaoRevisao: row.razao_revisao,
+      tempoProcessamentoMs: row.tempo_processamento_ms,
+      metadata: (row.metadata as Record<string, unknown>) || {}
+    })));
+
+    if (data.length < RESULTS_PAGE_SIZE) break;
+  }
+
+  return items;
+};
@@ -0,0 +1,181 @@
+// =====================================================
+// ULTRACLEAN - Fiscal Field Validation (NCM, CEST, Origin, Unit)
+// =====================================================
+
+import { getCestNcmPrefixes, getCommercialUnits, getFiscalOrigins } from '@/config';
+import { normalizeHeader } from './columnMapping';
+import { getRowKey } from './changeJournal';
+import type { FiscalErrorCode, FiscalField, FiscalIssue, FiscalReference, ProductData } from './types';
+
+export const FISCAL_FIELD_LABELS: Record<FiscalField, string> = {
+  ncm: 'NCM',
+  cest: 'CEST',
+  origin: 'Origem',
+  unit: 'Unidade'
+};
+
+export const FISCAL_ERROR_LABELS: Record<FiscalErrorCode, string> = {
+  ncm_missing: 'NCM não informado',
+  ncm_format: 'NCM sem 8 dígitos',
+  ncm_unknown: 'NCM inexistente na tabela',
+  ncm_expired: 'NCM fora de vigência',
+  cest_format: 'CEST sem 7 dígitos',
+  cest_ncm_mismatch: 'CEST incompatível com o NCM',
+  origin_missing: 'Origem não informada',
+  origin_invalid: 'Origem fora do código 0–8',
+  unit_missing: 'Unidade não informada',
+  unit_invalid: 'Unidade comercial inválida'
+};
+
+const FIELD_COLUMNS: Record<FiscalField, string[]> = {
+  ncm: ['NCM', 'Classificação Fiscal'],
+  cest: ['CEST'],
+  origin: ['Origem', 'Origem da Mercadoria', 'Origem do Produto'],
+  unit: ['Unidade', 'Unidade de Medida', 'Unidade Comercial', 'Un']
+};
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
+const normalizeUnit = (unit: string) => normalizeHeader(unit).replace(/\.$/, '').toUpperCase();
+
+let commercialUnits: Set<string> | null = null;
+const getUnitSet = () => (commercialUnits ??= new Set(getCommercialUnits().map(normalizeUnit)));
+
+let cestTable: Map<string, string[]> | null = null;
+const getCestTable = () => (cestTable ??= new Map(Object.entries(getCestNcmPrefixes())));
+
+/**
+ * NCM, CEST, origin and unit columns of a sheet; fields the sheet lacks are skipped
+ */
+export const getFiscalColumns = (columns: string[]): Partial<Record<FiscalField, string>> => {
+  const byName = new Map(columns.map(col => [normalizeHeader(col), col]));
+  const result: Partial<Record<FiscalField, string>> = {};
+  (Object.keys(FIELD_COLUMNS) as FiscalField[]).forEach(field => {
+    const column = FIELD_COLUMNS[field].map(c => byName.get(normalizeHeader(c))).find(Boolean);
+    if (column) result[field] = column;
+  });
+  return result;
+};
+
+/**
+ * NCM digits without dots. Numeric cells get back the leading zero
+ * spreadsheets drop (1012100 -> 01012100).
+ */
+export const normalizeNcm = (value: unknown): string => {
+  const digits = text(value).replace(/[.\s]/g, '');
+  return typeof value === 'number' && digits.length === 7 ? `0${digits}` : digits;
+};
+
+export const normalizeCest = (value: unknown): string => {
+  const digits = text(value).replace(/[.\s]/g, '');
+  return typeof value === 'number' && digits.length === 6 ? `0${digits}` : digits;
+};
+
+// Placeholders used by exports for "no NCM": 0, 00000000, 99999999...
+const isNcmPlaceholder = (ncm: string) => ncm === '' || /^0+$/.test(ncm) || /^(\d)\1{7}$/.test(ncm);
+
+/**
+ * Origin code of a cell, accepting "0" as well as "0 - Nacional"
+ */
+export const parseOrigin = (value: unknown): string | null => {
+  const match = text(value).match(/^(\d)(?:\s*[-–—:.]\s*.*)?$/);
+  return match && match[1] in getFiscalOrigins() ? match[1] : null;
+};
+
+export const isCommercialUnit = (value: unknown): boolean => getUnitSet().has(normalizeUnit(text(value)));
+
+/**
+ * Whether a CEST applies to an NCM, both as digits; null when the CEST is
+ * not in the shipped table
+ */
+export const cestMatchesNcm = (cest: string, ncm: string): boolean | null => {
+  const prefixes = getCestTable().get(cest);
+  return prefixes ? prefixes.some(prefix => ncm.startsWith(prefix)) : null;
+};
+
+/**
+ * Distinct NCMs of a sheet, to load their reference from ncm_cache
+ */
+export const collectFiscalCodes = (data: ProductData[], columns: string[]): { ncm: string[] } => {
+  const col = getFiscalColumns(columns);
+  const ncm = new Set<string>();
+  if (col.ncm) {
+    data.forEach(row => {
+      const code = normalizeNcm(row[col.ncm!]);
+      if (/^\d{8}$/.test(code) && !isNcmPlaceholder(code)) ncm.add(code);
+    });
+  }
+  return { ncm: [...ncm] };
+};
+
+/**
+ * Check every fiscal cell and return one typed issue per failing cell.
+ * Without a reference only the formats are checked; with one, NCMs must
+ * exist in ncm_cache and be in force today. A CEST listed in the Convênio 142/18 table must apply
+ * to the row's NCM; other CESTs are only checked for format. CEST is
+ * optional, so an empty CEST is not an issue.
+ */
+export const validateFiscal = (
+  data: ProductData[],
+  columns: string[],
+  reference: FiscalReference | null = null
+): FiscalIssue[] => {
+  const col = getFiscalColumns(columns);
+  const issues: FiscalIssue[] = [];
+  const today = new Date().toISOString().slice(0, 10);
+  // Same rule as the edge functions: a code without dates is in force
+  const inForce = (code: string) => {
+    const validity = reference?.ncm.get(code);
+    return !validity || ((!validity.start || validity.start <= today) && (!validity.end || validity.end >= today));
+  };
+
+  data.forEach((row, index) => {
+    const flag = (field: FiscalField, code: FiscalErrorCode) =>
+      issues.push({ row: index, column: col[field]!, field, code, value: text(row[col[field]!]) });
+
+    let ncm: string | null = null;
+    if (col.ncm) {
+      const code = normalizeNcm(row[col.ncm]);
+      if (isNcmPlaceholder(code)) flag('ncm', 'ncm_missing');
+      else if (!/^\d{8}$/.test(code)) flag('ncm', 'ncm_format');
+      else if (reference && !reference.ncm.has(code)) flag('ncm', 'ncm_unknown');
+      else if (!inForce(code)) flag('ncm', 'ncm_expired');
+      else ncm = code;
+    }
+
+    if (col.cest && text(row[col.cest])) {
+      const code = normalizeCest(row[col.cest]);
+      if (!/^\d{7}$/.test(code)) flag('cest', 'cest_format');
+      else if (ncm && cestMatchesNcm(code, ncm) === false) flag('cest', 'cest_ncm_mismatch');
+    }
+
+    if (col.origin) {
+      if (!text(row[col.origin])) flag('origin', 'origin_missing');
+      else if (parseOrigin(row[col.origin]) === null) flag('origin', 'origin_invalid');
+    }
+
+    if (col.unit) {
+      if (!text(row[col.unit])) flag('unit', 'unit_missing');
+      else if (!isCommercialUnit(row[col.unit])) flag('unit', 'unit_invalid');
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Spreadsheet rows for the fiscal validation report
+ */
+export const fiscalIssuesToRows = (
+  data: ProductData[],
+  columns: string[],
+  issues: FiscalIssue[]
+): Record<string, unknown>[] =>
+  issues.map(issue => ({
+    'Linha': issue.row + 1,
+    'Produto': getRowKey(data[issue.row], issue.row, columns),
+    'Campo': FISCAL_FIELD_LABELS[issue.field],
+    'Coluna': issue.column,
+    'Valor': issue.value,
+    'Erro': FISCAL_ERROR_LABELS[issue.code]
+  }));
@@ -0,0 +1,144 @@
+// =====================================================
+// ULTRACLEAN - GTIN/EAN Validation
+// =====================================================
+
+import type { GtinCheck, GtinIssue, GtinStatus, ProductData } from './types';
+
+const GTIN_COLUMN = /gtin|ean|c[oó]digo de barras/i;
+const GTIN_LENGTHS = [8, 12, 13, 14];
+// Lengths a short code may be restored to, EAN-13 first
+const RESTORED_LENGTHS = [13, 8, 12, 14];
+// Excel drops the leading zeros of a number; more than two is not a GTIN
+const MAX_DROPPED_ZEROS = 2;
+
+export const GTIN_STATUS_LABELS: Record<GtinStatus, string> = {
+  valid: 'Válido',
+  empty: 'Vazio',
+  placeholder: 'Sem GTIN',
+  invalid_format: 'Caracteres inválidos',
+  invalid_length: 'Tamanho inválido',
+  invalid_check_digit: 'Dígito verificador inválido',
+  precision_lost: 'Dígitos perdidos em notação científica'
+};
+
+/**
+ * Check whether a column holds GTIN/EAN barcodes
+ */
+export const isGtinColumn = (column: string): boolean => GTIN_COLUMN.test(column);
+
+/**
+ * Validate the GS1 check digit (weights 3 and 1 from the right)
+ */
+export const isValidGtinCheckDigit = (digits: string): boolean => {
+  if (!/^\d+$/.test(digits) || digits.length < 2) return false;
+
+  let sum = 0;
+  for (let i = digits.length - 2, weight = 3; i >= 0; i--, weight = 4 - weight) {
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+/**
+ * Expand "7,89123E+12" or "7.891234567895e12" without going through floats.
+ * `lossy` when the mantissa is shorter than the exponent: the trailing
+ * zeros are made up, whatever the check digit says.
+ */
+const expandScientific = (value: string): { digits: string; lossy: boolean } | null => {
+  const match = value.match(/^(\d+)(?:[.,](\d+))?e\+?(\d+)$/i);
+  if (!match) return null;
+
+  const [, int, frac = '', exp] = match;
+  const exponent = Number(exp);
+  if (frac.length > exponent) return null;
+  return { digits: int + frac.padEnd(exponent, '0'), lossy: frac.length < exponent };
+};
+
+/**
+ * Normalize a GTIN cell: strip spaces and separators, expand scientific
+ * notation and restore leading zeros dropped by Excel. Leading zeros never
+ * change the check digit, so a short valid code is padded to the next
+ * GTIN length, restoring at most the two zeros Excel drops (GTIN-13 for the
+ 11 digits left from an EAN-13); shorter codes are internal, not GTINs.
+ */
+export const normalizeGtin = (value: unknown): GtinCheck => {
+  const original = value === null || value === undefined ? '' : String(value).trim();
+  const result = (normalized: string, status: GtinStatus): GtinCheck => ({
+    normalized,
+    status,
+    changed: status === 'valid' && normalized !== original
+  });
+
+  if (!original) return result('', 'empty');
+  if (/^sem\s*gtin$/i.test(original) || /^0+$/.test(original)) return result(original, 'placeholder');
+
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) return result(original, 'invalid_format');
+    return normalizeGtin(value.toFixed(0));
+  }
+
+  const compact = original.replace(/[\s.\-/]/g, '');
+  const scientific = expandScientific(original.replace(/\s/g, ''));
+  const digits = scientific?.digits ?? compact;
+
+  if (!/^\d+$/.test(digits)) return result(original, 'invalid_format');
+  if (scientific?.lossy) return result(original, 'precision_lost');
+
+  const length = GTIN_LENGTHS.includes(digits.length)
+    ? digits.length
+    : RESTORED_LENGTHS.find(size => size > digits.length && size - digits.length <= MAX_DROPPED_ZEROS);
+  if (!length) return result(original, 'invalid_length');
+
+  if (!isValidGtinCheckDigit(digits)) return result(original, 'invalid_check_digit');
+
+  return result(digits.padStart(length, '0'), 'valid');
+};
+
+/**
+ * Key for comparing GTINs of different lengths: the GTIN-14 form
+ */
+export const toGtin14 = (gtin: string): string => gtin.padStart(14, '0');
+
+/**
+ * List every flagged GTIN cell (invalid or placeholder) in the dataset
+ */
+export const validateGtins = (data: ProductData[], columns: string[]): GtinIssue[] => {
+  const gtinColumns = columns.filter(isGtinColumn);
+  const issues: GtinIssue[] = [];
+
+  data.forEach((row, index) => {
+    gtinColumns.forEach(column => {
+      const { status } = normalizeGtin(row[column]);
+      if (status !== 'valid' && status !== 'empty') {
+        issues.push({ row: index, column, value: String(row[column] ?? ''), status });
+      }
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Rewrite valid GTINs in their normalized form; flagged values are untouched
+ */
+export const normalizeGtinColumns = (
+  data: ProductData[],
+  columns: string[]
+): { data: ProductData[]; fixed: number } => {
+  const gtinColumns = columns.filter(isGtinColumn);
+  let fixed = 0;
+
+  const normalized = data.map(row => {
+    let next: ProductData | null = null;
+    gtinColumns.forEach(column => {
+      const check = normalizeGtin(row[column]);
+      if (!check.changed) return;
+      next ??= { ...row };
+      next[column] = check.normalized;
+      fixed++;
+    });
+    return next ?? row;
+  });
+
+  return { data: normalized, fixed };
+};
@@ -7,6 +7,11 @@ export * from './types';
 
 // Data Processing
 export {
+  readWorkbook,
+  summarizeSheets,
+  alignSheetHeaders,
+  formatSourceLabel,
+  mergeSheets,
   parseFile,
   detectDuplicates,
   correctAbbreviations,
@@ -19,6 +24,190 @@ export {
   findProductsWithoutTags
 } from './dataProcessor';
 
+// Column Mapping
+export {
+  normalizeHeader,
+  categorySegments,
+  containsCategory,
+  tokenizeHeader,
+  scoreHeaderMatch,
+  suggestColumnMappings,
+  getMappingConfidenceLevel,
+  findMatchingSupplierMapping,
+  applyColumnMapping
+} from './columnMapping';
+
+// Similarity
+export {
+  DEFAULT_DUPLICATE_OPTIONS,
+  MIN_DUPLICATE_THRESHOLD,
+  SIMILARITY_METRICS,
+  normalizeSimilarityText,
+  levenshteinDistance,
+  compareTexts,
+  findSimilarGroups
+} from './similarity';
+export type { SimilarityFn } from './similarity';
+
+// GTIN Validation
+export {
+  GTIN_STATUS_LABELS,
+  isGtinColumn,
+  isValidGtinCheckDigit,
+  normalizeGtin,
+  toGtin14,
+  validateGtins,
+  normalizeGtinColumns
+} from './gtin';
+
+// Transformation Rules
+export {
+  RULE_TYPE_LABELS,
+  RULE_CONDITION_LABELS,
+  TEXT_CASING_LABELS,
+  createTransformRule,
+  getRuleError,
+  parseLookupTable,
+  formatLookupTable,
+  compileTransformRules,
+  applyTransformRules,
+  previewTransformRules,
+  applyCasing
+} from './transformRules';
+
+// Title Templates
+export {
+  DEFAULT_TITLE_TEMPLATE,
+  DEFAULT_TITLE_MAX_LENGTH,
+  createTitleTemplate,
+  getTemplateFields,
+  getTemplateError,
+  getTitleColumn,
+  findTitleTemplate,
+  renderTitle,
+  renderTitles,
+  applyTitles
+} from './titleTemplates';
+
+// Abbreviation Expansion
+export {
+  compileAbbreviations,
+  expandAbbreviations
+} from './abbreviations';
+export type { AbbreviationExpander } from './abbreviations';
+
+// Pricing
+export {
+  PRICING_SCOPE_LABELS,
+  PRICING_MODE_LABELS,
+  PRICE_ROUNDING_LABELS,
+  PRICE_ISSUE_LABELS,
+  DEFAULT_MIN_MARGIN,
+  getPricingColumns,
+  createPricingRule,
+  parsePrice,
+  roundPrice,
+  marginOf,
+  priceFromRule,
+  findPricingRule,
+  validatePrices,
+  planRepricing,
+  applyRepricing,
+  repricingToRows,
+  priceIssuesToRows
+} from './pricing';
+
+// Catalog Diagnostics
+export {
+  DIAGNOSTIC_CHECK_LABELS,
+  MIN_DESCRIPTION_LENGTH,
+  analyzeColumn,
+  isValidNcm,
+  diagnoseCatalog,
+  scoreDistribution
+} from './diagnostics';
+
+// Measurement Extraction
+export {
+  parseMeasureNumber,
+  parseMeasurements,
+  formatMeasure,
+  proposeMeasurements,
+  applyMeasureProposals
+} from './measurements';
+
+// Change Journal
+export {
+  CHANGE_SOURCE_LABELS,
+  getRowKey,
+  createCellChange,
+  diffDatasets,
+  applyCellChanges,
+  revertCellChanges,
+  createJournalEntry,
+  describeStructure,
+  createStructureEntry,
+  createReplayEntry,
+  journalToRows
+} from './changeJournal';
+
+// Variant Grouping
+export {
+  PARENT_CODE_COLUMN,
+  formatBlingVariation,
+  parseBlingVariation,
+  extractVariantValues,
+  detectVariantGroups,
+  applyVariantStructure
+} from './variants';
+
+// Duplicate Resolution
+export {
+  getIdentityColumn,
+  getRowIdentity,
+  getPairKey,
+  filterDecidedDuplicates,
+  suggestSurvivor,
+  buildMergedRow,
+  applyDuplicateResolutions
+} from './duplicateResolution';
+
+// CSV Import
+export {
+  isCsvFile,
+  detectEncoding,
+  decodeCsv,
+  parseCsv,
+  detectCsvDialect,
+  parseLocaleNumber,
+  parseLocaleDate,
+  readCsv,
+  previewCsv
+} from './csvDialect';
+
+// NF-e Import
+export {
+  NFE_COLUMNS,
+  isNfeFile,
+  parseNfeXml,
+  importNfeFiles,
+  nfeProductsToRows,
+  mergeNfeIntoRows
+} from './nfeImport';
+
+// Background Worker
+export {
+  openWorkbookInWorker,
+  mergeSheetsInWorker,
+  inspectCsvInWorker,
+  mergeCsvInWorker,
+  closeWorkbookInWorker,
+  detectDuplicatesInWorker,
+  processDataInWorker,
+  isCancelledError
+} from './workerClient';
+export type { WorkerTask } from './workerClient';
+
 // Image Management
 export {
   urlToBlob,
@@ -38,6 +227,9 @@ export {
   flattenCategoryTree,
   saveCategoryTree,
   loadCategoryTree,
+  getCategoryProposals,
+  acceptCategoryProposal,
+  setCategoryProposalStatus,
   parseExistingTags,
   formatTagsForBling,
   mergeTagsWithExisting,
@@ -56,5 +248,55 @@ export {
   getSession,
   getUserSessions,
   deleteSession,
-  getSessionStats
+  getSessionStats,
+  getSessionCacheStats
 } from './sessionManager';
+
+// Background Enrichment Jobs
+export {
+  submitEnrichmentJob,
+  controlEnrichmentJob,
+  kickEnrichmentJob,
+  getEnrichmentJob,
+  isEnrichmentJobStalled,
+  getEnrichmentJobResults
+} from './enrichmentJobs';
+
+// AI Usage
+export {
+  AI_FUNCTION_LABELS,
+  getUsageMonth,
+  getAiUsage,
+  getAiQuota
+} from './aiUsage';
+
+// Fiscal Validation
+export {
+  FISCAL_FIELD_LABELS,
+  FISCAL_ERROR_LABELS,
+  getFiscalColumns,
+  normalizeNcm,
+  normalizeCest,
+  parseOrigin,
+  isCommercialUnit,
+  cestMatchesNcm,
+  collectFiscalCodes,
+  validateFiscal,
+  fiscalIssuesToRows
+} from './fiscal';
+
+// Rich Descriptions
+export {
+  DEFAULT_DESCRIPTION_COLUMN,
+  DESCRIPTION_SECTION_TITLES,
+  escapeHtml,
+  looksLikeHtml,
+  sanitizeHtml,
+  getDescriptionColumn,
+  createDescriptionTemplate,
+  renderDescription,
+  buildDescriptions,
+  sanitizeDescriptions,
+  applyDescriptions,
+  descriptionsToRows
+} from './richDescription';
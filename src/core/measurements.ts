@@ -0,0 +1,236 @@
+// =====================================================
+// ULTRACLEAN - Measurement & Unit Extraction
+// =====================================================
+
+import { getMeasureUnitAbbreviations } from '@/config';
+import type { MeasureKind, MeasureProposal, Measurement, ParsedMeasures, ProductData } from './types';
+
+interface UnitInfo {
+  kind: MeasureKind;
+  // Multiplier to kg, L or cm; unused for counts
+  factor: number;
+  // Bling unit code for counts
+  code?: string;
+}
+
+// Full names from abbreviations.json mapped to their unit
+const UNITS_BY_NAME: Record<string, UnitInfo> = {
+  'quilograma': { kind: 'mass', factor: 1 },
+  'grama': { kind: 'mass', factor: 0.001 },
+  'miligrama': { kind: 'mass', factor: 0.000001 },
+  'tonelada': { kind: 'mass', factor: 1000 },
+  'litro': { kind: 'volume', factor: 1 },
+  'mililitro': { kind: 'volume', factor: 0.001 },
+  'metro': { kind: 'length', factor: 100 },
+  'centímetro': { kind: 'length', factor: 1 },
+  'milímetro': { kind: 'length', factor: 0.1 },
+  'polegada': { kind: 'length', factor: 2.54 },
+  'unidade': { kind: 'count', factor: 1, code: 'UN' },
+  'peça': { kind: 'count', factor: 1, code: 'PC' },
+  'peças': { kind: 'count', factor: 1, code: 'PC' },
+  'caixa': { kind: 'count', factor: 1, code: 'CX' },
+  'pacote': { kind: 'count', factor: 1, code: 'PCT' },
+  'kit': { kind: 'count', factor: 1, code: 'KIT' },
+  'jogo': { kind: 'count', factor: 1, code: 'JG' },
+  'par': { kind: 'count', factor: 1, code: 'PAR' },
+  'dúzia': { kind: 'count', factor: 1, code: 'DZ' }
+};
+
+// Symbols written without an abbreviation entry
+const EXTRA_UNITS: Record<string, string> = {
+  g: 'grama', grs: 'grama', mg: 'miligrama', t: 'tonelada', ton: 'tonelada',
+  l: 'litro', lts: 'litro', litros: 'litro', m: 'metro', mts: 'metro', metros: 'metro',
+  pol: 'polegada', '"': 'polegada', "''": 'polegada'
+};
+
+const buildUnitTable = (): Map<string, UnitInfo> => {
+  const { measures, units } = getMeasureUnitAbbreviations();
+  const table = new Map<string, UnitInfo>();
+  [measures, units, EXTRA_UNITS].forEach(group => {
+    Object.entries(group).forEach(([abbr, name]) => {
+      const info = UNITS_BY_NAME[name.toLowerCase()];
+      if (info) table.set(abbr.toLowerCase(), info);
+    });
+  });
+  return table;
+};
+
+const UNIT_TABLE = buildUnitTable();
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const UNIT = [...UNIT_TABLE.keys()].sort((a, b) => b.length - a.length).map(escapeRegex).join('|');
+// "3/16", "1 1/2", "1,5", "1.000"
+const NUMBER = String.raw`\d+\/\d+|\d+(?:[.,]\d+)*(?:\s+\d+\/\d+)?`;
+const QUANTITY = new RegExp(String.raw`(?<![\p{L}\d.,/])(${NUMBER})\s*(${UNIT})(?![\p{L}\d])`, 'giu');
+// Up to three sides: "30 x 20 x 10 cm", "3/16 x 4\"", "M8 x 50mm"
+const SIDE = String.raw`(M(?=\d))?(${NUMBER})\s*(${UNIT})?`;
+const DIMENSIONS = new RegExp(
+  String.raw`(?<![\p{L}\d.,/])${SIDE}\s*[x×*]\s*${SIDE}(?:\s*[x×*]\s*${SIDE})?(?![\p{L}\d])`,
+  'giu'
+);
+
+/**
+ * Parse "1,5", "1.000", "3/16" or "1 1/2"
+ */
+export const parseMeasureNumber = (text: string): number | null => {
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[2]) === 0 ? null : Number(fraction[1]) / Number(fraction[2]);
+
+  const normalized = /^\d{1,3}(\.\d{3})+$/.test(text)
+    ? text.replace(/\./g, '')
+    : text.replace(/\.(?=\d{3}(?!\d))(?=.*,)/g, '').replace(',', '.');
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+};
+
+const toMeasurement = (value: number, unit: string, text: string): Measurement | null => {
+  const info = UNIT_TABLE.get(unit.toLowerCase());
+  if (!info) return null;
+  const outputUnit = { mass: 'kg', volume: 'L', length: 'cm', count: info.code ?? 'UN' }[info.kind];
+  return { kind: info.kind, value: info.kind === 'count' ? value : value * info.factor, unit: outputUnit, text: text.trim() };
+};
+
+/**
+ * Find weights, volumes, lengths, package counts and "A x B x C" dimensions
+ * in a product name. Values come converted to kg, L and cm.
+ */
+export const parseMeasurements = (text: string): ParsedMeasures => {
+  const result: ParsedMeasures = { dimensions: [] };
+  let rest = text;
+
+  for (const match of text.matchAll(DIMENSIONS)) {
+    if (result.dimensions.length > 0) break;
+    const sides: { metric: boolean; number: string; unit?: string }[] = [];
+    for (let i = 1; i < match.length; i += 3) {
+      if (match[i + 1] !== undefined) sides.push({ metric: !!match[i], number: match[i + 1], unit: match[i + 2] });
+    }
+    // A side without unit takes the next one given ("30 x 20 x 10 cm"); "M8" is a metric thread in mm
+    const units = sides.map((side, i) =>
+      side.metric && !side.unit ? 'mm' : side.unit ?? sides.slice(i + 1).find(s => s.unit)?.unit ?? sides[i - 1]?.unit
+    );
+    if (units.some(u => !u || UNIT_TABLE.get(u.toLowerCase())?.kind !== 'length')) continue;
+
+    const dimensions = sides.map((side, i) => {
+      const value = parseMeasureNumber(side.number);
+      return value === null ? null : toMeasurement(value, units[i]!, match[0]);
+    });
+    if (dimensions.some(d => d === null)) continue;
+
+    result.dimensions = dimensions as Measurement[];
+    rest = rest.replace(match[0], ' ');
+  }
+
+  for (const match of rest.matchAll(QUANTITY)) {
+    const value = parseMeasureNumber(match[1]);
+    if (value === null) continue;
+    const measurement = toMeasurement(value, match[2], match[0]);
+    if (!measurement) continue;
+    // "Cabo 2,5mm 100m": the longest length is the product's; other kinds keep the first
+    const current = result[measurement.kind];
+    if (!current || (measurement.kind === 'length' && measurement.value > current.value)) {
+      result[measurement.kind] = measurement;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Format a value for Bling: comma decimals, no thousands separator
+ */
+export const formatMeasure = (value: number, decimals = 3): string =>
+  value.toLocaleString('pt-BR', { maximumFractionDigits: decimals, useGrouping: false });
+
+// Target columns by measure, with the name used when the sheet lacks one
+const TARGETS = {
+  weight: { pattern: /peso\s*l[ií]quido|^peso$/i, name: 'Peso Líquido' },
+  // Bling computes freight from the gross weight; the net weight is the best guess for it
+  grossWeight: { pattern: /peso\s*bruto/i, name: 'Peso Bruto (Kg)' },
+  volume: { pattern: /^volume$|capacidade|conte[uú]do/i, name: 'Volume' },
+  width: { pattern: /largura/i, name: 'Largura' },
+  height: { pattern: /altura/i, name: 'Altura' },
+  depth: { pattern: /profundidade/i, name: 'Profundidade' },
+  length: { pattern: /comprimento/i, name: 'Comprimento' },
+  unit: { pattern: /^unidade( de medida)?$|^un$/i, name: '' }
+};
+
+const SOURCE_COLUMN = /^nome$|descri[cç][aã]o|t[ií]tulo/i;
+
+const isEmpty = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+/**
+ * Proposed values for empty net and gross weight, volume and dimension
+ * columns, read from the product name and description columns. Columns the
+ * sheet doesn't have are proposed under their Bling name.
+ */
+export const proposeMeasurements = (data: ProductData[], columns: string[]): MeasureProposal[] => {
+  const sourceColumns = columns.filter(col => SOURCE_COLUMN.test(col.trim()));
+  if (sourceColumns.length === 0) return [];
+
+  const target = (key: keyof typeof TARGETS) =>
+    columns.find(col => TARGETS[key].pattern.test(col.trim())) ?? TARGETS[key].name;
+  const weightColumn = target('weight');
+  const grossWeightColumn = target('grossWeight');
+  const volumeColumn = target('volume');
+  const unitColumn = target('unit');
+  // Two sides are width and length; three are width, height and depth (Bling order)
+  const lengthColumn = columns.find(col => TARGETS.length.pattern.test(col)) ?? target('depth');
+  const sideColumns = [[target('width'), lengthColumn], [target('width'), target('height'), target('depth')]];
+
+  const proposals: MeasureProposal[] = [];
+  data.forEach((row, index) => {
+    const text = sourceColumns.map(col => String(row[col] ?? '')).join(' ');
+    const parsed = parseMeasurements(text);
+    const proposed = new Set<string>();
+
+    const propose = (column: string, measurement: Measurement | undefined, value?: string) => {
+      if (!column || !measurement || !isEmpty(row[column]) || proposed.has(column)) return;
+      proposed.add(column);
+      proposals.push({
+        row: index,
+        column,
+        current: row[column],
+        value: value ?? formatMeasure(measurement.value, measurement.kind === 'length' ? 2 : 3),
+        source: measurement.text,
+        kind: measurement.kind
+      });
+    };
+
+    propose(weightColumn, parsed.mass);
+    propose(grossWeightColumn, parsed.mass);
+    propose(volumeColumn, parsed.volume);
+    if (parsed.dimensions.length > 1) {
+      parsed.dimensions.forEach((side, i) => propose(sideColumns[parsed.dimensions.length - 2][i], side));
+    } else {
+      propose(lengthColumn, parsed.length);
+    }
+    propose(unitColumn, parsed.count, parsed.count?.unit);
+  });
+
+  return proposals;
+};
+
+/**
+ * Write accepted proposals into a copy of the data, adding missing columns
+ */
+export const applyMeasureProposals = (
+  data: ProductData[],
+  columns: string[],
+  proposals: MeasureProposal[]
+): { data: ProductData[]; columns: string[] } => {
+  const next = [...data];
+  const copied = new Set<number>();
+  proposals.forEach(({ row, column, value }) => {
+    if (!copied.has(row)) {
+      next[row] = { ...next[row] };
+      copied.add(row);
+    }
+    next[row][column] = value;
+  });
+
+  const added = [...new Set(proposals.map(p => p.column))].filter(col => !columns.includes(col));
+  return { data: next, columns: [...columns, ...added] };
+};
@@ -0,0 +1,290 @@
+// =====================================================
+// ULTRACLEAN - NF-e XML Import
+// =====================================================
+
+import type { NfeImportResult, NfeProduct, ProductData } from './types';
+import { normalizeGtin, toGtin14 } from './gtin';
+
+// Columns produced for NF-e items, named after the Bling spreadsheet
+export const NFE_COLUMNS = [
+  'Código',
+  'Descrição',
+  'NCM',
+  'CEST',
+  'GTIN',
+  'Unidade de Medida',
+  'Preço de Custo',
+  'Fornecedor',
+  'CNPJ Fornecedor',
+  'Código no Fornecedor',
+  'Nota Fiscal'
+];
+
+// Existing table columns, in order of preference
+const CODE_COLUMNS = ['Código', 'SKU', 'Código Produto'];
+const GTIN_COLUMNS = ['GTIN', 'EAN', 'Código de Barras'];
+
+// The supplier's cProd only identifies a product together with its CNPJ
+const supplierKey = (cnpj: unknown, code: unknown): string => {
+  const digits = String(cnpj ?? '').replace(/\D/g, '');
+  const supplierCode = String(code ?? '').trim();
+  return digits && supplierCode ? `${digits}|${supplierCode}` : '';
+};
+
+/**
+ * Check whether a file should go through the NF-e importer
+ */
+export const isNfeFile = (filename: string): boolean => {
+  return /\.xml$/i.test(filename);
+};
+
+/**
+ * Keep only valid GTINs; "SEM GTIN", blanks and bad check digits become empty
+ */
+const cleanGtin = (value: string): string => {
+  const { normalized, status } = normalizeGtin(value);
+  return status === 'valid' ? normalized : '';
+};
+
+const childText = (parent: Element | Document | undefined, tag: string): string => {
+  return parent?.getElementsByTagNameNS('*', tag)[0]?.textContent?.trim() ?? '';
+};
+
+/**
+ * Parse the items (det/prod) of an NF-e 4.0 XML, with or without the
+ * nfeProc envelope
+ */
+export const parseNfeXml = (xml: string, filename: string): { key: string; products: NfeProduct[] } => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('XML inválido');
+  }
+
+  const infNFe = doc.getElementsByTagNameNS('*', 'infNFe')[0];
+  if (!infNFe) {
+    throw new Error('O arquivo não é uma NF-e');
+  }
+
+  const ide = infNFe.getElementsByTagNameNS('*', 'ide')[0];
+  const emit = infNFe.getElementsByTagNameNS('*', 'emit')[0];
+  const supplierName = childText(emit, 'xFant') || childText(emit, 'xNome');
+  const supplierCnpj = childText(emit, 'CNPJ') || childText(emit, 'CPF');
+  const invoiceNumber = childText(ide, 'nNF');
+  const issuedAt = childText(ide, 'dhEmi') || childText(ide, 'dEmi');
+
+  const products = Array.from(infNFe.getElementsByTagNameNS('*', 'det')).map(det => {
+    const prod = det.getElementsByTagNameNS('*', 'prod')[0];
+    const unitPrice = Number(childText(prod, 'vUnCom'));
+
+    return {
+      code: childText(prod, 'cProd'),
+      name: childText(prod, 'xProd'),
+      ncm: childText(prod, 'NCM'),
+      cest: childText(prod, 'CEST'),
+      gtin: cleanGtin(childText(prod, 'cEAN')) || cleanGtin(childText(prod, 'cEANTrib')),
+      unit: childText(prod, 'uCom'),
+      unitPrice: childText(prod, 'vUnCom') && Number.isFinite(unitPrice) ? unitPrice : null,
+      supplierName,
+      supplierCnpj,
+      invoiceNumber,
+      issuedAt,
+      sourceFile: filename
+    };
+  });
+
+  // The access key identifies the invoice even if the file was renamed
+  const key = infNFe.getAttribute('Id') || `${supplierCnpj}-${invoiceNumber}`;
+
+  return { key, products };
+};
+
+/**
+ * Parse several NF-e files and collapse repeated items. An item is the same
+ * product when it shares the GTIN or the supplier code of the same issuer;
+ * the most recent invoice wins, so prices reflect the latest purchase.
+ */
+export const importNfeFiles = (files: { name: string; text: string }[]): NfeImportResult => {
+  const errors: NfeImportResult['errors'] = [];
+  const seenKeys = new Set<string>();
+  const parsed: NfeProduct[] = [];
+  let documents = 0;
+
+  files.forEach(file => {
+    try {
+      const { key, products } = parseNfeXml(file.text, file.name);
+      if (seenKeys.has(key)) return;
+      seenKeys.add(key);
+      documents++;
+      parsed.push(...products);
+    } catch (error) {
+      errors.push({ file: file.name, message: (error as Error).message });
+    }
+  });
+
+  parsed.sort((a, b) => a.issuedAt.localeCompare(b.issuedAt));
+
+  const products: NfeProduct[] = [];
+  const byGtin = new Map<string, number>();
+  const byCode = new Map<string, number>();
+  let duplicates = 0;
+
+  parsed.forEach(product => {
+    const codeKey = supplierKey(product.supplierCnpj, product.code);
+    const index = (product.gtin ? byGtin.get(toGtin14(product.gtin)) : undefined) ?? (codeKey ? byCode.get(codeKey) : undefined);
+
+    if (index === undefined) {
+      if (product.gtin) byGtin.set(toGtin14(product.gtin), products.length);
+      if (codeKey) byCode.set(codeKey, products.length);
+      products.push(product);
+      return;
+    }
+
+    // Later invoices override, but never blank out what an earlier one had
+    const previous = products[index];
+    const merged = { ...previous };
+    (Object.keys(product) as (keyof NfeProduct)[]).forEach(field => {
+      const value = product[field];
+      if (value !== '' && value !== null) Object.assign(merged, { [field]: value });
+    });
+    products[index] = merged;
+    if (merged.gtin) byGtin.set(toGtin14(merged.gtin), index);
+    if (codeKey) byCode.set(codeKey, index);
+    duplicates++;
+  });
+
+  return { products, documents, items: parsed.length, duplicates, errors };
+};
+
+/**
+ * Turn NF-e items into table rows. As in mergeNfeIntoRows, the supplier's
+ * code becomes our "Código" only for the first item using it: two suppliers
+ * may number different products the same way.
+ */
+export const nfeProductsToRows = (products: NfeProduct[]): { data: ProductData[]; columns: string[] } => {
+  const ownCodes = new Set<string>();
+  const data = products.map((product, index) => {
+    const ownCode = product.code && !ownCodes.has(product.code) ? product.code : '';
+    if (ownCode) ownCodes.add(ownCode);
+    return {
+      'Código': ownCode,
+      'Descrição': product.name,
+      'NCM': product.ncm,
+      'CEST': product.cest,
+      'GTIN': product.gtin,
+      'Unidade de Medida': product.unit,
+      'Preço de Custo': product.unitPrice ?? '',
+      'Fornecedor': product.supplierName,
+      'CNPJ Fornecedor': product.supplierCnpj,
+      'Código no Fornecedor': product.code,
+      'Nota Fiscal': product.invoiceNumber,
+      __source_file: product.sourceFile,
+      __row_index: index
+    };
+  });
+
+  return { data, columns: [...NFE_COLUMNS] };
+};
+
+/**
+ * Merge NF-e items into an existing table. Rows matching by GTIN, or by the
+ * supplier's CNPJ and code stored in "CNPJ Fornecedor"/"Código no
+ * Fornecedor", get the invoice cost and unit, plus NCM, CEST and GTIN when
+ * still blank. Our own "Código" is never compared with the supplier's code.
+ * The remaining items are appended as new rows.
+ */
+export const mergeNfeIntoRows = (
+  data: ProductData[],
+  columns: string[],
+  products: NfeProduct[]
+): { data: ProductData[]; columns: string[]; created: number; updated: number } => {
+  const findColumn = (candidates: string[], fallback: string) =>
+    candidates.find(c => columns.includes(c)) ?? fallback;
+
+  const col = {
+    code: findColumn(CODE_COLUMNS, 'Código'),
+    name: findColumn(['Descrição', 'Nome'], 'Descrição'),
+    ncm: 'NCM',
+    cest: 'CEST',
+    gtin: findColumn(GTIN_COLUMNS, 'GTIN'),
+    unit: findColumn(['Unidade de Medida', 'Unidade'], 'Unidade de Medida'),
+    cost: findColumn(['Preço de Custo', 'Preço Custo', 'Custo'], 'Preço de Custo'),
+    supplier: 'Fornecedor',
+    supplierCnpj: 'CNPJ Fornecedor',
+    supplierCode: 'Código no Fornecedor',
+    invoice: 'Nota Fiscal'
+  };
+
+  const byGtin = new Map<string, number>();
+  const bySupplierCode = new Map<string, number>();
+  const ownCodes = new Set<string>();
+  data.forEach((row, index) => {
+    const gtin = cleanGtin(String(row[col.gtin] ?? ''));
+    const key = supplierKey(row[col.supplierCnpj], row[col.supplierCode]);
+    if (gtin && !byGtin.has(toGtin14(gtin))) byGtin.set(toGtin14(gtin), index);
+    if (key && !bySupplierCode.has(key)) bySupplierCode.set(key, index);
+    const code = String(row[col.code] ?? '').trim();
+    if (code) ownCodes.add(code);
+  });
+
+  const fillIfBlank = (row: ProductData, column: string, value: string) => {
+    if (value && !String(row[column] ?? '').trim()) row[column] = value;
+  };
+
+  const merged = [...data];
+  let created = 0;
+  let updated = 0;
+
+  products.forEach(product => {
+    const key = supplierKey(product.supplierCnpj, product.code);
+    const index = (product.gtin ? byGtin.get(toGtin14(product.gtin)) : undefined) ?? (key ? bySupplierCode.get(key) : undefined);
+    if (index !== undefined) {
+      const row = { ...merged[index] };
+      if (product.unitPrice !== null) row[col.cost] = product.unitPrice;
+      if (product.unit) row[col.unit] = product.unit;
+      fillIfBlank(row, col.ncm, product.ncm);
+      fillIfBlank(row, col.cest, product.cest);
+      fillIfBlank(row, col.gtin, product.gtin);
+      fillIfBlank(row, col.supplier, product.supplierName);
+      // A row matched by GTIN learns its supplier code, unless it has another supplier's
+      if (!supplierKey(row[col.supplierCnpj], row[col.supplierCode])) {
+        row[col.supplierCnpj] = product.supplierCnpj;
+        row[col.supplierCode] = product.code;
+      }
+      row[col.invoice] = product.invoiceNumber;
+      merged[index] = row;
+      if (key && !bySupplierCode.has(key)) bySupplierCode.set(key, index);
+      updated++;
+      return;
+    }
+
+    // The supplier's code becomes ours only when no product already uses it
+    const ownCode = product.code && !ownCodes.has(product.code) ? product.code : '';
+    if (ownCode) ownCodes.add(ownCode);
+    if (product.gtin) byGtin.set(toGtin14(product.gtin), merged.length);
+    if (key) bySupplierCode.set(key, merged.length);
+
+    merged.push({
+      [col.code]: ownCode,
+      [col.name]: product.name,
+      [col.ncm]: product.ncm,
+      [col.cest]: product.cest,
+      [col.gtin]: product.gtin,
+      [col.unit]: product.unit,
+      [col.cost]: product.unitPrice ?? '',
+      [col.supplier]: product.supplierName,
+      [col.supplierCnpj]: product.supplierCnpj,
+      [col.supplierCode]: product.code,
+      [col.invoice]: product.invoiceNumber,
+      __source_file: product.sourceFile,
+      __row_index: merged.length
+    });
+    created++;
+  });
+
+  const nextColumns = [...columns];
+  Object.values(col).forEach(c => {
+    if (!nextColumns.includes(c)) nextColumns.push(c);
+  });
+
+  return { data: merged, columns: nextColumns, created, updated };
+};
@@ -0,0 +1,272 @@
+// =====================================================
+// ULTRACLEAN - Pricing Rules & Margin Validation
+// =====================================================
+
+import { categorySegments, containsCategory, normalizeHeader } from './columnMapping';
+import { parseLocaleNumber } from './csvDialect';
+import { getRowKey } from './changeJournal';
+import type {
+  PriceChange,
+  PriceIssue,
+  PriceIssueStatus,
+  PriceRounding,
+  PricingMode,
+  PricingRule,
+  PricingScope,
+  ProductData
+} from './types';
+
+export const PRICING_SCOPE_LABELS: Record<PricingScope, string> = {
+  all: 'Todos os produtos',
+  category: 'Categoria',
+  brand: 'Marca'
+};
+
+export const PRICING_MODE_LABELS: Record<PricingMode, string> = {
+  markup: 'Markup sobre o custo',
+  margin: 'Margem sobre a venda'
+};
+
+export const PRICE_ROUNDING_LABELS: Record<PriceRounding, string> = {
+  none: 'Centavos exatos',
+  x90: 'Terminar em ,90',
+  x99: 'Terminar em ,99',
+  integer: 'Reais inteiros'
+};
+
+export const PRICE_ISSUE_LABELS: Record<PriceIssueStatus, string> = {
+  below_cost: 'Abaixo do custo',
+  low_margin: 'Margem abaixo do mínimo',
+  no_cost: 'Sem custo',
+  no_price: 'Sem preço'
+};
+
+// Default minimum margin, in percent of the sale price
+export const DEFAULT_MIN_MARGIN = 20;
+
+const PRICE_COLUMNS = ['Preço', 'Preço de Venda', 'Preço Venda', 'Valor de Venda'];
+const COST_COLUMNS = ['Preço de Custo', 'Preço Custo', 'Custo'];
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
+const findColumn = (columns: string[], candidates: string[]): string | undefined => {
+  const wanted = candidates.map(normalizeHeader);
+  return columns.find(col => wanted.includes(normalizeHeader(col)));
+};
+
+/**
+ * Price, cost, brand and category columns of a sheet
+ */
+export const getPricingColumns = (columns: string[]) => ({
+  price: findColumn(columns, PRICE_COLUMNS),
+  cost: findColumn(columns, COST_COLUMNS),
+  brand: findColumn(columns, ['Marca']),
+  category: columns.find(col => /categoria|category/i.test(col))
+});
+
+export const createPricingRule = (scope: PricingScope = 'all', match = ''): PricingRule => ({
+  id: crypto.randomUUID(),
+  enabled: true,
+  scope,
+  match,
+  mode: 'markup',
+  value: 100,
+  rounding: 'x90'
+});
+
+/**
+ * Read a price from Bling numbers or sheet text ("R$ 1.234,56", "12.90")
+ */
+export const parsePrice = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const v = text(value).replace(/^R\$\s*/i, '');
+  if (!v) return null;
+  const decimal = v.includes(',') || /^\d{1,3}(\.\d{3})+$/.test(v) ? ',' : '.';
+  return parseLocaleNumber(v, decimal);
+};
+
+/**
+ * Round up to the next price with the chosen ending: 12,31 -> 12,90 -> 12,90
+ */
+export const roundPrice = (price: number, rounding: PriceRounding): number => {
+  const cents = Math.round(price * 100);
+  const ending = { none: null, x90: 90, x99: 99, integer: 0 }[rounding];
+  if (ending === null) return cents / 100;
+  let rounded = Math.floor(cents / 100) * 100 + ending;
+  if (rounded < cents) rounded += 100;
+  return rounded / 100;
+};
+
+/**
+ * Margin in percent of the sale price, or null without a price
+ */
+export const marginOf = (price: number, cost: number): number | null =>
+  price > 0 ? ((price - cost) / price) * 100 : null;
+
+/**
+ * Sale price for a cost under a rule. Margins of 100% or more can't be
+ * reached and give null.
+ */
+export const priceFromRule = (cost: number, rule: PricingRule): number | null => {
+  if (rule.mode === 'margin') {
+    if (rule.value >= 100) return null;
+    return roundPrice(cost / (1 - rule.value / 100), rule.rounding);
+  }
+  return roundPrice(cost * (1 + rule.value / 100), rule.rounding);
+};
+
+/**
+ * Rule for a product: a brand rule wins over a category rule (the one
+ * naming the most path segments first), which wins over a rule for all
+ * products.
+ */
+export const findPricingRule = (
+  rules: PricingRule[],
+  product: { brand?: string; category?: string }
+): PricingRule | undefined => {
+  const brand = normalizeHeader(product.brand ?? '');
+  const active = rules.filter(r => r.enabled && (r.scope === 'all' || r.match.trim()));
+
+  const byBrand = active.find(r => r.scope === 'brand' && brand && normalizeHeader(r.match) === brand);
+  if (byBrand) return byBrand;
+
+  const byCategory = active
+    .filter(r => r.scope === 'category' && containsCategory(product.category ?? '', r.match))
+    .sort((a, b) => categorySegments(b.match).length - categorySegments(a.match).length)[0];
+  return byCategory ?? active.find(r => r.scope === 'all');
+};
+
+/**
+ * Flag rows sold below cost, under the minimum margin, or missing the
+ * price or the cost. Rows with neither are not priced yet and are skipped.
+ */
+export const validatePrices = (
+  data: ProductData[],
+  columns: string[],
+  minMargin = DEFAULT_MIN_MARGIN
+): PriceIssue[] => {
+  const col = getPricingColumns(columns);
+  if (!col.price || !col.cost) return [];
+
+  const issues: PriceIssue[] = [];
+  data.forEach((row, index) => {
+    const price = parsePrice(row[col.price!]);
+    const cost = parsePrice(row[col.cost!]);
+    const hasPrice = price !== null && price > 0;
+    const hasCost = cost !== null && cost > 0;
+    if (!hasPrice && !hasCost) return;
+
+    const margin = hasPrice && hasCost ? marginOf(price, cost) : null;
+    let status: PriceIssueStatus | null = null;
+    if (!hasCost) status = 'no_cost';
+    else if (!hasPrice) status = 'no_price';
+    else if (price < cost) status = 'below_cost';
+    else if (margin !== null && margin < minMargin) status = 'low_margin';
+
+    if (status) issues.push({ row: index, status, price, cost, margin });
+  });
+  return issues;
+};
+
+/**
+ * Repricing plan: the new price of every row with a cost and a matching
+ * rule, when it differs from the current one.
+ */
+export const planRepricing = (
+  data: ProductData[],
+  columns: string[],
+  rules: PricingRule[]
+): PriceChange[] => {
+  const col = getPricingColumns(columns);
+  if (!col.cost) return [];
+
+  const changes: PriceChange[] = [];
+  data.forEach((row, index) => {
+    const cost = parsePrice(row[col.cost!]);
+    if (cost === null || cost <= 0) return;
+    const rule = findPricingRule(rules, {
+      brand: col.brand ? text(row[col.brand]) : undefined,
+      category: col.category ? text(row[col.category]) : undefined
+    });
+    if (!rule) return;
+
+    const proposed = priceFromRule(cost, rule);
+    if (proposed === null) return;
+    const current = col.price ? parsePrice(row[col.price]) : null;
+    if (current !== null && Math.round(current * 100) === Math.round(proposed * 100)) return;
+
+    changes.push({
+      row: index,
+      ruleId: rule.id,
+      cost,
+      current,
+      proposed,
+      currentMargin: current !== null ? marginOf(current, cost) : null,
+      proposedMargin: marginOf(proposed, cost) ?? 0
+    });
+  });
+  return changes;
+};
+
+/**
+ * Write planned prices into a copy of the data. Text cells get a comma
+ * decimal ("12,90"); numeric cells stay numbers.
+ */
+export const applyRepricing = (
+  data: ProductData[],
+  changes: PriceChange[],
+  priceColumn: string
+): ProductData[] => {
+  const next = [...data];
+  changes.forEach(({ row, proposed }) => {
+    const original = next[row][priceColumn];
+    const value = typeof original === 'string' ? proposed.toFixed(2).replace('.', ',') : proposed;
+    next[row] = { ...next[row], [priceColumn]: value };
+  });
+  return next;
+};
+
+const percent = (value: number | null) => (value === null ? '' : Math.round(value * 10) / 10);
+
+const productName = (row: ProductData, columns: string[]) => {
+  const column = columns.find(col => /^nome$|^descri[cç][aã]o$/i.test(col.trim()));
+  return column ? text(row[column]) : '';
+};
+
+/**
+ * Spreadsheet rows for the repricing plan
+ */
+export const repricingToRows = (
+  data: ProductData[],
+  columns: string[],
+  changes: PriceChange[]
+): Record<string, unknown>[] =>
+  changes.map(change => ({
+    'Linha': change.row + 1,
+    'Produto': getRowKey(data[change.row], change.row, columns),
+    'Nome': productName(data[change.row], columns),
+    'Custo': change.cost,
+    'Preço Atual': change.current ?? '',
+    'Novo Preço': change.proposed,
+    'Margem Atual (%)': percent(change.currentMargin),
+    'Nova Margem (%)': percent(change.proposedMargin),
+    'Variação (%)': change.current ? percent(((change.proposed - change.current) / change.current) * 100) : ''
+  }));
+
+/**
+ * Spreadsheet rows for the margin validation report
+ */
+export const priceIssuesToRows = (
+  data: ProductData[],
+  columns: string[],
+  issues: PriceIssue[]
+): Record<string, unknown>[] =>
+  issues.map(issue => ({
+    'Linha': issue.row + 1,
+    'Produto': getRowKey(data[issue.row], issue.row, columns),
+    'Nome': productName(data[issue.row], columns),
+    'Problema': PRICE_ISSUE_LABELS[issue.status],
+    'Preço': issue.price ?? '',
+    'Custo': issue.cost ?? '',
+    'Margem (%)': percent(issue.margin)
+  }));
@@ -0,0 +1,286 @@
+// =====================================================
+// ULTRACLEAN - HTML Sanitizer & Rich Description Builder
+// =====================================================
+
+import { normalizeHeader } from './columnMapping';
+import { getRowKey } from './changeJournal';
+import type { DescriptionPreview, DescriptionTemplate, ProductData } from './types';
+
+export const DEFAULT_DESCRIPTION_COLUMN = 'Descrição Complementar';
+
+export const DESCRIPTION_SECTION_TITLES = {
+  attributes: 'Características',
+  specs: 'Especificações técnicas',
+  package: 'Conteúdo da embalagem'
+};
+
+// Tags kept in descriptions; Bling renders these on the product page
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'strong', 'em', 'u', 'ul', 'ol', 'li',
+  'h2', 'h3', 'h4', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'a'
+]);
+
+// Equivalent tags rewritten to the allowed ones
+const TAG_ALIASES: Record<string, string> = {
+  b: 'strong',
+  i: 'em',
+  div: 'p',
+  h1: 'h2',
+  h5: 'h4',
+  h6: 'h4'
+};
+
+// Removed together with their content; anything else unknown is unwrapped
+const DROPPED_WITH_CONTENT = new Set([
+  'script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template',
+  'svg', 'math', 'head', 'title', 'select', 'textarea', 'button'
+]);
+
+// Common in supplier HTML; unwrapped, but they mark a value as HTML
+const UNWRAPPED_TAGS = new Set(['span', 'font', 'img', 'center', 'section', 'article', 'small', 'sup', 'sub']);
+
+const VOID_TAGS = new Set(['br', 'hr']);
+
+// Opening one of these closes a paragraph still open
+const BLOCK_TAGS = new Set(['p', 'ul', 'ol', 'table', 'h2', 'h3', 'h4', 'hr']);
+
+const TOKEN = /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][a-zA-Z0-9]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
+/**
+ * Escape text for HTML, keeping entities that are already there (&eacute;, &#231;)
+ */
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&(?!(?:[a-zA-Z][a-zA-Z0-9]{1,31}|#\d{1,7}|#x[0-9a-fA-F]{1,6});)/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Whether a value has real HTML tags, not just text like "<3" or "<gamer>"
+ */
+export const looksLikeHtml = (value: string): boolean =>
+  [...value.matchAll(/<\/?([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>/g)].some(([, rawName]) => {
+    const name = rawName.toLowerCase();
+    return ALLOWED_TAGS.has(name) || name in TAG_ALIASES || DROPPED_WITH_CONTENT.has(name) || UNWRAPPED_TAGS.has(name);
+  });
+
+// Only web and mail links; entities and control characters hide "javascript:"
+const isSafeHref = (href: string) =>
+  !/&#|&colon;/i.test(href) &&
+  ![...href].some(char => char.charCodeAt(0) < 32) &&
+  /^(https?:\/\/|mailto:)/i.test(href.trim());
+
+const sanitizeAttributes = (tag: string, raw: string): string => {
+  const kept: string[] = [];
+  for (const match of raw.matchAll(ATTRIBUTE)) {
+    const name = match[1].toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    if (tag === 'a' && name === 'href' && isSafeHref(value)) {
+      kept.push(`href="${escapeHtml(value.trim())}"`);
+    } else if ((tag === 'td' || tag === 'th') && (name === 'colspan' || name === 'rowspan') && /^\d{1,2}$/.test(value)) {
+      kept.push(`${name}="${value}"`);
+    }
+  }
+  return kept.length > 0 ? ` ${kept.join(' ')}` : '';
+};
+
+/**
+ * Clean supplier HTML against an allowlist: known formatting tags stay,
+ * scripts, styles and embeds go with their content, other tags are
+ * unwrapped, attributes are dropped except safe links and table spans.
+ * Unclosed tags are closed and stray closing tags removed.
+ */
+export const sanitizeHtml = (html: string): string => {
+  const out: string[] = [];
+  const open: string[] = [];
+
+  const closeUntil = (tag: string) => {
+    const at = open.lastIndexOf(tag);
+    if (at === -1) return;
+    while (open.length > at) out.push(`</${open.pop()}>`);
+  };
+
+  let last = 0;
+  TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN.exec(html)) !== null) {
+    out.push(escapeHtml(html.slice(last, match.index)));
+    last = TOKEN.lastIndex;
+
+    const [whole, closing, rawName, rawAttributes] = match;
+    if (!rawName) continue; // comment, doctype or processing instruction
+
+    const name = rawName.toLowerCase();
+    if (DROPPED_WITH_CONTENT.has(name)) {
+      if (!closing && !whole.endsWith('/>')) {
+        const end = html.toLowerCase().indexOf(`</${name}`, last);
+        const skipTo = end === -1 ? html.length : html.indexOf('>', end) + 1 || html.length;
+        last = skipTo;
+        TOKEN.lastIndex = skipTo;
+      }
+      continue;
+    }
+
+    const tag = TAG_ALIASES[name] ?? name;
+    if (!ALLOWED_TAGS.has(tag)) continue;
+
+    if (closing) {
+      if (!VOID_TAGS.has(tag)) closeUntil(tag);
+      continue;
+    }
+
+    if (BLOCK_TAGS.has(tag)) closeUntil('p');
+    if (tag === 'li' && open[open.length - 1] === 'li') closeUntil('li');
+
+    const attributes = sanitizeAttributes(tag, rawAttributes);
+    if (tag === 'a' && !attributes) continue; // link without a safe href: keep the text only
+
+    out.push(`<${tag}${attributes}>`);
+    if (!VOID_TAGS.has(tag)) open.push(tag);
+  }
+  out.push(escapeHtml(html.slice(last)));
+  while (open.length > 0) out.push(`</${open.pop()}>`);
+
+  return out
+    .join('')
+    .replace(/<(p|li|strong|em|u|h2|h3|h4)>\s*<\/\1>/g, '')
+    .trim();
+};
+
+// Plain text paragraphs, split on blank lines; single line breaks become <br>
+const textToParagraphs = (value: string) =>
+  value
+    .split(/\n\s*\n/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => `<p>${escapeHtml(part).replace(/\r?\n/g, '<br>')}</p>`)
+    .join('');
+
+const findColumn = (columns: string[], candidates: string[]) => {
+  const byName = new Map(columns.map(col => [normalizeHeader(col), col]));
+  return candidates.map(c => byName.get(normalizeHeader(c))).find((col): col is string => !!col);
+};
+
+const pickColumns = (columns: string[], candidates: string[]) =>
+  candidates.map(c => findColumn(columns, [c])).filter((col): col is string => !!col);
+
+/**
+ * Column that receives the HTML: "Descrição Complementar" when the sheet has it
+ */
+export const getDescriptionColumn = (columns: string[]): string =>
+  findColumn(columns, [DEFAULT_DESCRIPTION_COLUMN, 'Descrição Longa', 'Descrição Completa']) ?? DEFAULT_DESCRIPTION_COLUMN;
+
+/**
+ * Starting template, filled with the columns of the sheet that fit each section
+ */
+export const createDescriptionTemplate = (columns: string[]): DescriptionTemplate => ({
+  targetColumn: getDescriptionColumn(columns),
+  introColumn: findColumn(columns, ['Descrição Enriquecida (IA)', 'Descrição Curta', 'Descrição do Produto', 'Descrição Complementar']) ?? '',
+  attributeColumns: pickColumns(columns, ['Marca', 'Modelo', 'Cor', 'Tamanho', 'Material', 'Voltagem', 'Gênero']),
+  specColumns: pickColumns(columns, [
+    'Peso Líquido (Kg)', 'Peso Bruto (Kg)', 'Largura do Produto', 'Altura do Produto', 'Profundidade do produto',
+    'Peso', 'Volume', 'Dimensões', 'Garantia', 'GTIN/EAN'
+  ]),
+  packageColumn: findColumn(columns, ['Conteúdo da Embalagem', 'Itens Inclusos', 'Itens da Embalagem']) ?? '',
+  packageText: ''
+});
+
+/**
+ * HTML description of one product: intro, attribute bullets, specification
+ * table and package contents. Sections without values are left out.
+ */
+export const renderDescription = (row: ProductData, template: DescriptionTemplate): string => {
+  const parts: string[] = [];
+
+  const intro = template.introColumn ? text(row[template.introColumn]) : '';
+  if (intro && looksLikeHtml(intro)) {
+    const html = sanitizeHtml(intro);
+    parts.push(/^<(p|ul|ol|table|h[234])\b/.test(html) ? html : `<p>${html}</p>`);
+  } else if (intro) {
+    parts.push(textToParagraphs(intro));
+  }
+
+  const attributes = template.attributeColumns
+    .map(col => ({ col, value: text(row[col]) }))
+    .filter(a => a.value);
+  if (attributes.length > 0) {
+    parts.push(
+      `<h3>${DESCRIPTION_SECTION_TITLES.attributes}</h3><ul>` +
+      attributes.map(a => `<li><strong>${escapeHtml(a.col)}:</strong> ${escapeHtml(a.value)}</li>`).join('') +
+      '</ul>'
+    );
+  }
+
+  const specs = template.specColumns
+    .map(col => ({ col, value: text(row[col]) }))
+    .filter(s => s.value);
+  if (specs.length > 0) {
+    parts.push(
+      `<h3>${DESCRIPTION_SECTION_TITLES.specs}</h3><table><tbody>` +
+      specs.map(s => `<tr><th>${escapeHtml(s.col)}</th><td>${escapeHtml(s.value)}</td></tr>`).join('') +
+      '</tbody></table>'
+    );
+  }
+
+  const contents = (template.packageColumn ? text(row[template.packageColumn]) : '') || template.packageText.trim();
+  const items = contents.split(/\s*(?:;|\r?\n)\s*/).filter(Boolean);
+  if (items.length > 0) {
+    parts.push(
+      `<h3>${DESCRIPTION_SECTION_TITLES.package}</h3><ul>` +
+      items.map(item => `<li>${escapeHtml(item)}</li>`).join('') +
+      '</ul>'
+    );
+  }
+
+  return parts.join('\n');
+};
+
+/**
+ * Render the template for every row, keeping the rows whose description changes
+ */
+export const buildDescriptions = (data: ProductData[], template: DescriptionTemplate): DescriptionPreview[] =>
+  data
+    .map((row, index) => ({ row: index, before: text(row[template.targetColumn]), after: renderDescription(row, template) }))
+    .filter(p => p.after && p.after !== p.before);
+
+/**
+ * Sanitize the HTML already in a column, keeping the cells that change
+ */
+export const sanitizeDescriptions = (data: ProductData[], column: string): DescriptionPreview[] =>
+  data
+    .map((row, index) => {
+      const before = text(row[column]);
+      return { row: index, before, after: looksLikeHtml(before) ? sanitizeHtml(before) : before };
+    })
+    .filter(p => p.after !== p.before);
+
+export const applyDescriptions = (
+  data: ProductData[],
+  previews: DescriptionPreview[],
+  column: string
+): ProductData[] => {
+  const next = [...data];
+  previews.forEach(({ row, after }) => {
+    next[row] = { ...next[row], [column]: after };
+  });
+  return next;
+};
+
+/**
+ * Spreadsheet rows with the generated HTML, for review outside the app
+ */
+export const descriptionsToRows = (
+  data: ProductData[],
+  columns: string[],
+  previews: DescriptionPreview[]
+): Record<string, unknown>[] =>
+  previews.map(preview => ({
+    'Linha': preview.row + 1,
+    'Produto': getRowKey(data[preview.row], preview.row, columns),
+    'Descrição Atual': preview.before,
+    'Descrição HTML': preview.after
+  }));
@@ -3,7 +3,11 @@
 // =====================================================
 
 import { supabase } from '@/integrations/supabase/client';
-import type { EnrichmentSession } from './types';
+import type { EnrichmentSession, SessionCacheStats } from './types';
+
+// Everything but job_items, which holds the whole row list of a background job
+const SESSION_COLUMNS =
+  'id, user_id, original_filename, total_items, items_processed, duplicates_found, images_added, tags_generated, status, metadata, created_at, updated_at';
 
 /**
  * Create a new enrichment session
@@ -36,7 +40,7 @@ export const createSession = async (
  */
 export const updateSessionStatus = async (
   sessionId: string,
-  status: 'pending' | 'processing' | 'completed' | 'failed',
+  status: EnrichmentSession['status'],
   updates?: Partial<{
     itemsProcessed: number;
     duplicatesFound: number;
@@ -79,7 +83,7 @@ export const updateSessionStatus = async (
 export const getSession = async (sessionId: string): Promise<EnrichmentSession | null> => {
   const { data, error } = await supabase
     .from('product_enrichment_sessions')
-    .select('*')
+    .select(SESSION_COLUMNS)
     .eq('id', sessionId)
     .single();
 
@@ -113,7 +117,7 @@ export const getUserSessions = async (
 ): Promise<EnrichmentSession[]> => {
   const { data, error } = await supabase
     .from('product_enrichment_sessions')
-    .select('*')
+    .select(SESSION_COLUMNS)
     .eq('user_id', userId)
     .order('created_at', { ascending: false })
     .limit(limit);
@@ -187,3 +191,22 @@ export const getSessionStats = async (userId: string): Promise<{
     completedSessions: data.filter(s => s.status === 'completed').length
   };
 };
+
+/**
+ * Enrichment cache hits and misses of a session, from its processed products
+ */
+export const getSessionCacheStats = async (sessionId: string): Promise<SessionCacheStats> => {
+  const { data, error } = await supabase
+    .from('enrichment_cache_session_stats')
+    .select('cache_hits, cache_misses')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching session cache stats:', error);
+  }
+
+  const hits = data?.cache_hits ?? 0;
+  const misses = data?.cache_misses ?? 0;
+  return { hits, misses, hitRate: hits + misses > 0 ? hits / (hits + misses) : 0 };
+};
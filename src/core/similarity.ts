@@ -0,0 +1,379 @@
+// =====================================================
+// ULTRACLEAN - Similarity Metrics & Blocking
+// =====================================================
+
+import type { DuplicateOptions, ProgressCallback, SimilarityMetric } from './types';
+
+export type SimilarityFn = (a: string, b: string) => number;
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = {
+  metric: 'trigram',
+  threshold: 0.8,
+  columns: []
+};
+
+// Texts shorter than this carry too little signal to compare
+const MIN_TEXT_LENGTH = 5;
+
+// Lowest threshold offered; below it blocking would need too many buckets
+// to keep its recall and groups stop meaning "the same product"
+export const MIN_DUPLICATE_THRESHOLD = 0.5;
+
+// MinHash/LSH layout is picked per metric and threshold so that pairs right
+// at the threshold land in a shared bucket at least this often
+const LSH_TARGET_RECALL = 0.95;
+const LSH_MAX_BANDS = 64;
+const LSH_MAX_ROWS = 4;
+
+// Per row, only the candidates sharing the rarest buckets are compared; keeps
+// catalogs full of near-identical texts from going quadratic
+const BUCKET_WINDOW = 50;
+const MAX_CANDIDATES = 10;
+
+// Connectors found in most product names; as token-set blocking keys their
+// buckets would fill every row's window with unrelated texts
+const BLOCKING_STOPWORDS = new Set([
+  'a', 'o', 'e', 'as', 'os', 'de', 'da', 'do', 'das', 'dos', 'em', 'na', 'no', 'nas', 'nos',
+  'com', 'sem', 'para', 'por', 'p', 'c', 'um', 'uma'
+]);
+
+/**
+ * Lowercase, strip accents and punctuation so only letters and digits count
+ */
+export const normalizeSimilarityText = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+const tokens = (text: string): string[] => text.split(' ').filter(Boolean);
+
+const trigrams = (text: string): Set<string> => {
+  const padded = `  ${text} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+};
+
+/**
+ * Edit distance between two strings (insertions, deletions, substitutions)
+ */
+export const levenshteinDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  let current = new Array<number>(b.length + 1);
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length];
+};
+
+const levenshteinSimilarity: SimilarityFn = (a, b) => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshteinDistance(a, b) / longest;
+};
+
+/**
+ * Word-level Jaccard index, ignoring words of up to two letters
+ */
+const jaccardSimilarity: SimilarityFn = (a, b) => {
+  const words1 = new Set(tokens(a).filter(w => w.length > 2));
+  const words2 = new Set(tokens(b).filter(w => w.length > 2));
+  if (words1.size === 0 || words2.size === 0) return 0;
+
+  const intersection = [...words1].filter(w => words2.has(w)).length;
+  return intersection / (words1.size + words2.size - intersection);
+};
+
+/**
+ * Dice coefficient over character trigrams. Tolerates typos, reordered
+ * words and truncated abbreviations ("parafuso" vs "paraf").
+ */
+const trigramSimilarity: SimilarityFn = (a, b) => {
+  const grams1 = trigrams(a);
+  const grams2 = trigrams(b);
+  let shared = 0;
+  grams1.forEach(g => { if (grams2.has(g)) shared++; });
+  return (2 * shared) / (grams1.size + grams2.size);
+};
+
+/**
+ * Token-set ratio: compares the shared words with each side's leftovers,
+ * so word order and repeated words don't matter
+ */
+const tokenSetSimilarity: SimilarityFn = (a, b) => {
+  const set1 = new Set(tokens(a));
+  const set2 = new Set(tokens(b));
+  const shared = [...set1].filter(w => set2.has(w)).sort().join(' ');
+  const rest1 = [...set1].filter(w => !set2.has(w)).sort().join(' ');
+  const rest2 = [...set2].filter(w => !set1.has(w)).sort().join(' ');
+
+  const combined1 = `${shared} ${rest1}`.trim();
+  const combined2 = `${shared} ${rest2}`.trim();
+  if (!shared) return levenshteinSimilarity(combined1, combined2);
+
+  return Math.max(
+    levenshteinSimilarity(shared, combined1),
+    levenshteinSimilarity(shared, combined2),
+    levenshteinSimilarity(combined1, combined2)
+  );
+};
+
+export const SIMILARITY_METRICS: Record<SimilarityMetric, { label: string; description: string; compare: SimilarityFn }> = {
+  jaccard: {
+    label: 'Palavras (Jaccard)',
+    description: 'Proporção de palavras em comum',
+    compare: jaccardSimilarity
+  },
+  trigram: {
+    label: 'Trigramas',
+    description: 'Tolera erros de digitação, abreviações e palavras fora de ordem',
+    compare: trigramSimilarity
+  },
+  levenshtein: {
+    label: 'Levenshtein',
+    description: 'Distância de edição caractere a caractere',
+    compare: levenshteinSimilarity
+  },
+  tokenSet: {
+    label: 'Conjunto de palavras',
+    description: 'Ignora a ordem e considera igual quando um texto contém o outro',
+    compare: tokenSetSimilarity
+  }
+};
+
+/**
+ * Compare two raw texts with the given metric
+ */
+export const compareTexts = (a: string, b: string, metric: SimilarityMetric): number => {
+  return SIMILARITY_METRICS[metric].compare(normalizeSimilarityText(a), normalizeSimilarityText(b));
+};
+
+// 32-bit FNV-1a
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Finalizer from MurmurHash3, seeded per MinHash function
+const mixHash = (value: number, seed: number): number => {
+  let h = Math.imul(value ^ seed, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+};
+
+const MINHASH_SEEDS = Array.from({ length: LSH_MAX_BANDS * LSH_MAX_ROWS }, (_, i) => mixHash(i + 1, 0x9e3779b9));
+
+interface LshLayout {
+  bands: number;
+  rows: number;
+}
+
+/**
+ * Lowest Jaccard overlap between the shingle sets (trigrams, or words for
+ * jaccard) of two texts that are `threshold` similar under the metric
+ */
+const minimumOverlap = (metric: Exclude<SimilarityMetric, 'tokenSet'>, threshold: number): number => {
+  switch (metric) {
+    case 'trigram':
+      // Dice to Jaccard
+      return threshold / (2 - threshold);
+    case 'jaccard':
+      return threshold;
+    case 'levenshtein': {
+      // Each edit breaks up to three trigrams
+      const broken = 3 * (1 - threshold);
+      return Math.max(0.1, (1 - broken) / (1 + broken));
+    }
+  }
+};
+
+/**
+ * Most rows per band (fewer, more precise buckets) that still reach the
+ * target recall at the given overlap within the band budget:
+ * P(shared bucket) = 1 - (1 - overlap^rows)^bands
+ */
+const lshLayout = (overlap: number): LshLayout => {
+  for (let rows = LSH_MAX_ROWS; rows >= 1; rows--) {
+    const bands = Math.ceil(Math.log(1 - LSH_TARGET_RECALL) / Math.log(1 - overlap ** rows));
+    if (bands <= LSH_MAX_BANDS) return { bands, rows };
+  }
+  return { bands: LSH_MAX_BANDS, rows: 1 };
+};
+
+/**
+ * Bucket keys of a set of shingles, one per LSH band
+ */
+const lshBandKeys = (shingleTexts: Iterable<string>, layout: LshLayout): number[] => {
+  const shingles = [...shingleTexts].map(hashString);
+  const keys: number[] = [];
+  if (shingles.length === 0) return keys;
+
+  for (let band = 0; band < layout.bands; band++) {
+    let key = band;
+    for (let row = 0; row < layout.rows; row++) {
+      const seed = MINHASH_SEEDS[band * LSH_MAX_ROWS + row];
+      let min = 0xffffffff;
+      for (let i = 0; i < shingles.length; i++) {
+        const h = mixHash(shingles[i], seed);
+        if (h < min) min = h;
+      }
+      key = mixHash(key ^ min, seed);
+    }
+    keys.push(key);
+  }
+
+  return keys;
+};
+
+/**
+ * Blocking keys of each text for a metric. Token-set similarity is high when
+ * one text contains the other ("parafuso" in "parafuso sextavado inox m8"),
+ * which MinHash misses, so it blocks on each word instead, connectors left
+ * out unless the text has nothing else.
+ */
+const blockingKeys = (metric: SimilarityMetric, threshold: number): ((text: string) => number[]) => {
+  if (metric === 'tokenSet') {
+    return text => {
+      const words = [...new Set(tokens(text))];
+      const meaningful = words.filter(w => !BLOCKING_STOPWORDS.has(w));
+      return (meaningful.length > 0 ? meaningful : words).map(hashString);
+    };
+  }
+  const layout = lshLayout(minimumOverlap(metric, threshold));
+  return metric === 'jaccard'
+    ? text => lshBandKeys(new Set(tokens(text).filter(w => w.length > 2)), layout)
+    : text => lshBandKeys(trigrams(text), layout);
+};
+
+/**
+ * Group texts that are at least `threshold` similar (never below
+ * MIN_DUPLICATE_THRESHOLD). Identical texts are grouped directly; the rest
+ * are blocked with MinHash/LSH, or by word for token sets, so only rows
+ * sharing a bucket are compared, which keeps 100k rows tractable.
+ * Each group is anchored on its first text and every member must match
+ * it, so chains of "almost similar" texts don't snowball into one group.
+ */
+export const findSimilarGroups = (
+  texts: string[],
+  options: Pick<DuplicateOptions, 'metric' | 'threshold'>,
+  onProgress?: ProgressCallback
+): { rows: number[]; similarity: number }[] => {
+  const compare = SIMILARITY_METRICS[options.metric].compare;
+  const threshold = Math.max(options.threshold, MIN_DUPLICATE_THRESHOLD);
+  const keysOf = blockingKeys(options.metric, threshold);
+
+  // Collapse identical texts so each distinct value is hashed once
+  const uniqueTexts: string[] = [];
+  const rowsByText = new Map<string, number[]>();
+  texts.forEach((raw, row) => {
+    const text = normalizeSimilarityText(raw);
+    if (text.length < MIN_TEXT_LENGTH) return;
+    if (!rowsByText.has(text)) {
+      rowsByText.set(text, []);
+      uniqueTexts.push(text);
+    }
+    rowsByText.get(text)!.push(row);
+  });
+
+  // LSH keys are seeded with their band, so all bands share one map
+  const total = uniqueTexts.length * 2;
+  const buckets = new Map<number, number[]>();
+  const keys: number[][] = [];
+
+  uniqueTexts.forEach((text, u) => {
+    const textKeys = keysOf(text);
+    keys.push(textKeys);
+    textKeys.forEach(key => {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(u);
+      else buckets.set(key, [u]);
+    });
+    onProgress?.(u, total);
+  });
+
+  // leader[v] is the text v was grouped under; weakest[u] is the lowest
+  // similarity inside the group led by u
+  const leader = new Int32Array(uniqueTexts.length).fill(-1);
+  const weakest = new Float64Array(uniqueTexts.length).fill(1);
+
+  uniqueTexts.forEach((text, u) => {
+    if (leader[u] !== -1) {
+      onProgress?.(uniqueTexts.length + u, total);
+      return;
+    }
+
+    const hits = new Map<number, number>();
+    keys[u].forEach(key => {
+      const bucket = buckets.get(key)!;
+      // Buckets are in ascending order, so start right after u
+      let lo = 0;
+      let hi = bucket.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (bucket[mid] <= u) lo = mid + 1;
+        else hi = mid;
+      }
+      // A shared rare key says more than a shared common one, so each counts
+      // by its bucket's rarity rather than one per key
+      const weight = 1 / bucket.length;
+      // Texts already in a group can't join another, so they don't take a candidate slot
+      let taken = 0;
+      for (let i = lo; i < bucket.length && taken < BUCKET_WINDOW; i++) {
+        if (leader[bucket[i]] !== -1) continue;
+        hits.set(bucket[i], (hits.get(bucket[i]) || 0) + weight);
+        taken++;
+      }
+    });
+
+    const candidates = hits.size > MAX_CANDIDATES
+      ? [...hits.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_CANDIDATES).map(([v]) => v)
+      : [...hits.keys()];
+
+    candidates.forEach(v => {
+      if (leader[v] !== -1) return;
+      const similarity = compare(text, uniqueTexts[v]);
+      if (similarity < threshold) return;
+      leader[v] = u;
+      weakest[u] = Math.min(weakest[u], similarity);
+    });
+    onProgress?.(uniqueTexts.length + u, total);
+  });
+
+  const byLeader = new Map<number, number[]>();
+  uniqueTexts.forEach((text, u) => {
+    const root = leader[u] === -1 ? u : leader[u];
+    if (!byLeader.has(root)) byLeader.set(root, []);
+    byLeader.get(root)!.push(...rowsByText.get(text)!);
+  });
+
+  const result: { rows: number[]; similarity: number }[] = [];
+  byLeader.forEach((rows, root) => {
+    if (rows.length < 2) return;
+    result.push({ rows: rows.sort((a, b) => a - b), similarity: weakest[root] });
+  });
+
+  onProgress?.(total, total);
+  return result.sort((a, b) => a.rows[0] - b.rows[0]);
+};
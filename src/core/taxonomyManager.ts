@@ -3,7 +3,7 @@
 // =====================================================
 
 import { supabase } from '@/integrations/supabase/client';
-import type { CategoryNode, GeneratedTags, ProductData, TagGroup } from './types';
+import type { CategoryNode, CategoryProposal, GeneratedTags, ProductData, TagGroup } from './types';
 
 /**
  * Parse category tree from JSON/CSV data
@@ -108,6 +108,92 @@ export const loadCategoryTree = async (userId: string): Promise<string[] | null>
   return null;
 };
 
+/**
+ * Categories proposed by enrichment outside the user's tree, most frequent first
+ */
+export const getCategoryProposals = async (
+  userId: string,
+  status: CategoryProposal['status'] = 'pending'
+): Promise<CategoryProposal[]> => {
+  const { data, error } = await supabase
+    .from('category_proposals')
+    .select('id, proposed_path, occurrences, sample_product, status, updated_at')
+    .eq('user_id', userId)
+    .eq('status', status)
+    .order('occurrences', { ascending: false })
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load category proposals: ${error.message}`);
+  }
+
+  return (data || []).map(row => ({
+    id: row.id,
+    path: row.proposed_path,
+    occurrences: row.occurrences,
+    sampleProduct: row.sample_product as Record<string, unknown> | null,
+    status: row.status as CategoryProposal['status'],
+    updatedAt: row.updated_at
+  }));
+};
+
+/**
+ * Accept a proposal: its path is added to the active category tree
+ * (a new tree is created when the user has none)
+ */
+export const acceptCategoryProposal = async (
+  userId: string,
+  proposal: CategoryProposal
+): Promise<void> => {
+  const { data: tree, error: treeError } = await supabase
+    .from('category_trees')
+    .select('id, categories')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (treeError) {
+    throw new Error(`Failed to load category tree: ${treeError.message}`);
+  }
+
+  if (tree) {
+    const categories = Array.isArray(tree.categories) ? (tree.categories as string[]) : [];
+    if (!categories.includes(proposal.path)) {
+      const { error } = await supabase
+        .from('category_trees')
+        .update({ categories: [...categories, proposal.path] })
+        .eq('id', tree.id);
+      if (error) {
+        throw new Error(`Failed to update category tree: ${error.message}`);
+      }
+    }
+  } else {
+    await saveCategoryTree(userId, 'Categorias', [proposal.path]);
+  }
+
+  await setCategoryProposalStatus(proposal.id, 'accepted');
+};
+
+/**
+ * Mark a proposal as accepted or rejected; rejected paths keep being counted
+ * but stay out of the pending list
+ */
+export const setCategoryProposalStatus = async (
+  proposalId: string,
+  status: CategoryProposal['status']
+): Promise<void> => {
+  const { error } = await supabase
+    .from('category_proposals')
+    .update({ status })
+    .eq('id', proposalId);
+
+  if (error) {
+    throw new Error(`Failed to update category proposal: ${error.message}`);
+  }
+};
+
 /**
  * Parse existing tags from Bling format
  * Format: "GRUPO1:tag1, GRUPO1:tag2, GRUPO2:tag3"
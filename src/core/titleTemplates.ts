@@ -0,0 +1,200 @@
+// =====================================================
+// ULTRACLEAN - Title Templates per Category
+// =====================================================
+
+import { categorySegments, containsCategory, normalizeHeader } from './columnMapping';
+import { applyCasing } from './transformRules';
+import type { ProductData, TitlePreview, TitleTemplate } from './types';
+
+// Catalog standard: Tipo + Marca + Modelo + Atributos
+export const DEFAULT_TITLE_TEMPLATE = '{Tipo} {Marca} {Modelo} [{Cor}] [{Tamanho}]';
+
+// Bling limits the product name to 120 characters
+export const DEFAULT_TITLE_MAX_LENGTH = 120;
+
+const FIELD = /\{([^{}]+)\}/g;
+// split() keeps the captured contents of each optional part
+const OPTIONAL = /\[([^[\]]*)\]/;
+// Separators left dangling when a field is empty: "Tipo -  - Modelo", "Tipo, "
+const SEPARATOR = String.raw`[-–|/,;:]`;
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
+export const createTitleTemplate = (category = ''): TitleTemplate => ({
+  id: crypto.randomUUID(),
+  category,
+  template: DEFAULT_TITLE_TEMPLATE,
+  fieldCasing: {},
+  maxLength: DEFAULT_TITLE_MAX_LENGTH,
+  enabled: true
+});
+
+/**
+ * Field names used by a template, in order, without repeats
+ */
+export const getTemplateFields = (template: string): string[] =>
+  [...new Set([...template.matchAll(FIELD)].map(match => match[1].trim()))];
+
+// Fields outside square brackets: a title without any of them is incomplete
+const getRequiredFields = (template: string): string[] =>
+  getTemplateFields(template.split(OPTIONAL).filter((_, i) => i % 2 === 0).join(' '));
+
+/**
+ * Why a template can't run, or null when it's complete. Fields in square
+ * brackets may be missing from the sheet; the others may not.
+ */
+export const getTemplateError = (template: TitleTemplate, columns: string[]): string | null => {
+  const fields = getTemplateFields(template.template);
+  if (fields.length === 0) return 'Use ao menos um campo entre chaves, ex.: {Marca}';
+  const known = new Set(columns.map(normalizeHeader));
+  const unknown = getRequiredFields(template.template).filter(field => !known.has(normalizeHeader(field)));
+  if (unknown.length > 0) return `Coluna(s) não encontrada(s): ${unknown.join(', ')}. Use colchetes para campos opcionais.`;
+  if (fields.every(field => !known.has(normalizeHeader(field)))) return `Nenhuma coluna encontrada: ${fields.join(', ')}`;
+  if (template.maxLength < 0) return 'Tamanho máximo inválido';
+  return null;
+};
+
+/**
+ * The column titles are written to: "Nome", or Bling's "Descrição"
+ */
+export const getTitleColumn = (columns: string[]): string =>
+  columns.find(col => /^nome$/i.test(col.trim()))
+  ?? columns.find(col => /^nome (do )?produto$|^descri[cç][aã]o$/i.test(col.trim()))
+  ?? 'Nome';
+
+const getCategoryColumn = (columns: string[]): string | undefined =>
+  columns.find(col => /categoria|category/i.test(col));
+
+/**
+ * Template for a product category. Categories are paths ("Vestuário >
+ * Camisetas") matched by whole levels; the template naming the most levels
+ * wins, then the template without category.
+ */
+export const findTitleTemplate = (
+  templates: TitleTemplate[],
+  category: string
+): TitleTemplate | undefined => {
+  let best: TitleTemplate | undefined;
+  let bestLevels = -1;
+  templates.forEach(template => {
+    if (!template.enabled) return;
+    const levels = categorySegments(template.category).length;
+    if (levels > 0 && !containsCategory(category, template.category)) return;
+    if (levels > bestLevels) {
+      best = template;
+      bestLevels = levels;
+    }
+  });
+  return best;
+};
+
+const truncateTitle = (title: string, maxLength: number): string => {
+  if (!maxLength || title.length <= maxLength) return title;
+  const cut = title.slice(0, maxLength + 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  const truncated = lastSpace > 0 ? cut.slice(0, lastSpace) : title.slice(0, maxLength);
+  return truncated.replace(new RegExp(`(\\s*${SEPARATOR})+$`), '').trim();
+};
+
+const cleanTitle = (title: string): string =>
+  title
+    .replace(/\(\s*\)/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(new RegExp(`(\\s*${SEPARATOR}\\s*){2,}`, 'g'), match => ` ${match.trim()[0]} `)
+    .replace(new RegExp(`^(\\s*${SEPARATOR})+|(${SEPARATOR}\\s*)+$`, 'g'), '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Fill a template from a row. Empty fields are dropped together with the
+ * separators around them; text in square brackets ("[Tam {Tamanho}]") is
+ * dropped when a field inside it is empty. Over the maximum length,
+ * bracketed parts go first, from the end, then the title is cut. The title
+ * is incomplete when a field outside brackets is empty.
+ */
+export const renderTitle = (
+  row: ProductData,
+  template: TitleTemplate,
+  columns: string[]
+): { title: string; missing: string[]; incomplete: boolean } => {
+  const byName = new Map(columns.map(col => [normalizeHeader(col), col]));
+  const missing = new Set<string>();
+
+  const fill = (part: string) => {
+    let complete = true;
+    const filled = part.replace(FIELD, (_, name: string) => {
+      const field = name.trim();
+      const column = byName.get(normalizeHeader(field));
+      const value = column ? text(row[column]) : '';
+      if (!value) {
+        missing.add(field);
+        complete = false;
+        return '';
+      }
+      return applyCasing(value, template.fieldCasing[field] ?? 'none');
+    });
+    return { filled, complete };
+  };
+
+  let incomplete = false;
+  const parts = template.template.split(OPTIONAL).map((part, i) => {
+    const { filled, complete } = fill(part);
+    // Odd indexes are the bracket contents
+    if (i % 2 === 0) {
+      if (!complete) incomplete = true;
+      return { text: filled, optional: false };
+    }
+    return { text: complete ? filled : '', optional: true };
+  });
+
+  let title = cleanTitle(parts.map(p => p.text).join(''));
+  for (let i = parts.length - 1; template.maxLength && title.length > template.maxLength && i >= 0; i--) {
+    if (!parts[i].optional || !parts[i].text) continue;
+    parts[i].text = '';
+    title = cleanTitle(parts.map(p => p.text).join(''));
+  }
+
+  return { title: truncateTitle(title, template.maxLength), missing: [...missing], incomplete };
+};
+
+/**
+ * Titles for each row from its category's template. Only rows whose title
+ * changes are returned; rows missing a field outside brackets keep their
+ * current title.
+ */
+export const renderTitles = (
+  data: ProductData[],
+  columns: string[],
+  templates: TitleTemplate[],
+  titleColumn = getTitleColumn(columns)
+): TitlePreview[] => {
+  const categoryColumn = getCategoryColumn(columns);
+  const runnable = templates.filter(t => t.enabled && !getTemplateError(t, columns));
+  if (runnable.length === 0) return [];
+
+  const previews: TitlePreview[] = [];
+  data.forEach((row, index) => {
+    const template = findTitleTemplate(runnable, categoryColumn ? text(row[categoryColumn]) : '');
+    if (!template) return;
+    const { title, missing, incomplete } = renderTitle(row, template, columns);
+    const before = text(row[titleColumn]);
+    if (incomplete || !title || title === before) return;
+    previews.push({ row: index, templateId: template.id, before, after: title, missing });
+  });
+  return previews;
+};
+
+/**
+ * Write rendered titles into a copy of the data
+ */
+export const applyTitles = (
+  data: ProductData[],
+  previews: TitlePreview[],
+  titleColumn: string
+): ProductData[] => {
+  const next = [...data];
+  previews.forEach(({ row, after }) => {
+    next[row] = { ...next[row], [titleColumn]: after };
+  });
+  return next;
+};
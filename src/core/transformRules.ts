@@ -0,0 +1,255 @@
+// =====================================================
+// ULTRACLEAN - Declarative Transformation Rules
+// =====================================================
+
+import type {
+  ColumnConfig,
+  ProductData,
+  RuleChange,
+  RuleCondition,
+  TextCasing,
+  TransformRule,
+  TransformRuleType
+} from './types';
+
+export const RULE_TYPE_LABELS: Record<TransformRuleType, string> = {
+  replace: 'Localizar e substituir (regex)',
+  conditional_fill: 'Preencher se condição',
+  concat: 'Concatenar colunas',
+  trim_case: 'Espaços e maiúsculas',
+  lookup: 'Tabela de equivalência'
+};
+
+export const RULE_CONDITION_LABELS: Record<RuleCondition, string> = {
+  contains: 'contém',
+  equals: 'é igual a',
+  matches: 'corresponde à regex',
+  empty: 'está vazio',
+  not_empty: 'está preenchido'
+};
+
+export const TEXT_CASING_LABELS: Record<TextCasing, string> = {
+  none: 'Manter',
+  upper: 'MAIÚSCULAS',
+  lower: 'minúsculas',
+  title: 'Primeira Letra Maiúscula',
+  sentence: 'Apenas a primeira letra'
+};
+
+// Words kept lowercase in title case, except at the start
+const SMALL_WORDS = new Set(['a', 'e', 'o', 'as', 'os', 'de', 'da', 'do', 'das', 'dos', 'em', 'na', 'no', 'com', 'para', 'por', 'sem']);
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+const isEmpty = (value: unknown) => text(value).trim() === '';
+const lookupKey = (value: unknown) => text(value).trim().toLowerCase();
+
+/**
+ * A new rule of the given type with empty settings
+ */
+export const createTransformRule = (type: TransformRuleType, column = ''): TransformRule => {
+  const base = { id: crypto.randomUUID(), enabled: true };
+  switch (type) {
+    case 'replace':
+      return { ...base, type, column, pattern: '', replacement: '', ignoreCase: true };
+    case 'conditional_fill':
+      return { ...base, type, when: { column, condition: 'contains', value: '' }, column: '', value: '', overwrite: false };
+    case 'concat':
+      return { ...base, type, sources: [], separator: ' ', column };
+    case 'trim_case':
+      return { ...base, type, column, trim: true, casing: 'none' };
+    case 'lookup':
+      return { ...base, type, source: column, column, table: {}, keepUnmatched: true };
+  }
+};
+
+const compileRegex = (pattern: string, flags: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, flags);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Why a rule can't run, or null when it's complete
+ */
+export const getRuleError = (rule: TransformRule): string | null => {
+  if (!rule.column) return 'Escolha a coluna de destino';
+  switch (rule.type) {
+    case 'replace':
+      if (!rule.pattern) return 'Informe o padrão a localizar';
+      return compileRegex(rule.pattern, 'g') ? null : 'Expressão regular inválida';
+    case 'conditional_fill':
+      if (!rule.when.column) return 'Escolha a coluna da condição';
+      if (rule.when.condition === 'matches' && !compileRegex(rule.when.value, 'i')) return 'Expressão regular inválida';
+      return null;
+    case 'concat':
+      return rule.sources.length === 0 ? 'Escolha as colunas a concatenar' : null;
+    case 'trim_case':
+      return !rule.trim && rule.casing === 'none' ? 'Nada a fazer' : null;
+    case 'lookup':
+      if (!rule.source) return 'Escolha a coluna de origem';
+      return Object.keys(rule.table).length === 0 ? 'A tabela está vazia' : null;
+  }
+};
+
+/**
+ * Parse "chave = valor" lines into a lookup table
+ */
+export const parseLookupTable = (input: string): Record<string, string> => {
+  const table: Record<string, string> = {};
+  input.split(/\r?\n/).forEach(line => {
+    const separator = line.search(/=|\t|;/);
+    if (separator === -1) return;
+    const key = line.slice(0, separator).trim();
+    if (key) table[key] = line.slice(separator + 1).trim();
+  });
+  return table;
+};
+
+export const formatLookupTable = (table: Record<string, string>): string =>
+  Object.entries(table).map(([key, value]) => `${key} = ${value}`).join('\n');
+
+export const applyCasing = (value: string, casing: TextCasing): string => {
+  switch (casing) {
+    case 'upper':
+      return value.toLocaleUpperCase('pt-BR');
+    case 'lower':
+      return value.toLocaleLowerCase('pt-BR');
+    case 'sentence': {
+      const lower = value.toLocaleLowerCase('pt-BR');
+      return lower.charAt(0).toLocaleUpperCase('pt-BR') + lower.slice(1);
+    }
+    case 'title':
+      return value.split(' ').map((word, i) => {
+        // Codes and measures ("110V", "4x4") keep their casing
+        if (/\d/.test(word)) return word;
+        const lower = word.toLocaleLowerCase('pt-BR');
+        if (i > 0 && SMALL_WORDS.has(lower)) return lower;
+        return lower.charAt(0).toLocaleUpperCase('pt-BR') + lower.slice(1);
+      }).join(' ');
+    default:
+      return value;
+  }
+};
+
+type CompiledRule = (row: ProductData) => unknown;
+
+// Each compiled rule returns the new value of its column, or undefined to leave it
+const compileRule = (rule: TransformRule): CompiledRule | null => {
+  if (!rule.enabled || getRuleError(rule)) return null;
+
+  switch (rule.type) {
+    case 'replace': {
+      const regex = compileRegex(rule.pattern, rule.ignoreCase ? 'gi' : 'g')!;
+      return row => (isEmpty(row[rule.column]) ? undefined : text(row[rule.column]).replace(regex, rule.replacement));
+    }
+    case 'conditional_fill': {
+      const { column, condition, value } = rule.when;
+      const expected = value.trim().toLowerCase();
+      const regex = condition === 'matches' ? compileRegex(value, 'i') : null;
+      const test = (cell: unknown) => {
+        const current = text(cell).trim().toLowerCase();
+        switch (condition) {
+          case 'contains': return current.includes(expected);
+          case 'equals': return current === expected;
+          case 'matches': return regex!.test(text(cell));
+          case 'empty': return current === '';
+          case 'not_empty': return current !== '';
+        }
+      };
+      return row => {
+        if (!test(row[column])) return undefined;
+        return rule.overwrite || isEmpty(row[rule.column]) ? rule.value : undefined;
+      };
+    }
+    case 'concat':
+      return row => rule.sources.map(col => text(row[col]).trim()).filter(Boolean).join(rule.separator);
+    case 'trim_case':
+      return row => {
+        if (isEmpty(row[rule.column])) return undefined;
+        const value = rule.trim ? text(row[rule.column]).replace(/\s+/g, ' ').trim() : text(row[rule.column]);
+        return applyCasing(value, rule.casing);
+      };
+    case 'lookup': {
+      const table = new Map(Object.entries(rule.table).map(([key, value]) => [lookupKey(key), value]));
+      return row => {
+        const key = lookupKey(row[rule.source]);
+        if (table.has(key)) return table.get(key);
+        return rule.keepUnmatched ? undefined : '';
+      };
+    }
+  }
+};
+
+/**
+ * Compile rules once into a function that transforms a row in place, in
+ * list order, so each rule sees the output of the previous ones. Protected
+ * columns are never written. Returns the number of changed cells.
+ */
+export const compileTransformRules = (
+  rules: TransformRule[],
+  columnConfig: Record<string, ColumnConfig> = {}
+) => {
+  const compiled = rules.flatMap(rule => {
+    const fn = compileRule(rule);
+    return fn && !columnConfig[rule.column]?.isProtected ? [{ rule, fn }] : [];
+  });
+
+  return (row: ProductData, onChange?: (change: Omit<RuleChange, 'row'>) => void): number => {
+    let changed = 0;
+    compiled.forEach(({ rule, fn }) => {
+      const next = fn(row);
+      const before = row[rule.column];
+      if (next === undefined || text(next) === text(before)) return;
+      row[rule.column] = next;
+      changed++;
+      onChange?.({ column: rule.column, ruleId: rule.id, before, after: next });
+    });
+    return changed;
+  };
+};
+
+/**
+ * Apply the rules to a copy of the dataset
+ */
+export const applyTransformRules = (
+  data: ProductData[],
+  rules: TransformRule[],
+  columnConfig: Record<string, ColumnConfig> = {}
+): { data: ProductData[]; changed: number } => {
+  const transform = compileTransformRules(rules, columnConfig);
+  let changed = 0;
+  const next = data.map(row => {
+    const copy = { ...row };
+    changed += transform(copy);
+    return copy;
+  });
+  return { data: next, changed };
+};
+
+/**
+ * Dry run: how many rows and cells each rule changes, plus the first
+ * changes as before/after samples
+ */
+export const previewTransformRules = (
+  data: ProductData[],
+  rules: TransformRule[],
+  columnConfig: Record<string, ColumnConfig> = {},
+  sampleSize = 50
+): { samples: RuleChange[]; affectedRows: number; changesByRule: Record<string, number> } => {
+  const transform = compileTransformRules(rules, columnConfig);
+  const samples: RuleChange[] = [];
+  const changesByRule: Record<string, number> = {};
+  let affectedRows = 0;
+
+  data.forEach((row, index) => {
+    const changed = transform({ ...row }, change => {
+      changesByRule[change.ruleId] = (changesByRule[change.ruleId] || 0) + 1;
+      if (samples.length < sampleSize) samples.push({ row: index, ...change });
+    });
+    if (changed > 0) affectedRows++;
+  });
+
+  return { samples, affectedRows, changesByRule };
+};
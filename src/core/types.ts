@@ -19,13 +19,332 @@ export interface DuplicateResult {
   sourceFiles?: string[];
 }
 
+// Duplicate detection settings
+export type SimilarityMetric = 'jaccard' | 'trigram' | 'levenshtein' | 'tokenSet';
+
+export interface DuplicateOptions {
+  metric: SimilarityMetric;
+  threshold: number;
+  columns: string[];
+}
+
+// GTIN validation types
+export type GtinStatus =
+  | 'valid'
+  | 'empty'
+  | 'placeholder'
+  | 'invalid_format'
+  | 'invalid_length'
+  | 'invalid_check_digit'
+  | 'precision_lost';
+
+export interface GtinCheck {
+  normalized: string;
+  status: GtinStatus;
+  changed: boolean;
+}
+
+export interface GtinIssue {
+  row: number;
+  column: string;
+  value: string;
+  status: GtinStatus;
+}
+
+// Transformation rule types, applied in list order
+export type TransformRuleType = 'replace' | 'conditional_fill' | 'concat' | 'trim_case' | 'lookup';
+export type RuleCondition = 'contains' | 'equals' | 'matches' | 'empty' | 'not_empty';
+export type TextCasing = 'none' | 'upper' | 'lower' | 'title' | 'sentence';
+
+interface TransformRuleBase {
+  id: string;
+  enabled: boolean;
+}
+
+export interface ReplaceRule extends TransformRuleBase {
+  type: 'replace';
+  column: string;
+  pattern: string;
+  replacement: string;
+  ignoreCase: boolean;
+}
+
+export interface ConditionalFillRule extends TransformRuleBase {
+  type: 'conditional_fill';
+  when: { column: string; condition: RuleCondition; value: string };
+  column: string;
+  value: string;
+  overwrite: boolean;
+}
+
+export interface ConcatRule extends TransformRuleBase {
+  type: 'concat';
+  sources: string[];
+  separator: string;
+  column: string;
+}
+
+export interface TrimCaseRule extends TransformRuleBase {
+  type: 'trim_case';
+  column: string;
+  trim: boolean;
+  casing: TextCasing;
+}
+
+export interface LookupRule extends TransformRuleBase {
+  type: 'lookup';
+  source: string;
+  column: string;
+  table: Record<string, string>;
+  keepUnmatched: boolean;
+}
+
+export type TransformRule = ReplaceRule | ConditionalFillRule | ConcatRule | TrimCaseRule | LookupRule;
+
+export interface RuleChange {
+  row: number;
+  column: string;
+  ruleId: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Measurement extraction types
+export type MeasureKind = 'mass' | 'volume' | 'length' | 'count';
+
+export interface Measurement {
+  kind: MeasureKind;
+  // In kg, L, cm or the Bling unit code for counts
+  value: number;
+  unit: string;
+  text: string;
+}
+
+export interface ParsedMeasures {
+  mass?: Measurement;
+  volume?: Measurement;
+  length?: Measurement;
+  count?: Measurement;
+  dimensions: Measurement[];
+}
+
+export interface MeasureProposal {
+  row: number;
+  column: string;
+  current: unknown;
+  value: string;
+  source: string;
+  kind: MeasureKind;
+}
+
+// Abbreviation expansion types
+// Limits an entry to some columns or product categories; unset means anywhere
+export interface AbbreviationScope {
+  columns?: string[];
+  categories?: string[];
+}
+
+export type AbbreviationScopes = Record<string, AbbreviationScope>;
+
+export interface AbbreviationContext {
+  column?: string;
+  category?: string;
+}
+
+export interface AbbreviationMatch {
+  original: string;
+  expanded: string;
+  index: number;
+}
+
+export interface AbbreviationExpansion {
+  text: string;
+  matches: AbbreviationMatch[];
+}
+
+// Title template types
+export interface TitleTemplate {
+  id: string;
+  // Applies to products in this category (and its subcategories); empty for all others
+  category: string;
+  // Column names in braces: "{Tipo} {Marca} {Modelo} {Cor} {Tamanho}"
+  template: string;
+  fieldCasing: Record<string, TextCasing>;
+  // Longer titles are cut at a word boundary; 0 keeps them whole
+  maxLength: number;
+  enabled: boolean;
+}
+
+export interface TitlePreview {
+  row: number;
+  templateId: string;
+  before: string;
+  after: string;
+  missing: string[];
+}
+
+// Rich description types
+export interface DescriptionTemplate {
+  // Column that receives the HTML, usually "Descrição Complementar"
+  targetColumn: string;
+  // Opening paragraph; HTML in it is sanitized, plain text becomes paragraphs
+  introColumn: string;
+  // Shown as "Cor: Preto" bullets
+  attributeColumns: string[];
+  // Shown as rows of the specification table
+  specColumns: string[];
+  // Items in the box, split on ";" or new lines
+  packageColumn: string;
+  // Used when the package column is empty or missing
+  packageText: string;
+}
+
+export interface DescriptionPreview {
+  row: number;
+  before: string;
+  after: string;
+}
+
+// Pricing types
+export type PricingScope = 'all' | 'category' | 'brand';
+export type PricingMode = 'markup' | 'margin';
+// Cents the price ends in ("x,90"), or whole reais
+export type PriceRounding = 'none' | 'x90' | 'x99' | 'integer';
+
+export interface PricingRule {
+  id: string;
+  enabled: boolean;
+  scope: PricingScope;
+  // Category path or brand; ignored for 'all'
+  match: string;
+  mode: PricingMode;
+  // Percent over cost (markup) or of the sale price (margin)
+  value: number;
+  rounding: PriceRounding;
+}
+
+export type PriceIssueStatus = 'below_cost' | 'low_margin' | 'no_cost' | 'no_price';
+
+export interface PriceIssue {
+  row: number;
+  status: PriceIssueStatus;
+  price: number | null;
+  cost: number | null;
+  margin: number | null;
+}
+
+export interface PriceChange {
+  row: number;
+  ruleId: string;
+  cost: number;
+  current: number | null;
+  proposed: number;
+  currentMargin: number | null;
+  proposedMargin: number;
+}
+
+// Catalog diagnostics types
+export type DiagnosticCheck = 'required' | 'image' | 'ncm' | 'gtin' | 'description';
+
+export interface ColumnDiagnostic {
+  column: string;
+  total: number;
+  filled: number;
+  empty: number;
+  fillRate: number;
+  unique: number;
+  examples: string[];
+}
+
+export interface ProductScore {
+  row: number;
+  // 0 to 100, weighted by check
+  score: number;
+  failed: DiagnosticCheck[];
+  missingRequired: string[];
+}
+
+export interface CatalogDiagnostics {
+  scores: ProductScore[];
+  averageScore: number;
+  // Rows failing each check
+  failing: Record<DiagnosticCheck, number[]>;
+  columns: ColumnDiagnostic[];
+}
+
+// Change journal types
+export type ChangeSource =
+  | 'manual' | 'ncm' | 'ai' | 'abbreviation' | 'cleanup' | 'rule' | 'gtin' | 'measure' | 'title' | 'price' | 'description'
+  | 'import' | 'nfe' | 'duplicates' | 'variants';
+
+export interface CellChange {
+  row: number;
+  rowKey: string;
+  column: string;
+  oldValue: unknown;
+  newValue: unknown;
+  source: ChangeSource;
+  timestamp: string;
+}
+
+export interface DatasetSnapshot {
+  data: ProductData[];
+  columns: string[];
+}
+
+// Rows added, removed or merged and columns added or dropped by one operation
+export interface StructureChange {
+  rowsBefore: number;
+  rowsAfter: number;
+  columnsAdded: string[];
+  columnsRemoved: string[];
+  // Merges name the row each one went into
+  removedRows: { rowKey: string; mergedInto?: string }[];
+}
+
+export interface JournalEntry {
+  id: string;
+  label: string;
+  source: ChangeSource;
+  timestamp: string;
+  changes: CellChange[];
+  structure?: StructureChange;
+  // Undo stack only: the whole dataset around a structural change
+  snapshot?: { before: DatasetSnapshot; after: DatasetSnapshot };
+  // Audit only: set on the entry recording an undo or redo
+  replay?: 'undo' | 'redo';
+}
+
+// Variant grouping types
+export type VariantValues = Record<string, string>;
+
+export interface VariantGroup {
+  parentName: string;
+  parentCode: string;
+  parentRow: number | null;
+  attributes: string[];
+  variations: { row: number; values: VariantValues }[];
+}
+
+// Duplicate resolution types
+export type DuplicateDecision = 'not_duplicate' | 'merged';
+
+export interface DuplicateResolution {
+  action: 'merge' | 'not_duplicate';
+  survivor: number;
+  fieldSources: Record<string, number>;
+}
+
 export interface ProcessingStats {
   camposPreenchidos: number;
   abreviaturasCorrigidas: number;
   camposProtegidos: number;
   camposIgnorados: number;
+  regrasAplicadas: number;
 }
 
+export type ProgressCallback = (done: number, total: number) => void;
+
 export interface ProcessingResult {
   enrichedData: Record<string, unknown>[];
   stats: ProcessingStats;
@@ -38,6 +357,105 @@ export interface ProductData {
   __row_index?: number;
 }
 
+// Workbook import types
+export interface SheetSummary {
+  name: string;
+  headers: string[];
+  rowCount: number;
+}
+
+export interface HeaderAlignment {
+  column: string;
+  variants: Record<string, string>;
+  sheets: string[];
+}
+
+// Column mapping types
+export interface ColumnMappingSuggestion {
+  source: string;
+  target: string | null;
+  confidence: number;
+  reason: 'saved' | 'exact' | 'normalized' | 'fuzzy' | 'none';
+}
+
+export interface SupplierMapping {
+  headers: string[];
+  mapping: Record<string, string | null>;
+}
+
+// CSV import types
+export interface CsvDialect {
+  encoding: 'utf-8' | 'windows-1252';
+  delimiter: string;
+  quote: string;
+  decimal: ',' | '.';
+  dateFormat: 'dmy' | 'mdy' | 'ymd';
+}
+
+export type CsvColumnType = 'text' | 'number' | 'date';
+
+export interface CsvPreview {
+  dialect: CsvDialect;
+  columns: { name: string; type: CsvColumnType }[];
+  rows: ProductData[];
+  rowCount: number;
+}
+
+// NF-e import types
+export interface NfeProduct {
+  code: string;
+  name: string;
+  ncm: string;
+  cest: string;
+  gtin: string;
+  unit: string;
+  unitPrice: number | null;
+  supplierName: string;
+  supplierCnpj: string;
+  invoiceNumber: string;
+  issuedAt: string;
+  sourceFile: string;
+}
+
+export interface NfeImportResult {
+  products: NfeProduct[];
+  documents: number;
+  items: number;
+  duplicates: number;
+  errors: { file: string; message: string }[];
+}
+
+// Background worker types
+export type WorkerStage = 'reading' | 'merging' | 'duplicates' | 'processing';
+
+export interface WorkerProgress {
+  stage: WorkerStage;
+  done: number;
+  total: number;
+}
+
+export type WorkerRequest =
+  | { id: number; type: 'open'; buffer: ArrayBuffer }
+  | { id: number; type: 'merge'; token: string; sheetNames: string[]; filename: string }
+  | { id: number; type: 'inspectCsv'; buffer?: ArrayBuffer; token?: string; filename: string; dialect?: CsvDialect }
+  | { id: number; type: 'mergeCsv'; token: string; filename: string; dialect: CsvDialect }
+  | { id: number; type: 'close'; token: string }
+  | { id: number; type: 'duplicates'; data: ProductData[]; columnConfig: Record<string, ColumnConfig>; options?: Partial<DuplicateOptions> }
+  | {
+      id: number;
+      type: 'process';
+      data: ProductData[];
+      columnConfig: Record<string, ColumnConfig>;
+      abbreviations: Record<string, string>;
+      rules?: TransformRule[];
+      abbreviationScopes?: AbbreviationScopes;
+    };
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: WorkerProgress }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
 // Image-related types
 export interface ProductImage {
   id: string;
@@ -77,6 +495,17 @@ export interface TagGroup {
   tags: string[];
 }
 
+/** Category suggested by enrichment that is not in the user's tree */
+export interface CategoryProposal {
+  id: string;
+  path: string;
+  // Products that received the suggestion
+  occurrences: number;
+  sampleProduct: Record<string, unknown> | null;
+  status: 'pending' | 'accepted' | 'rejected';
+  updatedAt: string;
+}
+
 export interface GeneratedTags {
   productSku: string;
   originalTags: string;
@@ -95,7 +524,7 @@ export interface EnrichmentSession {
   duplicatesFound: number;
   imagesAdded: number;
   tagsGenerated: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
   metadata: Record<string, unknown>;
   createdAt: string;
   updatedAt: string;
@@ -124,3 +553,135 @@ export const BLING_STANDARD_COLUMNS: BlingColumn[] = [
 
 // Default abbreviations - loaded from JSON config
 export const DEFAULT_ABBREVIATIONS: Record<string, string> = getAbbreviations();
+
+// Fiscal validation types
+export type FiscalField = 'ncm' | 'cest' | 'origin' | 'unit';
+
+export type FiscalErrorCode =
+  | 'ncm_missing'
+  | 'ncm_format'
+  | 'ncm_unknown'
+  | 'ncm_expired'
+  | 'cest_format'
+  | 'cest_ncm_mismatch'
+  | 'origin_missing'
+  | 'origin_invalid'
+  | 'unit_missing'
+  | 'unit_invalid';
+
+export interface FiscalIssue {
+  row: number;
+  column: string;
+  field: FiscalField;
+  code: FiscalErrorCode;
+  value: string;
+}
+
+// NCMs of a sheet found in ncm_cache, with their validity (ISO dates, null when open)
+export interface FiscalReference {
+  ncm: Map<string, { start: string | null; end: string | null }>;
+}
+
+// AI prompt types
+export type PromptName = 'enriquecer_produto' | 'corrigir_texto';
+
+// Per-prompt choice saved in a preset and sent to the edge function
+export interface PromptOverride {
+  // Pinned version; the current one when missing
+  version?: number;
+  // Replaces the system prompt of that version
+  system?: string;
+}
+
+export type PromptSettings = Partial<Record<PromptName, PromptOverride>>;
+
+// Enrichment cache types
+// usar: reuse saved answers; renovar: call the AI and overwrite them; desligado: no cache
+export type EnrichmentCacheMode = 'usar' | 'renovar' | 'desligado';
+
+export interface EnrichmentCacheStats {
+  entries: number;
+  expired: number;
+  // Times saved answers were reused
+  hits: number;
+}
+
+export interface SessionCacheStats {
+  hits: number;
+  misses: number;
+  // 0-1; 0 when nothing was processed
+  hitRate: number;
+}
+
+// Background enrichment job types
+// Options applied to every item of a job
+export interface EnrichmentJobConfig {
+  abbreviations?: Record<string, string>;
+  prompt?: PromptOverride | null;
+  cache?: EnrichmentCacheMode;
+  // Allowed category paths; false lifts the constraint; unset uses the active category tree
+  categorias?: string[] | false;
+}
+
+export type EnrichmentJobAction = 'pausar' | 'retomar' | 'cancelar';
+
+export interface EnrichmentJobProgress {
+  sessionId: string;
+  status: EnrichmentSession['status'];
+  totalItems: number;
+  // Items done, failed ones included; also the worker's cursor
+  itemsProcessed: number;
+  itemsFailed: number;
+  // Consecutive transient errors on the current item
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  // Set while a worker holds the session
+  lockedUntil: string | null;
+  updatedAt: string;
+}
+
+export interface EnrichmentJobItem {
+  itemIndex: number;
+  produtoOriginal: Record<string, unknown>;
+  nomePadronizado: string | null;
+  descricaoEnriquecida: string | null;
+  categoriaInferida: string | null;
+  marcaInferida: string | null;
+  origemInferida: string | null;
+  necessitaRevisao: boolean;
+  razaoRevisao: string | null;
+  tempoProcessamentoMs: number | null;
+  metadata: Record<string, unknown>;
+}
+
+// AI usage types
+// Monthly limits; null means no limit
+export interface AiQuota {
+  calls: number | null;
+  tokens: number | null;
+  costUsd: number | null;
+}
+
+export interface AiUsageBreakdown {
+  functionName: string;
+  provider: string;
+  model: string;
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  // Estimate from list prices; 0 for models without a known price
+  costUsd: number;
+  avgLatencyMs: number;
+}
+
+export interface AiUsageSummary {
+  // First day of the month, UTC
+  month: string;
+  calls: number;
+  failedCalls: number;
+  tokens: number;
+  costUsd: number;
+  byFunction: AiUsageBreakdown[];
+}
@@ -0,0 +1,308 @@
+// =====================================================
+// ULTRACLEAN - Variant Grouping (Parent/Variations)
+// =====================================================
+
+import type { ProductData, VariantGroup, VariantValues } from './types';
+import { isGtinColumn } from './gtin';
+import { normalizeSimilarityText } from './similarity';
+
+export const PARENT_CODE_COLUMN = 'Código Pai';
+
+const COLORS = new Set([
+  'preto', 'preta', 'branco', 'branca', 'azul', 'vermelho', 'vermelha', 'verde',
+  'amarelo', 'amarela', 'rosa', 'pink', 'roxo', 'roxa', 'lilas', 'laranja', 'cinza',
+  'chumbo', 'grafite', 'marrom', 'bege', 'nude', 'caramelo', 'vinho', 'bordo',
+  'dourado', 'dourada', 'prata', 'prateado', 'prateada', 'bronze', 'cobre', 'creme',
+  'marfim', 'turquesa', 'coral', 'salmao', 'mostarda', 'caqui', 'jeans',
+  'transparente', 'colorido', 'colorida', 'multicolor'
+]);
+// Words that qualify a color: "Azul Marinho", "Verde Claro"
+const COLOR_MODIFIERS = new Set([
+  'claro', 'clara', 'escuro', 'escura', 'marinho', 'royal', 'bebe', 'militar',
+  'neon', 'fosco', 'fosca', 'metalico', 'metalica'
+]);
+const SIZES = new Set([
+  'pp', 'p', 'm', 'g', 'gg', 'xg', 'xgg', 'eg', 'egg', 'exg', 'g1', 'g2', 'g3', 'g4', 'unico'
+]);
+const SIZE_LABELS = new Set(['tam', 'tamanho', 'n', 'no', 'num', 'numero']);
+// "Cabo HDMI 2 M", "Café 500 G": a letter after a quantity is its unit, not a size
+const QUANTITY = /^\d+(?:[.,]\d+)?$/;
+const VOLTAGE = /^(?:110|127|220|380)v$|^bivolt$/;
+// Separators and labels left behind once the values are removed
+const CONNECTORS = new Set(['-', '–', '/', '|', ',', 'cor', 'voltagem', ...SIZE_LABELS]);
+
+// Column names a catalog may already use for each attribute
+const ATTRIBUTE_COLUMNS: [string, RegExp][] = [
+  ['Cor', /^cor(es)?$/i],
+  ['Tamanho', /^tam(anho)?$/i],
+  ['Voltagem', /^volt(agem)?$|^tens[aã]o$/i]
+];
+
+const norm = (text: string) => normalizeSimilarityText(text);
+const cleanToken = (token: string) => token.replace(/[.,;:]+$/, '');
+const isWord = (token: string) => /^[\p{L}\d]+$/u.test(token);
+
+const findNameColumn = (columns: string[]) =>
+  columns.find(col => /descri[cç][aã]o|nome/i.test(col));
+
+const findCodeColumn = (columns: string[]) =>
+  columns.find(col => /^(sku|c[oó]digo)$/i.test(col.trim())) ??
+  columns.find(col => /sku|c[oó]digo/i.test(col) && !isGtinColumn(col) && !/pai|ncm|cest/i.test(col));
+
+const findParentCodeColumn = (columns: string[]) =>
+  columns.find(col => /c[oó]digo\s*pai/i.test(col));
+
+/**
+ * Format variation values the way Bling names variations: "Cor:Preta;Tamanho:P"
+ */
+export const formatBlingVariation = (values: VariantValues): string =>
+  Object.entries(values).map(([attr, value]) => `${attr}:${value}`).join(';');
+
+/**
+ * Read "Cor:Preta;Tamanho:P" from the end of a Bling variation name
+ */
+export const parseBlingVariation = (name: string): { base: string; values: VariantValues } => {
+  const match = name.match(/^(.*?)\s*((?:[^\s:;]+:[^;]+;?)+)$/);
+  if (!match) return { base: name.trim(), values: {} };
+
+  const values: VariantValues = {};
+  match[2].split(';').filter(Boolean).forEach(pair => {
+    const [attr, ...rest] = pair.split(':');
+    values[attr.trim()] = rest.join(':').trim();
+  });
+  return { base: match[1].trim(), values };
+};
+
+/**
+ * Split a product name into its base name and the color, size and voltage
+ * words at its end. Values already in Cor/Tamanho/Voltagem columns are
+ * removed from the name too, even when they aren't known words.
+ */
+export const extractVariantValues = (
+  name: string,
+  columnValues: VariantValues = {}
+): { base: string; values: VariantValues } => {
+  const tokens = name.trim().split(/\s+/).filter(Boolean);
+  const values: VariantValues = {};
+  const explicit = Object.entries(columnValues)
+    .map(([attr, value]) => ({ attr, words: norm(value).split(' ').filter(Boolean) }))
+    .filter(e => e.words.length > 0);
+
+  const endsWith = (words: string[]) =>
+    words.length < tokens.length &&
+    words.every((word, i) => norm(tokens[tokens.length - words.length + i]) === word);
+
+  for (;;) {
+    const last = tokens[tokens.length - 1];
+    if (!last || tokens.length === 1) break;
+    const clean = cleanToken(last);
+    const word = norm(clean);
+
+    const column = explicit.find(e => endsWith(e.words));
+    if (column) {
+      tokens.splice(tokens.length - column.words.length);
+      continue;
+    }
+    if (CONNECTORS.has(word) || CONNECTORS.has(clean)) {
+      tokens.pop();
+      continue;
+    }
+    if (!isWord(clean)) break;
+
+    const previous = norm(tokens[tokens.length - 2] ?? '');
+    const isSize = (SIZES.has(word) && !(word.length === 1 && QUANTITY.test(previous)))
+      || (/^\d{1,2}$/.test(word) && SIZE_LABELS.has(previous));
+    if (COLOR_MODIFIERS.has(word) && COLORS.has(previous)) {
+      values.Cor ??= `${cleanToken(tokens[tokens.length - 2])} ${clean}`;
+      tokens.splice(tokens.length - 2);
+    } else if (COLORS.has(word)) {
+      values.Cor ??= clean;
+      tokens.pop();
+    } else if (isSize) {
+      values.Tamanho ??= clean.toUpperCase();
+      tokens.pop();
+    } else if (VOLTAGE.test(word)) {
+      values.Voltagem ??= word === 'bivolt' ? 'Bivolt' : clean.toUpperCase();
+      tokens.pop();
+    } else {
+      break;
+    }
+  }
+
+  const merged: VariantValues = { ...values, ...columnValues };
+  const order = ATTRIBUTE_COLUMNS.map(([attr]) => attr);
+  const sorted = Object.keys(merged).sort((a, b) => order.indexOf(a) - order.indexOf(b));
+  return { base: tokens.join(' '), values: Object.fromEntries(sorted.map(attr => [attr, merged[attr]])) };
+};
+
+/**
+ * Derive the parent code from its variations: their common prefix
+ * ("CAM-PRT-P", "CAM-PRT-M" → "CAM-PRT"), or the first code plus "-PAI"
+ */
+const deriveParentCode = (codes: string[], taken: Set<string>): string => {
+  const filled = codes.filter(Boolean);
+  if (filled.length === 0) return '';
+
+  let prefix = filled[0];
+  filled.forEach(code => {
+    while (!code.startsWith(prefix)) prefix = prefix.slice(0, -1);
+  });
+  prefix = prefix.replace(/[\s\-_./]+$/, '');
+
+  const code = prefix.length >= 3 ? prefix : `${filled[0]}-PAI`;
+  return taken.has(code) ? `${code}-PAI` : code;
+};
+
+/**
+ * Group rows that differ only in color, size or voltage under a parent.
+ * Rows already linked through a "Código Pai" column keep their parent.
+ */
+export const detectVariantGroups = (data: ProductData[], columns: string[]): VariantGroup[] => {
+  const nameColumn = findNameColumn(columns);
+  if (!nameColumn) return [];
+  const codeColumn = findCodeColumn(columns);
+  const parentCodeColumn = findParentCodeColumn(columns);
+  const attributeColumns = ATTRIBUTE_COLUMNS.flatMap(([attr, pattern]) => {
+    const column = columns.find(col => pattern.test(col.trim()));
+    return column ? [[attr, column] as const] : [];
+  });
+
+  const codeOf = (i: number) => (codeColumn ? String(data[i][codeColumn] ?? '').trim() : '');
+  const taken = new Set(data.map((_, i) => codeOf(i)).filter(Boolean));
+  const groups: VariantGroup[] = [];
+  const grouped = new Set<number>();
+
+  // Existing parent/variation structure
+  if (codeColumn && parentCodeColumn) {
+    const rowByCode = new Map(data.map((_, i) => [codeOf(i), i]));
+    const children = new Map<string, number[]>();
+    data.forEach((row, i) => {
+      const parent = String(row[parentCodeColumn] ?? '').trim();
+      if (!parent || !rowByCode.has(parent)) return;
+      if (!children.has(parent)) children.set(parent, []);
+      children.get(parent)!.push(i);
+    });
+
+    children.forEach((rows, parentCode) => {
+      const parentRow = rowByCode.get(parentCode)!;
+      const variations = rows.map(row => ({
+        row,
+        values: parseBlingVariation(String(data[row][nameColumn] ?? '')).values
+      }));
+      groups.push({
+        parentName: String(data[parentRow][nameColumn] ?? '').trim(),
+        parentCode,
+        parentRow,
+        attributes: [...new Set(variations.flatMap(v => Object.keys(v.values)))],
+        variations
+      });
+      [parentRow, ...rows].forEach(i => grouped.add(i));
+    });
+  }
+
+  // Rows whose names only differ in variation words
+  const byBase = new Map<string, { row: number; base: string; values: VariantValues }[]>();
+  data.forEach((row, i) => {
+    if (grouped.has(i)) return;
+    const name = String(row[nameColumn] ?? '').trim();
+    if (!name) return;
+
+    const columnValues: VariantValues = {};
+    attributeColumns.forEach(([attr, column]) => {
+      const value = String(row[column] ?? '').trim();
+      if (value) columnValues[attr] = value;
+    });
+    const { base, values } = extractVariantValues(name, columnValues);
+    const key = norm(base);
+    if (!key) return;
+    if (!byBase.has(key)) byBase.set(key, []);
+    byBase.get(key)!.push({ row: i, base, values });
+  });
+
+  byBase.forEach(entries => {
+    const parent = entries.find(e => Object.keys(e.values).length === 0);
+    // One row per combination; repeated combinations are duplicates, not variations
+    const seen = new Set<string>();
+    const variations = entries.filter(e => {
+      if (e === parent || Object.keys(e.values).length === 0) return false;
+      const combo = norm(formatBlingVariation(e.values));
+      if (seen.has(combo)) return false;
+      seen.add(combo);
+      return true;
+    });
+    if (variations.length < 2) return;
+
+    const parentCode = parent && codeOf(parent.row)
+      ? codeOf(parent.row)
+      : deriveParentCode(variations.map(v => codeOf(v.row)), taken);
+    if (parentCode) taken.add(parentCode);
+
+    groups.push({
+      parentName: (parent ?? variations[0]).base,
+      parentCode,
+      parentRow: parent ? parent.row : null,
+      attributes: [...new Set(variations.flatMap(v => Object.keys(v.values)))],
+      variations: variations.map(({ row, values }) => ({ row, values }))
+    });
+  });
+
+  return groups.sort((a, b) => a.variations[0].row - b.variations[0].row);
+};
+
+/**
+ * Rewrite the dataset in Bling's layout: each parent row followed by its
+ * variations, named "<parent> Cor:Preta;Tamanho:P" and pointing to the
+ * parent through the "Código Pai" column. Groups without a code are skipped.
+ */
+export const applyVariantStructure = (
+  data: ProductData[],
+  columns: string[],
+  groups: VariantGroup[]
+): { data: ProductData[]; columns: string[]; structured: number } => {
+  const nameColumn = findNameColumn(columns);
+  const codeColumn = findCodeColumn(columns);
+  if (!nameColumn || !codeColumn) return { data, columns, structured: 0 };
+
+  const parentCodeColumn = findParentCodeColumn(columns) ?? PARENT_CODE_COLUMN;
+  const nextColumns = columns.includes(parentCodeColumn) ? columns : [...columns, parentCodeColumn];
+  // Per-variation fields that make no sense on the parent
+  const variationOnly = columns.filter(col =>
+    isGtinColumn(col) || /estoque/i.test(col) || ATTRIBUTE_COLUMNS.some(([, pattern]) => pattern.test(col.trim()))
+  );
+
+  const usable = groups.filter(g => g.parentCode);
+  const groupAt = new Map<number, VariantGroup>();
+  const skip = new Set<number>();
+  usable.forEach(group => {
+    const rows = group.variations.map(v => v.row);
+    const first = Math.min(...rows, group.parentRow ?? Infinity);
+    groupAt.set(first, group);
+    rows.forEach(i => skip.add(i));
+    if (group.parentRow !== null) skip.add(group.parentRow);
+  });
+
+  const nextData: ProductData[] = [];
+  data.forEach((row, i) => {
+    const group = groupAt.get(i);
+    if (group) {
+      const parent: ProductData = { ...data[group.parentRow ?? group.variations[0].row] };
+      if (group.parentRow === null) variationOnly.forEach(col => { parent[col] = ''; });
+      parent[nameColumn] = group.parentName;
+      parent[codeColumn] = group.parentCode;
+      parent[parentCodeColumn] = '';
+      nextData.push(parent);
+
+      group.variations.forEach(({ row: child, values }) => {
+        nextData.push({
+          ...data[child],
+          [nameColumn]: `${group.parentName} ${formatBlingVariation(values)}`,
+          [parentCodeColumn]: group.parentCode
+        });
+      });
+      return;
+    }
+    if (!skip.has(i)) nextData.push(row);
+  });
+
+  return { data: nextData, columns: nextColumns, structured: usable.length };
+};
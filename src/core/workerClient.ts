@@ -0,0 +1,245 @@
+// =====================================================
+// ULTRACLEAN - Background Worker Client
+// =====================================================
+
+import type {
+  AbbreviationScopes,
+  ColumnConfig,
+  CsvDialect,
+  CsvPreview,
+  DuplicateOptions,
+  DuplicateResult,
+  ProcessingResult,
+  ProductData,
+  SheetSummary,
+  TransformRule,
+  WorkerProgress,
+  WorkerRequest,
+  WorkerResponse
+} from './types';
+
+export interface WorkerTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+interface PendingTask {
+  resolve: (value: unknown) => void;
+  reject: (reason: Error) => void;
+  onProgress?: (progress: WorkerProgress) => void;
+}
+
+// Omit applied to each member of the request union
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type RequestPayload = DistributiveOmit<WorkerRequest, 'id'>;
+
+// Each task gets its own worker, so cancelling one never touches the others.
+// A worker that opened a workbook or CSV keeps it, and stays alive, until
+// the file is merged or closed; requests naming its token go to it.
+interface TaskWorker {
+  worker: Worker;
+  pending: Map<number, PendingTask>;
+  tokens: Set<string>;
+}
+
+let nextId = 0;
+// Client token -> worker holding the file, and the token inside that worker
+const files = new Map<string, { owner: TaskWorker; token: string }>();
+
+/**
+ * Stop a worker and reject every task still running on it; the files it
+ * held are gone. Heavy tasks are synchronous inside the worker, so
+ * terminating it is the only way to interrupt them.
+ */
+const terminate = (owner: TaskWorker, reason: Error) => {
+  owner.worker.terminate();
+  owner.tokens.forEach(token => files.delete(token));
+  owner.tokens.clear();
+  owner.pending.forEach(task => task.reject(reason));
+  owner.pending.clear();
+};
+
+// Done once nothing runs on it and it holds no file
+const releaseIfIdle = (owner: TaskWorker) => {
+  if (owner.pending.size === 0 && owner.tokens.size === 0) owner.worker.terminate();
+};
+
+const createWorker = (): TaskWorker => {
+  const owner: TaskWorker = {
+    worker: new Worker(new URL('./dataWorker.ts', import.meta.url), { type: 'module' }),
+    pending: new Map(),
+    tokens: new Set()
+  };
+
+  owner.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    const task = owner.pending.get(message.id);
+    if (!task) return;
+
+    if (message.type === 'progress') {
+      task.onProgress?.(message.progress);
+      return;
+    }
+
+    owner.pending.delete(message.id);
+    if (message.type === 'result') {
+      task.resolve(message.result);
+    } else {
+      task.reject(new Error(message.message));
+    }
+    releaseIfIdle(owner);
+  };
+
+  owner.worker.onerror = (event) => {
+    terminate(owner, new Error(event.message || 'Falha no processamento em segundo plano'));
+  };
+
+  return owner;
+};
+
+/**
+ * Error used to reject tasks stopped through cancel()
+ */
+export const isCancelledError = (error: unknown): boolean => {
+  return error instanceof Error && error.name === 'AbortError';
+};
+
+const run = <T>(
+  request: RequestPayload,
+  onProgress?: (progress: WorkerProgress) => void,
+  transfer: Transferable[] = []
+): WorkerTask<T> => {
+  const id = ++nextId;
+  const file = 'token' in request && request.token ? files.get(request.token) : undefined;
+  const clientToken = 'token' in request ? request.token : undefined;
+
+  if (clientToken && !file) {
+    return {
+      promise: Promise.reject(new Error('Arquivo não está mais disponível. Envie o arquivo novamente.')),
+      cancel: () => {}
+    };
+  }
+
+  const owner = file?.owner ?? createWorker();
+  const payload = file ? { ...request, token: file.token } : request;
+  const opens = request.type === 'open' || (request.type === 'inspectCsv' && !file);
+  const releases = request.type === 'merge' || request.type === 'mergeCsv' || request.type === 'close';
+
+  // Runs before the worker is checked for idleness, so an opened file keeps it alive
+  const settleFile = (result?: unknown) => {
+    if (opens && result) {
+      const token = String(id);
+      files.set(token, { owner, token: (result as { token: string }).token });
+      owner.tokens.add(token);
+      return { ...(result as object), token };
+    }
+    if (releases && clientToken) {
+      files.delete(clientToken);
+      owner.tokens.delete(clientToken);
+    }
+    return result;
+  };
+
+  const promise = new Promise<T>((resolve, reject) => {
+    owner.pending.set(id, {
+      resolve: result => resolve(settleFile(result) as T),
+      reject: reason => {
+        settleFile();
+        reject(reason);
+      },
+      onProgress
+    });
+    owner.worker.postMessage({ ...payload, id } as WorkerRequest, transfer);
+  });
+
+  const cancel = () => {
+    if (!owner.pending.has(id)) return;
+    const error = new Error('Operação cancelada');
+    error.name = 'AbortError';
+    terminate(owner, error);
+  };
+
+  return { promise, cancel };
+};
+
+/**
+ * Read a workbook in the background and list its sheets.
+ * The buffer is transferred to the worker and can't be reused.
+ */
+export const openWorkbookInWorker = (
+  buffer: ArrayBuffer,
+  onProgress?: (progress: WorkerProgress) => void
+): WorkerTask<{ token: string; sheets: SheetSummary[] }> => {
+  return run({ type: 'open', buffer }, onProgress, [buffer]);
+};
+
+/**
+ * Merge sheets of a workbook previously opened with openWorkbookInWorker
+ */
+export const mergeSheetsInWorker = (
+  token: string,
+  sheetNames: string[],
+  filename: string,
+  onProgress?: (progress: WorkerProgress) => void
+): WorkerTask<{ data: ProductData[]; columns: string[] }> => {
+  return run({ type: 'merge', token, sheetNames, filename }, onProgress);
+};
+
+/**
+ * Detect the dialect of a CSV file and build its preview. Pass the buffer
+ * on the first call; later calls reuse the token with a corrected dialect.
+ */
+export const inspectCsvInWorker = (
+  source: { buffer: ArrayBuffer } | { token: string },
+  filename: string,
+  dialect?: CsvDialect,
+  onProgress?: (progress: WorkerProgress) => void
+): WorkerTask<{ token: string; preview: CsvPreview }> => {
+  const transfer = 'buffer' in source ? [source.buffer] : [];
+  return run({ type: 'inspectCsv', ...source, filename, dialect }, onProgress, transfer);
+};
+
+/**
+ * Parse a CSV file previously inspected with inspectCsvInWorker
+ */
+export const mergeCsvInWorker = (
+  token: string,
+  filename: string,
+  dialect: CsvDialect,
+  onProgress?: (progress: WorkerProgress) => void
+): WorkerTask<{ data: ProductData[]; columns: string[] }> => {
+  return run({ type: 'mergeCsv', token, filename, dialect }, onProgress);
+};
+
+/**
+ * Release a workbook or CSV file that won't be merged
+ */
+export const closeWorkbookInWorker = (token: string): void => {
+  if (files.has(token)) run({ type: 'close', token }).promise.catch(() => {});
+};
+
+/**
+ * Run detectDuplicates in the background
+ */
+export const detectDuplicatesInWorker = (
+  data: ProductData[],
+  columnConfig: Record<string, ColumnConfig>,
+  options?: Partial<DuplicateOptions>,
+  onProgress?: (progress: WorkerProgress) => void
+): WorkerTask<DuplicateResult[]> => {
+  return run({ type: 'duplicates', data, columnConfig, options }, onProgress);
+};
+
+/**
+ * Run processData, including transformation rules, in the background
+ */
+export const processDataInWorker = (
+  data: ProductData[],
+  columnConfig: Record<string, ColumnConfig>,
+  abbreviations: Record<string, string>,
+  rules: TransformRule[] = [],
+  abbreviationScopes: AbbreviationScopes = {},
+  onProgress?: (progress: WorkerProgress) => void
+): WorkerTask<ProcessingResult> => {
+  return run({ type: 'process', data, columnConfig, abbreviations, rules, abbreviationScopes }, onProgress);
+};
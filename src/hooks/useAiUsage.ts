@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+import { getAiQuota, getAiUsage } from '@/core';
+import type { AiQuota, AiUsageSummary } from '@/core/types';
+
+/**
+ * The signed-in user's AI usage for a month (see getUsageMonth) and their
+ * monthly quota, both recorded and enforced by the edge functions
+ */
+export function useAiUsage(month: string) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [usage, setUsage] = useState<AiUsageSummary | null>(null);
+  const [quota, setQuota] = useState<AiQuota | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadUsage = useCallback(async () => {
+    if (!user) {
+      setUsage(null);
+      setQuota(null);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [monthUsage, userQuota] = await Promise.all([
+        getAiUsage(user.id, month),
+        getAiQuota(user.id)
+      ]);
+      setUsage(monthUsage);
+      setQuota(userQuota);
+    } catch (err) {
+      console.error('Error loading AI usage:', err);
+      toast({
+        title: 'Erro ao carregar consumo',
+        description: 'Não foi possível carregar o consumo de IA.',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, month, toast]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  return {
+    usage,
+    quota,
+    loading,
+    refresh: loadUsage
+  };
+}
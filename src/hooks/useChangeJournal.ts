@@ -0,0 +1,109 @@
+import { useState, useCallback } from 'react';
+import {
+  applyCellChanges,
+  createJournalEntry,
+  createReplayEntry,
+  createStructureEntry,
+  revertCellChanges,
+  type CellChange,
+  type ChangeSource,
+  type DatasetSnapshot,
+  type JournalEntry,
+  type ProductData,
+} from '@/core';
+
+// Oldest entries are dropped past this many undo steps
+const MAX_ENTRIES = 100;
+// Structural entries hold the whole dataset; only the latest few stay undoable
+const MAX_SNAPSHOTS = 5;
+
+interface JournalState {
+  entries: JournalEntry[];
+  // Entries before this index are applied; the rest can be redone
+  applied: number;
+  // Everything recorded, undone or redone this session, never trimmed
+  audit: JournalEntry[];
+}
+
+interface ReplayResult {
+  data: ProductData[];
+  // Set when the entry changed rows or columns
+  columns?: string[];
+  entry: JournalEntry;
+}
+
+// Undo cannot cross a dropped snapshot, so everything older goes with it
+const trimEntries = (entries: JournalEntry[]): JournalEntry[] => {
+  let kept = entries.slice(-MAX_ENTRIES);
+  while (kept.filter(entry => entry.snapshot).length > MAX_SNAPSHOTS) {
+    kept = kept.slice(kept.findIndex(entry => entry.snapshot) + 1);
+  }
+  return kept;
+};
+
+const withoutSnapshot = ({ snapshot, ...entry }: JournalEntry): JournalEntry => entry;
+
+/**
+ * Undo/redo journal of the working dataset plus its audit log. Each entry
+ * groups the cells changed by one operation; imports and merges are
+ * structural entries that restore the whole dataset on undo.
+ */
+export function useChangeJournal() {
+  const [state, setState] = useState<JournalState>({ entries: [], applied: 0, audit: [] });
+
+  const push = useCallback((entry: JournalEntry) => {
+    setState(prev => {
+      const entries = trimEntries([...prev.entries.slice(0, prev.applied), entry]);
+      return { entries, applied: entries.length, audit: [...prev.audit, withoutSnapshot(entry)] };
+    });
+  }, []);
+
+  const record = useCallback((label: string, source: ChangeSource, changes: CellChange[]) => {
+    if (changes.length === 0) return;
+    push(createJournalEntry(label, source, changes));
+  }, [push]);
+
+  // `removed` holds indices of `before`; `changes` the cells edited in rows that stayed in place
+  const recordStructure = useCallback((
+    label: string,
+    source: ChangeSource,
+    before: DatasetSnapshot,
+    after: DatasetSnapshot,
+    removed: { row: number; mergedInto?: number }[] = [],
+    changes: CellChange[] = []
+  ) => {
+    push(createStructureEntry(label, source, before, after, removed, changes));
+  }, [push]);
+
+  const undo = useCallback((data: ProductData[]): ReplayResult | null => {
+    const entry = state.entries[state.applied - 1];
+    if (!entry) return null;
+    const replay = createReplayEntry(entry, 'undo');
+    setState(prev => ({ ...prev, applied: prev.applied - 1, audit: [...prev.audit, replay] }));
+    return entry.snapshot
+      ? { ...entry.snapshot.before, entry }
+      : { data: revertCellChanges(data, entry.changes), entry };
+  }, [state]);
+
+  const redo = useCallback((data: ProductData[]): ReplayResult | null => {
+    const entry = state.entries[state.applied];
+    if (!entry) return null;
+    const replay = createReplayEntry(entry, 'redo');
+    setState(prev => ({ ...prev, applied: prev.applied + 1, audit: [...prev.audit, replay] }));
+    return entry.snapshot
+      ? { ...entry.snapshot.after, entry }
+      : { data: applyCellChanges(data, entry.changes), entry };
+  }, [state]);
+
+  return {
+    entries: state.entries,
+    applied: state.applied,
+    audit: state.audit,
+    canUndo: state.applied > 0,
+    canRedo: state.applied < state.entries.length,
+    record,
+    recordStructure,
+    undo,
+    redo
+  };
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { DuplicateDecision } from '@/core/types';
+
+const LOCAL_KEY = 'ultradata_duplicate_decisions';
+
+const readLocal = (): Record<string, DuplicateDecision> => {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Duplicate decisions per row pair. Stored in the cloud when logged in,
+ * otherwise in this browser.
+ */
+export function useDuplicateDecisions() {
+  const { user } = useAuth();
+  const [decisions, setDecisions] = useState<Record<string, DuplicateDecision>>({});
+
+  const loadDecisions = useCallback(async () => {
+    if (!user) {
+      setDecisions(readLocal());
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('duplicate_decisions')
+      .select('pair_key, decision')
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error loading duplicate decisions:', error);
+      return;
+    }
+    setDecisions(Object.fromEntries((data || []).map(d => [d.pair_key, d.decision as DuplicateDecision])));
+  }, [user]);
+
+  useEffect(() => {
+    loadDecisions();
+  }, [loadDecisions]);
+
+  const saveDecisions = useCallback(async (
+    entries: { pairKey: string; decision: DuplicateDecision }[]
+  ): Promise<boolean> => {
+    if (entries.length === 0) return true;
+    const next = { ...decisions, ...Object.fromEntries(entries.map(e => [e.pairKey, e.decision])) };
+
+    if (!user) {
+      localStorage.setItem(LOCAL_KEY, JSON.stringify(next));
+      setDecisions(next);
+      return true;
+    }
+
+    const { error } = await supabase
+      .from('duplicate_decisions')
+      .upsert(
+        entries.map(e => ({ user_id: user.id, pair_key: e.pairKey, decision: e.decision })),
+        { onConflict: 'user_id,pair_key' }
+      );
+
+    if (error) {
+      console.error('Error saving duplicate decisions:', error);
+      return false;
+    }
+    setDecisions(next);
+    return true;
+  }, [user, decisions]);
+
+  // Pairs the user confirmed are different products
+  const notDuplicateKeys = useMemo(() => new Set(
+    Object.entries(decisions).filter(([, d]) => d === 'not_duplicate').map(([key]) => key)
+  ), [decisions]);
+
+  return {
+    decisions,
+    notDuplicateKeys,
+    saveDecisions,
+    refreshDecisions: loadDecisions
+  };
+}
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+import type { EnrichmentCacheStats } from '@/core/types';
+
+const EMPTY_STATS: EnrichmentCacheStats = { entries: 0, expired: 0, hits: 0 };
+
+/**
+ * The user's persistent enrichment cache, filled by enriquecer-produto.
+ * Answers are reused until they expire or the prompt version or model changes.
+ */
+export function useEnrichmentCache() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [stats, setStats] = useState<EnrichmentCacheStats>(EMPTY_STATS);
+  const [clearing, setClearing] = useState(false);
+
+  const loadStats = useCallback(async () => {
+    if (!user) {
+      setStats(EMPTY_STATS);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('enrichment_cache_stats')
+      .select('entries, expired, hits')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading enrichment cache stats:', error);
+      return;
+    }
+
+    setStats({
+      entries: data?.entries ?? 0,
+      expired: data?.expired ?? 0,
+      hits: data?.hits ?? 0
+    });
+  }, [user]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  // Drop expired answers, or every answer so the next run asks the AI again
+  const clearCache = useCallback(async (scope: 'expired' | 'all'): Promise<boolean> => {
+    if (!user) return false;
+
+    setClearing(true);
+    let query = supabase.from('enrichment_cache').delete().eq('user_id', user.id);
+    if (scope === 'expired') query = query.lte('expires_at', new Date().toISOString());
+    const { error } = await query;
+    setClearing(false);
+
+    if (error) {
+      console.error('Error clearing enrichment cache:', error);
+      toast({
+        title: 'Erro ao limpar cache',
+        description: 'Não foi possível remover as respostas salvas.',
+        variant: 'destructive'
+      });
+      return false;
+    }
+
+    toast({
+      title: 'Cache limpo',
+      description: scope === 'all'
+        ? 'Os próximos produtos serão enriquecidos de novo pela IA.'
+        : 'Respostas vencidas removidas.'
+    });
+    await loadStats();
+    return true;
+  }, [user, loadStats, toast]);
+
+  return {
+    stats,
+    clearing,
+    clearCache,
+    refreshStats: loadStats
+  };
+}
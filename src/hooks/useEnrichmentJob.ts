@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useToast } from './use-toast';
+import {
+  controlEnrichmentJob,
+  getEnrichmentJob,
+  isEnrichmentJobStalled,
+  kickEnrichmentJob,
+  submitEnrichmentJob
+} from '@/core';
+import type { EnrichmentJobAction, EnrichmentJobConfig, EnrichmentJobProgress } from '@/core/types';
+
+const POLL_PROCESSING_MS = 2000;
+// A paused job only changes when someone resumes it, possibly on another device
+const POLL_PAUSED_MS = 10000;
+// Minimum gap between requests to restart a stalled job
+const KICK_INTERVAL_MS = 30000;
+
+const CONTROL_ERRORS: Record<EnrichmentJobAction, string> = {
+  pausar: 'Erro ao pausar',
+  retomar: 'Erro ao retomar',
+  cancelar: 'Erro ao cancelar'
+};
+
+/**
+ * Progress and controls of a background enrichment job (enriquecer-lote).
+ * Polls the session while the job runs or is paused, and restarts the worker
+ * when a running job has been left without one.
+ */
+export function useEnrichmentJob(sessionId: string | null) {
+  const { toast } = useToast();
+  const [job, setJob] = useState<EnrichmentJobProgress | null>(null);
+  const [busy, setBusy] = useState(false);
+  const lastKickRef = useRef(0);
+
+  const refresh = useCallback(async (): Promise<EnrichmentJobProgress | null> => {
+    if (!sessionId) {
+      setJob(null);
+      return null;
+    }
+
+    const next = await getEnrichmentJob(sessionId);
+    setJob(next);
+
+    if (next && isEnrichmentJobStalled(next) && Date.now() - lastKickRef.current > KICK_INTERVAL_MS) {
+      lastKickRef.current = Date.now();
+      kickEnrichmentJob(sessionId).catch(err => console.error('Error restarting enrichment job:', err));
+    }
+    return next;
+  }, [sessionId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const status = job?.status;
+  useEffect(() => {
+    if (status !== 'processing' && status !== 'paused') return;
+    const timer = setInterval(refresh, status === 'processing' ? POLL_PROCESSING_MS : POLL_PAUSED_MS);
+    return () => clearInterval(timer);
+  }, [status, refresh]);
+
+  // Returns the job's session id, or null when the worker refused it
+  const submit = useCallback(async (
+    items: Record<string, unknown>[],
+    config: EnrichmentJobConfig,
+    options: { sessionId?: string | null; filename?: string } = {}
+  ): Promise<string | null> => {
+    setBusy(true);
+    try {
+      const id = await submitEnrichmentJob(items, config, options);
+      if (id === sessionId) await refresh();
+      toast({
+        title: 'Processamento em segundo plano',
+        description: `${items.length} produtos enviados. Você pode fechar esta aba e acompanhar de qualquer dispositivo.`
+      });
+      return id;
+    } catch (err) {
+      console.error('Error submitting enrichment job:', err);
+      toast({
+        title: 'Erro ao iniciar processamento',
+        description: (err as Error).message,
+        variant: 'destructive'
+      });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }, [sessionId, refresh, toast]);
+
+  const control = useCallback(async (action: EnrichmentJobAction): Promise<boolean> => {
+    if (!sessionId) return false;
+
+    setBusy(true);
+    try {
+      await controlEnrichmentJob(sessionId, action);
+      await refresh();
+      return true;
+    } catch (err) {
+      console.error(`Error on enrichment job action ${action}:`, err);
+      toast({
+        title: CONTROL_ERRORS[action],
+        description: (err as Error).message,
+        variant: 'destructive'
+      });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }, [sessionId, refresh, toast]);
+
+  return {
+    job,
+    busy,
+    submit,
+    pause: () => control('pausar'),
+    resume: () => control('retomar'),
+    cancel: () => control('cancelar'),
+    refresh
+  };
+}
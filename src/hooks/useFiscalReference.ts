@@ -0,0 +1,54 @@
+import { useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { FiscalReference } from '@/core/types';
+
+// Codes per request; keeps the `in` filter well under the URL size limit
+const CHUNK_SIZE = 300;
+
+/**
+ * Loads from ncm_cache the NCMs a sheet uses and their validity. Gives null when logged out or
+ * when the cache was never synced, so only formats get checked.
+ */
+export function useFiscalReference() {
+  const { user } = useAuth();
+
+  const loadReference = useCallback(async (
+    codes: { ncm: string[] }
+  ): Promise<FiscalReference | null> => {
+    if (!user) return null;
+
+    const { count, error: countError } = await supabase
+      .from('ncm_cache')
+      .select('codigo', { count: 'exact', head: true })
+      .eq('tipo', 'ncm');
+
+    if (countError || !count) {
+      if (countError) console.error('Error checking NCM cache:', countError);
+      return null;
+    }
+
+    const reference: FiscalReference = { ncm: new Map() };
+
+    for (let i = 0; i < codes.ncm.length; i += CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from('ncm_cache')
+        .select('codigo, data_inicio, data_fim')
+        .eq('tipo', 'ncm')
+        .in('codigo', codes.ncm.slice(i, i + CHUNK_SIZE));
+
+      if (error) {
+        console.error('Error loading NCM cache:', error);
+        return null;
+      }
+
+      (data || []).forEach(entry => {
+        reference.ncm.set(entry.codigo, { start: entry.data_inicio, end: entry.data_fim });
+      });
+    }
+
+    return reference;
+  }, [user]);
+
+  return { loadReference };
+}
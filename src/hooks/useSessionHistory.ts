@@ -8,7 +8,7 @@ export interface SessionData {
   originalFilename: string;
   totalItems: number;
   itemsProcessed: number;
-  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
   createdAt: string;
   updatedAt: string;
   metadata: {
@@ -20,6 +20,10 @@ export interface SessionData {
   };
 }
 
+// job_items (rows of a background job) is left out of the listing
+const SESSION_COLUMNS =
+  'id, user_id, original_filename, total_items, items_processed, status, metadata, created_at, updated_at';
+
 export const useSessionHistory = (userId: string | undefined) => {
   const [sessions, setSessions] = useState<SessionData[]>([]);
   const [loading, setLoading] = useState(true);
@@ -37,7 +41,7 @@ export const useSessionHistory = (userId: string | undefined) => {
     try {
       const { data, error } = await supabase
         .from('product_enrichment_sessions')
-        .select('*')
+        .select(SESSION_COLUMNS)
         .eq('user_id', userId)
         .order('updated_at', { ascending: false })
         .limit(20);
@@ -197,7 +201,7 @@ export const useSessionHistory = (userId: string | undefined) => {
     try {
       const { data, error } = await supabase
         .from('product_enrichment_sessions')
-        .select('*')
+        .select(SESSION_COLUMNS)
         .eq('id', sessionId)
         .maybeSingle();
 
@@ -3,6 +3,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { useToast } from './use-toast';
 import type { ColumnConfig } from '@/utils/dataProcessors';
+import type { PromptSettings, SupplierMapping, TitleTemplate, TransformRule } from '@/core/types';
 import type { Json } from '@/integrations/supabase/types';
 
 export interface UserPreset {
@@ -10,14 +11,25 @@ export interface UserPreset {
   name: string;
   abbreviations: Record<string, string>;
   columnConfig: Record<string, ColumnConfig>;
+  transformRules: TransformRule[];
+  titleTemplates: TitleTemplate[];
+  promptSettings: PromptSettings;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface SupplierMappingPreset {
+  id: string;
+  supplierName: string;
+  mapping: SupplierMapping;
+  updatedAt: string;
+}
+
 export function useUserPresets() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [presets, setPresets] = useState<UserPreset[]>([]);
+  const [supplierMappings, setSupplierMappings] = useState<SupplierMappingPreset[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
 
@@ -25,6 +37,7 @@ export function useUserPresets() {
   const loadPresets = useCallback(async () => {
     if (!user) {
       setPresets([]);
+      setSupplierMappings([]);
       return;
     }
 
@@ -43,11 +56,25 @@ export function useUserPresets() {
         variant: 'destructive'
       });
     } else if (data) {
-      setPresets(data.map(p => ({
+      // Supplier column mappings live in the same table, flagged by supplier_name
+      setSupplierMappings(data.filter(p => p.supplier_name).map(p => ({
+        id: p.id,
+        supplierName: p.supplier_name as string,
+        mapping: {
+          headers: [],
+          mapping: {},
+          ...(p.column_mapping as unknown as Partial<SupplierMapping>)
+        },
+        updatedAt: p.updated_at
+      })));
+      setPresets(data.filter(p => !p.supplier_name).map(p => ({
         id: p.id,
         name: p.name,
         abbreviations: (p.abbreviations as unknown as Record<string, string>) || {},
         columnConfig: (p.column_config as unknown as Record<string, ColumnConfig>) || {},
+        transformRules: (p.transform_rules as unknown as TransformRule[]) || [],
+        titleTemplates: (p.title_templates as unknown as TitleTemplate[]) || [],
+        promptSettings: (p.prompt_settings as unknown as PromptSettings) || {},
         createdAt: p.created_at,
         updatedAt: p.updated_at
       })));
@@ -64,7 +91,11 @@ export function useUserPresets() {
   const savePreset = useCallback(async (
     name: string,
     abbreviations: Record<string, string>,
-    columnConfig: Record<string, ColumnConfig>
+    columnConfig: Record<string, ColumnConfig>,
+    transformRules: TransformRule[] = [],
+    titleTemplates: TitleTemplate[] = [],
+    // Left as saved when omitted, so saving rules or templates keeps the prompt choice
+    promptSettings?: PromptSettings
   ): Promise<boolean> => {
     if (!user) {
       toast({
@@ -87,7 +118,10 @@ export function useUserPresets() {
         .from('user_presets')
         .update({
           abbreviations: abbreviations as unknown as Json,
-          column_config: columnConfig as unknown as Json
+          column_config: columnConfig as unknown as Json,
+          transform_rules: transformRules as unknown as Json,
+          title_templates: titleTemplates as unknown as Json,
+          ...(promptSettings ? { prompt_settings: promptSettings as unknown as Json } : {})
         })
         .eq('id', existing.id);
       error = result.error;
@@ -99,7 +133,10 @@ export function useUserPresets() {
           user_id: user.id,
           name,
           abbreviations: abbreviations as unknown as Json,
-          column_config: columnConfig as unknown as Json
+          column_config: columnConfig as unknown as Json,
+          transform_rules: transformRules as unknown as Json,
+          title_templates: titleTemplates as unknown as Json,
+          prompt_settings: (promptSettings ?? {}) as unknown as Json
         }]);
       error = result.error;
     }
@@ -127,6 +164,51 @@ export function useUserPresets() {
     return true;
   }, [user, presets, loadPresets, toast]);
 
+  // Save the confirmed column mapping of a supplier
+  const saveSupplierMapping = useCallback(async (
+    supplierName: string,
+    mapping: SupplierMapping
+  ): Promise<boolean> => {
+    if (!user) {
+      toast({
+        title: 'Faça login',
+        description: 'Você precisa estar logado para salvar mapeamentos na nuvem.',
+        variant: 'destructive'
+      });
+      return false;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('user_presets')
+      .upsert([{
+        user_id: user.id,
+        name: `Fornecedor: ${supplierName}`,
+        supplier_name: supplierName,
+        column_mapping: mapping as unknown as Json
+      }], { onConflict: 'user_id,name' });
+
+    if (error) {
+      console.error('Error saving supplier mapping:', error);
+      toast({
+        title: 'Erro ao salvar',
+        description: 'Não foi possível salvar o mapeamento do fornecedor.',
+        variant: 'destructive'
+      });
+      setSaving(false);
+      return false;
+    }
+
+    toast({
+      title: 'Mapeamento salvo',
+      description: `Os próximos arquivos de "${supplierName}" serão mapeados automaticamente.`
+    });
+
+    await loadPresets();
+    setSaving(false);
+    return true;
+  }, [user, loadPresets, toast]);
+
   // Delete a preset
   const deletePreset = useCallback(async (presetId: string): Promise<boolean> => {
     if (!user) return false;
@@ -159,9 +241,11 @@ export function useUserPresets() {
 
   return {
     presets,
+    supplierMappings,
     loading,
     saving,
     savePreset,
+    saveSupplierMapping,
     deletePreset,
     refreshPresets: loadPresets
   };
@@ -0,0 +1,41 @@
+import { useSyncExternalStore } from 'react';
+import type { ProductData } from '@/core';
+
+export interface WorkingDataset {
+  data: ProductData[];
+  columns: string[];
+}
+
+// Rows sent from /diagnostico to /ultradata, shown alone and selected
+export interface DiagnosticSelection {
+  label: string;
+  rows: number[];
+  // Row count when the selection was made; a different count makes it stale
+  total: number;
+}
+
+// Kept outside React so the sheet being edited survives route changes
+let current: WorkingDataset = { data: [], columns: [] };
+const listeners = new Set<() => void>();
+
+export const getWorkingDataset = (): WorkingDataset => current;
+
+export const setWorkingDataset = (data: ProductData[], columns: string[]) => {
+  if (data === current.data && columns === current.columns) return;
+  current = { data, columns };
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * The dataset open on /ultradata, for pages that analyse it
+ */
+export function useWorkingDataset(): WorkingDataset {
+  return useSyncExternalStore(subscribe, getWorkingDataset);
+}
@@ -14,6 +14,92 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_usage_ledger: {
+        Row: {
+          completion_tokens: number
+          created_at: string
+          error: string | null
+          estimated_cost_usd: number | null
+          function_name: string
+          id: string
+          latency_ms: number
+          model: string
+          prompt_tokens: number
+          provider: string
+          session_id: string | null
+          success: boolean
+          user_id: string | null
+        }
+        Insert: {
+          completion_tokens?: number
+          created_at?: string
+          error?: string | null
+          estimated_cost_usd?: number | null
+          function_name: string
+          id?: string
+          latency_ms: number
+          model: string
+          prompt_tokens?: number
+          provider: string
+          session_id?: string | null
+          success: boolean
+          user_id?: string | null
+        }
+        Update: {
+          completion_tokens?: number
+          created_at?: string
+          error?: string | null
+          estimated_cost_usd?: number | null
+          function_name?: string
+          id?: string
+          latency_ms?: number
+          model?: string
+          prompt_tokens?: number
+          provider?: string
+          session_id?: string | null
+          success?: boolean
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_ledger_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "product_enrichment_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_usage_quotas: {
+        Row: {
+          created_at: string
+          id: string
+          monthly_calls: number | null
+          monthly_cost_usd: number | null
+          monthly_tokens: number | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          monthly_calls?: number | null
+          monthly_cost_usd?: number | null
+          monthly_tokens?: number | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          monthly_calls?: number | null
+          monthly_cost_usd?: number | null
+          monthly_tokens?: number | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       bling_connections: {
         Row: {
           access_token: string
@@ -86,6 +172,63 @@ export type Database = {
         }
         Relationships: []
       }
+      category_proposals: {
+        Row: {
+          category_tree_id: string | null
+          created_at: string
+          id: string
+          last_session_id: string | null
+          normalized_path: string
+          occurrences: number
+          proposed_path: string
+          sample_product: Json | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category_tree_id?: string | null
+          created_at?: string
+          id?: string
+          last_session_id?: string | null
+          normalized_path: string
+          occurrences?: number
+          proposed_path: string
+          sample_product?: Json | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category_tree_id?: string | null
+          created_at?: string
+          id?: string
+          last_session_id?: string | null
+          normalized_path?: string
+          occurrences?: number
+          proposed_path?: string
+          sample_product?: Json | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_proposals_category_tree_id_fkey"
+            columns: ["category_tree_id"]
+            isOneToOne: false
+            referencedRelation: "category_trees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "category_proposals_last_session_id_fkey"
+            columns: ["last_session_id"]
+            isOneToOne: false
+            referencedRelation: "product_enrichment_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       category_trees: {
         Row: {
           categories: Json
@@ -116,6 +259,75 @@ export type Database = {
         }
         Relationships: []
       }
+      duplicate_decisions: {
+        Row: {
+          created_at: string
+          decision: string
+          id: string
+          pair_key: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          decision: string
+          id?: string
+          pair_key: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          decision?: string
+          id?: string
+          pair_key?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      enrichment_cache: {
+        Row: {
+          created_at: string
+          expires_at: string
+          fingerprint: string
+          hits: number
+          id: string
+          last_hit_at: string | null
+          modelo_ia: string
+          prompt_versao: number
+          resposta: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          fingerprint: string
+          hits?: number
+          id?: string
+          last_hit_at?: string | null
+          modelo_ia: string
+          prompt_versao: number
+          resposta: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          fingerprint?: string
+          hits?: number
+          id?: string
+          last_hit_at?: string | null
+          modelo_ia?: string
+          prompt_versao?: number
+          resposta?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       generated_tags: {
         Row: {
           ai_model: string | null
@@ -177,6 +389,8 @@ export type Database = {
           aliquota_ipi: number | null
           codigo: string
           created_at: string
+          data_fim: string | null
+          data_inicio: string | null
           descricao: string
           id: string
           metadata: Json | null
@@ -190,6 +404,8 @@ export type Database = {
           aliquota_ipi?: number | null
           codigo: string
           created_at?: string
+          data_fim?: string | null
+          data_inicio?: string | null
           descricao: string
           id?: string
           metadata?: Json | null
@@ -203,6 +419,8 @@ export type Database = {
           aliquota_ipi?: number | null
           codigo?: string
           created_at?: string
+          data_fim?: string | null
+          data_inicio?: string | null
           descricao?: string
           id?: string
           metadata?: Json | null
@@ -321,7 +539,14 @@ export type Database = {
           duplicates_found: number
           id: string
           images_added: number
+          items_failed: number
           items_processed: number
+          job_attempts: number
+          job_config: Json
+          job_items: Json | null
+          job_last_error: string | null
+          job_locked_until: string | null
+          job_next_attempt_at: string | null
           metadata: Json | null
           original_filename: string
           status: string
@@ -335,7 +560,14 @@ export type Database = {
           duplicates_found?: number
           id?: string
           images_added?: number
+          items_failed?: number
           items_processed?: number
+          job_attempts?: number
+          job_config?: Json
+          job_items?: Json | null
+          job_last_error?: string | null
+          job_locked_until?: string | null
+          job_next_attempt_at?: string | null
           metadata?: Json | null
           original_filename: string
           status?: string
@@ -349,7 +581,14 @@ export type Database = {
           duplicates_found?: number
           id?: string
           images_added?: number
+          items_failed?: number
           items_processed?: number
+          job_attempts?: number
+          job_config?: Json
+          job_items?: Json | null
+          job_last_error?: string | null
+          job_locked_until?: string | null
+          job_next_attempt_at?: string | null
           metadata?: Json | null
           original_filename?: string
           status?: string
@@ -396,6 +635,7 @@ export type Database = {
           created_at: string
           descricao_enriquecida: string | null
           id: string
+          item_index: number | null
           marca_inferida: string | null
           metadata: Json | null
           modelo_ia: string | null
@@ -416,6 +656,7 @@ export type Database = {
           created_at?: string
           descricao_enriquecida?: string | null
           id?: string
+          item_index?: number | null
           marca_inferida?: string | null
           metadata?: Json | null
           modelo_ia?: string | null
@@ -436,6 +677,7 @@ export type Database = {
           created_at?: string
           descricao_enriquecida?: string | null
           id?: string
+          item_index?: number | null
           marca_inferida?: string | null
           metadata?: Json | null
           modelo_ia?: string | null
@@ -519,27 +761,42 @@ export type Database = {
         Row: {
           abbreviations: Json
           column_config: Json
+          column_mapping: Json
           created_at: string
           id: string
           name: string
+          prompt_settings: Json
+          supplier_name: string | null
+          title_templates: Json
+          transform_rules: Json
           updated_at: string
           user_id: string
         }
         Insert: {
           abbreviations?: Json
           column_config?: Json
+          column_mapping?: Json
           created_at?: string
           id?: string
           name: string
+          prompt_settings?: Json
+          supplier_name?: string | null
+          title_templates?: Json
+          transform_rules?: Json
           updated_at?: string
           user_id: string
         }
         Update: {
           abbreviations?: Json
           column_config?: Json
+          column_mapping?: Json
           created_at?: string
           id?: string
           name?: string
+          prompt_settings?: Json
+          supplier_name?: string | null
+          title_templates?: Json
+          transform_rules?: Json
           updated_at?: string
           user_id?: string
         }
@@ -547,7 +804,40 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      ai_usage_monthly: {
+        Row: {
+          avg_latency_ms: number | null
+          calls: number | null
+          completion_tokens: number | null
+          estimated_cost_usd: number | null
+          failed_calls: number | null
+          function_name: string | null
+          model: string | null
+          month: string | null
+          prompt_tokens: number | null
+          provider: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      enrichment_cache_stats: {
+        Row: {
+          entries: number | null
+          expired: number | null
+          hits: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      enrichment_cache_session_stats: {
+        Row: {
+          cache_hits: number | null
+          cache_misses: number | null
+          session_id: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
       buscar_ncm: {
@@ -559,6 +849,17 @@ export type Database = {
           tipo: string
         }[]
       }
+      record_category_proposal: {
+        Args: {
+          p_category_tree_id: string
+          p_normalized_path: string
+          p_proposed_path: string
+          p_sample_product: Json
+          p_session_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
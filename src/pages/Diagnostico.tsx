@@ -0,0 +1,260 @@
+import { useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Activity, FileSpreadsheet } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useWorkingDataset, type DiagnosticSelection } from '@/hooks/useWorkingDataset';
+import { DIAGNOSTIC_CHECK_LABELS, diagnoseCatalog, scoreDistribution, type DiagnosticCheck } from '@/core';
+
+const distributionConfig = {
+  products: { label: 'Produtos', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const fillRateConfig = {
+  fillRate: { label: 'Preenchimento (%)', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'text-green-600' : score >= 50 ? 'text-yellow-600' : 'text-destructive';
+
+const Diagnostico = () => {
+  const navigate = useNavigate();
+  const { data, columns } = useWorkingDataset();
+
+  const diagnostics = useMemo(() => diagnoseCatalog(data, columns), [data, columns]);
+  const distribution = useMemo(
+    () => scoreDistribution(diagnostics.scores).map(b => ({ ...b, products: b.rows.length })),
+    [diagnostics]
+  );
+  const fillRates = useMemo(
+    () => diagnostics.columns.map(c => ({ column: c.column, fillRate: Math.round(c.fillRate) })),
+    [diagnostics]
+  );
+
+  // Open the rows on /ultradata, filtered and selected
+  const openRows = (label: string, rows: number[]) => {
+    if (rows.length === 0) return;
+    const diagnostic: DiagnosticSelection = { label, rows, total: data.length };
+    navigate('/ultradata', { state: { diagnostic } });
+  };
+
+  const emptyRows = (column: string) =>
+    data.reduce<number[]>((rows, row, index) => {
+      const value = row[column];
+      if (value === null || value === undefined || String(value).trim() === '') rows.push(index);
+      return rows;
+    }, []);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-card border-b border-border sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-3">
+              <Link to="/ultradata">
+                <Button variant="ghost" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Voltar
+                </Button>
+              </Link>
+              <div className="p-2 bg-primary/10 rounded-lg">
+                <Activity className="h-6 w-6 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-foreground">
+                  Diagnóstico do Catálogo
+                </h1>
+                <p className="text-xs text-muted-foreground hidden sm:block">
+                  Qualidade dos produtos e preenchimento das colunas
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8 space-y-6">
+        {data.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16">
+              <FileSpreadsheet className="h-16 w-16 text-muted-foreground/50 mb-4" />
+              <h2 className="text-xl font-semibold text-foreground mb-2">
+                Nenhuma planilha carregada
+              </h2>
+              <p className="text-muted-foreground text-center mb-6 max-w-md">
+                Importe uma planilha ou carregue produtos do Bling para ver o diagnóstico.
+              </p>
+              <Link to="/ultradata">
+                <Button>Ir para o UltraData</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Score cards */}
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Nota média</CardDescription>
+                  <CardTitle className={`text-3xl ${scoreColor(diagnostics.averageScore)}`}>
+                    {diagnostics.averageScore}
+                  </CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Produtos</CardDescription>
+                  <CardTitle className="text-3xl">{data.length}</CardTitle>
+                </CardHeader>
+              </Card>
+              {(Object.keys(DIAGNOSTIC_CHECK_LABELS) as DiagnosticCheck[]).map(check => {
+                const rows = diagnostics.failing[check];
+                return (
+                  <Card
+                    key={check}
+                    className={rows.length > 0 ? 'cursor-pointer hover:border-primary transition-colors' : ''}
+                    onClick={() => openRows(`Sem ${DIAGNOSTIC_CHECK_LABELS[check].toLowerCase()}`, rows)}
+                  >
+                    <CardHeader className="pb-2">
+                      <CardDescription>{DIAGNOSTIC_CHECK_LABELS[check]}</CardDescription>
+                      <CardTitle className={`text-3xl ${rows.length > 0 ? 'text-destructive' : 'text-green-600'}`}>
+                        {rows.length}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="text-xs text-muted-foreground">
+                      {rows.length > 0 ? 'produtos reprovados' : 'nenhum problema'}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              {/* Score distribution */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Distribuição das notas</CardTitle>
+                  <CardDescription>Clique em uma faixa para abrir os produtos</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={distributionConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={distribution}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="range" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar
+                        dataKey="products"
+                        fill="var(--color-products)"
+                        radius={4}
+                        className="cursor-pointer"
+                        onClick={(_, index) => openRows(`Nota ${distribution[index].range}`, distribution[index].rows)}
+                      />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              {/* Fill rate per column */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Preenchimento por coluna</CardTitle>
+                  <CardDescription>Clique em uma coluna para abrir os produtos com ela vazia</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer
+                    config={fillRateConfig}
+                    className="w-full aspect-auto"
+                    style={{ height: Math.max(256, fillRates.length * 24) }}
+                  >
+                    <BarChart data={fillRates} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" domain={[0, 100]} tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="column" width={140} tickLine={false} axisLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar
+                        dataKey="fillRate"
+                        fill="var(--color-fillRate)"
+                        radius={4}
+                        className="cursor-pointer"
+                        onClick={(_, index) => openRows(`${fillRates[index].column} vazia`, emptyRows(fillRates[index].column))}
+                      />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Column profile */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Colunas</CardTitle>
+                <CardDescription>{columns.length} colunas analisadas</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Coluna</TableHead>
+                      <TableHead className="text-right">Preenchidos</TableHead>
+                      <TableHead className="text-right">Vazios</TableHead>
+                      <TableHead className="text-right">Taxa</TableHead>
+                      <TableHead className="text-right">Únicos</TableHead>
+                      <TableHead>Exemplos</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diagnostics.columns.map(col => (
+                      <TableRow key={col.column}>
+                        <TableCell className="font-medium">{col.column}</TableCell>
+                        <TableCell className="text-right">{col.filled}</TableCell>
+                        <TableCell className="text-right">
+                          {col.empty > 0 ? (
+                            <button
+                              type="button"
+                              className="text-destructive hover:underline"
+                              onClick={() => openRows(`${col.column} vazia`, emptyRows(col.column))}
+                            >
+                              {col.empty}
+                            </button>
+                          ) : (
+                            0
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{Math.round(col.fillRate)}%</TableCell>
+                        <TableCell className="text-right">{col.unique}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1 max-w-md">
+                            {col.examples.map(example => (
+                              <Badge key={example} variant="secondary" className="font-normal max-w-[12rem] truncate">
+                                {example}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Diagnostico;
@@ -8,6 +8,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import AiUsagePanel from '@/components/AiUsagePanel';
 import { 
   ArrowLeft, 
   User, 
@@ -250,6 +251,9 @@ const Profile = () => {
           </CardContent>
         </Card>
 
+        {/* AI Usage Card */}
+        <AiUsagePanel />
+
         {/* Security Card */}
         <Card>
           <CardHeader>
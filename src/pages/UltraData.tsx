@@ -1,31 +1,137 @@
-import { useState, useCallback, useEffect } from 'react';
-import { Link, useSearchParams } from 'react-router-dom';
-import { Database, User, LogOut, Cable, History, Zap, Download, AlertTriangle, Loader2, Edit3 } from 'lucide-react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Database, User, LogOut, Cable, History, Zap, Download, AlertTriangle, Loader2, Edit3, X, Copy, Wand2, Columns3, FileText, GitMerge, Barcode, Layers, ListOrdered, Undo2, Redo2, ScrollText, Ruler, Heading, DollarSign, Activity, ShieldCheck, FileCode } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Toaster } from '@/components/ui/toaster';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { useUserPresets } from '@/hooks/useUserPresets';
+import { useDuplicateDecisions } from '@/hooks/useDuplicateDecisions';
+import { useChangeJournal } from '@/hooks/useChangeJournal';
+import { useFiscalReference } from '@/hooks/useFiscalReference';
+import { getWorkingDataset, setWorkingDataset, type DiagnosticSelection } from '@/hooks/useWorkingDataset';
 import { AuthModal } from '@/components/AuthModal';
 import { SearchBar } from '@/components/dashboard/SearchBar';
 import { TagFilter } from '@/components/dashboard/TagFilter';
-import { ProductTable, type ProductRow } from '@/components/dashboard/ProductTable';
+import { ProductTable, type ProductRow, type VariantRowGroup } from '@/components/dashboard/ProductTable';
 import { ColumnConfigModal } from '@/components/dashboard/ColumnConfigModal';
 import { NcmCorrectionModal } from '@/components/dashboard/NcmCorrectionModal';
+import { SheetPickerModal } from '@/components/dashboard/SheetPickerModal';
+import { CsvPreviewModal } from '@/components/dashboard/CsvPreviewModal';
+import { ColumnMappingModal } from '@/components/dashboard/ColumnMappingModal';
+import { DuplicateSettingsModal } from '@/components/dashboard/DuplicateSettingsModal';
+import { DuplicateResolutionModal } from '@/components/dashboard/DuplicateResolutionModal';
+import { TransformRulesModal } from '@/components/dashboard/TransformRulesModal';
+import { MeasurementsModal } from '@/components/dashboard/MeasurementsModal';
+import { TitleTemplatesModal } from '@/components/dashboard/TitleTemplatesModal';
+import { PricingModal } from '@/components/dashboard/PricingModal';
+import { FiscalValidationModal } from '@/components/dashboard/FiscalValidationModal';
+import { RichDescriptionModal } from '@/components/dashboard/RichDescriptionModal';
+import { Progress } from '@/components/ui/progress';
+import {
+  openWorkbookInWorker,
+  mergeSheetsInWorker,
+  inspectCsvInWorker,
+  mergeCsvInWorker,
+  closeWorkbookInWorker,
+  detectDuplicatesInWorker,
+  processDataInWorker,
+  exportDuplicatesReport,
+  exportToExcel,
+  filterDecidedDuplicates,
+  applyDuplicateResolutions,
+  isGtinColumn,
+  validateGtins,
+  normalizeGtinColumns,
+  GTIN_STATUS_LABELS,
+  detectVariantGroups,
+  applyVariantStructure,
+  createCellChange,
+  applyCellChanges,
+  diffDatasets,
+  journalToRows,
+  proposeMeasurements,
+  applyMeasureProposals,
+  getTitleColumn,
+  renderTitles,
+  applyTitles,
+  getPricingColumns,
+  applyRepricing,
+  DEFAULT_MIN_MARGIN,
+  collectFiscalCodes,
+  createDescriptionTemplate,
+  applyDescriptions,
+  type DescriptionPreview,
+  type DescriptionTemplate,
+  getFiscalColumns,
+  validateFiscal,
+  FISCAL_ERROR_LABELS,
+  type FiscalErrorCode,
+  type FiscalIssue,
+  type PriceChange,
+  type PricingRule,
+  type TitleTemplate,
+  type MeasureProposal,
+  type CellChange,
+  type ChangeSource,
+  type DatasetSnapshot,
+  isCancelledError,
+  isCsvFile,
+  isNfeFile,
+  importNfeFiles,
+  nfeProductsToRows,
+  mergeNfeIntoRows,
+  suggestColumnMappings,
+  findMatchingSupplierMapping,
+  applyColumnMapping,
+  DEFAULT_DUPLICATE_OPTIONS,
+  type ColumnMappingSuggestion,
+  type CsvDialect,
+  type CsvPreview,
+  type DuplicateOptions,
+  type DuplicateResolution,
+  type DuplicateResult,
+  type GtinIssue,
+  type GtinStatus,
+  type JournalEntry,
+  type ProductData,
+  type SheetSummary,
+  type TransformRule,
+  type VariantGroup,
+  type WorkerProgress,
+  type WorkerTask,
+} from '@/core';
+import { applyPresetToColumns, getAbbreviations, getAbbreviationScopes, getMappingTargets } from '@/config';
 import { supabase } from '@/integrations/supabase/client';
-import * as XLSX from 'xlsx';
+
+const describeReplay = (entry: JournalEntry) => entry.structure
+  ? `${entry.label}: ${entry.structure.rowsBefore} → ${entry.structure.rowsAfter} linha(s).`
+  : `${entry.label}: ${entry.changes.length} célula(s).`;
 
 const UltraData = () => {
   const { user, loading: authLoading, signOut } = useAuth();
   const { toast } = useToast();
+  const { presets, supplierMappings, savePreset, saveSupplierMapping } = useUserPresets();
+  const { notDuplicateKeys, saveDecisions } = useDuplicateDecisions();
+  const journal = useChangeJournal();
+  const { record: recordChanges, recordStructure } = journal;
+  const { loadReference } = useFiscalReference();
   const [searchParams] = useSearchParams();
   const connectionId = searchParams.get('connection');
+  const location = useLocation();
+  const navigate = useNavigate();
   const [showAuthModal, setShowAuthModal] = useState(false);
 
-  // Data state
-  const [rawData, setRawData] = useState<ProductRow[]>([]);
-  const [columns, setColumns] = useState<string[]>([]);
-  const [filteredData, setFilteredData] = useState<ProductRow[]>([]);
+  // Data state, restored when coming back from /diagnostico
+  const [rawData, setRawData] = useState<ProductRow[]>(() => getWorkingDataset().data as ProductRow[]);
+  const [columns, setColumns] = useState<string[]>(() => getWorkingDataset().columns);
+  const [filteredData, setFilteredData] = useState<ProductRow[]>(() => getWorkingDataset().data as ProductRow[]);
+  // Bumped when a sheet or the Bling catalog is loaded, so the table goes back to its first page
+  const [datasetId, setDatasetId] = useState(0);
+  const [diagnosticSelection, setDiagnosticSelection] = useState<DiagnosticSelection | null>(
+    () => (location.state as { diagnostic?: DiagnosticSelection } | null)?.diagnostic ?? null
+  );
   const [tags, setTags] = useState<string[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
@@ -48,6 +154,51 @@ const UltraData = () => {
   const [ncmModalOpen, setNcmModalOpen] = useState(false);
   const [ncmModalProduct, setNcmModalProduct] = useState<{ name: string; sku: string; ncm: string; rowIndex: number } | null>(null);
 
+  // Multi-sheet workbook waiting for sheet selection
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ token: string; filename: string; sheets: SheetSummary[] } | null>(null);
+
+  // CSV file waiting for dialect confirmation
+  const [pendingCsv, setPendingCsv] = useState<{ token: string; filename: string; preview: CsvPreview; loading: boolean } | null>(null);
+
+  // Supplier headers waiting for mapping review
+  const [pendingMapping, setPendingMapping] = useState<{ headers: string[]; suggestions: ColumnMappingSuggestion[]; supplier: string } | null>(null);
+
+  // Background worker task (parsing, duplicates, cleanup)
+  const [activeTask, setActiveTask] = useState<{ label: string; progress: WorkerProgress | null; cancel: () => void } | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateResult[]>([]);
+  const [showDuplicateSettings, setShowDuplicateSettings] = useState(false);
+  const [showDuplicateResolution, setShowDuplicateResolution] = useState(false);
+  const [gtinIssues, setGtinIssues] = useState<GtinIssue[]>([]);
+  const [variantGroups, setVariantGroups] = useState<VariantGroup[]>([]);
+  const [showTransformRules, setShowTransformRules] = useState(false);
+  const [measureProposals, setMeasureProposals] = useState<MeasureProposal[] | null>(null);
+  const [transformRules, setTransformRules] = useState<TransformRule[]>(() => {
+    const saved = localStorage.getItem('ultradata_transform_rules');
+    return saved ? JSON.parse(saved) : [];
+  });
+  const [showTitleTemplates, setShowTitleTemplates] = useState(false);
+  const [titleTemplates, setTitleTemplates] = useState<TitleTemplate[]>(() => {
+    const saved = localStorage.getItem('ultradata_title_templates');
+    return saved ? JSON.parse(saved) : [];
+  });
+  const [showPricing, setShowPricing] = useState(false);
+  const [pricing, setPricing] = useState<{ rules: PricingRule[]; minMargin: number }>(() => {
+    const saved = localStorage.getItem('ultradata_pricing');
+    return saved ? JSON.parse(saved) : { rules: [], minMargin: DEFAULT_MIN_MARGIN };
+  });
+  const [showDescriptions, setShowDescriptions] = useState(false);
+  const [savedDescriptionTemplate, setSavedDescriptionTemplate] = useState<DescriptionTemplate | null>(() => {
+    const saved = localStorage.getItem('ultradata_description_template');
+    return saved ? JSON.parse(saved) : null;
+  });
+  // Last fiscal validation, with the rows it ran on so edited rows drop their badges
+  const [fiscal, setFiscal] = useState<{ data: ProductData[]; issues: FiscalIssue[]; checkedReference: boolean } | null>(null);
+  const [showFiscal, setShowFiscal] = useState(false);
+  const [duplicateOptions, setDuplicateOptions] = useState<DuplicateOptions>(() => {
+    const saved = localStorage.getItem('ultradata_duplicate_options');
+    return saved ? { ...DEFAULT_DUPLICATE_OPTIONS, ...JSON.parse(saved) } : DEFAULT_DUPLICATE_OPTIONS;
+  });
+
   // Initialize visible columns from localStorage
   useEffect(() => {
     const saved = localStorage.getItem('ultradata_visible_columns');
@@ -131,8 +282,13 @@ const UltraData = () => {
         setColumns(cols);
         setRawData(rows);
         setFilteredData(rows);
+        setDatasetId(id => id + 1);
         setSelectedRows(new Set());
         setTags([]);
+        setDuplicates([]);
+        setGtinIssues([]);
+        setVariantGroups([]);
+        recordStructure('Carregar produtos do Bling', 'import', getWorkingDataset(), { data: rows as ProductData[], columns: cols });
 
         toast({
           title: '✅ Produtos carregados do Bling',
@@ -147,19 +303,36 @@ const UltraData = () => {
     };
 
     loadBlingProducts();
-  }, [connectionId, user, toast]);
+  }, [connectionId, user, toast, recordStructure]);
+
+  // Share the sheet with /diagnostico
+  useEffect(() => {
+    setWorkingDataset(rawData as ProductData[], columns);
+  }, [rawData, columns]);
+
+  // The diagnostic filter came through history state; drop it so a reload doesn't bring it back
+  useEffect(() => {
+    if ((location.state as { diagnostic?: DiagnosticSelection } | null)?.diagnostic) {
+      navigate(`${location.pathname}${location.search}`, { replace: true, state: null });
+    }
+  }, [location, navigate]);
 
   // Filter data based on tags
   useEffect(() => {
+    // Rows picked on /diagnostico are the base of every filter while the sheet keeps its size
+    const diagnostic = diagnosticSelection && diagnosticSelection.total === rawData.length ? diagnosticSelection : null;
+    const base = diagnostic ? diagnostic.rows.map(i => rawData[i]) : rawData;
+
     if (tags.length === 0) {
-      setFilteredData(rawData);
+      setFilteredData(base);
+      setSelectedRows(diagnostic ? new Set(base.map((_, i) => i)) : new Set());
       return;
     }
 
     const fieldTags = tags.filter(t => ['NCM', 'CEST', 'MARCA', 'CATEGORIA', 'SKU', 'PREÇO', 'ESTOQUE'].includes(t.toUpperCase()));
     const searchTerms = tags.filter(t => !fieldTags.includes(t));
 
-    let result = rawData;
+    let result = base;
 
     if (searchTerms.length > 0) {
       result = result.filter(row => {
@@ -178,41 +351,611 @@ const UltraData = () => {
     }
 
     setFilteredData(result);
+    setSelectedRows(diagnostic ? new Set(result.map((_, i) => i)) : new Set());
+  }, [tags, rawData, columns, diagnosticSelection]);
+
+  // Run a background worker task, tracking its progress for the status panel
+  const runTask = useCallback(async <T,>(label: string, task: WorkerTask<T>): Promise<T | null> => {
+    setActiveTask({ label, progress: null, cancel: task.cancel });
+    try {
+      return await task.promise;
+    } catch (error) {
+      if (!isCancelledError(error)) throw error;
+      toast({ title: 'Operação cancelada', description: label });
+      return null;
+    } finally {
+      setActiveTask(null);
+    }
+  }, [toast]);
+
+  const trackProgress = (progress: WorkerProgress) => {
+    setActiveTask(prev => (prev ? { ...prev, progress } : prev));
+  };
+
+  // Swap in a renamed dataset, carrying the visible-column choice over
+  const replaceColumns = useCallback((result: { data: ProductData[]; columns: string[] }, previous: string[]) => {
+    const renamed = new Map(previous.map((col, i) => [col, result.columns[i]]));
+    const saved = localStorage.getItem('ultradata_visible_columns');
+    if (saved) {
+      const visible = (JSON.parse(saved) as string[]).map(c => renamed.get(c) ?? c);
+      localStorage.setItem('ultradata_visible_columns', JSON.stringify(visible));
+    }
+    setColumns(result.columns);
+    setRawData(result.data as ProductRow[]);
+    setFilteredData(result.data as ProductRow[]);
+  }, []);
+
+  // Replace the working dataset with freshly imported rows
+  const applyImportedData = useCallback((result: { data: ProductData[]; columns: string[] }, sourceInfo = '') => {
+    if (result.data.length === 0) {
+      toast({ title: 'Arquivo vazio', description: 'A planilha não contém dados.', variant: 'destructive' });
+      return;
+    }
+
+    // Known suppliers are mapped straight away; anything else that needs
+    // renaming goes through the mapping wizard
+    const headers = result.columns;
+    const matched = findMatchingSupplierMapping(headers, supplierMappings);
+    const suggestions = suggestColumnMappings(headers, getMappingTargets(), matched?.mapping.mapping);
+    const mapped = matched
+      ? applyColumnMapping(result.data, headers, Object.fromEntries(suggestions.map(s => [s.source, s.target])))
+      : result;
+    const jsonData = mapped.data as ProductRow[];
+    const cols = mapped.columns;
+
+    setColumns(cols);
+    setRawData(jsonData);
+    setFilteredData(jsonData);
+    setDatasetId(id => id + 1);
     setSelectedRows(new Set());
-  }, [tags, rawData, columns]);
+    setTags([]);
+    setDuplicates([]);
+    setGtinIssues([]);
+    setVariantGroups([]);
+    recordStructure('Importar planilha', 'import', getWorkingDataset(), { data: jsonData as ProductData[], columns: cols });
+
+    if (matched) {
+      toast({ title: '✅ Planilha carregada', description: `${jsonData.length} produtos${sourceInfo}, colunas mapeadas para "${matched.supplierName}".` });
+      return;
+    }
+
+    toast({ title: '✅ Planilha carregada', description: `${jsonData.length} produtos e ${cols.length} colunas${sourceInfo}.` });
+    if (suggestions.some(s => s.target && s.reason !== 'exact')) {
+      setPendingMapping({ headers, suggestions, supplier: '' });
+    }
+  }, [toast, supplierMappings, recordStructure]);
+
+  // Open the mapping wizard for the current columns
+  const handleOpenColumnMapping = () => {
+    const matched = findMatchingSupplierMapping(columns, supplierMappings);
+    setPendingMapping({
+      headers: columns,
+      suggestions: suggestColumnMappings(columns, getMappingTargets(), matched?.mapping.mapping),
+      supplier: matched?.supplierName ?? ''
+    });
+  };
+
+  const handleConfirmMapping = async (mapping: Record<string, string | null>, supplier: string | null) => {
+    if (!pendingMapping) return;
+    const { headers } = pendingMapping;
+    setPendingMapping(null);
+
+    const mapped = applyColumnMapping(rawData as ProductData[], headers, mapping);
+    replaceColumns(mapped, headers);
+    recordStructure('Mapear colunas', 'import', { data: rawData as ProductData[], columns }, mapped);
+    const renamedCount = Object.values(mapping).filter(Boolean).length;
+    toast({ title: 'Colunas mapeadas', description: `${renamedCount} colunas associadas ao padrão Bling.` });
+
+    if (supplier) await saveSupplierMapping(supplier, { headers, mapping });
+  };
+
+  // Load the selected sheets of a workbook into the table
+  const loadSheets = useCallback(async (token: string, sheetNames: string[], filename: string) => {
+    const result = await runTask(
+      'Unindo abas da planilha',
+      mergeSheetsInWorker(token, sheetNames, filename, trackProgress)
+    );
+    if (result) applyImportedData(result, sheetNames.length > 1 ? ` de ${sheetNames.length} abas` : '');
+  }, [runTask, applyImportedData]);
+
+  // Import NF-e XML invoices, merging into the current table when there is one
+  const handleNfeUpload = useCallback(async (files: File[]) => {
+    const result = importNfeFiles(await Promise.all(files.map(async f => ({ name: f.name, text: await f.text() }))));
+
+    if (result.errors.length > 0) {
+      toast({
+        title: `${result.errors.length} arquivo(s) ignorado(s)`,
+        description: result.errors.map(e => `${e.file}: ${e.message}`).join('; '),
+        variant: 'destructive'
+      });
+    }
+    if (result.products.length === 0) return;
+
+    const dedupInfo = result.duplicates > 0 ? `, ${result.duplicates} itens repetidos unidos` : '';
+
+    if (rawData.length === 0) {
+      applyImportedData(nfeProductsToRows(result.products), ` de ${result.documents} NF-e${dedupInfo}`);
+      return;
+    }
+
+    const merged = mergeNfeIntoRows(rawData as ProductData[], columns, result.products);
+    setColumns(merged.columns);
+    setRawData(merged.data as ProductRow[]);
+    setFilteredData(merged.data as ProductRow[]);
+    setDuplicates([]);
+    setGtinIssues([]);
+    setVariantGroups([]);
+    // Matched rows keep their position, so their edits diff cell by cell
+    recordStructure(
+      'Importar NF-e',
+      'nfe',
+      { data: rawData as ProductData[], columns },
+      { data: merged.data, columns: merged.columns },
+      [],
+      diffDatasets(rawData as ProductData[], merged.data, merged.columns, 'nfe')
+    );
+    toast({
+      title: '✅ NF-e importada',
+      description: `${merged.created} produtos novos e ${merged.updated} atualizados a partir de ${result.documents} NF-e${dedupInfo}.`
+    });
+  }, [toast, rawData, columns, applyImportedData, recordStructure]);
 
   // Handle file upload
   const handleFileUpload = useCallback(async (file: File) => {
     try {
-      const buffer = await file.arrayBuffer();
-      const workbook = XLSX.read(buffer, { type: 'array' });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      const jsonData = XLSX.utils.sheet_to_json<ProductRow>(worksheet, { defval: '' });
-
-      if (jsonData.length === 0) {
-        toast({ title: 'Arquivo vazio', description: 'A planilha não contém dados.', variant: 'destructive' });
+      // CSV files get dialect detection and a preview before import
+      if (isCsvFile(file.name)) {
+        const inspected = await runTask(
+          `Analisando ${file.name}`,
+          inspectCsvInWorker({ buffer: await file.arrayBuffer() }, file.name, undefined, trackProgress)
+        );
+        if (inspected) setPendingCsv({ token: inspected.token, filename: file.name, preview: inspected.preview, loading: false });
         return;
       }
 
-      const cols = Object.keys(jsonData[0]);
-      setColumns(cols);
-      setRawData(jsonData);
-      setFilteredData(jsonData);
-      setSelectedRows(new Set());
-      setTags([]);
+      const opened = await runTask(
+        `Lendo ${file.name}`,
+        openWorkbookInWorker(await file.arrayBuffer(), trackProgress)
+      );
+      if (!opened) return;
+
+      // Workbooks with several sheets go through the sheet picker first
+      if (opened.sheets.length > 1) {
+        setPendingWorkbook({ token: opened.token, filename: file.name, sheets: opened.sheets });
+        return;
+      }
 
-      toast({ title: '✅ Planilha carregada', description: `${jsonData.length} produtos e ${cols.length} colunas.` });
+      await loadSheets(opened.token, opened.sheets.map(s => s.name), file.name);
     } catch (error) {
       toast({ title: 'Erro ao ler arquivo', description: 'Verifique se o arquivo é uma planilha válida.', variant: 'destructive' });
     }
-  }, [toast]);
+  }, [toast, runTask, loadSheets]);
+
+  const handleConfirmSheets = async (sheetNames: string[]) => {
+    if (!pendingWorkbook) return;
+    const { token, filename } = pendingWorkbook;
+    setPendingWorkbook(null);
+    try {
+      await loadSheets(token, sheetNames, filename);
+    } catch (error) {
+      toast({ title: 'Erro ao ler arquivo', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  // Re-read the CSV preview with a dialect corrected by the user
+  const handleCsvDialectChange = async (dialect: CsvDialect) => {
+    if (!pendingCsv) return;
+    setPendingCsv({ ...pendingCsv, loading: true });
+    try {
+      const { preview } = await inspectCsvInWorker({ token: pendingCsv.token }, pendingCsv.filename, dialect).promise;
+      setPendingCsv(prev => (prev ? { ...prev, preview, loading: false } : prev));
+    } catch (error) {
+      setPendingCsv(prev => (prev ? { ...prev, loading: false } : prev));
+      toast({ title: 'Erro ao ler arquivo', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleConfirmCsv = async () => {
+    if (!pendingCsv) return;
+    const { token, filename, preview } = pendingCsv;
+    setPendingCsv(null);
+    try {
+      const result = await runTask('Importando CSV', mergeCsvInWorker(token, filename, preview.dialect, trackProgress));
+      if (result) applyImportedData(result);
+    } catch (error) {
+      toast({ title: 'Erro ao ler arquivo', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleCancelCsv = () => {
+    if (pendingCsv) closeWorkbookInWorker(pendingCsv.token);
+    setPendingCsv(null);
+  };
+
+  const handleCancelSheets = () => {
+    if (pendingWorkbook) closeWorkbookInWorker(pendingWorkbook.token);
+    setPendingWorkbook(null);
+  };
+
+  // Duplicate detection runs in the background worker
+  const handleDetectDuplicates = async (options: DuplicateOptions) => {
+    setShowDuplicateSettings(false);
+    setDuplicateOptions(options);
+    localStorage.setItem('ultradata_duplicate_options', JSON.stringify(options));
+
+    try {
+      const columnConfig = applyPresetToColumns(columns);
+      const found = await runTask(
+        'Verificando duplicados',
+        detectDuplicatesInWorker(rawData as ProductData[], columnConfig, options, trackProgress)
+      );
+      if (!found) return;
+
+      // Pairs already marked as different products are not flagged again
+      const result = filterDecidedDuplicates(found, rawData as ProductData[], columnConfig, notDuplicateKeys);
+      const hidden = found.length - result.length;
+
+      setDuplicates(result);
+      toast({
+        title: result.length > 0 ? '⚠️ Duplicados encontrados' : '✅ Nenhum duplicado',
+        description: `${result.length} grupo(s) de possíveis duplicados${hidden > 0 ? `, ${hidden} já marcados como não duplicados` : ''}.`,
+      });
+    } catch (error) {
+      toast({ title: 'Erro ao verificar duplicados', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleApplyResolutions = async (resolutions: Record<number, DuplicateResolution>) => {
+    setShowDuplicateResolution(false);
+    const result = applyDuplicateResolutions(rawData as ProductData[], duplicates, resolutions, applyPresetToColumns(columns));
+
+    setRawData(result.data as ProductRow[]);
+    setFilteredData(result.data as ProductRow[]);
+    setSelectedRows(new Set());
+    setDuplicates(result.duplicates);
+    setVariantGroups([]);
+    recordStructure(
+      'Mesclar duplicados',
+      'duplicates',
+      { data: rawData as ProductData[], columns },
+      { data: result.data, columns },
+      result.mergedInto.map(({ row, survivor }) => ({ row, mergedInto: survivor }))
+    );
+    toast({
+      title: '✅ Duplicados resolvidos',
+      description: `${result.merged} grupo(s) mesclado(s), ${result.removed} linha(s) removida(s).` +
+        (result.skipped > 0
+          ? ` ${result.skipped} grupo(s) com linhas já mescladas ficaram pendentes para revisar de novo.`
+          : ''),
+    });
+
+    if (!(await saveDecisions(result.decisions))) {
+      toast({ title: 'Erro ao salvar decisões', description: 'Os mesmos pares podem ser apontados novamente.', variant: 'destructive' });
+    }
+  };
+
+  // Normalize GTIN/EAN columns and flag what can't be fixed
+  const handleValidateGtins = () => {
+    if (!columns.some(isGtinColumn)) {
+      toast({ title: 'Nenhuma coluna de GTIN', description: 'A planilha não tem colunas GTIN, EAN ou Código de Barras.', variant: 'destructive' });
+      return;
+    }
+
+    const { data, fixed } = normalizeGtinColumns(rawData as ProductData[], columns);
+    if (fixed > 0) {
+      recordChanges('Normalizar GTIN', 'gtin', diffDatasets(rawData as ProductData[], data, columns, 'gtin'));
+      setRawData(data as ProductRow[]);
+      setFilteredData(data as ProductRow[]);
+    }
+    const issues = validateGtins(data, columns);
+    setGtinIssues(issues);
+
+    toast({
+      title: issues.length > 0 ? '⚠️ GTINs com problema' : '✅ GTINs válidos',
+      description: `${fixed} código(s) normalizado(s), ${issues.length} sinalizado(s).`,
+    });
+  };
+
+  // Check NCM, CEST, origin and unit; NCMs against ncm_cache when it's available
+  const handleValidateFiscal = async () => {
+    if (Object.keys(getFiscalColumns(columns)).length === 0) {
+      toast({ title: 'Nenhuma coluna fiscal', description: 'A planilha não tem colunas NCM, CEST, Origem ou Unidade.', variant: 'destructive' });
+      return;
+    }
+
+    const data = rawData as ProductData[];
+    // The lookup can't be aborted; cancelling discards its result
+    let cancelled = false;
+    setActiveTask({ label: 'Validando campos fiscais', progress: null, cancel: () => { cancelled = true; setActiveTask(null); } });
+    try {
+      const reference = await loadReference(collectFiscalCodes(data, columns));
+      if (cancelled) return;
+      const issues = validateFiscal(data, columns, reference);
+      setFiscal({ data, issues, checkedReference: reference !== null });
+      setShowFiscal(issues.length > 0);
+      toast({
+        title: issues.length > 0 ? '⚠️ Erros fiscais' : '✅ Campos fiscais válidos',
+        description: `${issues.length} erro(s) em ${new Set(issues.map(i => i.row)).size} produto(s).`,
+      });
+    } catch (error) {
+      toast({ title: 'Erro na validação fiscal', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      if (!cancelled) setActiveTask(null);
+    }
+  };
+
+  const fiscalIssuesByRow = useMemo(() => {
+    const byRow = new Map<ProductRow, FiscalIssue[]>();
+    fiscal?.issues.forEach(issue => {
+      const row = fiscal.data[issue.row] as ProductRow;
+      byRow.set(row, [...(byRow.get(row) ?? []), issue]);
+    });
+    return byRow;
+  }, [fiscal]);
+
+  const fiscalIssueCounts = (fiscal?.issues ?? []).reduce<Partial<Record<FiscalErrorCode, number>>>((acc, issue) => {
+    acc[issue.code] = (acc[issue.code] || 0) + 1;
+    return acc;
+  }, {});
+
+  // Show the products of a fiscal error on their own, selected
+  const handleSelectFiscalRows = (rows: number[], label: string) => {
+    if (!fiscal) return;
+    const current = new Map(rawData.map((row, index) => [row, index]));
+    const indexes = rows
+      .map(row => current.get(fiscal.data[row] as ProductRow))
+      .filter((index): index is number => index !== undefined);
+    setDiagnosticSelection({ label: `Fiscal: ${label}`, rows: indexes, total: rawData.length });
+    setShowFiscal(false);
+  };
+
+  const gtinIssueCounts = gtinIssues.reduce<Partial<Record<GtinStatus, number>>>((acc, issue) => {
+    acc[issue.status] = (acc[issue.status] || 0) + 1;
+    return acc;
+  }, {});
+
+  // Group size/color/voltage variations under a parent product
+  const handleDetectVariants = () => {
+    const groups = detectVariantGroups(rawData as ProductData[], columns);
+    setVariantGroups(groups);
+    toast({
+      title: groups.length > 0 ? '✅ Variações agrupadas' : 'Nenhuma variação encontrada',
+      description: `${groups.length} produto(s) pai com ${groups.reduce((sum, g) => sum + g.variations.length, 0)} variação(ões).`,
+    });
+  };
+
+  // Rewrite the sheet with parent rows and "Código Pai", as Bling imports variations
+  const handleApplyVariants = () => {
+    const result = applyVariantStructure(rawData as ProductData[], columns, variantGroups);
+    if (result.structured === 0) {
+      toast({ title: 'Estrutura não gerada', description: 'É preciso uma coluna de código (SKU ou Código) para ligar as variações ao produto pai.', variant: 'destructive' });
+      return;
+    }
+
+    setColumns(result.columns);
+    setRawData(result.data as ProductRow[]);
+    setFilteredData(result.data as ProductRow[]);
+    setSelectedRows(new Set());
+    setDuplicates([]);
+    setVariantGroups(detectVariantGroups(result.data, result.columns));
+    recordStructure('Estruturar variações', 'variants', { data: rawData as ProductData[], columns }, { data: result.data, columns: result.columns });
+    toast({ title: '✅ Estrutura de variações gerada', description: `${result.structured} produto(s) pai prontos para o Bling.` });
+  };
+
+  const variantRowGroups = useMemo<VariantRowGroup[]>(() => variantGroups.map(group => ({
+    name: group.parentName,
+    attributes: group.attributes,
+    parent: group.parentRow !== null ? rawData[group.parentRow] : undefined,
+    rows: group.variations.map(v => rawData[v.row]).filter(Boolean),
+  })), [variantGroups, rawData]);
+
+  // Journal an operation on the current rows. One that adds columns is
+  // structural, so undoing it takes the columns away again.
+  const recordEdit = (label: string, source: ChangeSource, after: DatasetSnapshot) => {
+    const before = { data: rawData as ProductData[], columns };
+    const changes = diffDatasets(before.data, after.data, after.columns, source);
+    if (after.columns.some(col => !columns.includes(col))) {
+      recordStructure(label, source, before, after, [], changes);
+    } else {
+      recordChanges(label, source, changes);
+    }
+  };
+
+  // Local cleanup (defaults, abbreviations and transformation rules) runs in the background worker
+  const handleProcessData = async () => {
+    try {
+      const result = await runTask(
+        'Aplicando limpeza',
+        processDataInWorker(rawData as ProductData[], applyPresetToColumns(columns), getAbbreviations(), transformRules, getAbbreviationScopes(), trackProgress)
+      );
+      if (!result) return;
+
+      const nextColumns = withRuleColumns(transformRules);
+      recordEdit('Aplicar limpeza', 'cleanup', { data: result.enrichedData, columns: nextColumns });
+      setColumns(nextColumns);
+      setRawData(result.enrichedData as ProductRow[]);
+      toast({
+        title: '✅ Limpeza aplicada',
+        description: `${result.stats.abreviaturasCorrigidas} abreviações corrigidas, ${result.stats.camposPreenchidos} campos preenchidos, ${result.stats.regrasAplicadas} alterações por regras.`,
+      });
+    } catch (error) {
+      toast({ title: 'Erro na limpeza', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  // Weights, volumes and dimensions read from product names, reviewed in a modal
+  const handleExtractMeasures = () => {
+    const proposals = proposeMeasurements(rawData as ProductData[], columns);
+    if (proposals.length === 0) {
+      toast({ title: 'Nenhuma medida encontrada', description: 'Os nomes não trazem medidas para colunas vazias.' });
+      return;
+    }
+    setMeasureProposals(proposals);
+  };
+
+  const handleApplyMeasures = (accepted: MeasureProposal[]) => {
+    const result = applyMeasureProposals(rawData as ProductData[], columns, accepted);
+    recordEdit('Extrair medidas', 'measure', result);
+    setColumns(result.columns);
+    setRawData(result.data as ProductRow[]);
+    setMeasureProposals(null);
+    toast({ title: '✅ Medidas aplicadas', description: `${accepted.length} valor(es) preenchido(s).` });
+  };
+
+  // Rules may write to columns the sheet doesn't have yet
+  const withRuleColumns = (rules: TransformRule[]): string[] => {
+    const added = [...new Set(rules.filter(r => r.enabled && r.column).map(r => r.column))]
+      .filter(col => !columns.includes(col));
+    return added.length === 0 ? columns : [...columns, ...added];
+  };
+
+  // Run only the rules; protected columns still can't be changed
+  const handleApplyRules = async (rules: TransformRule[]) => {
+    const protectedOnly = Object.fromEntries(
+      Object.entries(applyPresetToColumns(columns)).filter(([, config]) => config.isProtected)
+    );
+    try {
+      const result = await runTask(
+        'Aplicando regras',
+        processDataInWorker(rawData as ProductData[], protectedOnly, {}, rules, {}, trackProgress)
+      );
+      if (!result) return;
+
+      const nextColumns = withRuleColumns(rules);
+      recordEdit('Aplicar regras', 'rule', { data: result.enrichedData, columns: nextColumns });
+      setColumns(nextColumns);
+      setRawData(result.enrichedData as ProductRow[]);
+      toast({ title: '✅ Regras aplicadas', description: `${result.stats.regrasAplicadas} valor(es) alterado(s).` });
+    } catch (error) {
+      toast({ title: 'Erro ao aplicar regras', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleSaveRules = (rules: TransformRule[], apply: boolean) => {
+    setTransformRules(rules);
+    localStorage.setItem('ultradata_transform_rules', JSON.stringify(rules));
+    setShowTransformRules(false);
+    if (apply) handleApplyRules(rules);
+  };
+
+  // Rules are stored in the preset next to its column config
+  const handleSaveRulesToPreset = (name: string, rules: TransformRule[]) => {
+    const existing = presets.find(p => p.name.toLowerCase() === name.toLowerCase());
+    return savePreset(
+      name,
+      existing?.abbreviations ?? getAbbreviations(),
+      existing?.columnConfig ?? applyPresetToColumns(columns),
+      rules,
+      existing?.titleTemplates ?? titleTemplates
+    );
+  };
+
+  // Rebuild the title column from the attribute columns, by category
+  const handleApplyTitles = (templates: TitleTemplate[]) => {
+    const titleColumn = getTitleColumn(columns);
+    const titles = renderTitles(rawData as ProductData[], columns, templates, titleColumn);
+    if (titles.length === 0) {
+      toast({ title: 'Nenhum título alterado', description: 'Os modelos geram os mesmos títulos, faltam colunas ou os campos fora de colchetes estão vazios.' });
+      return;
+    }
+
+    const nextColumns = columns.includes(titleColumn) ? columns : [...columns, titleColumn];
+    const data = applyTitles(rawData as ProductData[], titles, titleColumn);
+    recordEdit('Gerar títulos', 'title', { data, columns: nextColumns });
+    setColumns(nextColumns);
+    setRawData(data as ProductRow[]);
+    toast({ title: '✅ Títulos gerados', description: `${titles.length} título(s) reescrito(s) em "${titleColumn}".` });
+  };
+
+  const handleSaveTitleTemplates = (templates: TitleTemplate[], apply: boolean) => {
+    setTitleTemplates(templates);
+    localStorage.setItem('ultradata_title_templates', JSON.stringify(templates));
+    setShowTitleTemplates(false);
+    if (apply) handleApplyTitles(templates);
+  };
+
+  const handleSaveTitleTemplatesToPreset = (name: string, templates: TitleTemplate[]) => {
+    const existing = presets.find(p => p.name.toLowerCase() === name.toLowerCase());
+    return savePreset(
+      name,
+      existing?.abbreviations ?? getAbbreviations(),
+      existing?.columnConfig ?? applyPresetToColumns(columns),
+      existing?.transformRules ?? transformRules,
+      templates
+    );
+  };
+
+  // Saved template without the columns this sheet lacks, or one guessed from the sheet
+  const descriptionTemplate = useMemo(() => {
+    if (!savedDescriptionTemplate) return createDescriptionTemplate(columns);
+    const present = (col: string) => columns.includes(col);
+    return {
+      ...savedDescriptionTemplate,
+      introColumn: present(savedDescriptionTemplate.introColumn) ? savedDescriptionTemplate.introColumn : '',
+      attributeColumns: savedDescriptionTemplate.attributeColumns.filter(present),
+      specColumns: savedDescriptionTemplate.specColumns.filter(present),
+      packageColumn: present(savedDescriptionTemplate.packageColumn) ? savedDescriptionTemplate.packageColumn : '',
+    };
+  }, [savedDescriptionTemplate, columns]);
+
+  const handleSaveDescriptionTemplate = (template: DescriptionTemplate) => {
+    setSavedDescriptionTemplate(template);
+    localStorage.setItem('ultradata_description_template', JSON.stringify(template));
+  };
+
+  // Write generated or sanitized HTML descriptions
+  const handleApplyDescriptions = (previews: DescriptionPreview[], column: string, label: string) => {
+    const nextColumns = columns.includes(column) ? columns : [...columns, column];
+    const data = applyDescriptions(rawData as ProductData[], previews, column);
+    recordEdit(label, 'description', { data, columns: nextColumns });
+    setColumns(nextColumns);
+    setRawData(data as ProductRow[]);
+    setShowDescriptions(false);
+    toast({ title: '✅ Descrições atualizadas', description: `${previews.length} descrição(ões) em "${column}".` });
+  };
+
+  const handleSavePricing = (rules: PricingRule[], minMargin: number) => {
+    setPricing({ rules, minMargin });
+    localStorage.setItem('ultradata_pricing', JSON.stringify({ rules, minMargin }));
+  };
+
+  const handleApplyPricing = (changes: PriceChange[], rules: PricingRule[], minMargin: number) => {
+    handleSavePricing(rules, minMargin);
+    const priceColumn = getPricingColumns(columns).price ?? 'Preço';
+    const nextColumns = columns.includes(priceColumn) ? columns : [...columns, priceColumn];
+    const data = applyRepricing(rawData as ProductData[], changes, priceColumn);
+    recordEdit('Reprecificar', 'price', { data, columns: nextColumns });
+    setColumns(nextColumns);
+    setRawData(data as ProductRow[]);
+    setShowPricing(false);
+    toast({ title: '✅ Preços atualizados', description: `${changes.length} preço(s) recalculado(s) em "${priceColumn}".` });
+  };
+
+  // Several NF-e XMLs can be sent at once; spreadsheets are read one at a time
+  const handleFilesSelected = useCallback((files: File[]) => {
+    const xmlFiles = files.filter(f => isNfeFile(f.name));
+    if (xmlFiles.length > 0) {
+      handleNfeUpload(xmlFiles);
+    } else if (files[0]) {
+      handleFileUpload(files[0]);
+    }
+  }, [handleNfeUpload, handleFileUpload]);
+
+  const openFilePicker = (accept: string) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.multiple = true;
+    input.onchange = (e) => {
+      handleFilesSelected(Array.from((e.target as HTMLInputElement).files ?? []));
+    };
+    input.click();
+  };
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
-    const file = e.dataTransfer.files[0];
-    if (file) handleFileUpload(file);
-  }, [handleFileUpload]);
+    handleFilesSelected(Array.from(e.dataTransfer.files));
+  }, [handleFilesSelected]);
 
   const handleDragOver = (e: React.DragEvent) => e.preventDefault();
 
@@ -265,46 +1008,102 @@ const UltraData = () => {
     }
   };
 
-  // Batch NCM correction
+  // Undo/redo replay the journal on the current rows; a structural entry
+  // swaps the whole dataset, so row-indexed findings no longer apply
+  const applyReplay = useCallback((result: { data: ProductData[]; columns?: string[] }) => {
+    setRawData(result.data as ProductRow[]);
+    if (!result.columns) return;
+    setColumns(result.columns);
+    setDuplicates([]);
+    setGtinIssues([]);
+    setVariantGroups([]);
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    const result = journal.undo(rawData as ProductData[]);
+    if (!result) return;
+    applyReplay(result);
+    toast({ title: 'Desfeito', description: describeReplay(result.entry) });
+  }, [journal, rawData, toast, applyReplay]);
+
+  const handleRedo = useCallback(() => {
+    const result = journal.redo(rawData as ProductData[]);
+    if (!result) return;
+    applyReplay(result);
+    toast({ title: 'Refeito', description: describeReplay(result.entry) });
+  }, [journal, rawData, toast, applyReplay]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y), except while typing in a field or
+  // while a background task runs: its result would overwrite the undone data
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || activeTask) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) handleUndo();
+      else if (key === 'y' || (key === 'z' && e.shiftKey)) handleRedo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleUndo, handleRedo, activeTask]);
+
+  // Batch NCM correction, one lookup per product. Runs as a task, so undo
+  // and the other operations wait for it; the codes are written onto the
+  // rows as they are when it ends.
   const handleBatchNcm = async () => {
     if (!user) { setShowAuthModal(true); return; }
     if (selectedRows.size === 0) {
       toast({ title: 'Nenhum produto selecionado', description: 'Selecione os produtos para corrigir.', variant: 'destructive' });
       return;
     }
+    const ncmCol = columns.find(c => /ncm/i.test(c));
+    if (!ncmCol) {
+      toast({ title: 'Nenhuma coluna NCM', description: 'A planilha não tem coluna NCM para corrigir.', variant: 'destructive' });
+      return;
+    }
 
-    setIsBatchProcessing(true);
-    try {
-      const selected = Array.from(selectedRows).map(i => filteredData[i]);
-      let corrected = 0;
+    const rows = rawData as ProductData[];
+    const targets = Array.from(selectedRows).map(i => rows.indexOf(filteredData[i])).filter(idx => idx >= 0);
+    let cancelled = false;
+
+    const lookup = async (): Promise<CellChange[]> => {
+      const changes: CellChange[] = [];
+      for (const [done, idx] of targets.entries()) {
+        if (cancelled) {
+          const error = new Error('Operação cancelada');
+          error.name = 'AbortError';
+          throw error;
+        }
+        trackProgress({ stage: 'processing', done, total: targets.length });
 
-      for (const product of selected) {
+        const product = rows[idx];
         const name = String(product['Nome'] || product['nome'] || product['Descrição'] || product['descricao'] || '');
         if (!name) continue;
 
         const { data, error } = await supabase.functions.invoke('buscar-ncm', {
           body: { termo: name, limite: 1 },
         });
-
         if (!error && data?.resultados?.length > 0) {
-          const ncmCol = columns.find(c => /ncm/i.test(c));
-          if (ncmCol) {
-            const idx = rawData.indexOf(product);
-            if (idx >= 0) {
-              rawData[idx][ncmCol] = data.resultados[0].codigo;
-              corrected++;
-            }
-          }
+          changes.push(createCellChange(rows, idx, ncmCol, data.resultados[0].codigo, 'ncm', columns));
         }
       }
+      return changes;
+    };
+
+    try {
+      const changes = await runTask('Corrigindo NCM em lote', { promise: lookup(), cancel: () => { cancelled = true; } });
+      if (!changes) return;
 
-      setRawData([...rawData]);
+      recordChanges('Corrigir NCM em lote', 'ncm', changes);
+      setRawData(prev => applyCellChanges(prev as ProductData[], changes) as ProductRow[]);
       setSelectedRows(new Set());
-      toast({ title: '✅ NCM corrigido em lote', description: `${corrected} de ${selected.length} produtos atualizados.` });
+      toast({ title: '✅ NCM corrigido em lote', description: `${changes.length} de ${targets.length} produtos atualizados.` });
     } catch (error: any) {
       toast({ title: 'Erro na correção em lote', description: error.message, variant: 'destructive' });
-    } finally {
-      setIsBatchProcessing(false);
     }
   };
 
@@ -328,8 +1127,9 @@ const UltraData = () => {
 
     const globalIdx = rawData.indexOf(filteredData[ncmModalProduct.rowIndex]);
     if (globalIdx >= 0) {
-      rawData[globalIdx][ncmCol] = ncm;
-      setRawData([...rawData]);
+      const changes = [createCellChange(rawData as ProductData[], globalIdx, ncmCol, ncm, 'manual', columns)];
+      recordChanges(`Editar NCM (${changes[0].rowKey})`, 'manual', changes);
+      setRawData(applyCellChanges(rawData as ProductData[], changes) as ProductRow[]);
       toast({ title: '✅ NCM aplicado', description: `${ncm} — ${descricao}` });
     }
   };
@@ -347,6 +1147,134 @@ const UltraData = () => {
         onSelectAll={() => setVisibleColumns([...columns])}
         onDeselectAll={() => setVisibleColumns([])}
       />
+      {pendingWorkbook && (
+        <SheetPickerModal
+          open={!!pendingWorkbook}
+          onOpenChange={(open) => { if (!open) handleCancelSheets(); }}
+          filename={pendingWorkbook.filename}
+          sheets={pendingWorkbook.sheets}
+          onConfirm={handleConfirmSheets}
+        />
+      )}
+      {pendingCsv && (
+        <CsvPreviewModal
+          open={!!pendingCsv}
+          onOpenChange={(open) => { if (!open) handleCancelCsv(); }}
+          filename={pendingCsv.filename}
+          preview={pendingCsv.preview}
+          loading={pendingCsv.loading}
+          onDialectChange={handleCsvDialectChange}
+          onConfirm={handleConfirmCsv}
+        />
+      )}
+      <DuplicateSettingsModal
+        open={showDuplicateSettings}
+        onOpenChange={setShowDuplicateSettings}
+        columns={columns}
+        options={duplicateOptions}
+        onConfirm={handleDetectDuplicates}
+      />
+      {showTransformRules && (
+        <TransformRulesModal
+          open={showTransformRules}
+          onOpenChange={setShowTransformRules}
+          columns={columns}
+          data={rawData as ProductData[]}
+          columnConfig={applyPresetToColumns(columns)}
+          rules={transformRules}
+          presets={presets}
+          canSaveToPreset={!!user}
+          onSave={handleSaveRules}
+          onSaveToPreset={handleSaveRulesToPreset}
+        />
+      )}
+      {showTitleTemplates && (
+        <TitleTemplatesModal
+          open={showTitleTemplates}
+          onOpenChange={setShowTitleTemplates}
+          columns={columns}
+          data={rawData as ProductData[]}
+          templates={titleTemplates}
+          presets={presets}
+          canSaveToPreset={!!user}
+          onSave={handleSaveTitleTemplates}
+          onSaveToPreset={handleSaveTitleTemplatesToPreset}
+        />
+      )}
+      {showDescriptions && (
+        <RichDescriptionModal
+          open={showDescriptions}
+          onOpenChange={setShowDescriptions}
+          columns={columns}
+          data={rawData as ProductData[]}
+          template={descriptionTemplate}
+          onSaveTemplate={handleSaveDescriptionTemplate}
+          onApply={handleApplyDescriptions}
+          onCopy={html => {
+            navigator.clipboard.writeText(html);
+            toast({ title: 'HTML copiado' });
+          }}
+        />
+      )}
+      {showPricing && (
+        <PricingModal
+          open={showPricing}
+          onOpenChange={setShowPricing}
+          columns={columns}
+          data={rawData as ProductData[]}
+          rules={pricing.rules}
+          minMargin={pricing.minMargin}
+          onSave={(rules, minMargin) => {
+            handleSavePricing(rules, minMargin);
+            setShowPricing(false);
+          }}
+          onApply={handleApplyPricing}
+        />
+      )}
+      {showFiscal && fiscal && (
+        <FiscalValidationModal
+          open={showFiscal}
+          onOpenChange={setShowFiscal}
+          data={fiscal.data}
+          columns={columns}
+          issues={fiscal.issues}
+          checkedReference={fiscal.checkedReference}
+          onSelectRows={handleSelectFiscalRows}
+        />
+      )}
+      {measureProposals && (
+        <MeasurementsModal
+          open
+          onOpenChange={(open) => !open && setMeasureProposals(null)}
+          proposals={measureProposals}
+          data={rawData as ProductData[]}
+          columns={columns}
+          onApply={handleApplyMeasures}
+        />
+      )}
+      {showDuplicateResolution && (
+        <DuplicateResolutionModal
+          open={showDuplicateResolution}
+          onOpenChange={setShowDuplicateResolution}
+          duplicates={duplicates}
+          data={rawData as ProductData[]}
+          columns={columns}
+          columnConfig={applyPresetToColumns(columns)}
+          onApply={handleApplyResolutions}
+        />
+      )}
+      {pendingMapping && (
+        <ColumnMappingModal
+          open={!!pendingMapping}
+          onOpenChange={(open) => { if (!open) setPendingMapping(null); }}
+          suggestions={pendingMapping.suggestions}
+          targets={getMappingTargets()}
+          sampleRow={rawData[0] as ProductData | undefined}
+          initialSupplier={pendingMapping.supplier}
+          canSave={!!user}
+          onConfirm={handleConfirmMapping}
+        />
+      )}
       {ncmModalProduct && (
         <NcmCorrectionModal
           open={ncmModalOpen}
@@ -369,6 +1297,9 @@ const UltraData = () => {
               <h1 className="text-lg font-bold text-foreground">ULTRADATA</h1>
             </div>
             <div className="flex items-center gap-2">
+              <Link to="/diagnostico">
+                <Button variant="ghost" size="sm" title="Diagnóstico do catálogo"><Activity className="h-4 w-4" /></Button>
+              </Link>
               {user ? (
                 <>
                   <Link to="/conexoes">
@@ -402,6 +1333,19 @@ const UltraData = () => {
         {/* Tag filters */}
         <TagFilter tags={tags} onRemoveTag={handleRemoveTag} onClearAll={handleClearTags} />
 
+        {/* Rows picked on /diagnostico */}
+        {diagnosticSelection && diagnosticSelection.total === rawData.length && (
+          <div className="flex items-center gap-3 p-3 rounded-lg border bg-card">
+            <Activity className="h-4 w-4 text-primary shrink-0" />
+            <span className="text-sm flex-1">
+              Diagnóstico: <strong>{diagnosticSelection.label}</strong> ({diagnosticSelection.rows.length} produtos selecionados)
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => setDiagnosticSelection(null)}>
+              <X className="h-4 w-4 mr-1" /> Limpar
+            </Button>
+          </div>
+        )}
+
         {/* Bling loading state */}
         {blingLoading && (
           <div className="flex items-center justify-center py-12 gap-3">
@@ -417,19 +1361,288 @@ const UltraData = () => {
           </Alert>
         )}
 
+        {/* Background task progress */}
+        {activeTask && (
+          <div className="flex items-center gap-3 p-3 rounded-lg border bg-card">
+            <Loader2 className="h-4 w-4 animate-spin text-primary shrink-0" />
+            <div className="flex-1 space-y-1.5">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">{activeTask.label}...</span>
+                {activeTask.progress && activeTask.progress.total > 1 && (
+                  <span className="font-medium">
+                    {activeTask.progress.done.toLocaleString('pt-BR')} / {activeTask.progress.total.toLocaleString('pt-BR')}
+                  </span>
+                )}
+              </div>
+              <Progress
+                value={activeTask.progress ? (activeTask.progress.done / Math.max(1, activeTask.progress.total)) * 100 : 0}
+                className="h-2"
+              />
+            </div>
+            <Button variant="ghost" size="sm" onClick={activeTask.cancel}>
+              <X className="h-4 w-4 mr-1" /> Cancelar
+            </Button>
+          </div>
+        )}
+
+        {duplicates.length > 0 && (
+          <Alert>
+            <Copy className="h-4 w-4" />
+            <AlertDescription className="flex items-center justify-between gap-3">
+              <span>{duplicates.length} grupo(s) de possíveis duplicados encontrados.</span>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="default"
+                  size="sm"
+                  onClick={() => setShowDuplicateResolution(true)}
+                >
+                  <GitMerge className="h-4 w-4 mr-1" /> Resolver
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => exportDuplicatesReport(duplicates, rawData as ProductData[])}
+                >
+                  <Download className="h-4 w-4 mr-1" /> Exportar relatório
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {gtinIssues.length > 0 && (
+          <Alert>
+            <Barcode className="h-4 w-4" />
+            <AlertDescription className="flex items-center justify-between gap-3">
+              <span>
+                {gtinIssues.length} GTIN(s) sinalizado(s):{' '}
+                {Object.entries(gtinIssueCounts)
+                  .map(([status, count]) => `${count} ${GTIN_STATUS_LABELS[status as GtinStatus].toLowerCase()}`)
+                  .join(', ')}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => setGtinIssues([])}>
+                <X className="h-4 w-4" />
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {fiscal && fiscal.issues.length > 0 && (
+          <Alert>
+            <ShieldCheck className="h-4 w-4" />
+            <AlertDescription className="flex items-center justify-between gap-3">
+              <span>
+                {fiscal.issues.length} erro(s) fiscal(is):{' '}
+                {Object.entries(fiscalIssueCounts)
+                  .map(([code, count]) => `${count} ${FISCAL_ERROR_LABELS[code as FiscalErrorCode].toLowerCase()}`)
+                  .join(', ')}
+              </span>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => setShowFiscal(true)}>
+                  Ver erros
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setFiscal(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {variantGroups.length > 0 && (
+          <Alert>
+            <Layers className="h-4 w-4" />
+            <AlertDescription className="flex items-center justify-between gap-3">
+              <span>
+                {variantGroups.length} produto(s) com variações de {[...new Set(variantGroups.flatMap(g => g.attributes))].join(', ').toLowerCase()}.
+              </span>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={handleApplyVariants}>
+                  Gerar estrutura Bling
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setVariantGroups([])}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Actions bar */}
         {rawData.length > 0 && (
           <div className="flex items-center gap-3 flex-wrap">
             <Button
               variant="default"
               size="sm"
-              disabled={selectedRows.size === 0 || isBatchProcessing}
+              disabled={selectedRows.size === 0 || !!activeTask}
               onClick={handleBatchNcm}
               className="gap-1.5"
             >
               <Zap className="h-4 w-4" />
               Corrigir NCM em lote ({selectedRows.size})
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowDuplicateSettings(true)}
+              disabled={!!activeTask}
+              className="gap-1.5"
+            >
+              <Copy className="h-4 w-4" />
+              Verificar duplicados
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleProcessData}
+              disabled={!!activeTask}
+              className="gap-1.5"
+            >
+              <Wand2 className="h-4 w-4" />
+              Aplicar limpeza
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowTransformRules(true)}
+              disabled={!!activeTask}
+              className="gap-1.5"
+            >
+              <ListOrdered className="h-4 w-4" />
+              Regras{transformRules.length > 0 && ` (${transformRules.length})`}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowTitleTemplates(true)}
+              disabled={!!activeTask}
+              className="gap-1.5"
+            >
+              <Heading className="h-4 w-4" />
+              Títulos{titleTemplates.length > 0 && ` (${titleTemplates.length})`}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowPricing(true)}
+              disabled={!!activeTask}
+              className="gap-1.5"
+            >
+              <DollarSign className="h-4 w-4" />
+              Preços
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowDescriptions(true)}
+              disabled={!!activeTask}
+              className="gap-1.5"
+            >
+              <FileCode className="h-4 w-4" />
+              Descrição HTML
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExtractMeasures}
+              disabled={!!activeTask}
+              className="gap-1.5"
+            >
+              <Ruler className="h-4 w-4" />
+              Extrair medidas
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleOpenColumnMapping}
+              disabled={!!activeTask}
+              className="gap-1.5"
+            >
+              <Columns3 className="h-4 w-4" />
+              Mapear colunas
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => openFilePicker('.xml')}
+              disabled={!!activeTask}
+              className="gap-1.5"
+            >
+              <FileText className="h-4 w-4" />
+              Importar NF-e
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleValidateGtins}
+              disabled={!!activeTask}
+              className="gap-1.5"
+            >
+              <Barcode className="h-4 w-4" />
+              Validar GTIN
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleValidateFiscal}
+              disabled={!!activeTask}
+              className="gap-1.5"
+            >
+              <ShieldCheck className="h-4 w-4" />
+              Validar fiscal
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDetectVariants}
+              disabled={!!activeTask}
+              className="gap-1.5"
+            >
+              <Layers className="h-4 w-4" />
+              Agrupar variações
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportToExcel(rawData, 'ultradata_produtos')}
+              disabled={!!activeTask}
+              className="gap-1.5"
+            >
+              <Download className="h-4 w-4" />
+              Exportar planilha
+            </Button>
+            <div className="flex items-center gap-1 ml-auto">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={handleUndo}
+                disabled={!journal.canUndo || !!activeTask}
+                title={journal.canUndo ? `Desfazer: ${journal.entries[journal.applied - 1].label} (Ctrl+Z)` : 'Desfazer'}
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={handleRedo}
+                disabled={!journal.canRedo || !!activeTask}
+                title={journal.canRedo ? `Refazer: ${journal.entries[journal.applied].label} (Ctrl+Shift+Z)` : 'Refazer'}
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => exportToExcel(journalToRows(journal.audit), 'ultradata_auditoria')}
+                disabled={journal.audit.length === 0}
+                className="gap-1.5"
+              >
+                <ScrollText className="h-4 w-4" />
+                Auditoria ({journal.audit.length})
+              </Button>
+            </div>
             {!ncmSynced && (
               <Button
                 variant="outline"
@@ -446,28 +1659,19 @@ const UltraData = () => {
         )}
 
         {/* Empty state / Drop zone */}
-        {!blingLoading && rawData.length === 0 && !blingError ? (
+        {!blingLoading && !activeTask && rawData.length === 0 && !blingError ? (
           <div
             onDrop={handleDrop}
             onDragOver={handleDragOver}
             className="border-2 border-dashed border-border rounded-2xl p-16 text-center hover:border-primary/50 transition-colors cursor-pointer"
-            onClick={() => {
-              const input = document.createElement('input');
-              input.type = 'file';
-              input.accept = '.xlsx,.xls,.csv';
-              input.onchange = (e) => {
-                const file = (e.target as HTMLInputElement).files?.[0];
-                if (file) handleFileUpload(file);
-              };
-              input.click();
-            }}
+            onClick={() => openFilePicker('.xlsx,.xls,.csv,.txt,.xml')}
           >
             <Database className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
             <h2 className="text-lg font-semibold text-foreground mb-2">
               Arraste uma planilha ou clique para enviar
             </h2>
             <p className="text-sm text-muted-foreground">
-              Formatos aceitos: .xlsx, .xls, .csv — ou conecte sua conta Bling
+              Formatos aceitos: .xlsx, .xls, .csv e XML de NF-e — ou conecte sua conta Bling
             </p>
           </div>
         ) : rawData.length > 0 ? (
@@ -483,6 +1687,9 @@ const UltraData = () => {
             onDeselectAll={() => setSelectedRows(new Set())}
             ncmSuggestions={ncmSuggestions}
             onCorrectNcm={handleOpenNcmModal}
+            variantGroups={variantRowGroups}
+            fiscalIssues={fiscalIssuesByRow}
+            viewKey={[datasetId, searchQuery, diagnosticSelection?.label ?? '', ...tags].join('\u0000')}
           />
         ) : null}
       </main>
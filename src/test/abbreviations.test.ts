@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { compileAbbreviations, expandAbbreviations } from "../core/abbreviations";
+
+const dictionary = { cx: "caixa", "c/": "com", "p/": "para", pc: "peça", cm: "centímetro", "s/": "sem" };
+
+describe("expandAbbreviations", () => {
+  it("expands whole words and keeps their casing", () => {
+    expect(expandAbbreviations("cx Cx CX", dictionary).text).toBe("caixa Caixa CAIXA");
+  });
+
+  it("doesn't expand inside words", () => {
+    expect(expandAbbreviations("Caixa Pcx Cxa", dictionary).text).toBe("Caixa Pcx Cxa");
+  });
+
+  it("separates prefix abbreviations from the next word", () => {
+    expect(expandAbbreviations("Mesa c/gaveta p/ escritório", dictionary).text).toBe("Mesa com gaveta para escritório");
+  });
+
+  it("leaves units after a quantity and product codes alone", () => {
+    expect(expandAbbreviations("Régua 30 cm", dictionary).text).toBe("Régua 30 cm");
+    expect(expandAbbreviations("Régua 30cm", dictionary).text).toBe("Régua 30cm");
+    expect(expandAbbreviations("Ref PC-200", dictionary).text).toBe("Ref PC-200");
+  });
+
+  it("reports each match with its position", () => {
+    expect(expandAbbreviations("Kit cx c/ 10 pc", dictionary).matches).toEqual([
+      { original: "cx", expanded: "caixa", index: 4 },
+      { original: "c/", expanded: "com", index: 7 }
+    ]);
+  });
+
+  it("applies scoped entries only in their columns and categories", () => {
+    const scopes = { pc: { columns: ["Descrição"], categories: ["Ferragens"] } };
+    const expand = compileAbbreviations(dictionary, scopes);
+    expect(expand("kit pc", { column: "Descrição", category: "Ferragens > Parafusos" }).text).toBe("kit peça");
+    expect(expand("kit pc", { column: "Nome", category: "Ferragens" }).text).toBe("kit pc");
+    expect(expand("kit pc", { column: "Descrição", category: "Informática" }).text).toBe("kit pc");
+  });
+
+  it("matches scoped categories by whole path levels", () => {
+    const expand = compileAbbreviations({ tec: "tecido" }, { tec: { categories: ["Moda"] } });
+    expect(expand("tec leve", { category: "Moda > Feminina" }).text).toBe("tecido leve");
+    expect(expand("tec leve", { category: "Casa > Acomodação" }).text).toBe("tec leve");
+    expect(expand("tec leve", { category: "Moda Praia" }).text).toBe("tec leve");
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  loadCategoryTree,
+  matchCategory,
+  normalizeCategoryPath,
+  rankCategories,
+  recordCategoryProposal,
+  resolveCategoryTree,
+  shortlistCategories,
+  treeFromPaths,
+} from "../../supabase/functions/_shared/categories.ts";
+import { fakeSupabase } from "./fakeSupabase";
+
+const tree = {
+  id: "t1",
+  paths: [
+    "Ferramentas > Elétricas > Furadeiras",
+    "Ferramentas > Elétricas > Parafusadeiras",
+    "Ferramentas > Manuais > Chaves",
+    "Casa > Iluminação > Luminárias",
+  ],
+};
+
+afterEach(() => vi.restoreAllMocks());
+
+describe("normalizeCategoryPath", () => {
+  it("ignores accents, case and the level separator", () => {
+    expect(normalizeCategoryPath(" Ferramentas/ELÉTRICAS |  Furadeiras ")).toBe("ferramentas > eletricas > furadeiras");
+  });
+});
+
+describe("matchCategory", () => {
+  it("maps the suggestion onto the same path of the tree", () => {
+    const match = matchCategory(tree, "ferramentas / eletricas / furadeiras", { nome: "Furadeira de impacto" });
+    expect(match).toMatchObject({ treeId: "t1", categoria: "Ferramentas > Elétricas > Furadeiras", proposta: null });
+    expect(match.alternativas.map((a) => a.caminho)).not.toContain(match.categoria);
+  });
+
+  it("accepts a leaf name found once in the tree", () => {
+    expect(matchCategory(tree, "Parafusadeiras", {}).categoria).toBe("Ferramentas > Elétricas > Parafusadeiras");
+  });
+
+  it("never returns a path outside the tree, proposing it instead", () => {
+    const match = matchCategory(tree, "Ferramentas > Elétricas > Serras", { nome: "Serra tico-tico elétrica" });
+    expect(match.categoria).toBe("");
+    expect(match.proposta).toBe("Ferramentas > Elétricas > Serras");
+    expect(match.alternativas.length).toBeGreaterThan(0);
+    match.alternativas.forEach((a) => expect(tree.paths).toContain(a.caminho));
+  });
+
+  it("proposes nothing when the model suggests nothing", () => {
+    expect(matchCategory(tree, "  ", {})).toMatchObject({ categoria: "", proposta: null });
+  });
+});
+
+describe("rankCategories", () => {
+  it("weighs the last level first and drops stopwords", () => {
+    const ranked = rankCategories(tree.paths, "Furadeira com fio para concreto", 2);
+    expect(ranked[0].caminho).toBe("Ferramentas > Elétricas > Furadeiras");
+    expect(ranked[0].pontuacao).toBeGreaterThan(ranked[1].pontuacao);
+  });
+});
+
+describe("shortlistCategories", () => {
+  it("sends small trees whole and a ranked shortlist of large ones", () => {
+    expect(shortlistCategories(tree, { nome: "x" })).toBe(tree.paths);
+    const large = { id: null, paths: Array.from({ length: 100 }, (_, i) => `Diversos > Item ${i}`).concat(tree.paths) };
+    const shortlist = shortlistCategories(large, { nome: "Luminária de mesa" });
+    expect(shortlist).toHaveLength(40);
+    expect(shortlist[0]).toBe("Casa > Iluminação > Luminárias");
+  });
+});
+
+describe("treeFromPaths", () => {
+  it("keeps distinct, non-empty paths", () => {
+    expect(treeFromPaths(["A > B", " ", 3, "A > B", " C "])).toEqual({ id: null, paths: ["A > B", "C"] });
+    expect(treeFromPaths([""])).toBeNull();
+  });
+});
+
+describe("resolveCategoryTree", () => {
+  const categoryTrees = [
+    { id: "old", user_id: "u1", is_active: true, created_at: "2026-01-01", categories: ["Antiga"] },
+    { id: "new", user_id: "u1", is_active: true, created_at: "2026-02-01", categories: ["Nova > Folha"] },
+    { id: "off", user_id: "u1", is_active: false, created_at: "2026-03-01", categories: ["Inativa"] },
+  ];
+
+  it("uses the request's paths, or the user's latest active tree", async () => {
+    const { client } = fakeSupabase({ category_trees: categoryTrees });
+    expect(await resolveCategoryTree(client, "u1", ["X > Y"])).toEqual({ id: null, paths: ["X > Y"] });
+    expect(await resolveCategoryTree(client, "u1", undefined)).toEqual({ id: "new", paths: ["Nova > Folha"] });
+    expect(await resolveCategoryTree(client, "u1", false)).toBeNull();
+    expect(await resolveCategoryTree(client, null, undefined)).toBeNull();
+  });
+
+  it("runs without a tree when it can't be loaded", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await loadCategoryTree(fakeSupabase({}, {}, ["category_trees"]).client, "u1")).toBeNull();
+  });
+});
+
+describe("recordCategoryProposal", () => {
+  it("sends the normalized path to the counter", async () => {
+    const fake = fakeSupabase({}, { record_category_proposal: () => null });
+    await recordCategoryProposal(fake.client, { userId: "u1", treeId: "t1", path: "Casa > Decoração", produto: { nome: "Vaso" } });
+    expect(fake.rpcCalls[0].args).toMatchObject({ p_proposed_path: "Casa > Decoração", p_normalized_path: "casa > decoracao" });
+  });
+});
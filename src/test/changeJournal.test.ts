@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import {
+  createCellChange,
+  createReplayEntry,
+  createStructureEntry,
+  describeStructure,
+  diffDatasets,
+  getRowKey,
+  journalToRows
+} from "../core/changeJournal";
+import { useChangeJournal } from "../hooks/useChangeJournal";
+import type { ProductData } from "../core/types";
+
+const columns = ["Código", "Nome"];
+const rows = (): ProductData[] => [
+  { "Código": "A1", Nome: "camiseta" },
+  { "Código": "A2", Nome: "calça" }
+];
+
+describe("getRowKey", () => {
+  it("prefers the code column and falls back to the line", () => {
+    expect(getRowKey({ "Código": " A1 ", Nome: "x" }, 0, columns)).toBe("Código: A1");
+    expect(getRowKey({ "Código": "", Nome: "x" }, 4, columns)).toBe("Linha 5");
+  });
+});
+
+describe("diffDatasets", () => {
+  it("lists only the cells that changed", () => {
+    const before = rows();
+    const after = [before[0], { ...before[1], Nome: "Calça" }];
+    const changes = diffDatasets(before, after, columns, "cleanup");
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ row: 1, rowKey: "Código: A2", column: "Nome", oldValue: "calça", newValue: "Calça" });
+  });
+});
+
+describe("useChangeJournal", () => {
+  it("undoes and redoes cell changes", () => {
+    const { result } = renderHook(() => useChangeJournal());
+    const data = rows();
+    const change = createCellChange(data, 0, "Nome", "Camiseta", "manual", columns);
+    act(() => result.current.record("Editar célula", "manual", [change]));
+
+    const edited = [{ ...data[0], Nome: "Camiseta" }, data[1]];
+    let undone: ProductData[] = [];
+    act(() => { undone = result.current.undo(edited)?.data ?? []; });
+    expect(undone[0].Nome).toBe("camiseta");
+    expect(undone[1]).toBe(data[1]);
+    expect(result.current.canRedo).toBe(true);
+
+    let redone: ProductData[] = [];
+    act(() => { redone = result.current.redo(undone)?.data ?? []; });
+    expect(redone[0].Nome).toBe("Camiseta");
+    expect(result.current.audit.map(entry => entry.replay)).toEqual([undefined, "undo", "redo"]);
+  });
+
+  it("restores rows and columns on undo of a structural entry", () => {
+    const { result } = renderHook(() => useChangeJournal());
+    const before = { data: rows(), columns };
+    const after = {
+      data: before.data.map(row => ({ ...row, Marca: "Acme" })),
+      columns: [...columns, "Marca"]
+    };
+    act(() => result.current.recordStructure("Aplicar regras", "rule", before, after));
+
+    let undone: ReturnType<typeof result.current.undo> = null;
+    act(() => { undone = result.current.undo(after.data); });
+    expect(undone).toMatchObject({ data: before.data, columns });
+
+    let redone: ReturnType<typeof result.current.redo> = null;
+    act(() => { redone = result.current.redo(before.data); });
+    expect(redone).toMatchObject({ columns: [...columns, "Marca"] });
+    expect(result.current.audit[0].snapshot).toBeUndefined();
+  });
+
+  it("drops the redo branch when a new change is recorded", () => {
+    const { result } = renderHook(() => useChangeJournal());
+    const data = rows();
+    act(() => result.current.record("Primeira", "manual", [createCellChange(data, 0, "Nome", "x", "manual", columns)]));
+    act(() => { result.current.undo(data); });
+    act(() => result.current.record("Segunda", "manual", [createCellChange(data, 1, "Nome", "y", "manual", columns)]));
+    expect(result.current.entries.map(entry => entry.label)).toEqual(["Segunda"]);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it("keeps only the latest structural snapshots undoable", () => {
+    const { result } = renderHook(() => useChangeJournal());
+    const snapshot = { data: rows(), columns };
+    for (let i = 0; i < 7; i++) {
+      act(() => result.current.recordStructure(`Importação ${i}`, "import", snapshot, snapshot));
+    }
+    expect(result.current.entries.map(entry => entry.label)).toEqual(
+      ["Importação 2", "Importação 3", "Importação 4", "Importação 5", "Importação 6"]
+    );
+    expect(result.current.audit).toHaveLength(7);
+  });
+});
+
+describe("structural entries", () => {
+  it("describes columns added and rows merged", () => {
+    const before = { data: rows(), columns };
+    const after = { data: [{ ...before.data[0], Cor: "Azul" }], columns: [...columns, "Cor"] };
+    expect(describeStructure(before, after, [{ row: 1, mergedInto: 0 }])).toEqual({
+      rowsBefore: 2,
+      rowsAfter: 1,
+      columnsAdded: ["Cor"],
+      columnsRemoved: [],
+      removedRows: [{ rowKey: "Código: A2", mergedInto: "Código: A1" }]
+    });
+  });
+
+  it("swaps counts and columns in the undo audit copy", () => {
+    const before = { data: rows(), columns };
+    const after = { data: rows(), columns: [...columns, "Cor"] };
+    const entry = createStructureEntry("Variações", "variants", before, after);
+    const replay = createReplayEntry(entry, "undo");
+    expect(replay.label).toBe("Desfeito: Variações");
+    expect(replay.structure).toMatchObject({ columnsAdded: [], columnsRemoved: ["Cor"] });
+    expect(replay.snapshot).toBeUndefined();
+  });
+
+  it("exports one audit row per column and row affected", () => {
+    const before = { data: rows(), columns };
+    const after = { data: rows().slice(0, 1), columns: [...columns, "Cor"] };
+    const audit = journalToRows([createStructureEntry("Mesclar", "duplicates", before, after, [{ row: 1, mergedInto: 0 }])]);
+    expect(audit.map(row => [row["Coluna"], row["Valor Anterior"], row["Novo Valor"]])).toEqual([
+      ["", "2 linha(s)", "1 linha(s)"],
+      ["Cor", "", "Coluna adicionada"],
+      ["", "", "Mesclada em Código: A1"]
+    ]);
+    expect(audit[0]["Situação"]).toBe("Aplicada");
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyColumnMapping,
+  findMatchingSupplierMapping,
+  getMappingConfidenceLevel,
+  normalizeHeader,
+  scoreHeaderMatch,
+  suggestColumnMappings,
+  tokenizeHeader
+} from "../core/columnMapping";
+import { applyPresetToColumns, getColumnConfig, getMappingTargets } from "../config";
+
+const target = (header: string) => suggestColumnMappings([header], getMappingTargets())[0].target;
+
+describe("tokenizeHeader", () => {
+  it("normalizes accents and case and expands abbreviations", () => {
+    expect(normalizeHeader("  PREÇO   de Venda ")).toBe("preco de venda");
+    expect(tokenizeHeader("Cód. do Fab.")).toEqual(["codigo", "fabricante"]);
+    expect(tokenizeHeader("Vlr. Unit.")).toEqual(["valor", "unit"]);
+  });
+});
+
+describe("scoreHeaderMatch", () => {
+  it("scores exact, normalized and partial matches", () => {
+    expect(scoreHeaderMatch("Preço", "Preço")).toBe(1);
+    expect(scoreHeaderMatch("Qtde", "Quantidade")).toBe(0.95);
+    expect(scoreHeaderMatch("Peso Bruto Kg", "Peso Bruto")).toBeGreaterThan(0.5);
+    expect(scoreHeaderMatch("Cor", "Preço")).toBe(0);
+  });
+
+  it("weighs the word that names the field", () => {
+    expect(scoreHeaderMatch("Cod. Fabricante", "Fabricante")).toBeLessThan(0.5);
+  });
+
+  it("never matches a qualified code onto a bare code column", () => {
+    ["Cod. Fabricante", "Cód. Fornecedor", "Código Pai", "Cod Barras EAN"].forEach(header => {
+      expect(scoreHeaderMatch(header, "Código")).toBe(0);
+      expect(scoreHeaderMatch(header, "Código Produto")).toBe(0);
+    });
+  });
+});
+
+describe("suggestColumnMappings", () => {
+  it("maps supplier headers onto the Bling columns", () => {
+    expect(target("Cod.")).toBe("Código");
+    expect(target("Descr. Produto")).toBe("Descrição do Produto");
+    expect(target("Cod Barras")).toBe("Código de Barras");
+    expect(target("Fab")).toBe("Fabricante");
+  });
+
+  it("leaves qualified codes unmapped", () => {
+    expect(target("Cod. Fabricante")).toBeNull();
+    expect(target("Código Pai")).toBeNull();
+  });
+
+  it("uses each target once, best score first", () => {
+    const suggestions = suggestColumnMappings(["Preço Venda R$", "Preço de Venda"], ["Preço de Venda"]);
+    expect(suggestions.map(s => s.target)).toEqual([null, "Preço de Venda"]);
+  });
+
+  it("lets saved mappings win, including saved exclusions", () => {
+    const suggestions = suggestColumnMappings(["Cod.", "Descr"], ["Código", "Descrição"], { "Cod.": null, "Descr": "Código" });
+    expect(suggestions).toEqual([
+      { source: "Cod.", target: null, confidence: 1, reason: "saved" },
+      { source: "Descr", target: "Código", confidence: 1, reason: "saved" }
+    ]);
+    expect(getMappingConfidenceLevel(suggestions[1])).toBe("alta");
+  });
+});
+
+describe("findMatchingSupplierMapping", () => {
+  const mapping = (headers: string[]) => ({ headers, mapping: {} });
+  const candidates = [
+    { supplierName: "Acme", mapping: mapping(["Cod.", "Descr", "Vlr", "Qtde", "Un"]) },
+    { supplierName: "Beta", mapping: mapping(["SKU", "Nome", "Preço"]) }
+  ];
+
+  it("reuses the mapping of a file with the same headers", () => {
+    expect(findMatchingSupplierMapping(["cod.", "DESCR", "Vlr", "Qtde", "Un"], candidates)?.supplierName).toBe("Acme");
+  });
+
+  it("ignores mappings that share only some headers", () => {
+    expect(findMatchingSupplierMapping(["SKU", "Nome", "Preço", "Cor", "Tamanho"], candidates)).toBeNull();
+  });
+});
+
+describe("applyColumnMapping", () => {
+  it("renames mapped columns and keeps the rest", () => {
+    const result = applyColumnMapping(
+      [{ "Cod.": "1", "Descr": "Café", "Extra": "x", __row_index: 0 }],
+      ["Cod.", "Descr", "Extra"],
+      { "Cod.": "Código", "Descr": "Descrição", "Extra": null }
+    );
+    expect(result.columns).toEqual(["Código", "Descrição", "Extra"]);
+    expect(result.data[0]).toEqual({ "Código": "1", "Descrição": "Café", "Extra": "x", __row_index: 0 });
+  });
+
+  it("doesn't overwrite a column that keeps its name", () => {
+    const result = applyColumnMapping([{ "Cod.": "1", "Código": "2" }], ["Cod.", "Código"], { "Cod.": "Código", "Código": null });
+    expect(result.columns).toEqual(["Cod.", "Código"]);
+    expect(result.data[0]).toEqual({ "Cod.": "1", "Código": "2" });
+  });
+});
+
+describe("applyPresetToColumns", () => {
+  it("doesn't give a qualified code the config of our code column", () => {
+    const config = applyPresetToColumns(["Cod.", "Cod. Fabricante"]);
+    expect(config["Cod."]).toEqual(getColumnConfig()["Código"]);
+    expect(config["Cod. Fabricante"]).not.toEqual(getColumnConfig()["Código"]);
+  });
+});
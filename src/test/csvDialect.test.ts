@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectCsvDialect,
+  detectEncoding,
+  parseCsv,
+  parseLocaleDate,
+  parseLocaleNumber,
+  readCsv
+} from "../core/csvDialect";
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+// Accented Latin letters have the same code in Windows-1252 and Latin-1
+const windows1252 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+describe("detectEncoding", () => {
+  it("tells UTF-8 from Windows-1252", () => {
+    expect(detectEncoding(utf8("Descrição;Preço"))).toBe("utf-8");
+    expect(detectEncoding(windows1252("Descrição;Preço"))).toBe("windows-1252");
+    expect(detectEncoding(Uint8Array.from([0xef, 0xbb, 0xbf, 0x41]))).toBe("utf-8");
+  });
+});
+
+describe("parseCsv", () => {
+  it("handles quoted delimiters, doubled quotes and line breaks", () => {
+    const text = 'Nome;Obs\r\n"Cabo; 2m";"Diz ""oi""\nem duas linhas"\n\nMesa;\n';
+    expect(parseCsv(text, ";", '"')).toEqual([
+      ["Nome", "Obs"],
+      ["Cabo; 2m", 'Diz "oi"\nem duas linhas'],
+      ["Mesa", ""]
+    ]);
+  });
+
+  it("keeps quotes inside an unquoted field", () => {
+    expect(parseCsv('Tela 15" LED;1', ";", '"')).toEqual([['Tela 15" LED', "1"]]);
+  });
+
+  it("stops at the row limit", () => {
+    expect(parseCsv("a\nb\nc", ";", '"', 2)).toEqual([["a"], ["b"]]);
+  });
+});
+
+describe("detectCsvDialect", () => {
+  it("reads a Brazilian Excel export", () => {
+    const bytes = windows1252("Código;Descrição;Preço;Cadastro\n001;Café 500g;1.234,56;31/12/2024\n002;Açúcar;12,50;01/02/2025\n");
+    expect(detectCsvDialect(bytes)).toEqual({ encoding: "windows-1252", delimiter: ";", quote: '"', decimal: ",", dateFormat: "dmy" });
+  });
+
+  it("reads comma-separated files with dot decimals", () => {
+    const bytes = utf8('sku,name,price,created\nA1,"Cable, 2m",1234.56,12/31/2024\nA2,Desk,12.50,2024-01-05\n');
+    expect(detectCsvDialect(bytes)).toMatchObject({ encoding: "utf-8", delimiter: ",", decimal: ".", dateFormat: "mdy" });
+  });
+
+  it("reads tab-separated files", () => {
+    expect(detectCsvDialect(utf8("a\tb\tc\n1\t2\t3\n4\t5\t6\n")).delimiter).toBe("\t");
+  });
+});
+
+describe("parseLocaleNumber", () => {
+  it("reads numbers with the given decimal separator", () => {
+    expect(parseLocaleNumber("1.234,56", ",")).toBe(1234.56);
+    expect(parseLocaleNumber("R$ 12,5", ",")).toBe(12.5);
+    expect(parseLocaleNumber("-3", ",")).toBe(-3);
+    expect(parseLocaleNumber("1,234.56", ".")).toBe(1234.56);
+  });
+
+  it("rejects anything that is not a plain number", () => {
+    expect(parseLocaleNumber("1.23,4", ",")).toBeNull();
+    expect(parseLocaleNumber("12,5", ".")).toBeNull();
+    expect(parseLocaleNumber("10 un", ",")).toBeNull();
+    expect(parseLocaleNumber("", ",")).toBeNull();
+  });
+});
+
+describe("parseLocaleDate", () => {
+  it("converts dates to ISO in the dialect's order", () => {
+    expect(parseLocaleDate("31/12/2024", "dmy")).toBe("2024-12-31");
+    expect(parseLocaleDate("1.2.24", "dmy")).toBe("2024-02-01");
+    expect(parseLocaleDate("12/31/2024", "mdy")).toBe("2024-12-31");
+    expect(parseLocaleDate("2024-12-31T10:00", "dmy")).toBe("2024-12-31");
+  });
+
+  it("rejects impossible dates and other text", () => {
+    expect(parseLocaleDate("12/31/2024", "dmy")).toBeNull();
+    expect(parseLocaleDate("31/12/2024", "ymd")).toBeNull();
+    expect(parseLocaleDate("amanhã", "dmy")).toBeNull();
+  });
+});
+
+describe("readCsv", () => {
+  it("types columns but keeps identifiers and leading zeros as text", () => {
+    const bytes = utf8("Código;Preço;Ref;Cadastro;;Preço\n001;1.234,56;0123;31/12/2024;x;2\n002;12,50;0456;01/02/2025;y;3\n");
+    const dialect = detectCsvDialect(bytes);
+    const { data, columns, types } = readCsv(bytes, dialect, "fornecedor.csv");
+
+    expect(columns).toEqual(["Código", "Preço", "Ref", "Cadastro", "Coluna 5", "Preço (2)"]);
+    expect(types).toEqual(["text", "number", "text", "date", "text", "number"]);
+    expect(data[0]).toEqual({
+      "Código": "001",
+      "Preço": 1234.56,
+      "Ref": "0123",
+      "Cadastro": "2024-12-31",
+      "Coluna 5": "x",
+      "Preço (2)": 2,
+      __source_file: "fornecedor.csv",
+      __row_index: 0
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { alignSheetHeaders, mergeSheets } from "../core/dataProcessor";
+
+const workbook = (sheets: Record<string, unknown[][]>) => {
+  const book = XLSX.utils.book_new();
+  Object.entries(sheets).forEach(([name, rows]) => XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(rows), name));
+  return book;
+};
+
+describe("alignSheetHeaders", () => {
+  it("aligns headers spelled differently across sheets", () => {
+    const alignment = alignSheetHeaders([
+      { name: "A", headers: ["Código", "Preço"], rowCount: 1 },
+      { name: "B", headers: ["codigo", "Estoque"], rowCount: 1 },
+    ]);
+    expect(alignment).toEqual([
+      { column: "Código", variants: { A: "Código", B: "codigo" }, sheets: ["A", "B"] },
+      { column: "Preço", variants: { A: "Preço" }, sheets: ["A"] },
+      { column: "Estoque", variants: { B: "Estoque" }, sheets: ["B"] },
+    ]);
+  });
+
+  it("keeps two headers of one sheet that normalize alike", () => {
+    const alignment = alignSheetHeaders([
+      { name: "A", headers: ["Preço", "preco"], rowCount: 1 },
+      { name: "B", headers: ["PRECO"], rowCount: 1 },
+    ]);
+    expect(alignment.map(a => [a.column, a.variants])).toEqual([
+      ["Preço", { A: "Preço", B: "PRECO" }],
+      ["preco", { A: "preco" }],
+    ]);
+  });
+});
+
+describe("mergeSheets", () => {
+  it("reads every column when headers repeat", () => {
+    const book = workbook({ Produtos: [["Preço", "preco", "Nome", "Nome"], [10, 12, "Café", "Café 500g"]] });
+    const { data, columns } = mergeSheets(book, ["Produtos"], "lista.xlsx");
+    expect(columns).toEqual(["Preço", "preco", "Nome", "Nome (2)"]);
+    expect(data[0]).toMatchObject({ "Preço": 10, preco: 12, Nome: "Café", "Nome (2)": "Café 500g" });
+  });
+
+  it("labels rows with their sheet when several are merged", () => {
+    const book = workbook({ A: [["Código"], ["1"]], B: [["codigo", "Cor"], ["2", "Azul"]] });
+    const { data, columns } = mergeSheets(book, ["A", "B"], "lista.xlsx");
+    expect(columns).toEqual(["Código", "Cor"]);
+    expect(data).toEqual([
+      { "Código": "1", Cor: "", __source_file: "lista.xlsx › A", __row_index: 0 },
+      { "Código": "2", Cor: "Azul", __source_file: "lista.xlsx › B", __row_index: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,9 @@
+// Deno globals read by the edge-function modules the tests import
+declare namespace Deno {
+  const env: { get(name: string): string | undefined };
+}
+
+// Edge functions import the client from esm.sh; the tests use the npm build
+declare module "https://esm.sh/@supabase/supabase-js@2.38.1" {
+  export type { SupabaseClient } from "@supabase/supabase-js";
+}
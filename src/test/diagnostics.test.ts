@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { analyzeColumn, diagnoseCatalog, isValidNcm, scoreDistribution } from "../core/diagnostics";
+
+const columns = ["Código", "Nome", "Preço", "Estoque", "NCM", "GTIN/EAN", "URL Imagens", "Descrição Complementar"];
+const longDescription = `<p>${"Camiseta de algodão penteado com costura reforçada. ".repeat(3)}</p>`;
+const complete = {
+  "Código": "A1",
+  Nome: "Camiseta",
+  "Preço": "49,90",
+  Estoque: "10",
+  NCM: "6109.10.00",
+  "GTIN/EAN": "4006381333931",
+  "URL Imagens": "https://exemplo.com/a1.jpg",
+  "Descrição Complementar": longDescription
+};
+
+describe("diagnoseCatalog", () => {
+  it("gives 100 to a complete product", () => {
+    const result = diagnoseCatalog([complete], columns);
+    expect(result.scores[0]).toEqual({ row: 0, score: 100, failed: [], missingRequired: [] });
+  });
+
+  it("subtracts the weight of each failing check", () => {
+    const row = { ...complete, NCM: "00000000", "URL Imagens": "" };
+    const result = diagnoseCatalog([row], columns);
+    expect(result.scores[0].score).toBe(70);
+    expect(result.scores[0].failed).toEqual(["image", "ncm"]);
+    expect(result.failing.image).toEqual([0]);
+  });
+
+  it("counts required fields in proportion to how many are filled", () => {
+    const row = { ...complete, "Preço": "", Estoque: " " };
+    const result = diagnoseCatalog([row], columns);
+    expect(result.scores[0].score).toBe(80);
+    expect(result.scores[0].missingRequired).toEqual(["Preço", "Estoque"]);
+  });
+
+  it("treats a missing column as failing for every row", () => {
+    const result = diagnoseCatalog([complete], columns.filter(col => col !== "Estoque" && col !== "GTIN/EAN"));
+    expect(result.scores[0].score).toBe(75);
+    expect(result.scores[0].failed).toEqual(["required", "gtin"]);
+  });
+
+  it("accepts SEM GTIN but not a wrong check digit", () => {
+    const result = diagnoseCatalog([{ ...complete, "GTIN/EAN": "SEM GTIN" }, { ...complete, "GTIN/EAN": "4006381333932" }], columns);
+    expect(result.scores.map(s => s.score)).toEqual([100, 85]);
+  });
+
+  it("ignores HTML when measuring the description", () => {
+    const result = diagnoseCatalog([{ ...complete, "Descrição Complementar": `<b>${"&nbsp;".repeat(30)}Curta</b>` }], columns);
+    expect(result.scores[0].failed).toEqual(["description"]);
+  });
+
+  it("averages the scores", () => {
+    const result = diagnoseCatalog([complete, { ...complete, NCM: "" }], columns);
+    expect(result.averageScore).toBe(93);
+    expect(diagnoseCatalog([], columns).averageScore).toBe(0);
+  });
+});
+
+describe("isValidNcm", () => {
+  it("needs eight digits that aren't a placeholder", () => {
+    expect(isValidNcm("6109.10.00")).toBe(true);
+    expect(isValidNcm("6109100")).toBe(false);
+    expect(isValidNcm("99999999")).toBe(false);
+  });
+});
+
+describe("analyzeColumn", () => {
+  it("profiles fill rate and distinct values", () => {
+    const data = [{ Cor: "Azul" }, { Cor: "" }, { Cor: "Azul" }, { Cor: "Verde" }];
+    expect(analyzeColumn(data, "Cor")).toEqual({
+      column: "Cor", total: 4, filled: 3, empty: 1, fillRate: 75, unique: 2, examples: ["Azul", "Verde"]
+    });
+  });
+});
+
+describe("scoreDistribution", () => {
+  it("puts 100 in the last range", () => {
+    const scores = [0, 19, 20, 99, 100].map((score, row) => ({ row, score, failed: [], missingRequired: [] }));
+    expect(scoreDistribution(scores).map(b => b.rows)).toEqual([[0, 1], [2], [], [], [3, 4]]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { applyDuplicateResolutions, getIdentityColumn, getPairKey, getRowIdentity } from "../core/duplicateResolution";
+import type { ColumnConfig, DuplicateResult } from "../core/types";
+
+const config = (isProtected = false): ColumnConfig => ({ action: "analyze", defaultValue: "", isProtected });
+
+const columnConfig = { "Código": config(true), "Nome": config(), "Preço": config() };
+
+const data = [
+  { "Código": "A1", "Nome": "Café 500g", "Preço": "" },
+  { "Código": "A2", "Nome": "Cafe 500 g", "Preço": "18,50" },
+  { "Código": "B1", "Nome": "Açúcar 1kg", "Preço": "5,00" },
+  { "Código": "B2", "Nome": "Acucar 1 kg", "Preço": "5,00" },
+  { "Código": "C1", "Nome": "Sal 1kg", "Preço": "3,00" }
+];
+
+const group = (linhas: number[]): DuplicateResult => ({ tipo: "Nome", valor: "", linhas, similaridade: 0.9 });
+
+describe("applyDuplicateResolutions", () => {
+  it("merges chosen fields into the survivor and drops the others", () => {
+    const result = applyDuplicateResolutions(data, [group([0, 1])], {
+      0: { action: "merge", survivor: 0, fieldSources: { "Preço": 1, "Código": 1 } }
+    }, columnConfig);
+
+    expect(result.data).toHaveLength(4);
+    // Protected columns keep the survivor's value
+    expect(result.data[0]).toEqual({ "Código": "A1", "Nome": "Café 500g", "Preço": "18,50" });
+    expect(result).toMatchObject({ merged: 1, removed: 1, skipped: 0, mergedInto: [{ row: 1, survivor: 0 }] });
+    expect(result.decisions).toEqual([{ pairKey: getPairKey("Código:A1", "Código:A2"), decision: "merged" }]);
+  });
+
+  it("remaps the groups left unresolved", () => {
+    const result = applyDuplicateResolutions(data, [group([0, 1]), group([2, 3])], {
+      0: { action: "merge", survivor: 1, fieldSources: {} }
+    }, columnConfig);
+
+    expect(result.duplicates).toEqual([group([1, 2])]);
+    expect(result.data.map(row => row["Código"])).toEqual(["A2", "B1", "B2", "C1"]);
+  });
+
+  it("stores not-duplicate decisions without touching the data", () => {
+    const result = applyDuplicateResolutions(data, [group([2, 3, 4])], {
+      0: { action: "not_duplicate", survivor: 2, fieldSources: {} }
+    }, columnConfig);
+
+    expect(result.data).toEqual(data);
+    expect(result.duplicates).toEqual([]);
+    expect(result.decisions).toHaveLength(3);
+    expect(result.decisions.every(d => d.decision === "not_duplicate")).toBe(true);
+  });
+
+  it("skips a merge touching a row already merged in the same pass", () => {
+    const result = applyDuplicateResolutions(data, [group([0, 1]), group([1, 2])], {
+      0: { action: "merge", survivor: 0, fieldSources: {} },
+      1: { action: "merge", survivor: 2, fieldSources: {} }
+    }, columnConfig);
+
+    expect(result).toMatchObject({ merged: 1, removed: 1, skipped: 1 });
+    expect(result.decisions).toHaveLength(1);
+    // Row 1 is gone, so the skipped group no longer has two rows
+    expect(result.duplicates).toEqual([]);
+  });
+});
+
+describe("getRowIdentity", () => {
+  it("uses the first filled identifier, or the normalized contents", () => {
+    expect(getRowIdentity(data[0], columnConfig)).toBe("Código:A1");
+    const withoutCode = { "Código": "", "Nome": "Café 500g", "Preço": "" };
+    expect(getRowIdentity(withoutCode, columnConfig)).toBe(getRowIdentity({ ...withoutCode, "Nome": "CAFÉ  500g" }, columnConfig));
+  });
+
+  it("identifies every row of a sheet by the same column", () => {
+    const sheetConfig = { "Código no Fornecedor": config(), "GTIN": config(true), "Código": config(true), "Nome": config() };
+    expect(getRowIdentity({ "Código no Fornecedor": "F1", "GTIN": "7894900011517", "Código": "A1" }, sheetConfig)).toBe("Código:A1");
+    // Without our code the row falls back to its contents, not to the GTIN
+    expect(getRowIdentity({ "Código no Fornecedor": "F1", "GTIN": "7894900011517", "Código": "" }, sheetConfig)).toMatch(/^txt:/);
+  });
+});
+
+describe("getIdentityColumn", () => {
+  it("takes only the canonical identifier headers", () => {
+    expect(getIdentityColumn(["Código no Fornecedor", "Código Pai", "Nome", "GTIN/EAN"])).toBe("GTIN/EAN");
+    expect(getIdentityColumn(["Código de Barras", "SKU"])).toBe("SKU");
+    expect(getIdentityColumn(["Oceano", "Tamanho", "Código Pai"])).toBeUndefined();
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  cacheTtlDays,
+  productFingerprint,
+  readCache,
+  writeCache,
+  type CacheKey,
+} from "../../supabase/functions/_shared/enrichmentCache.ts";
+import { resolvePrompt } from "../../supabase/functions/_shared/prompts.ts";
+import { fakeSupabase } from "./fakeSupabase";
+
+const prompt = resolvePrompt("enriquecer_produto");
+const key: CacheKey = { user_id: "u1", fingerprint: "abc", prompt_versao: 1, modelo_ia: "deepseek-chat" };
+
+const stubEnv = (values: Record<string, string>) =>
+  vi.stubGlobal("Deno", { env: { get: (name: string) => values[name] } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe("productFingerprint", () => {
+  it("ignores case, spacing, key order and empty fields", async () => {
+    const a = await productFingerprint({ Nome: "Furadeira  Bosch", Marca: "BOSCH", Cor: "" }, { fur: "Furadeira" }, prompt);
+    const b = await productFingerprint({ marca: "bosch", nome: " furadeira bosch" }, { FUR: "Furadeira" }, prompt);
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+    expect(b).toBe(a);
+  });
+
+  it("changes with the fields, the categories and a custom prompt", async () => {
+    const base = await productFingerprint({ Nome: "Furadeira" }, undefined, prompt);
+    const custom = resolvePrompt("enriquecer_produto", { system: "Outro prompt" });
+    expect(await productFingerprint({ Nome: "Parafusadeira" }, undefined, prompt)).not.toBe(base);
+    expect(await productFingerprint({ Nome: "Furadeira" }, undefined, custom)).not.toBe(base);
+    expect(await productFingerprint({ Nome: "Furadeira" }, undefined, prompt, ["Ferramentas"])).not.toBe(base);
+    expect(await productFingerprint({ Nome: "Furadeira" }, undefined, prompt, [])).toBe(base);
+  });
+});
+
+describe("cacheTtlDays", () => {
+  it("bounds the requested TTL and falls back to the environment", () => {
+    stubEnv({ ENRICHMENT_CACHE_TTL_DAYS: "7" });
+    expect(cacheTtlDays()).toBe(7);
+    expect(cacheTtlDays("90")).toBe(7);
+    expect(cacheTtlDays(0)).toBe(1);
+    expect(cacheTtlDays(1000)).toBe(365);
+    expect(cacheTtlDays(2.6)).toBe(3);
+    stubEnv({});
+    expect(cacheTtlDays()).toBe(30);
+  });
+});
+
+describe("readCache / writeCache", () => {
+  it("reads back a stored answer and counts the hit", async () => {
+    const fake = fakeSupabase();
+    await writeCache(fake.client, key, { titulo: "Furadeira" }, 30);
+    expect(await readCache(fake.client, key)).toEqual({ titulo: "Furadeira" });
+    expect(fake.tables.enrichment_cache[0].hits).toBe(1);
+    expect(await readCache(fake.client, { ...key, prompt_versao: 2 })).toBeNull();
+  });
+
+  it("ignores an expired answer and replaces it on write", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const fake = fakeSupabase();
+    await writeCache(fake.client, key, { titulo: "Antigo" }, 1);
+    expect(fake.tables.enrichment_cache[0].expires_at).toBe("2026-01-02T00:00:00.000Z");
+
+    vi.setSystemTime(new Date("2026-01-03T00:00:00Z"));
+    expect(await readCache(fake.client, key)).toBeNull();
+    await writeCache(fake.client, key, { titulo: "Novo" }, 1);
+    expect(fake.tables.enrichment_cache).toHaveLength(1);
+    expect(await readCache(fake.client, key)).toEqual({ titulo: "Novo" });
+  });
+
+  it("treats a failed read as a miss", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const fake = fakeSupabase({}, {}, ["enrichment_cache"]);
+    expect(await readCache(fake.client, key)).toBeNull();
+  });
+});
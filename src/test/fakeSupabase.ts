@@ -0,0 +1,108 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// In-memory stand-in for the Supabase client used by the edge-function
+// modules: enough of the query builder to filter, order and write rows.
+
+type Row = Record<string, unknown>;
+type Result = { data: unknown; error: { message: string } | null; count?: number | null };
+
+export interface FakeSupabase {
+  client: SupabaseClient;
+  tables: Record<string, Row[]>;
+  // Every write, in order
+  writes: { table: string; op: "insert" | "update" | "upsert"; values: Row }[];
+  rpcCalls: { name: string; args: Row }[];
+}
+
+const likeToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/_/g, ".").replace(/%/g, ".*")}$`);
+
+export function fakeSupabase(
+  tables: Record<string, Row[]> = {},
+  rpc: Record<string, (args: Row) => unknown> = {},
+  failing: string[] = [],
+): FakeSupabase {
+  const fake: FakeSupabase = { client: null as unknown as SupabaseClient, tables, writes: [], rpcCalls: [] };
+
+  const from = (table: string) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    let order: { column: string; ascending: boolean } | null = null;
+    let limit = Infinity;
+    let single = false;
+    let head = false;
+    let update: Row | null = null;
+
+    const rows = () => (fake.tables[table] ??= []);
+    const matching = () => {
+      const found = rows().filter((row) => filters.every((filter) => filter(row)));
+      if (order) {
+        const { column, ascending } = order;
+        found.sort((a, b) => (String(a[column]) < String(b[column]) ? -1 : 1) * (ascending ? 1 : -1));
+      }
+      return found.slice(0, limit);
+    };
+
+    const run = (): Result => {
+      if (failing.includes(table)) return { data: null, error: { message: `falha em ${table}` } };
+      const found = matching();
+      if (update) {
+        found.forEach((row) => Object.assign(row, update));
+        return { data: null, error: null };
+      }
+      if (head) return { data: null, error: null, count: found.length };
+      return { data: single ? found[0] ?? null : found, error: null };
+    };
+
+    const builder = {
+      select: (_columns?: string, options?: { head?: boolean }) => {
+        head = !!options?.head;
+        return builder;
+      },
+      eq: (column: string, value: unknown) => (filters.push((row) => row[column] === value), builder),
+      is: (column: string, value: unknown) => (filters.push((row) => (row[column] ?? null) === value), builder),
+      in: (column: string, values: unknown[]) => (filters.push((row) => values.includes(row[column])), builder),
+      gt: (column: string, value: unknown) => (filters.push((row) => String(row[column]) > String(value)), builder),
+      like: (column: string, pattern: string) =>
+        (filters.push((row) => likeToRegExp(pattern).test(String(row[column]))), builder),
+      match: (values: Row) => (filters.push((row) => Object.entries(values).every(([k, v]) => row[k] === v)), builder),
+      order: (column: string, options?: { ascending?: boolean }) =>
+        ((order = { column, ascending: options?.ascending ?? true }), builder),
+      limit: (count: number) => ((limit = count), builder),
+      maybeSingle: () => ((single = true), builder),
+      insert: (values: Row) => {
+        fake.writes.push({ table, op: "insert", values });
+        rows().push({ ...values });
+        return builder;
+      },
+      update: (values: Row) => {
+        fake.writes.push({ table, op: "update", values });
+        update = values;
+        return builder;
+      },
+      upsert: (values: Row, options?: { onConflict?: string }) => {
+        fake.writes.push({ table, op: "upsert", values });
+        const keys = options?.onConflict?.split(",") ?? [];
+        const existing = rows().find((row) => keys.length > 0 && keys.every((key) => row[key] === values[key]));
+        if (existing) Object.assign(existing, values);
+        else rows().push({ ...values });
+        return builder;
+      },
+      then: <T>(resolve: (result: Result) => T, reject?: (error: unknown) => T) =>
+        Promise.resolve().then(run).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  fake.client = {
+    from,
+    rpc: (name: string, args: Row) => {
+      fake.rpcCalls.push({ name, args });
+      const handler = rpc[name];
+      return Promise.resolve(
+        handler ? { data: handler(args), error: null } : { data: null, error: { message: `rpc ${name} ausente` } },
+      );
+    },
+  } as unknown as SupabaseClient;
+
+  return fake;
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { cestMatchesNcm, validateFiscal } from "../core/fiscal";
+
+const columns = ["Código", "NCM", "CEST", "Origem", "Unidade"];
+const row = (ncm: unknown, cest: unknown) => ({ "Código": "1", NCM: ncm, CEST: cest, Origem: "0", Unidade: "UN" });
+const codes = (data: Record<string, unknown>[]) => validateFiscal(data, columns).map(issue => issue.code);
+
+describe("cestMatchesNcm", () => {
+  it("checks the NCM against the prefixes of a listed CEST", () => {
+    expect(cestMatchesNcm("0302100", "22030000")).toBe(true);
+    expect(cestMatchesNcm("0302100", "22021000")).toBe(false);
+  });
+
+  it("gives null for a CEST outside the table", () => {
+    expect(cestMatchesNcm("9999900", "22030000")).toBeNull();
+  });
+});
+
+describe("validateFiscal", () => {
+  it("accepts a CEST that applies to the NCM", () => {
+    expect(codes([row("2203.00.00", "03.021.00")])).toEqual([]);
+  });
+
+  it("flags a CEST of another product", () => {
+    expect(codes([row("2203.00.00", "17.002.00")])).toEqual(["cest_ncm_mismatch"]);
+  });
+
+  it("checks only the format of CESTs outside the table", () => {
+    expect(codes([row("2203.00.00", "28.001.00")])).toEqual([]);
+    expect(codes([row("2203.00.00", "28.001")])).toEqual(["cest_format"]);
+  });
+
+  it("doesn't compare the CEST with a broken NCM", () => {
+    expect(codes([row("2203", "17.002.00")])).toEqual(["ncm_format"]);
+  });
+
+  it("restores the zero numeric cells drop", () => {
+    expect(codes([row(1012100, 302100)])).toEqual(["cest_ncm_mismatch"]);
+  });
+
+  it("flags NCMs missing from the reference", () => {
+    const issues = validateFiscal([row("22030000", "")], columns, { ncm: new Map([["22021000", { start: null, end: null }]]) });
+    expect(issues.map(issue => issue.code)).toEqual(["ncm_unknown"]);
+  });
+
+  it("flags NCMs out of force", () => {
+    const reference = {
+      ncm: new Map([
+        ["22030000", { start: "2017-01-01", end: null }],
+        ["22021000", { start: "2012-01-01", end: "2021-12-31" }],
+        ["22029100", { start: "2099-01-01", end: null }]
+      ])
+    };
+    const data = [row("22030000", ""), row("22021000", ""), row("22029100", "")];
+    expect(validateFiscal(data, columns, reference).map(issue => [issue.row, issue.code])).toEqual([
+      [1, "ncm_expired"],
+      [2, "ncm_expired"]
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { isValidGtinCheckDigit, normalizeGtin, toGtin14 } from "../core/gtin";
+
+describe("isValidGtinCheckDigit", () => {
+  it("accepts codes with a correct GS1 check digit", () => {
+    expect(isValidGtinCheckDigit("7894900011517")).toBe(true);
+    expect(isValidGtinCheckDigit("7891000315507")).toBe(true);
+    expect(isValidGtinCheckDigit("012345678905")).toBe(true);
+  });
+
+  it("rejects a wrong check digit and non-digits", () => {
+    expect(isValidGtinCheckDigit("7894900011518")).toBe(false);
+    expect(isValidGtinCheckDigit("78949000115a7")).toBe(false);
+    expect(isValidGtinCheckDigit("7")).toBe(false);
+  });
+});
+
+describe("normalizeGtin", () => {
+  it("strips separators and keeps valid codes", () => {
+    expect(normalizeGtin("789 4900-011517")).toEqual({ normalized: "7894900011517", status: "valid", changed: true });
+    expect(normalizeGtin("7894900011517")).toEqual({ normalized: "7894900011517", status: "valid", changed: false });
+  });
+
+  it("expands scientific notation without going through floats", () => {
+    expect(normalizeGtin("7.894900011517e12")).toMatchObject({ normalized: "7894900011517", status: "valid" });
+    expect(normalizeGtin("7,894900011517E+12")).toMatchObject({ normalized: "7894900011517", status: "valid" });
+  });
+
+  it("flags scientific notation that lost digits", () => {
+    expect(normalizeGtin("7,89123E+12").status).toBe("precision_lost");
+    // Padded with zeros it happens to pass the check digit, but the digits are made up
+    expect(normalizeGtin("7,89013E+12").status).toBe("precision_lost");
+  });
+
+  it("reads numbers as integers", () => {
+    expect(normalizeGtin(7894900011517)).toMatchObject({ normalized: "7894900011517", status: "valid" });
+    expect(normalizeGtin(7894900011.517).status).toBe("invalid_format");
+  });
+
+  it("restores leading zeros dropped by Excel", () => {
+    expect(normalizeGtin("12345678905")).toMatchObject({ normalized: "0012345678905", status: "valid" });
+    expect(normalizeGtin("1234565")).toMatchObject({ normalized: "01234565", status: "valid" });
+  });
+
+  it("doesn't turn short internal codes into GTINs", () => {
+    expect(normalizeGtin("17").status).toBe("invalid_length");
+    expect(normalizeGtin("123457").status).toBe("valid");
+    expect(normalizeGtin("12345").status).toBe("invalid_length");
+    expect(normalizeGtin("234567899").status).toBe("invalid_length");
+  });
+
+  it("tells placeholders, bad formats and bad lengths apart", () => {
+    expect(normalizeGtin("").status).toBe("empty");
+    expect(normalizeGtin("SEM GTIN").status).toBe("placeholder");
+    expect(normalizeGtin("0000000000000").status).toBe("placeholder");
+    expect(normalizeGtin("ABC123").status).toBe("invalid_format");
+    expect(normalizeGtin("789490001151700").status).toBe("invalid_length");
+    expect(normalizeGtin("7894900011518").status).toBe("invalid_check_digit");
+  });
+});
+
+describe("toGtin14", () => {
+  it("gives GTINs of different lengths the same key", () => {
+    expect(toGtin14("012345678905")).toBe(toGtin14("0012345678905"));
+  });
+});
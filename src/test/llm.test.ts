@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from "vitest";
+import { complete, completeJson, LlmError, mockProvider, type LlmProvider } from "../../supabase/functions/_shared/llm.ts";
+import { sampleFromSchema, validateJson, type JsonSchema } from "../../supabase/functions/_shared/jsonSchema.ts";
+
+const schema: JsonSchema = {
+  type: "object",
+  required: ["titulo", "ncm", "tags", "confianca"],
+  properties: {
+    titulo: { type: "string", minLength: 3 },
+    ncm: { type: "string", pattern: "^\\d{4}\\.\\d{2}\\.\\d{2}$" },
+    tags: { type: "array", minItems: 2, items: { type: "string", pattern: "^[a-z]+$" } },
+    confianca: { type: "string", enum: ["alta", "media", "baixa"] },
+    opcional: { type: "string" },
+  },
+};
+
+const failingProvider = (error: Error): LlmProvider & { calls: number } => {
+  const provider = {
+    name: "openai" as const,
+    model: "test",
+    calls: 0,
+    complete: () => {
+      provider.calls++;
+      return Promise.reject(error);
+    },
+  };
+  return provider;
+};
+
+describe("mockProvider", () => {
+  it("answers JSON requests with an object the schema accepts", async () => {
+    const { data, result } = await completeJson<Record<string, unknown>>(
+      mockProvider(schema),
+      { messages: [{ role: "user", content: "Enriqueça o produto" }] },
+      schema,
+    );
+
+    expect(validateJson(data, schema)).toEqual([]);
+    expect(data).not.toHaveProperty("opcional");
+    expect(result.provider).toBe("mock");
+    expect(result.usage).toEqual({ promptTokens: 0, completionTokens: 0 });
+  });
+
+  it("echoes the last message of text requests and returns an image when asked", async () => {
+    const result = await complete(mockProvider(), {
+      messages: [
+        { role: "system", content: "Sistema" },
+        { role: "user", content: "Gere tags" },
+      ],
+      modalities: ["image", "text"],
+    });
+
+    expect(result.content).toBe("mock: Gere tags");
+    expect(result.images).toHaveLength(1);
+    expect(result.images[0]).toMatch(/^data:image\/png;base64,/);
+  });
+});
+
+describe("sampleFromSchema", () => {
+  it("follows string patterns", () => {
+    expect(sampleFromSchema({ type: "string", pattern: "^\\d{8}$" })).toBe("00000000");
+    expect(sampleFromSchema({ type: "string", pattern: "^[A-Z]{2}$" })).toBe("AA");
+    expect(sampleFromSchema({ type: "string", pattern: "^\\d{4}\\.\\d{2}\\.\\d{2}$" })).toBe("0000.00.00");
+    expect(sampleFromSchema({ type: "string", pattern: "^(sim|nao)$" })).toBe("sim");
+  });
+
+  it("keeps the shortest string when the pattern allows it", () => {
+    expect(sampleFromSchema({ type: "string", pattern: "^(\\d{8})?$" })).toBe("");
+    expect(sampleFromSchema({ type: "string", minLength: 2 })).toBe("xx");
+  });
+});
+
+describe("retries", () => {
+  it("fails at once as retryable when Retry-After is longer than the maximum wait", async () => {
+    const provider = failingProvider(new LlmError("Falha na API openai: 429", 429, true, 60_000));
+
+    await expect(complete(provider, { messages: [] }, { retries: 2 })).rejects.toMatchObject({
+      status: 429,
+      retryable: true,
+    });
+    expect(provider.calls).toBe(1);
+  });
+
+  it("retries with a short Retry-After and gives up after the last attempt", async () => {
+    vi.useFakeTimers();
+    try {
+      const provider = failingProvider(new LlmError("Falha na API openai: 503", 503, true, 1_000));
+      const call = complete(provider, { messages: [] }, { retries: 2 });
+      const assertion = expect(call).rejects.toBeInstanceOf(LlmError);
+      await vi.runAllTimersAsync();
+      await assertion;
+      expect(provider.calls).toBe(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("does not retry errors that are not retryable", async () => {
+    const provider = failingProvider(new LlmError("Falha na API openai: 401", 401));
+
+    await expect(complete(provider, { messages: [] })).rejects.toThrow("401");
+    expect(provider.calls).toBe(1);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { parseMeasureNumber, parseMeasurements, proposeMeasurements } from "../core/measurements";
+
+describe("parseMeasureNumber", () => {
+  it("reads decimals, thousands and fractions", () => {
+    expect(parseMeasureNumber("1,5")).toBe(1.5);
+    expect(parseMeasureNumber("1.000")).toBe(1000);
+    expect(parseMeasureNumber("1.234,5")).toBe(1234.5);
+    expect(parseMeasureNumber("3/16")).toBe(0.1875);
+    expect(parseMeasureNumber("1 1/2")).toBe(1.5);
+    expect(parseMeasureNumber("1/0")).toBeNull();
+  });
+});
+
+describe("parseMeasurements", () => {
+  it("converts weights and volumes to kg and L", () => {
+    const parsed = parseMeasurements("Café Torrado 500g Pacote");
+    expect(parsed.mass).toMatchObject({ kind: "mass", value: 0.5, unit: "kg" });
+    expect(parseMeasurements("Detergente 500 ml").volume).toMatchObject({ value: 0.5, unit: "L" });
+    expect(parseMeasurements("Óleo 1,5L").volume?.value).toBe(1.5);
+  });
+
+  it("reads dimensions with one unit for every side", () => {
+    const { dimensions } = parseMeasurements("Caixa Organizadora 30 x 20 x 10 cm");
+    expect(dimensions.map(d => d.value)).toEqual([30, 20, 10]);
+    expect(dimensions.every(d => d.unit === "cm")).toBe(true);
+  });
+
+  it("reads inch fractions and metric threads", () => {
+    expect(parseMeasurements('Parafuso 3/16 x 2"').dimensions.map(d => d.value)).toEqual([0.1875 * 2.54, 2 * 2.54]);
+    expect(parseMeasurements("Parafuso M8 x 50mm").dimensions.map(d => d.value)).toEqual([0.8, 5]);
+  });
+
+  it("keeps the longest length", () => {
+    expect(parseMeasurements("Cabo Flexível 2,5mm 100m").length?.value).toBe(10000);
+  });
+
+  it("ignores units glued to words and codes", () => {
+    const parsed = parseMeasurements("Modelo X500GT Kgb");
+    expect(parsed.mass).toBeUndefined();
+    expect(parsed.dimensions).toEqual([]);
+  });
+});
+
+describe("proposeMeasurements", () => {
+  it("proposes empty weight columns only", () => {
+    const data = [
+      { "Descrição": "Arroz 5kg", "Peso Líquido": "", "Peso Bruto (Kg)": "" },
+      { "Descrição": "Feijão 1kg", "Peso Líquido": "0,9", "Peso Bruto (Kg)": "" }
+    ];
+    const proposals = proposeMeasurements(data, Object.keys(data[0]));
+    expect(proposals.map(p => [p.row, p.column, p.value])).toEqual([
+      [0, "Peso Líquido", "5"],
+      [0, "Peso Bruto (Kg)", "5"],
+      [1, "Peso Bruto (Kg)", "1"]
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { applyNcmVerification, formatNcm, verifyNcm } from "../../supabase/functions/_shared/ncm.ts";
+import { fakeSupabase } from "./fakeSupabase";
+
+const item = (codigo: string, descricao: string, data_fim: string | null = null) =>
+  ({ codigo, descricao, tipo: "ncm", data_inicio: null, data_fim });
+
+const ncmCache = [
+  item("84", "Reatores nucleares, caldeiras, máquinas"),
+  item("8467", "Ferramentas pneumáticas, hidráulicas ou com motor"),
+  item("846721", "Furadeiras de qualquer tipo"),
+  item("84672100", "Furadeiras de qualquer tipo, inclusive as perfuratrizes rotativas"),
+  item("84672200", "Serras", "2020-12-31"),
+  item("84672900", "Outras ferramentas com motor elétrico"),
+];
+
+// buscar_ncm stand-in: items whose description has the term, most relevant first
+const buscarNcm = ({ termo }: Record<string, unknown>) =>
+  ncmCache
+    .filter((row) => row.descricao.toLowerCase().includes(String(termo).toLowerCase()))
+    .map((row) => ({ codigo: row.codigo, tipo: row.tipo, relevancia: 0.5 }));
+
+const client = () => fakeSupabase({ ncm_cache: ncmCache.map((row) => ({ ...row })) }, { buscar_ncm: buscarNcm }).client;
+
+afterEach(() => vi.restoreAllMocks());
+
+describe("verifyNcm", () => {
+  it("leaves the code unverified while the table is empty", async () => {
+    const result = await verifyNcm(fakeSupabase().client, { codigo: "8467.21.00" }, {});
+    expect(result).toMatchObject({ status: "nao_verificado", codigo: null, motivos: ["Tabela NCM não sincronizada"] });
+  });
+
+  it("returns null without a suggested code", async () => {
+    expect(await verifyNcm(client(), { codigo: "" }, {})).toBeNull();
+  });
+
+  it("accepts an existing item in force, formatted", async () => {
+    const result = await verifyNcm(client(), { codigo: "84672100" }, {});
+    expect(result).toMatchObject({ status: "valido", codigo: "8467.21.00", problemas: [] });
+  });
+
+  it("replaces a code that doesn't exist with the best item under its closest ancestor", async () => {
+    const result = await verifyNcm(client(), { codigo: "8467.21.99", descricao: "Furadeiras" }, { nome: "Furadeira de impacto" });
+    expect(result).toMatchObject({
+      status: "substituido",
+      codigo: "8467.21.00",
+      problemas: ["inexistente"],
+      motivos: ["NCM 8467.21.99 não existe na tabela oficial"],
+    });
+  });
+
+  it("replaces an expired item and never offers another expired one", async () => {
+    const result = await verifyNcm(client(), { codigo: "8467.22.00", descricao: "ferramentas" }, { nome: "Serra circular" });
+    expect(result?.problemas).toEqual(["fora_vigencia"]);
+    expect(result?.motivos[0]).toBe("NCM 8467.22.00 fora de vigência desde 31/12/2020");
+    expect(result?.status).toBe("substituido");
+    expect(result?.codigo).toBe("8467.29.00");
+    expect(result?.alternativas.map((a) => a.codigo)).not.toContain("8467.22.00");
+  });
+
+  it("rejects a heading and leaves unranked items as alternatives only", async () => {
+    const result = await verifyNcm(client(), { codigo: "8467", descricao: "xyz" }, {});
+    expect(result).toMatchObject({ status: "invalido", codigo: null, problemas: ["nao_folha"] });
+    expect(result?.alternativas.map((a) => a.codigo)).toEqual(["8467.21.00", "8467.29.00"]);
+  });
+
+  it("is invalid when no ancestor exists", async () => {
+    const result = await verifyNcm(client(), { codigo: "9999.99.99" }, {});
+    expect(result).toMatchObject({ status: "invalido", problemas: ["inexistente"], alternativas: [] });
+  });
+});
+
+describe("applyNcmVerification", () => {
+  const verification = {
+    codigo_original: "8467.21.99",
+    codigo: "8467.21.00",
+    descricao: "Furadeiras",
+    problemas: [],
+    motivos: ["NCM 8467.21.99 não existe na tabela oficial"],
+    alternativas: [],
+  };
+
+  it("lowers the confidence one step on a replacement", () => {
+    const applied = applyNcmVerification({ codigo: "8467.21.99", confianca: "alta", observacao: "Pelo nome." }, {
+      ...verification,
+      status: "substituido",
+    });
+    expect(applied).toEqual({
+      codigo: "8467.21.00",
+      descricao: "Furadeiras",
+      confianca: "media",
+      observacao: "Pelo nome. Substitui 8467.21.99: NCM 8467.21.99 não existe na tabela oficial.",
+    });
+    expect(applyNcmVerification({ confianca: "media" }, { ...verification, status: "substituido" }).confianca).toBe("baixa");
+  });
+
+  it("clears an invalid code with low confidence", () => {
+    const applied = applyNcmVerification({ codigo: "9999", confianca: "alta" }, { ...verification, status: "invalido" });
+    expect(applied).toMatchObject({ codigo: "", confianca: "baixa" });
+  });
+
+  it("keeps the suggestion when valid or unverified", () => {
+    const sugestao = { codigo: "84672100", confianca: "alta" };
+    expect(applyNcmVerification(sugestao, { ...verification, status: "valido" })).toEqual({ codigo: "8467.21.00", confianca: "alta" });
+    expect(applyNcmVerification(sugestao, { ...verification, status: "nao_verificado" })).toBe(sugestao);
+  });
+});
+
+describe("formatNcm", () => {
+  it("formats 8-digit codes only", () => {
+    expect(formatNcm("84672100")).toBe("8467.21.00");
+    expect(formatNcm("8467")).toBe("8467");
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { importNfeFiles, mergeNfeIntoRows, nfeProductsToRows, parseNfeXml } from "../core/nfeImport";
+
+const item = (n: number, fields: { code: string; name: string; ean: string; price: string }) => `
+  <det nItem="${n}">
+    <prod>
+      <cProd>${fields.code}</cProd>
+      <cEAN>${fields.ean}</cEAN>
+      <xProd>${fields.name}</xProd>
+      <NCM>09012100</NCM>
+      <CEST>1709600</CEST>
+      <uCom>UN</uCom>
+      <vUnCom>${fields.price}</vUnCom>
+      <cEANTrib>${fields.ean}</cEANTrib>
+    </prod>
+  </det>`;
+
+const nfe = (number: string, issuedAt: string, items: string, id = `NFe3524${number}`) => `<?xml version="1.0" encoding="UTF-8"?>
+<nfeProc xmlns="http://www.portalfiscal.inf.br/nfe" versao="4.00">
+  <NFe>
+    <infNFe Id="${id}" versao="4.00">
+      <ide><nNF>${number}</nNF><dhEmi>${issuedAt}</dhEmi></ide>
+      <emit><CNPJ>12345678000190</CNPJ><xNome>Torrefação Exemplo Ltda</xNome><xFant>Café Exemplo</xFant></emit>
+      ${items}
+    </infNFe>
+  </NFe>
+</nfeProc>`;
+
+const first = nfe("100", "2026-01-10T10:00:00-03:00",
+  item(1, { code: "CAF500", name: "Café Torrado 500g", ean: "7894900011517", price: "18.50" }) +
+  item(2, { code: "CAF250", name: "Café Torrado 250g", ean: "SEM GTIN", price: "10.00" }));
+const second = nfe("101", "2026-02-10T10:00:00-03:00",
+  item(1, { code: "CAF250", name: "Café Torrado 250g", ean: "SEM GTIN", price: "11.20" }));
+
+describe("parseNfeXml", () => {
+  it("reads the items and the issuer of an nfeProc", () => {
+    const { key, products } = parseNfeXml(first, "nota.xml");
+    expect(key).toBe("NFe3524100");
+    expect(products).toHaveLength(2);
+    expect(products[0]).toMatchObject({
+      code: "CAF500",
+      name: "Café Torrado 500g",
+      ncm: "09012100",
+      cest: "1709600",
+      gtin: "7894900011517",
+      unit: "UN",
+      unitPrice: 18.5,
+      supplierName: "Café Exemplo",
+      supplierCnpj: "12345678000190",
+      invoiceNumber: "100",
+      sourceFile: "nota.xml"
+    });
+  });
+
+  it("clears GTIN placeholders", () => {
+    expect(parseNfeXml(first, "nota.xml").products[1].gtin).toBe("");
+  });
+
+  it("rejects broken XML and other documents", () => {
+    expect(() => parseNfeXml("<nfe", "a.xml")).toThrow("XML inválido");
+    expect(() => parseNfeXml("<pedido/>", "a.xml")).toThrow("O arquivo não é uma NF-e");
+  });
+});
+
+describe("importNfeFiles", () => {
+  it("collapses repeated items and keeps the latest price", () => {
+    const result = importNfeFiles([
+      { name: "b.xml", text: second },
+      { name: "a.xml", text: first },
+      { name: "a-copia.xml", text: first },
+      { name: "c.xml", text: "<x" }
+    ]);
+    expect(result).toMatchObject({ documents: 2, items: 3, duplicates: 1 });
+    expect(result.products.find(p => p.code === "CAF250")?.unitPrice).toBe(11.2);
+    expect(result.errors).toEqual([{ file: "c.xml", message: "XML inválido" }]);
+  });
+});
+
+describe("nfeProductsToRows", () => {
+  it("gives a supplier code as ours only to the first item using it", () => {
+    const { products } = parseNfeXml(first, "nota.xml");
+    const otherSupplier = { ...products[1], supplierCnpj: "98765432000110", supplierName: "Ervateira", name: "Chá Mate 250g" };
+    const { data } = nfeProductsToRows([...products, otherSupplier]);
+
+    expect(data.map(row => row["Código"])).toEqual(["CAF500", "CAF250", ""]);
+    expect(data[2]).toMatchObject({ "Código no Fornecedor": "CAF250", "CNPJ Fornecedor": "98765432000110" });
+  });
+});
+
+describe("mergeNfeIntoRows", () => {
+  it("updates rows matched by GTIN and appends the rest", () => {
+    const { products } = parseNfeXml(first, "nota.xml");
+    const data = [{ "Código": "CAF500", "Descrição": "Café 500g", "GTIN": "7894900011517", "NCM": "", "Preço de Custo": 15 }];
+    const result = mergeNfeIntoRows(data, Object.keys(data[0]), products);
+
+    expect(result).toMatchObject({ created: 1, updated: 1 });
+    expect(result.data[0]).toMatchObject({ "Código": "CAF500", "NCM": "09012100", "Preço de Custo": 18.5, "Código no Fornecedor": "CAF500" });
+    // The supplier's code is free, so the new row takes it as ours
+    expect(result.data[1]).toMatchObject({ "Código": "CAF250", "Descrição": "Café Torrado 250g" });
+    expect(result.columns).toContain("Nota Fiscal");
+  });
+
+  it("never takes an own code already in use", () => {
+    const { products } = parseNfeXml(second, "nota.xml");
+    const data = [{ "Código": "CAF250", "Descrição": "Outro produto", "GTIN": "" }];
+    const result = mergeNfeIntoRows(data, Object.keys(data[0]), products);
+    expect(result.created).toBe(1);
+    expect(result.data[1]["Código"]).toBe("");
+    expect(result.data[1]["Código no Fornecedor"]).toBe("CAF250");
+  });
+});
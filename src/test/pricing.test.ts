@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { createPricingRule, findPricingRule, parsePrice, priceFromRule, roundPrice } from "../core/pricing";
+
+describe("roundPrice", () => {
+  it("rounds up to the chosen ending", () => {
+    expect(roundPrice(12.31, "x90")).toBe(12.9);
+    expect(roundPrice(12.31, "x99")).toBe(12.99);
+    expect(roundPrice(12.31, "integer")).toBe(13);
+    expect(roundPrice(12.314, "none")).toBe(12.31);
+  });
+
+  it("moves to the next unit past the ending", () => {
+    expect(roundPrice(12.95, "x90")).toBe(13.9);
+    expect(roundPrice(12.9, "x90")).toBe(12.9);
+    expect(roundPrice(13, "integer")).toBe(13);
+  });
+
+  it("is not thrown off by float error", () => {
+    expect(roundPrice(0.1 + 0.2, "none")).toBe(0.3);
+    expect(roundPrice(19.9 * 3, "x90")).toBe(59.9);
+  });
+});
+
+describe("priceFromRule", () => {
+  it("applies markup over cost and margin of the sale price", () => {
+    const markup = { ...createPricingRule(), mode: "markup" as const, value: 50, rounding: "none" as const };
+    const margin = { ...markup, mode: "margin" as const, value: 50 };
+    expect(priceFromRule(10, markup)).toBe(15);
+    expect(priceFromRule(10, margin)).toBe(20);
+  });
+
+  it("gives null for margins that can't be reached", () => {
+    expect(priceFromRule(10, { ...createPricingRule(), mode: "margin", value: 100 })).toBeNull();
+  });
+});
+
+describe("parsePrice", () => {
+  it("reads Brazilian and plain numbers", () => {
+    expect(parsePrice("R$ 1.234,56")).toBe(1234.56);
+    expect(parsePrice("12.90")).toBe(12.9);
+    expect(parsePrice("1.000")).toBe(1000);
+    expect(parsePrice(7.5)).toBe(7.5);
+    expect(parsePrice("")).toBeNull();
+  });
+});
+
+describe("findPricingRule", () => {
+  const all = createPricingRule();
+  const clothing = createPricingRule("category", "Vestuário");
+  const shirts = createPricingRule("category", "Vestuário > Camisetas");
+  const brand = createPricingRule("brand", "Acme");
+
+  it("prefers brand, then the most specific category, then all", () => {
+    const rules = [all, clothing, shirts, brand];
+    expect(findPricingRule(rules, { brand: "ACME", category: "Vestuário > Camisetas" })).toBe(brand);
+    expect(findPricingRule(rules, { category: "Vestuário > Camisetas > Polo" })).toBe(shirts);
+    expect(findPricingRule(rules, { category: "Vestuário > Calças" })).toBe(clothing);
+    expect(findPricingRule(rules, { category: "Calçados" })).toBe(all);
+  });
+
+  it("matches whole category segments only", () => {
+    expect(findPricingRule([all, shirts], { category: "Vestuário > Camisetas Polo" })).toBe(all);
+  });
+
+  it("skips disabled rules", () => {
+    expect(findPricingRule([all, { ...brand, enabled: false }], { brand: "Acme" })).toBe(all);
+  });
+});
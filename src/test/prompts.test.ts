@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { fillPrompt, PromptError, resolvePrompt } from "../../supabase/functions/_shared/prompts.ts";
+import prompts from "../../supabase/functions/_shared/prompts.json";
+
+describe("resolvePrompt", () => {
+  it("uses the current version and its model by default", () => {
+    const prompt = resolvePrompt("enriquecer_produto");
+    const current = prompts.enriquecer_produto.versions.find((v) => v.version === prompts.enriquecer_produto.current);
+    expect(prompt).toMatchObject({ version: current?.version, system: current?.system, model: current?.model, custom: false });
+  });
+
+  it("resolves a pinned version and rejects one that doesn't exist", () => {
+    expect(resolvePrompt("gerar_tags", { version: 1 }).version).toBe(1);
+    expect(() => resolvePrompt("gerar_tags", { version: 99 })).toThrow(PromptError);
+    expect(() => resolvePrompt("gerar_tags", { version: 99 })).toThrow("Versão 99 do prompt gerar_tags não existe");
+  });
+
+  it("keeps the pinned version when the preset brings its own system prompt", () => {
+    const prompt = resolvePrompt("corrigir_texto", { version: 1, system: "  Corrija só a ortografia.  " });
+    expect(prompt).toMatchObject({ version: 1, system: "Corrija só a ortografia.", custom: true });
+    expect(resolvePrompt("corrigir_texto", { system: "   " }).custom).toBe(false);
+  });
+
+  it("rejects an oversized custom prompt", () => {
+    expect(() => resolvePrompt("corrigir_texto", { system: "x".repeat(20_001) })).toThrow(PromptError);
+  });
+
+  it("returns the picture styles of the image prompt", () => {
+    expect(Object.keys(resolvePrompt("gerar_imagem").styles)).toEqual(["catalog", "lifestyle", "minimal"]);
+    expect(resolvePrompt("gerar_tags").styles).toEqual({});
+  });
+});
+
+describe("fillPrompt", () => {
+  it("replaces known placeholders and leaves JSON examples alone", () => {
+    expect(fillPrompt('{produto}, {estilo} {"chave": 1} {outro}', { produto: "Furadeira", estilo: "catálogo" }))
+      .toBe('Furadeira, catálogo {"chave": 1} {outro}');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { looksLikeHtml, sanitizeHtml } from "../core/richDescription";
+
+describe("sanitizeHtml", () => {
+  it("keeps allowed formatting", () => {
+    expect(sanitizeHtml("<p>Texto <strong>forte</strong></p><ul><li>Item</li></ul>"))
+      .toBe("<p>Texto <strong>forte</strong></p><ul><li>Item</li></ul>");
+  });
+
+  it("drops scripts, styles and embeds with their content", () => {
+    const html = sanitizeHtml('<p>a</p><script>alert(1)</script><style>p{}</style><iframe src="x">y</iframe>');
+    expect(html).toBe("<p>a</p>");
+  });
+
+  it("drops event handlers and other attributes", () => {
+    const html = sanitizeHtml('<p onclick="alert(1)" style="color:red">a</p><img src=x onerror=alert(1)>');
+    expect(html).not.toMatch(/onclick|onerror|style|<img/i);
+    expect(html).toContain("<p>a</p>");
+  });
+
+  it("keeps only http(s) and mailto links", () => {
+    expect(sanitizeHtml('<a href="https://loja.com.br">loja</a>')).toContain('href="https://loja.com.br"');
+    for (const href of ["javascript:alert(1)", "JaVaScRiPt:alert(1)", "java&#115;cript:alert(1)", "java\tscript:alert(1)", "data:text/html,x"]) {
+      const html = sanitizeHtml(`<a href="${href}">x</a>`);
+      expect(html).not.toMatch(/href|javascript|data:/i);
+      expect(html).toContain("x");
+    }
+  });
+
+  it("doesn't let malformed markup through", () => {
+    for (const input of ['<scr<script>ipt>alert(1)</script>', '<svg><script>alert(1)</script></svg>', '<p title="a>b" onmouseover=alert(1)>x', '<<img src=x onerror=alert(1)>']) {
+      const html = sanitizeHtml(input);
+      expect(html).not.toMatch(/<script|<svg|<img|onerror|onmouseover/i);
+    }
+  });
+
+  it("closes tags left open", () => {
+    expect(sanitizeHtml("<p><strong>a")).toBe("<p><strong>a</strong></p>");
+  });
+
+  it("keeps table spans", () => {
+    expect(sanitizeHtml('<table><tr><td colspan="2" class="x">a</td></tr></table>')).toContain('<td colspan="2">a</td>');
+  });
+});
+
+describe("looksLikeHtml", () => {
+  it("tells markup from plain text", () => {
+    expect(looksLikeHtml("<p>a</p>")).toBe(true);
+    expect(looksLikeHtml("Peso < 2 kg")).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { compareTexts, findSimilarGroups, normalizeSimilarityText } from "../core/similarity";
+import type { SimilarityMetric } from "../core/types";
+
+// Seeded generator so recall doesn't change between runs
+const random = (seed: number) => () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+const syllables = "ba be bi bo bu ca ce ci co cu da de di do du fa fe fi fo fu ga ge gi go gu la le li lo lu ma me mi mo mu na ne ni no nu pa pe pi po pu ra re ri ro ru sa se si so su ta te ti to tu".split(" ");
+
+/**
+ * Product-like names, every fourth followed by a near copy: a few typos or
+ * its first two words. Connectors, when given, go between the words the way
+ * "de", "com" and "para" do in real names. Returns the texts and the planted pairs.
+ */
+const plantDuplicates = (count: number, connectors: string[] = []) => {
+  const next = random(11);
+  const pick = <T>(items: T[]) => items[Math.floor(next() * items.length)];
+  const word = () => Array.from({ length: 2 + Math.floor(next() * 3) }, () => pick(syllables)).join("");
+  const vocabulary = Array.from({ length: 3000 }, word);
+  const typos = (text: string, edits: number) => {
+    let result = text;
+    for (let k = 0; k < edits; k++) {
+      const i = Math.floor(next() * result.length);
+      result = result.slice(0, i) + "xz"[k % 2] + result.slice(i + 1);
+    }
+    return result;
+  };
+
+  const texts: string[] = [];
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < count; i++) {
+    const text = Array.from({ length: 4 + Math.floor(next() * 3) }, (_, k) =>
+      (k > 0 && connectors.length > 0 ? `${pick(connectors)} ` : "") + pick(vocabulary)).join(" ");
+    texts.push(text);
+    if (i % 4 === 0) {
+      pairs.push([texts.length - 1, texts.length]);
+      texts.push(next() < 0.5 ? typos(text, 1 + Math.floor(next() * 6)) : text.split(" ").slice(0, connectors.length > 0 ? 3 : 2).join(" "));
+    }
+  }
+  return { texts, pairs };
+};
+
+describe("compareTexts", () => {
+  it("scores identical texts 1 and unrelated texts low", () => {
+    const metrics: SimilarityMetric[] = ["jaccard", "trigram", "levenshtein", "tokenSet"];
+    metrics.forEach(metric => {
+      expect(compareTexts("Parafuso Sextavado M8", "parafuso sextavado m8", metric)).toBe(1);
+      expect(compareTexts("Parafuso Sextavado M8", "Café Torrado 500g", metric)).toBeLessThan(0.3);
+    });
+  });
+
+  it("scores contained word sets fully under tokenSet", () => {
+    expect(compareTexts("Parafuso", "Parafuso Sextavado Inox M8", "tokenSet")).toBe(1);
+  });
+});
+
+describe("findSimilarGroups", () => {
+  it("groups identical and near-identical texts", () => {
+    const groups = findSimilarGroups(
+      ["Café Torrado 500g", "Cafe Torrado 500g", "Açúcar Refinado 1kg", "CAFÉ TORRADO 500G", "Sal"],
+      { metric: "trigram", threshold: 0.8 }
+    );
+    expect(groups).toHaveLength(1);
+    expect(groups[0].rows).toEqual([0, 1, 3]);
+  });
+
+  it("ignores texts too short to compare", () => {
+    expect(findSimilarGroups(["Sal", "Sal", "sal"], { metric: "trigram", threshold: 0.8 })).toEqual([]);
+  });
+
+  it("never goes below the minimum threshold", () => {
+    const texts = ["Mesa de madeira", "Cadeira de ferro"];
+    expect(findSimilarGroups(texts, { metric: "trigram", threshold: 0 })).toEqual([]);
+  });
+
+  const { texts, pairs } = plantDuplicates(1500);
+  const settings: [SimilarityMetric, number][] = [["trigram", 0.8], ["trigram", 0.6], ["levenshtein", 0.8], ["jaccard", 0.5], ["tokenSet", 0.8]];
+
+  it.each(settings)("finds planted duplicates with %s at %s", (metric, threshold) => {
+    const groups = findSimilarGroups(texts, { metric, threshold });
+    const groupOf = new Map<number, number>();
+    groups.forEach((group, index) => group.rows.forEach(row => groupOf.set(row, index)));
+
+    // Only pairs the metric itself scores above the threshold count
+    const due = pairs.filter(([a, b]) => compareTexts(texts[a], texts[b], metric) >= threshold);
+    const found = due.filter(([a, b]) => groupOf.has(a) && groupOf.get(a) === groupOf.get(b));
+    expect(due.length).toBeGreaterThan(50);
+    expect(found.length / due.length).toBeGreaterThanOrEqual(0.9);
+
+    // Every member matches its group's first text
+    groups.forEach(group => group.rows.slice(1).forEach(row => {
+      expect(compareTexts(texts[group.rows[0]], texts[row], metric)).toBeGreaterThanOrEqual(threshold);
+    }));
+  });
+});
+
+describe("findSimilarGroups with tokenSet", () => {
+  const connectors: [string, string[]][] = [
+    ["connectors", ["de", "com", "para", "em"]],
+    ["words common to the catalog", ["tam", "cor", "ref", "novo"]],
+  ];
+
+  // 6000 texts take a few seconds, longer on a busy machine
+  it.each(connectors)("keeps its recall when every name shares the same %s", (_, words) => {
+    // Copies land far from their originals, behind many texts sharing those words
+    const planted = plantDuplicates(6000, words);
+    const next = random(7);
+    const order = planted.texts.map((_, i) => i);
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(next() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    const position = new Map(order.map((from, to) => [from, to]));
+    const texts = order.map(from => planted.texts[from]);
+    const pairs = planted.pairs.map(([a, b]) => [position.get(a)!, position.get(b)!]);
+    const groups = findSimilarGroups(texts, { metric: "tokenSet", threshold: 0.8 });
+    const groupOf = new Map<number, number>();
+    groups.forEach((group, index) => group.rows.forEach(row => groupOf.set(row, index)));
+
+    const due = pairs.filter(([a, b]) => compareTexts(texts[a], texts[b], "tokenSet") >= 0.8);
+    const found = due.filter(([a, b]) => groupOf.has(a) && groupOf.get(a) === groupOf.get(b));
+    expect(due.length).toBeGreaterThan(500);
+    expect(found.length / due.length).toBeGreaterThanOrEqual(0.95);
+  }, 20_000);
+});
+
+describe("normalizeSimilarityText", () => {
+  it("folds case, accents and spacing", () => {
+    expect(normalizeSimilarityText("  Café   TORRADO ")).toBe(normalizeSimilarityText("cafe torrado"));
+  });
+});
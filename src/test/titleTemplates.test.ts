@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { createTitleTemplate, findTitleTemplate, getTemplateError, renderTitle, renderTitles } from "../core/titleTemplates";
+
+const columns = ["Nome", "Categoria", "Tipo", "Marca", "Modelo", "Cor", "Tamanho"];
+
+describe("findTitleTemplate", () => {
+  const general = createTitleTemplate();
+  const clothing = createTitleTemplate("Vestuário");
+  const shirts = createTitleTemplate("Vestuário > Camisetas");
+  const fashion = createTitleTemplate("Moda");
+  const templates = [general, clothing, shirts, fashion];
+
+  it("prefers the template naming the most category levels", () => {
+    expect(findTitleTemplate(templates, "Vestuário > Camisetas > Polo")).toBe(shirts);
+    expect(findTitleTemplate(templates, "Vestuário > Calças")).toBe(clothing);
+    expect(findTitleTemplate(templates, "Eletrônicos")).toBe(general);
+  });
+
+  it("matches whole levels only", () => {
+    expect(findTitleTemplate(templates, "Casa > Acomodação")).toBe(general);
+    expect(findTitleTemplate(templates, "Vestuário > Camisetas Polo")).toBe(clothing);
+  });
+
+  it("skips disabled templates", () => {
+    expect(findTitleTemplate([general, { ...shirts, enabled: false }], "Vestuário > Camisetas")).toBe(general);
+  });
+});
+
+describe("renderTitle", () => {
+  const template = { ...createTitleTemplate(), fieldCasing: { Marca: "upper" as const } };
+  const row = { Nome: "", Tipo: "Camiseta", Marca: "Acme", Modelo: "Basic", Cor: "Azul", Tamanho: "" };
+
+  it("drops empty optional parts and applies field casing", () => {
+    expect(renderTitle(row, template, columns)).toEqual({ title: "Camiseta ACME Basic Azul", missing: ["Tamanho"], incomplete: false });
+  });
+
+  it("marks titles missing a required field", () => {
+    expect(renderTitle({ ...row, Modelo: "" }, template, columns).incomplete).toBe(true);
+  });
+
+  it("drops optional parts before cutting at the maximum length", () => {
+    expect(renderTitle({ ...row, Tamanho: "GG" }, { ...template, maxLength: 22 }, columns).title).toBe("Camiseta ACME Basic");
+  });
+});
+
+describe("renderTitles", () => {
+  it("skips incomplete and unchanged titles", () => {
+    const data = [
+      { Nome: "Velho", Tipo: "Camiseta", Marca: "Acme", Modelo: "Basic" },
+      { Nome: "Velho", Tipo: "Camiseta", Marca: "", Modelo: "Basic" },
+      { Nome: "Camiseta Acme Basic", Tipo: "Camiseta", Marca: "Acme", Modelo: "Basic" }
+    ];
+    const previews = renderTitles(data, columns, [createTitleTemplate()]);
+    expect(previews.map(p => [p.row, p.after])).toEqual([[0, "Camiseta Acme Basic"]]);
+  });
+});
+
+describe("getTemplateError", () => {
+  it("requires fields outside brackets to be columns", () => {
+    expect(getTemplateError({ ...createTitleTemplate(), template: "{Tipo} {Voltagem}" }, columns)).toMatch(/Voltagem/);
+    expect(getTemplateError({ ...createTitleTemplate(), template: "{Tipo} [{Voltagem}]" }, columns)).toBeNull();
+  });
+});
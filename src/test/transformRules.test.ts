@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyTransformRules,
+  getRuleError,
+  parseLookupTable,
+  previewTransformRules
+} from "../core/transformRules";
+import type { ColumnConfig, ConcatRule, ConditionalFillRule, LookupRule, ReplaceRule, TrimCaseRule } from "../core/types";
+
+const replace = (column: string, pattern: string, replacement: string): ReplaceRule =>
+  ({ id: `replace-${column}`, enabled: true, type: "replace", column, pattern, replacement, ignoreCase: true });
+const trimCase = (column: string, casing: TrimCaseRule["casing"]): TrimCaseRule =>
+  ({ id: `case-${column}`, enabled: true, type: "trim_case", column, trim: true, casing });
+const concat = (column: string, sources: string[]): ConcatRule =>
+  ({ id: `concat-${column}`, enabled: true, type: "concat", column, sources, separator: " - " });
+const fill = (when: ConditionalFillRule["when"], column: string, value: string, overwrite = false): ConditionalFillRule =>
+  ({ id: `fill-${column}`, enabled: true, type: "conditional_fill", when, column, value, overwrite });
+const lookup = (source: string, column: string, table: Record<string, string>, keepUnmatched = true): LookupRule =>
+  ({ id: `lookup-${column}`, enabled: true, type: "lookup", source, column, table, keepUnmatched });
+
+describe("applyTransformRules", () => {
+  const data = [{ Nome: "  camiseta   POLO azul ", Marca: "acme", Titulo: "", Cor: "" }];
+
+  it("runs rules in list order, each on the output of the previous", () => {
+    const rules = [trimCase("Nome", "title"), replace("Nome", "azul", "Azul Royal"), concat("Titulo", ["Marca", "Nome"])];
+    expect(applyTransformRules(data, rules).data[0].Titulo).toBe("acme - Camiseta Polo Azul Royal");
+  });
+
+  it("gives a different result in another order", () => {
+    const rules = [concat("Titulo", ["Marca", "Nome"]), trimCase("Nome", "title"), replace("Nome", "azul", "Azul Royal")];
+    expect(applyTransformRules(data, rules).data[0].Titulo).toBe("acme - camiseta   POLO azul");
+  });
+
+  it("keeps small words and codes in title case", () => {
+    const title = applyTransformRules([{ Nome: "CAMISA DE ALGODÃO 110V" }], [trimCase("Nome", "title")]);
+    expect(title.data[0].Nome).toBe("Camisa de Algodão 110V");
+    const sentence = applyTransformRules([{ Nome: "CAMISA DE ALGODÃO" }], [trimCase("Nome", "sentence")]);
+    expect(sentence.data[0].Nome).toBe("Camisa de algodão");
+  });
+
+  it("counts only the cells that change and leaves the input untouched", () => {
+    const result = applyTransformRules(data, [trimCase("Marca", "lower"), trimCase("Nome", "upper")]);
+    expect(result.changed).toBe(1);
+    expect(data[0].Nome).toBe("  camiseta   POLO azul ");
+  });
+
+  it("never writes protected columns or runs disabled rules", () => {
+    const config: Record<string, ColumnConfig> = { Marca: { action: "ignore", defaultValue: "", isProtected: true } };
+    const rules = [trimCase("Marca", "upper"), { ...trimCase("Nome", "upper"), enabled: false }];
+    expect(applyTransformRules(data, rules, config).changed).toBe(0);
+  });
+
+  it("fills on a condition, keeping filled cells unless told to overwrite", () => {
+    const rows = [{ Nome: "Camiseta Azul", Cor: "" }, { Nome: "Camiseta Azul", Cor: "Marinho" }, { Nome: "Camiseta Preta", Cor: "" }];
+    const when = { column: "Nome", condition: "contains" as const, value: "AZUL" };
+    expect(applyTransformRules(rows, [fill(when, "Cor", "Azul")]).data.map(r => r.Cor)).toEqual(["Azul", "Marinho", ""]);
+    expect(applyTransformRules(rows, [fill(when, "Cor", "Azul", true)]).data.map(r => r.Cor)).toEqual(["Azul", "Azul", ""]);
+  });
+
+  it("maps values through a lookup table", () => {
+    const rows = [{ Un: " pç " }, { Un: "CX" }, { Un: "fardo" }];
+    const table = parseLookupTable("pç = PC\ncx\tCX12");
+    expect(applyTransformRules(rows, [lookup("Un", "Un", table)]).data.map(r => r.Un)).toEqual(["PC", "CX12", "fardo"]);
+    expect(applyTransformRules(rows, [lookup("Un", "Un", table, false)]).data.map(r => r.Un)).toEqual(["PC", "CX12", ""]);
+  });
+});
+
+describe("previewTransformRules", () => {
+  it("counts changes per rule without touching the data", () => {
+    const data = [{ Nome: "a" }, { Nome: "b" }, { Nome: "B" }];
+    const rules = [trimCase("Nome", "upper"), replace("Nome", "^B$", "Bê")];
+    const preview = previewTransformRules(data, rules);
+    expect(preview.affectedRows).toBe(3);
+    expect(preview.changesByRule).toEqual({ "case-Nome": 2, "replace-Nome": 2 });
+    expect(preview.samples[0]).toEqual({ row: 0, column: "Nome", ruleId: "case-Nome", before: "a", after: "A" });
+    expect(data[0].Nome).toBe("a");
+  });
+});
+
+describe("getRuleError", () => {
+  it("reports incomplete rules", () => {
+    expect(getRuleError(replace("Nome", "(", ""))).toBe("Expressão regular inválida");
+    expect(getRuleError(replace("", "a", ""))).toBe("Escolha a coluna de destino");
+    expect(getRuleError(concat("Titulo", []))).toBe("Escolha as colunas a concatenar");
+    expect(getRuleError(replace("Nome", "a", "b"))).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  enforceQuota,
+  estimateCost,
+  meteredProvider,
+  monthStart,
+  QuotaError,
+  type UsageContext,
+} from "../../supabase/functions/_shared/usage.ts";
+import { mockProvider } from "../../supabase/functions/_shared/llm.ts";
+import { fakeSupabase } from "./fakeSupabase";
+
+vi.stubGlobal("Deno", { env: { get: () => undefined } });
+
+const month = monthStart().toISOString();
+const quota = (limits: { calls?: number | null; tokens?: number | null; cost?: number | null }, userId: string | null = "u1") => ({
+  user_id: userId,
+  monthly_calls: limits.calls ?? null,
+  monthly_tokens: limits.tokens ?? null,
+  monthly_cost_usd: limits.cost === undefined || limits.cost === null ? null : String(limits.cost),
+});
+const usage = (calls: number, tokens: number, cost: number) => ({
+  user_id: "u1",
+  month,
+  calls,
+  prompt_tokens: tokens / 2,
+  completion_tokens: tokens / 2,
+  estimated_cost_usd: String(cost),
+});
+
+const context = (tables: Parameters<typeof fakeSupabase>[0], failing: string[] = []): UsageContext => ({
+  client: fakeSupabase(tables, {}, failing).client,
+  userId: "u1",
+  functionName: "enriquecer-produto",
+});
+
+afterEach(() => vi.restoreAllMocks());
+
+describe("enforceQuota", () => {
+  it("lets calls through below every limit", async () => {
+    const tables = { ai_usage_quotas: [quota({ calls: 10, tokens: 1000, cost: 1 })], ai_usage_monthly: [usage(9, 998, 0.99)] };
+    await expect(enforceQuota(context(tables))).resolves.toBeUndefined();
+  });
+
+  it("stops at each limit, calls first", async () => {
+    const limits = { calls: 10, tokens: 1000, cost: 1 };
+    const cases: [ReturnType<typeof usage>, string][] = [
+      [usage(10, 2000, 5), "calls"],
+      [usage(3, 1000, 5), "tokens"],
+      [usage(3, 10, 1), "cost"],
+    ];
+    for (const [row, limit] of cases) {
+      const result = enforceQuota(context({ ai_usage_quotas: [quota(limits)], ai_usage_monthly: [row] }));
+      await expect(result).rejects.toBeInstanceOf(QuotaError);
+      await expect(result).rejects.toMatchObject({ limit });
+    }
+  });
+
+  it("sums every function of the month and ignores earlier months", async () => {
+    const tables = {
+      ai_usage_quotas: [quota({ calls: 10 })],
+      ai_usage_monthly: [usage(6, 0, 0), usage(4, 0, 0), { ...usage(50, 0, 0), month: "2000-01-01T00:00:00.000Z" }],
+    };
+    await expect(enforceQuota(context(tables))).rejects.toThrow("Cota mensal de IA atingida: 10 de 10 chamadas");
+  });
+
+  it("falls back to the default quota and prefers the user's own row", async () => {
+    const monthly = [usage(5, 0, 0)];
+    await expect(enforceQuota(context({ ai_usage_quotas: [quota({ calls: 5 }, null)], ai_usage_monthly: monthly })))
+      .rejects.toBeInstanceOf(QuotaError);
+    const both = [quota({ calls: 5 }, null), quota({ calls: 100 })];
+    await expect(enforceQuota(context({ ai_usage_quotas: both, ai_usage_monthly: monthly }))).resolves.toBeUndefined();
+  });
+
+  it("never limits anonymous calls, unlimited quotas or failed lookups", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const spent = { ai_usage_monthly: [usage(1000, 10_000_000, 500)] };
+    await expect(enforceQuota({ ...context({ ...spent, ai_usage_quotas: [quota({ calls: 1 })] }), userId: null }))
+      .resolves.toBeUndefined();
+    await expect(enforceQuota(context({ ...spent, ai_usage_quotas: [quota({})] }))).resolves.toBeUndefined();
+    await expect(enforceQuota(context(spent))).resolves.toBeUndefined();
+    await expect(enforceQuota(context({ ...spent, ai_usage_quotas: [quota({ calls: 1 })] }, ["ai_usage_monthly"])))
+      .resolves.toBeUndefined();
+  });
+});
+
+describe("meteredProvider", () => {
+  it("writes each call to the ledger", async () => {
+    const fake = fakeSupabase();
+    const provider = meteredProvider(mockProvider(), { client: fake.client, userId: "u1", functionName: "gerar-tags" });
+    await provider.complete({ messages: [{ role: "user", content: "Oi" }] }, new AbortController().signal);
+    expect(fake.writes).toEqual([{
+      table: "ai_usage_ledger",
+      op: "insert",
+      values: expect.objectContaining({ user_id: "u1", function_name: "gerar-tags", provider: "mock", success: true }),
+    }]);
+  });
+});
+
+describe("estimateCost", () => {
+  it("prices by the first known model name", () => {
+    expect(estimateCost(["deepseek-chat-v3", "deepseek-chat"], { promptTokens: 1_000_000, completionTokens: 1_000_000 }))
+      .toBeCloseTo(1.37);
+    expect(estimateCost(["desconhecido"], { promptTokens: 1, completionTokens: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyVariantStructure,
+  detectVariantGroups,
+  extractVariantValues,
+  formatBlingVariation,
+  parseBlingVariation
+} from "../core/variants";
+
+describe("extractVariantValues", () => {
+  it("takes color, size and voltage words off the end of the name", () => {
+    expect(extractVariantValues("Camiseta Básica Azul Marinho - GG")).toEqual({
+      base: "Camiseta Básica",
+      values: { Cor: "Azul Marinho", Tamanho: "GG" }
+    });
+    expect(extractVariantValues("Liquidificador Turbo 220V")).toEqual({ base: "Liquidificador Turbo", values: { Voltagem: "220V" } });
+    expect(extractVariantValues("Tênis Corrida Tam 42")).toEqual({ base: "Tênis Corrida", values: { Tamanho: "42" } });
+  });
+
+  it("reads a letter after a quantity as its unit, not a size", () => {
+    expect(extractVariantValues("Cabo HDMI 2 M")).toEqual({ base: "Cabo HDMI 2 M", values: {} });
+    expect(extractVariantValues("Café Torrado 500 G")).toEqual({ base: "Café Torrado 500 G", values: {} });
+  });
+
+  it("removes values given in attribute columns", () => {
+    expect(extractVariantValues("Caneca Gatinho Lavanda", { Cor: "Lavanda" })).toEqual({
+      base: "Caneca Gatinho",
+      values: { Cor: "Lavanda" }
+    });
+  });
+
+  it("never empties the name", () => {
+    expect(extractVariantValues("Preto").base).toBe("Preto");
+  });
+});
+
+describe("Bling variation names", () => {
+  it("round-trips values", () => {
+    const name = `Camiseta ${formatBlingVariation({ Cor: "Preta", Tamanho: "P" })}`;
+    expect(name).toBe("Camiseta Cor:Preta;Tamanho:P");
+    expect(parseBlingVariation(name)).toEqual({ base: "Camiseta", values: { Cor: "Preta", Tamanho: "P" } });
+  });
+});
+
+describe("detectVariantGroups", () => {
+  const columns = ["Código", "Descrição", "Estoque"];
+
+  it("groups names that differ only in variation words", () => {
+    const data = [
+      { "Código": "CAM-PRT-P", "Descrição": "Camiseta Preta P", "Estoque": 1 },
+      { "Código": "CAM-PRT-M", "Descrição": "Camiseta Preta M", "Estoque": 2 },
+      { "Código": "CAB-2", "Descrição": "Cabo HDMI 2 M", "Estoque": 3 },
+      { "Código": "CAB-3", "Descrição": "Cabo HDMI 3 M", "Estoque": 4 },
+      { "Código": "CAM-PRT-P2", "Descrição": "Camiseta Preta P", "Estoque": 5 }
+    ];
+    expect(detectVariantGroups(data, columns)).toEqual([{
+      parentName: "Camiseta",
+      parentCode: "CAM-PRT",
+      parentRow: null,
+      attributes: ["Cor", "Tamanho"],
+      variations: [
+        { row: 0, values: { Cor: "Preta", Tamanho: "P" } },
+        { row: 1, values: { Cor: "Preta", Tamanho: "M" } }
+      ]
+    }]);
+  });
+
+  it("keeps an existing parent and its linked variations", () => {
+    const data = [
+      { "Código": "CAM", "Descrição": "Camiseta", "Código Pai": "" },
+      { "Código": "CAM-P", "Descrição": "Camiseta Cor:Preta;Tamanho:P", "Código Pai": "CAM" },
+      { "Código": "CAM-M", "Descrição": "Camiseta Cor:Preta;Tamanho:M", "Código Pai": "CAM" }
+    ];
+    const [group] = detectVariantGroups(data, ["Código", "Descrição", "Código Pai"]);
+    expect(group).toMatchObject({ parentCode: "CAM", parentRow: 0, attributes: ["Cor", "Tamanho"] });
+    expect(group.variations.map(v => v.row)).toEqual([1, 2]);
+  });
+});
+
+describe("applyVariantStructure", () => {
+  it("writes a parent row before its variations", () => {
+    const columns = ["Código", "Descrição", "Estoque"];
+    const data = [
+      { "Código": "X", "Descrição": "Mesa", "Estoque": 9 },
+      { "Código": "CAM-PRT-P", "Descrição": "Camiseta Preta P", "Estoque": 1 },
+      { "Código": "CAM-PRT-M", "Descrição": "Camiseta Preta M", "Estoque": 2 }
+    ];
+    const result = applyVariantStructure(data, columns, detectVariantGroups(data, columns));
+
+    expect(result.structured).toBe(1);
+    expect(result.columns).toEqual([...columns, "Código Pai"]);
+    expect(result.data.map(row => [row["Código"], row["Descrição"], row["Estoque"], row["Código Pai"] ?? ""])).toEqual([
+      ["X", "Mesa", 9, ""],
+      ["CAM-PRT", "Camiseta", "", ""],
+      ["CAM-PRT-P", "Camiseta Cor:Preta;Tamanho:P", 1, "CAM-PRT"],
+      ["CAM-PRT-M", "Camiseta Cor:Preta;Tamanho:M", 2, "CAM-PRT"]
+    ]);
+  });
+});
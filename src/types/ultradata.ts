@@ -17,15 +17,34 @@ export interface NcmSugerido {
   observacao: string;
 }
 
+// Check of ncm_sugerido against the official NCM table (ncm_cache)
+export interface NcmVerificacao {
+  status: 'valido' | 'substituido' | 'invalido' | 'nao_verificado';
+  codigo_original: string;
+  codigo: string | null;
+  descricao: string | null;
+  problemas: ('inexistente' | 'nao_folha' | 'fora_vigencia')[];
+  motivos: string[];
+  alternativas: { codigo: string; descricao: string; relevancia: number }[];
+}
+
+export interface CategoriaAlternativa {
+  caminho: string;
+  pontuacao: number;
+}
+
 export interface ProcessedProduct {
   original: ProductRow;
   enriched: {
     nome_padronizado?: string;
     descricao_enriquecida?: string;
     categoria_inferida?: string;
+    // Closest paths of the category tree, when one constrained the category
+    categoria_alternativas?: CategoriaAlternativa[];
     marca_inferida?: string;
     origem_inferida?: string;
     ncm_sugerido?: NcmSugerido;
+    ncm_verificacao?: NcmVerificacao;
   };
   necessita_revisao: boolean;
   razao_revisao?: string;
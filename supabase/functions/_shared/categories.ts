@@ -0,0 +1,203 @@
+// Category inference constrained to the user's category tree (category_trees).
+// The model sees a shortlist of the tree's paths; its answer is then mapped
+// onto an existing path, or dropped and recorded as a proposal for a new
+// category, with the closest paths returned as alternatives.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.1";
+
+export interface CategoryTree {
+  // null when the paths came in the request instead of category_trees
+  id: string | null;
+  paths: string[];
+}
+
+export interface CategoryCandidate {
+  caminho: string;
+  // 0-1 similarity to the product (and to the model's suggestion)
+  pontuacao: number;
+}
+
+export interface CategoryMatch {
+  treeId: string | null;
+  // Existing path, or "" when the suggestion is not in the tree
+  categoria: string;
+  alternativas: CategoryCandidate[];
+  // Model's suggestion outside the tree
+  proposta: string | null;
+}
+
+// Trees up to this size go to the model whole; larger ones as a shortlist
+const FULL_TREE_LIMIT = 80;
+const SHORTLIST_SIZE = 40;
+const ALTERNATIVES = 3;
+
+const STOPWORDS = new Set(["com", "para", "por", "sem", "dos", "das", "que", "uma", "and", "the"]);
+
+const stripAccents = (text: string) => text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+/**
+ * Path without accents, in lower case, with levels joined by " > "; accepts
+ * ">", "/" and "|" as level separators
+ */
+export function normalizeCategoryPath(path: string): string {
+  return stripAccents(path)
+    .toLowerCase()
+    .split(/\s*[>/|]\s*/)
+    .map((level) => level.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join(" > ");
+}
+
+// Plural "s" dropped so "furadeiras" and "furadeira" meet
+const tokenize = (text: string): string[] =>
+  stripAccents(text)
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length >= 3 && !STOPWORDS.has(token))
+    .map((token) => (token.length > 4 && token.endsWith("s") ? token.slice(0, -1) : token));
+
+const tokensMatch = (a: string, b: string) =>
+  a === b || (a.length >= 4 && b.length >= 4 && (a.startsWith(b) || b.startsWith(a)));
+
+/**
+ * Dice similarity between a path and a text. Words of the last level count
+ * double: "Ferramentas > Furadeiras" is about furadeiras first.
+ */
+function scorePath(path: string, queryTokens: string[]): number {
+  if (queryTokens.length === 0) return 0;
+  const levels = path.split(">").map((level) => tokenize(level));
+  const weighted = levels.flatMap((tokens, i) =>
+    tokens.map((token) => ({ token, weight: i === levels.length - 1 ? 2 : 1 }))
+  );
+  const pathWeight = weighted.reduce((sum, { weight }) => sum + weight, 0);
+  if (pathWeight === 0) return 0;
+
+  const matched = weighted
+    .filter(({ token }) => queryTokens.some((query) => tokensMatch(token, query)))
+    .reduce((sum, { weight }) => sum + weight, 0);
+  return (2 * matched) / (pathWeight + queryTokens.length);
+}
+
+const uniqueTokens = (text: string) => [...new Set(tokenize(text))];
+
+/**
+ * Tree paths ranked by similarity to a text, best first; ties favor shorter paths
+ */
+export function rankCategories(paths: string[], text: string, limit: number): CategoryCandidate[] {
+  const queryTokens = uniqueTokens(text);
+  return paths
+    .map((caminho) => ({ caminho, pontuacao: Math.round(scorePath(caminho, queryTokens) * 1000) / 1000 }))
+    .sort((a, b) => b.pontuacao - a.pontuacao || a.caminho.length - b.caminho.length)
+    .slice(0, limit);
+}
+
+const productText = (produto: Record<string, unknown>) =>
+  Object.values(produto).filter((value) => value !== null && value !== undefined).join(" ");
+
+/**
+ * Paths offered to the model for a product
+ */
+export function shortlistCategories(tree: CategoryTree, produto: Record<string, unknown>): string[] {
+  if (tree.paths.length <= FULL_TREE_LIMIT) return tree.paths;
+  return rankCategories(tree.paths, productText(produto), SHORTLIST_SIZE).map((candidate) => candidate.caminho);
+}
+
+/**
+ * Map the model's category onto the tree: the same path (ignoring case,
+ * accents and separators) or a leaf name found only once in the tree.
+ * Anything else becomes a proposal and leaves the category empty.
+ */
+export function matchCategory(
+  tree: CategoryTree,
+  sugestao: string | undefined,
+  produto: Record<string, unknown>,
+): CategoryMatch {
+  const byNormalized = new Map(tree.paths.map((path) => [normalizeCategoryPath(path), path]));
+  const normalized = normalizeCategoryPath(sugestao ?? "");
+
+  let categoria = byNormalized.get(normalized) ?? "";
+  if (!categoria && normalized && !normalized.includes(">")) {
+    const leaves = tree.paths.filter((path) => normalizeCategoryPath(path).split(" > ").pop() === normalized);
+    if (leaves.length === 1) categoria = leaves[0];
+  }
+
+  const alternativas = rankCategories(
+    tree.paths.filter((path) => path !== categoria),
+    `${sugestao ?? ""} ${productText(produto)}`,
+    ALTERNATIVES,
+  ).filter((candidate) => candidate.pontuacao > 0);
+
+  return {
+    treeId: tree.id,
+    categoria,
+    alternativas,
+    proposta: !categoria && normalized ? (sugestao ?? "").trim() : null,
+  };
+}
+
+/**
+ * Active tree of the user (latest one marked is_active), or null without one
+ */
+export async function loadCategoryTree(client: SupabaseClient, userId: string): Promise<CategoryTree | null> {
+  const { data, error } = await client
+    .from("category_trees")
+    .select("id, categories")
+    .eq("user_id", userId)
+    .eq("is_active", true)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Erro ao carregar árvore de categorias:", error);
+    return null;
+  }
+  return data && Array.isArray(data.categories) ? treeFromPaths(data.categories, data.id) : null;
+}
+
+/**
+ * Tree from a list of paths, e.g. sent in the request; null when empty
+ */
+export function treeFromPaths(paths: unknown[], id: string | null = null): CategoryTree | null {
+  const valid = [...new Set(paths.filter((path): path is string => typeof path === "string" && path.trim() !== ""))]
+    .map((path) => path.trim());
+  return valid.length > 0 ? { id, paths: valid } : null;
+}
+
+/**
+ * Tree for a request: `categorias` false turns the constraint off, an array
+ * is used as the tree, and otherwise the user's active tree applies
+ */
+export async function resolveCategoryTree(
+  client: SupabaseClient | null,
+  userId: string | null,
+  categorias: unknown,
+): Promise<CategoryTree | null> {
+  if (categorias === false) return null;
+  if (Array.isArray(categorias)) return treeFromPaths(categorias);
+  return client && userId ? await loadCategoryTree(client, userId) : null;
+}
+
+/**
+ * Count one more product for a proposed category
+ */
+export async function recordCategoryProposal(
+  client: SupabaseClient,
+  proposal: {
+    userId: string;
+    treeId: string | null;
+    sessionId?: string | null;
+    path: string;
+    produto: Record<string, unknown>;
+  },
+): Promise<void> {
+  const { error } = await client.rpc("record_category_proposal", {
+    p_user_id: proposal.userId,
+    p_category_tree_id: proposal.treeId,
+    p_proposed_path: proposal.path,
+    p_normalized_path: normalizeCategoryPath(proposal.path),
+    p_sample_product: proposal.produto,
+    p_session_id: proposal.sessionId || null,
+  });
+  if (error) console.error("Erro ao registrar proposta de categoria:", error);
+}
@@ -0,0 +1,326 @@
+// Enrichment of one product, shared by enriquecer-produto (one call from the
+// browser) and enriquecer-lote (background jobs): prompt, persistent cache,
+// model call, category tree, NCM check and the row saved in produtos_processados.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.1";
+import { type CallOptions, completeJson, getProvider } from "./llm.ts";
+import type { JsonSchema } from "./jsonSchema.ts";
+import { type PromptOverride, type ResolvedPrompt, resolvePrompt } from "./prompts.ts";
+import {
+  type CacheKey,
+  type CacheMode,
+  cacheTtlDays,
+  productFingerprint,
+  readCache,
+  writeCache,
+} from "./enrichmentCache.ts";
+import { enforceQuota, meteredProvider, type UsageContext } from "./usage.ts";
+import {
+  type CategoryCandidate,
+  type CategoryMatch,
+  type CategoryTree,
+  matchCategory,
+  recordCategoryProposal,
+  shortlistCategories,
+} from "./categories.ts";
+import { applyNcmVerification, type NcmVerification, verifyNcm } from "./ncm.ts";
+
+// Formato exigido da resposta; saídas fora dele são repetidas
+export const RESPOSTA_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["nome_padronizado", "status_inferencia"],
+  properties: {
+    nome_padronizado: { type: "string" },
+    descricao_enriquecida: { type: "string" },
+    categoria_inferida: { type: "string" },
+    // Only with a category tree: the category the model would create when none fits
+    categoria_nova: { type: "string" },
+    marca_inferida: { type: "string" },
+    origem_inferida: { type: "string", enum: ["Nacional", "Importado", ""] },
+    ncm_sugerido: {
+      type: "object",
+      properties: {
+        codigo: { type: "string", pattern: "^(\\d{4}\\.?\\d{2}\\.?\\d{2})?$" },
+        descricao: { type: "string" },
+        confianca: { type: "string", enum: ["alta", "media", "baixa"] },
+        observacao: { type: "string" },
+      },
+    },
+    status_inferencia: {
+      type: "object",
+      required: ["necessita_revisao"],
+      properties: {
+        necessita_revisao: { type: "boolean" },
+        razao: { type: "string" },
+      },
+    },
+  },
+};
+
+export interface RespostaEnriquecimento {
+  nome_padronizado: string;
+  descricao_enriquecida?: string;
+  categoria_inferida?: string;
+  categoria_nova?: string;
+  // Filled from the category tree, not by the model
+  categoria_alternativas?: CategoryCandidate[];
+  categoria_proposta?: string | null;
+  marca_inferida?: string;
+  origem_inferida?: string;
+  ncm_sugerido?: Record<string, unknown>;
+  // Filled from ncm_cache, not by the model
+  ncm_verificacao?: NcmVerification;
+  status_inferencia: { necessita_revisao: boolean; razao?: string };
+}
+
+export interface EnrichmentRequest {
+  produto: Record<string, unknown>;
+  abbreviations?: Record<string, string>;
+  prompt?: PromptOverride | null;
+  cache?: CacheMode;
+  cacheTtlDays?: number;
+  // Ledger entry and monthly quota for model calls; cache hits cost nothing
+  usage?: UsageContext | null;
+  // The category must be one of its paths; see categories.ts
+  categoryTree?: CategoryTree | null;
+  // Client to check ncm_sugerido against the official table; null skips the check
+  ncmTable?: SupabaseClient | null;
+}
+
+export interface EnrichmentResult {
+  resultado: RespostaEnriquecimento;
+  model: string;
+  prompt: ResolvedPrompt;
+  cacheHit: boolean;
+  tempoMs: number;
+  categoria: CategoryMatch | null;
+  ncm: NcmVerification | null;
+}
+
+/**
+ * Replace the model's category by the tree path it maps to; without one the
+ * category is left empty, flagged for review, with the closest paths
+ */
+function applyCategoryMatch(resultado: RespostaEnriquecimento, match: CategoryMatch): RespostaEnriquecimento {
+  const { categoria_nova: _nova, ...resposta } = resultado;
+  if (match.categoria) {
+    return { ...resposta, categoria_inferida: match.categoria, categoria_alternativas: match.alternativas };
+  }
+
+  const motivo = match.proposta
+    ? `Categoria "${match.proposta}" não existe na árvore de categorias`
+    : "Nenhuma categoria da árvore se aplica";
+  return {
+    ...resposta,
+    categoria_inferida: "",
+    categoria_alternativas: match.alternativas,
+    categoria_proposta: match.proposta,
+    status_inferencia: {
+      necessita_revisao: true,
+      razao: [resposta.status_inferencia?.razao, motivo].filter(Boolean).join("; "),
+    },
+  };
+}
+
+/**
+ * Put the checked NCM in the answer; a replaced or rejected code needs review
+ */
+function applyNcm(resultado: RespostaEnriquecimento, verification: NcmVerification): RespostaEnriquecimento {
+  const comVerificacao = {
+    ...resultado,
+    ncm_sugerido: applyNcmVerification(resultado.ncm_sugerido ?? {}, verification),
+    ncm_verificacao: verification,
+  };
+  if (verification.status !== "substituido" && verification.status !== "invalido") return comVerificacao;
+
+  return {
+    ...comVerificacao,
+    status_inferencia: {
+      necessita_revisao: true,
+      razao: [resultado.status_inferencia?.razao, ...verification.motivos].filter(Boolean).join("; "),
+    },
+  };
+}
+
+/**
+ * Enrich one product. The cache needs a client and a user; without them the
+ * model is always called. Throws PromptError for a bad prompt choice,
+ * QuotaError when the user is out of quota and LlmError when the model fails
+ * after its retries.
+ */
+export async function enrichProduct(
+  client: SupabaseClient | null,
+  userId: string | null,
+  request: EnrichmentRequest,
+  callOptions: CallOptions = {},
+): Promise<EnrichmentResult> {
+  const startTime = Date.now();
+  const { produto, abbreviations, categoryTree } = request;
+  const categorias = categoryTree ? shortlistCategories(categoryTree, produto) : null;
+
+  const prompt = resolvePrompt("enriquecer_produto", request.prompt);
+  const provider = meteredProvider(
+    getProvider("enriquecer-produto", { provider: "deepseek", model: prompt.model }, RESPOSTA_SCHEMA),
+    request.usage ?? null,
+  );
+
+  const cacheMode: CacheMode = !client || !userId
+    ? "desligado"
+    : request.cache === "renovar" || request.cache === "desligado" ? request.cache : "usar";
+  const cacheKey: CacheKey | null = client && userId && cacheMode !== "desligado"
+    ? {
+      user_id: userId,
+      fingerprint: await productFingerprint(produto, abbreviations, prompt, categorias),
+      prompt_versao: prompt.version,
+      modelo_ia: provider.model,
+    }
+    : null;
+  const cached = client && cacheKey && cacheMode === "usar"
+    ? await readCache<RespostaEnriquecimento>(client, cacheKey)
+    : null;
+
+  // Raw answers are cached; the tree and the NCM table are applied on the way
+  // out, so changes to either take effect at once
+  const finish = async (resposta: RespostaEnriquecimento, model: string, cacheHit: boolean): Promise<EnrichmentResult> => {
+    const categoria = categoryTree
+      ? matchCategory(categoryTree, resposta.categoria_inferida || resposta.categoria_nova, produto)
+      : null;
+    let resultado = categoria ? applyCategoryMatch(resposta, categoria) : resposta;
+
+    const ncm = request.ncmTable ? await verifyNcm(request.ncmTable, resposta.ncm_sugerido, produto) : null;
+    if (ncm) resultado = applyNcm(resultado, ncm);
+
+    return {
+      resultado,
+      model,
+      prompt,
+      cacheHit,
+      tempoMs: Date.now() - startTime,
+      categoria,
+      ncm,
+    };
+  };
+
+  if (cached) {
+    return await finish(cached, provider.model, true);
+  }
+
+  if (request.usage) await enforceQuota(request.usage);
+
+  // Build user message with abbreviations context
+  let userContent = JSON.stringify(produto);
+  if (abbreviations && Object.keys(abbreviations).length > 0) {
+    userContent = `Produto: ${JSON.stringify(produto)}\n\nAbreviações conhecidas (expanda quando encontrar): ${JSON.stringify(abbreviations)}`;
+  }
+  if (categorias) {
+    userContent += `\n\nCategorias existentes: em categoria_inferida use exatamente um destes caminhos, ou "" se nenhum servir. ` +
+      `Nesse caso informe em categoria_nova o caminho que você criaria.\n${categorias.join("\n")}`;
+  }
+
+  console.log(`Chamando ${provider.name} (${provider.model}, prompt v${prompt.version}${prompt.custom ? " personalizado" : ""}) para produto:`, JSON.stringify(produto).substring(0, 100));
+
+  const { data: resultado, result } = await completeJson<RespostaEnriquecimento>(
+    provider,
+    {
+      messages: [
+        { role: "system", content: prompt.system },
+        { role: "user", content: userContent }
+      ],
+      temperature: prompt.temperature,
+    },
+    RESPOSTA_SCHEMA,
+    callOptions,
+  );
+
+  if (client && cacheKey) {
+    await writeCache(client, cacheKey, resultado, cacheTtlDays(request.cacheTtlDays));
+  }
+
+  return await finish(resultado, result.model, false);
+}
+
+export interface ProcessedProductTarget {
+  userId: string;
+  sessionId?: string | null;
+  // Position in a background job; saving the same item again replaces it
+  itemIndex?: number;
+  produto: Record<string, unknown>;
+}
+
+const saveRow = async (client: SupabaseClient, target: ProcessedProductTarget, row: Record<string, unknown>) => {
+  const record = {
+    user_id: target.userId,
+    session_id: target.sessionId || null,
+    produto_original: target.produto,
+    validado: false,
+    ...row,
+    ...(target.itemIndex !== undefined ? { item_index: target.itemIndex } : {}),
+  };
+
+  const { error } = target.itemIndex !== undefined
+    ? await client.from("produtos_processados").upsert(record, { onConflict: "session_id,item_index" })
+    : await client.from("produtos_processados").insert(record);
+
+  if (error) console.error("Erro ao salvar no banco:", error);
+  return !error;
+};
+
+/**
+ * Save an enrichment result in produtos_processados
+ */
+export async function saveProcessedProduct(
+  client: SupabaseClient,
+  target: ProcessedProductTarget,
+  { resultado, model, prompt, cacheHit, tempoMs, categoria, ncm }: EnrichmentResult,
+): Promise<boolean> {
+  if (categoria?.proposta) {
+    await recordCategoryProposal(client, {
+      userId: target.userId,
+      treeId: categoria.treeId,
+      sessionId: target.sessionId,
+      path: categoria.proposta,
+      produto: target.produto,
+    });
+  }
+
+  return saveRow(client, target, {
+    nome_padronizado: resultado.nome_padronizado || null,
+    descricao_enriquecida: resultado.descricao_enriquecida || null,
+    categoria_inferida: resultado.categoria_inferida || null,
+    marca_inferida: resultado.marca_inferida || null,
+    origem_inferida: resultado.origem_inferida || null,
+    necessita_revisao: resultado.status_inferencia?.necessita_revisao ?? true,
+    razao_revisao: resultado.status_inferencia?.razao || null,
+    modelo_ia: model,
+    tempo_processamento_ms: tempoMs,
+    metadata: {
+      ncm_sugerido: resultado.ncm_sugerido || null,
+      prompt_versao: prompt.version,
+      prompt_personalizado: prompt.custom,
+      cache_hit: cacheHit,
+      ncm_verificacao: ncm,
+      ...(categoria
+        ? {
+          categoria_arvore_id: categoria.treeId,
+          categoria_alternativas: categoria.alternativas,
+          categoria_proposta: categoria.proposta,
+        }
+        : {}),
+    },
+  });
+}
+
+/**
+ * Save a product the job gave up on, flagged for review with the error
+ */
+export function saveFailedProduct(
+  client: SupabaseClient,
+  target: ProcessedProductTarget,
+  erro: string,
+): Promise<boolean> {
+  return saveRow(client, target, {
+    necessita_revisao: true,
+    razao_revisao: `Erro no processamento: ${erro}`,
+    metadata: { erro },
+  });
+}
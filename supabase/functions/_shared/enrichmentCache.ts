@@ -0,0 +1,113 @@
+// Persistent cache of enrichment answers, per user. The key is a hash of the
+// analyzed fields after normalization, plus the prompt version and the
+// model, so a new prompt version or a model switch never reuses old answers.
+//
+//   ENRICHMENT_CACHE_TTL_DAYS   days an answer stays valid (default 30)
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.1";
+import type { ResolvedPrompt } from "./prompts.ts";
+
+// usar: read and write; renovar: skip the entry and overwrite it; desligado: no cache
+export type CacheMode = "usar" | "renovar" | "desligado";
+
+export interface CacheKey {
+  user_id: string;
+  fingerprint: string;
+  prompt_versao: number;
+  modelo_ia: string;
+}
+
+const DEFAULT_TTL_DAYS = 30;
+const MAX_TTL_DAYS = 365;
+
+const normalize = (value: unknown) =>
+  String(value ?? "").normalize("NFC").toLowerCase().replace(/\s+/g, " ").trim();
+
+const byFirst = (a: [string, string], b: [string, string]) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0);
+
+/**
+ * SHA-256 of everything that shapes the answer: the product fields (case,
+ * spacing and key order ignored, empty fields dropped), the abbreviations
+ * and category paths sent along and, for a custom prompt, its text
+ */
+export async function productFingerprint(
+  produto: Record<string, unknown>,
+  abbreviations: Record<string, string> | undefined,
+  prompt: ResolvedPrompt,
+  categories?: string[] | null,
+): Promise<string> {
+  const fields = Object.entries(produto)
+    .map(([key, value]): [string, string] => [normalize(key), normalize(value)])
+    .filter(([, value]) => value)
+    .sort(byFirst);
+  const abbr = Object.entries(abbreviations ?? {})
+    .map(([key, value]): [string, string] => [normalize(key), String(value)])
+    .sort(byFirst);
+
+  // Without categories the payload, and so the key, is the same as before they existed
+  const payload = JSON.stringify({
+    fields,
+    abbr,
+    system: prompt.custom ? prompt.system : null,
+    categories: categories?.length ? [...categories].sort() : undefined,
+  });
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(payload));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * TTL requested by the client, bounded; the environment default otherwise
+ */
+export function cacheTtlDays(requested?: unknown): number {
+  const fallback = Number(Deno.env.get("ENRICHMENT_CACHE_TTL_DAYS")) || DEFAULT_TTL_DAYS;
+  const days = typeof requested === "number" && Number.isFinite(requested) ? requested : fallback;
+  return Math.min(Math.max(Math.round(days), 1), MAX_TTL_DAYS);
+}
+
+/**
+ * Cached answer that has not expired, counting the hit
+ */
+export async function readCache<T>(client: SupabaseClient, key: CacheKey): Promise<T | null> {
+  const { data, error } = await client
+    .from("enrichment_cache")
+    .select("id, resposta, hits")
+    .match(key)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error("Erro ao ler cache de enriquecimento:", error);
+    return null;
+  }
+  if (!data) return null;
+
+  const { error: hitError } = await client
+    .from("enrichment_cache")
+    .update({ hits: data.hits + 1, last_hit_at: new Date().toISOString() })
+    .eq("id", data.id);
+  if (hitError) console.error("Erro ao contar acerto de cache:", hitError);
+
+  return data.resposta as T;
+}
+
+/**
+ * Store an answer, replacing an expired or renewed entry with the same key
+ */
+export async function writeCache(
+  client: SupabaseClient,
+  key: CacheKey,
+  resposta: unknown,
+  ttlDays: number,
+): Promise<void> {
+  const { error } = await client
+    .from("enrichment_cache")
+    .upsert({
+      ...key,
+      resposta,
+      hits: 0,
+      last_hit_at: null,
+      expires_at: new Date(Date.now() + ttlDays * 86_400_000).toISOString(),
+    }, { onConflict: "user_id,fingerprint,prompt_versao,modelo_ia" });
+
+  if (error) console.error("Erro ao gravar cache de enriquecimento:", error);
+}
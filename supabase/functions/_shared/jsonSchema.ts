@@ -0,0 +1,188 @@
+// Subset of JSON Schema used to check model output: types, required
+// properties, enums, string patterns and array/string sizes.
+
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  description?: string;
+}
+
+const typeOf = (value: unknown): JsonSchemaType => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonSchemaType;
+};
+
+const matchesType = (value: unknown, type: JsonSchemaType) => {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+};
+
+/**
+ * Errors of `value` against `schema`, as "path: problem"; empty when valid
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: esperado ${types.join(" | ")}, recebido ${typeOf(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    errors.push(`${path}: valor fora de ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path}: menor que ${schema.minLength} caracteres`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path}: maior que ${schema.maxLength} caracteres`);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push(`${path}: não segue ${schema.pattern}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: menor que ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: maior que ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: menos de ${schema.minItems} itens`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: mais de ${schema.maxItems} itens`);
+    if (schema.items) value.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${path}[${i}]`)));
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    (schema.required ?? []).forEach((key) => {
+      if (!(key in record)) errors.push(`${path}.${key}: obrigatório`);
+    });
+    Object.entries(schema.properties ?? {}).forEach(([key, child]) => {
+      if (key in record) errors.push(...validateJson(record[key], child, `${path}.${key}`));
+    });
+  }
+
+  return errors;
+}
+
+const CLASS_SAMPLES: Record<string, string> = { d: "0", w: "a", s: " " };
+
+/**
+ * Shortest string a simple pattern can produce: literals, escapes, character
+ * classes, groups (first alternative) and quantifiers at their minimum
+ */
+function samplePattern(pattern: string): string {
+  let pos = 0;
+
+  const sequence = (): string => {
+    let out = "";
+    while (pos < pattern.length && pattern[pos] !== ")" && pattern[pos] !== "|") {
+      const atom = single();
+      out += atom.repeat(quantifier());
+    }
+    return out;
+  };
+
+  const single = (): string => {
+    const char = pattern[pos++];
+    if (char === "^" || char === "$") return "";
+    if (char === ".") return "x";
+    if (char === "\\") {
+      const escaped = pattern[pos++];
+      return CLASS_SAMPLES[escaped] ?? escaped;
+    }
+    if (char === "[") {
+      const end = pattern.indexOf("]", pos + 1);
+      if (end < 0) {
+        pos = pattern.length;
+        return "";
+      }
+      const body = pattern.slice(pos, end);
+      pos = end + 1;
+      if (body.startsWith("^")) return "x";
+      return body.startsWith("\\") ? CLASS_SAMPLES[body[1]] ?? body[1] : body[0];
+    }
+    if (char === "(") {
+      if (pattern.startsWith("?:", pos)) pos += 2;
+      const first = sequence();
+      // Skip the other alternatives up to the closing parenthesis
+      let depth = 0;
+      while (pos < pattern.length && (pattern[pos] !== ")" || depth > 0)) {
+        if (pattern[pos] === "\\") pos++;
+        else if (pattern[pos] === "(") depth++;
+        else if (pattern[pos] === ")") depth--;
+        pos++;
+      }
+      pos++;
+      return first;
+    }
+    return char;
+  };
+
+  const quantifier = (): number => {
+    const char = pattern[pos];
+    if (char === "?" || char === "*") {
+      pos++;
+      return 0;
+    }
+    if (char === "+") {
+      pos++;
+      return 1;
+    }
+    const braces = pattern.slice(pos).match(/^\{(\d+)(,\d*)?\}/);
+    if (!braces) return 1;
+    pos += braces[0].length;
+    return Number(braces[1]);
+  };
+
+  return sequence();
+}
+
+const sampleString = (schema: JsonSchema): string => {
+  const fallback = "x".repeat(schema.minLength ?? 0);
+  if (!schema.pattern) return fallback;
+  const sample = samplePattern(schema.pattern);
+  const valid = new RegExp(schema.pattern).test(sample) &&
+    sample.length >= (schema.minLength ?? 0) && sample.length <= (schema.maxLength ?? Infinity);
+  return valid ? sample : fallback;
+};
+
+/**
+ * Smallest value that satisfies a schema: first enum option, the shortest
+ * string the pattern allows, false, zero and required properties only.
+ * Used by the mock provider.
+ */
+export function sampleFromSchema(schema: JsonSchema): unknown {
+  if (schema.enum) return schema.enum[0];
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        (schema.required ?? []).map((key) => [key, sampleFromSchema(schema.properties?.[key] ?? {})]),
+      );
+    case "array":
+      return Array.from({ length: schema.minItems ?? 0 }, () => sampleFromSchema(schema.items ?? {}));
+    case "string":
+      return sampleString(schema);
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
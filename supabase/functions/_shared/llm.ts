@@ -0,0 +1,296 @@
+// Shared LLM provider layer for the AI edge functions.
+//
+// The backend is chosen by environment, per function first:
+//   LLM_PROVIDER_<FUNÇÃO> / LLM_PROVIDER   deepseek | lovable | openai | mock
+//   LLM_MODEL_<FUNÇÃO>    / LLM_MODEL      model name (each provider has a default)
+//   LLM_BASE_URL, LLM_API_KEY              for "openai": any OpenAI-compatible
+//                                          endpoint, e.g. http://localhost:11434/v1 (Ollama)
+// <FUNÇÃO> is the function name in upper case with "_", e.g. LLM_PROVIDER_GENERATE_TAGS.
+
+import { type JsonSchema, sampleFromSchema, validateJson } from "./jsonSchema.ts";
+
+export type ProviderName = "deepseek" | "lovable" | "openai" | "mock";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  // Ask for a JSON object (response_format json_object where supported)
+  json?: boolean;
+  // Output kinds for image models on the Lovable gateway
+  modalities?: string[];
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  images: string[];
+  provider: ProviderName;
+  model: string;
+  usage: CompletionUsage | null;
+}
+
+export interface LlmProvider {
+  name: ProviderName;
+  model: string;
+  complete(request: CompletionRequest, signal: AbortSignal): Promise<CompletionResult>;
+}
+
+/**
+ * Failure talking to a provider. `status` keeps the HTTP status so functions
+ * can pass 429 and 402 through to the client.
+ */
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null = null,
+    readonly retryable = false,
+    readonly retryAfterMs: number | null = null,
+  ) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  deepseek: "deepseek-chat",
+  lovable: "google/gemini-3-flash-preview",
+  openai: "llama3.1",
+  mock: "mock",
+};
+
+const BASE_URLS: Partial<Record<ProviderName, string>> = {
+  deepseek: "https://api.deepseek.com/v1",
+  lovable: "https://ai.gateway.lovable.dev/v1",
+};
+
+const API_KEY_VARS: Partial<Record<ProviderName, string>> = {
+  deepseek: "DEEPSEEK_API_KEY",
+  lovable: "LOVABLE_API_KEY",
+  openai: "LLM_API_KEY",
+};
+
+const retryAfter = (response: Response): number | null => {
+  const seconds = Number(response.headers.get("retry-after"));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null;
+};
+
+/**
+ * Client for /chat/completions on any OpenAI-compatible API
+ */
+export function openAICompatibleProvider(options: {
+  name: ProviderName;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}): LlmProvider {
+  const url = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: options.name,
+    model: options.model,
+    async complete(request, signal) {
+      const response = await fetch(url, {
+        method: "POST",
+        signal,
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: options.model,
+          messages: request.messages,
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          ...(request.json ? { response_format: { type: "json_object" } } : {}),
+          ...(request.modalities ? { modalities: request.modalities } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        console.error(`Erro ${options.name}:`, response.status, body.substring(0, 500));
+        throw new LlmError(
+          `Falha na API ${options.name}: ${response.status}`,
+          response.status,
+          response.status === 429 || response.status >= 500,
+          retryAfter(response),
+        );
+      }
+
+      const data = await response.json();
+      const message = data.choices?.[0]?.message ?? {};
+      return {
+        content: typeof message.content === "string" ? message.content : "",
+        images: (message.images ?? [])
+          .map((image: { image_url?: { url?: string } }) => image.image_url?.url)
+          .filter((url: string | undefined): url is string => !!url),
+        provider: options.name,
+        model: data.model ?? options.model,
+        usage: data.usage
+          ? { promptTokens: data.usage.prompt_tokens ?? 0, completionTokens: data.usage.completion_tokens ?? 0 }
+          : null,
+      };
+    },
+  };
+}
+
+// 1x1 transparent PNG returned as the mock "image"
+const MOCK_IMAGE =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+/**
+ * Deterministic provider for tests and local runs: answers JSON requests with
+ * the smallest object the schema accepts, other requests with an echo.
+ */
+export function mockProvider(schema?: JsonSchema): LlmProvider {
+  return {
+    name: "mock",
+    model: DEFAULT_MODELS.mock,
+    complete(request) {
+      const last = request.messages[request.messages.length - 1]?.content ?? "";
+      const content = request.json
+        ? JSON.stringify(schema ? sampleFromSchema(schema) : {})
+        : `mock: ${last.substring(0, 200)}`;
+      return Promise.resolve({
+        content,
+        images: request.modalities?.includes("image") ? [MOCK_IMAGE] : [],
+        provider: "mock",
+        model: DEFAULT_MODELS.mock,
+        usage: { promptTokens: 0, completionTokens: 0 },
+      });
+    },
+  };
+}
+
+const envFor = (name: string, fn: string) =>
+  Deno.env.get(`${name}_${fn.toUpperCase().replace(/-/g, "_")}`) ?? Deno.env.get(name);
+
+/**
+ * Provider configured for a function, falling back to the backend the
+ * function used before the provider layer existed.
+ */
+export function getProvider(
+  fn: string,
+  defaults: { provider: ProviderName; model?: string },
+  schema?: JsonSchema,
+): LlmProvider {
+  const name = (envFor("LLM_PROVIDER", fn) ?? defaults.provider) as ProviderName;
+  const model = envFor("LLM_MODEL", fn) ??
+    (name === defaults.provider && defaults.model ? defaults.model : DEFAULT_MODELS[name]);
+
+  if (name === "mock") return mockProvider(schema);
+  if (!(name in DEFAULT_MODELS)) throw new LlmError(`Provedor de IA desconhecido: ${name}`);
+
+  const keyVar = API_KEY_VARS[name]!;
+  const apiKey = Deno.env.get(keyVar);
+  const baseUrl = name === "openai" ? Deno.env.get("LLM_BASE_URL") : BASE_URLS[name];
+  if (!baseUrl) throw new LlmError("LLM_BASE_URL não configurada");
+  // Local OpenAI-compatible servers such as Ollama run without a key
+  if (!apiKey && name !== "openai") throw new LlmError(`${keyVar} não configurada`);
+
+  return openAICompatibleProvider({ name, baseUrl, apiKey, model });
+}
+
+export interface CallOptions {
+  // Attempts after the first one
+  retries?: number;
+  timeoutMs?: number;
+  // First backoff delay; doubles on each retry, with jitter
+  backoffMs?: number;
+}
+
+// Longest wait between attempts, Retry-After included; a provider asking for
+// more fails the call as retryable so the caller can come back later
+const BACKOFF_MAX_MS = 10_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function withRetry<T>(
+  options: CallOptions,
+  attempt: (signal: AbortSignal) => Promise<T>,
+): Promise<T> {
+  const { retries = 2, timeoutMs = 30_000, backoffMs = 500 } = options;
+  let lastError: unknown;
+
+  for (let i = 0; i <= retries; i++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return await attempt(controller.signal);
+    } catch (error) {
+      lastError = controller.signal.aborted
+        ? new LlmError(`Tempo limite de ${timeoutMs} ms excedido`, null, true)
+        : error;
+      const retryable = lastError instanceof LlmError ? lastError.retryable : lastError instanceof TypeError;
+      if (!retryable || i === retries) break;
+
+      const maxDelay = Math.min(BACKOFF_MAX_MS, timeoutMs);
+      const retryAfterMs = lastError instanceof LlmError ? lastError.retryAfterMs : null;
+      if (retryAfterMs !== null && retryAfterMs > maxDelay) break;
+      const delay = Math.min(retryAfterMs ?? backoffMs * 2 ** i + Math.random() * backoffMs, maxDelay);
+      console.warn(`Tentativa ${i + 1} falhou (${(lastError as Error).message}); nova tentativa em ${Math.round(delay)} ms`);
+      await sleep(delay);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Completion with timeout and retries on rate limits, server errors and timeouts
+ */
+export function complete(
+  provider: LlmProvider,
+  request: CompletionRequest,
+  options: CallOptions = {},
+): Promise<CompletionResult> {
+  return withRetry(options, (signal) => provider.complete(request, signal));
+}
+
+// Models sometimes wrap JSON in ```json fences or add text around it
+const parseJsonContent = (content: string): unknown => {
+  const unfenced = content.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    const match = unfenced.match(/\{[\s\S]*\}/);
+    if (!match) throw new LlmError("Resposta da IA não é JSON válido", null, true);
+    try {
+      return JSON.parse(match[0]);
+    } catch {
+      throw new LlmError("Resposta da IA não é JSON válido", null, true);
+    }
+  }
+};
+
+/**
+ * JSON completion checked against a schema. Invalid JSON or output that
+ * breaks the schema counts as a failed attempt and is retried.
+ */
+export async function completeJson<T>(
+  provider: LlmProvider,
+  request: CompletionRequest,
+  schema: JsonSchema,
+  options: CallOptions = {},
+): Promise<{ data: T; result: CompletionResult }> {
+  return withRetry(options, async (signal) => {
+    const result = await provider.complete({ ...request, json: true }, signal);
+    const data = parseJsonContent(result.content);
+    const errors = validateJson(data, schema);
+    if (errors.length > 0) {
+      console.error("Saída da IA fora do schema:", errors.slice(0, 5));
+      throw new LlmError(`Resposta da IA fora do formato esperado: ${errors[0]}`, null, true);
+    }
+    return { data: data as T, result };
+  });
+}
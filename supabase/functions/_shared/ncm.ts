@@ -0,0 +1,256 @@
+// Post-hoc check of the NCM the model suggests against the official table
+// (ncm_cache, filled by sync-ncm). A code must exist, be an 8-digit item and
+// be in force today; otherwise it is replaced by the valid items under its
+// closest existing ancestor, ranked by buscar_ncm, and its confidence drops.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.1";
+
+export type NcmVerificationStatus = "valido" | "substituido" | "invalido" | "nao_verificado";
+export type NcmIssue = "inexistente" | "nao_folha" | "fora_vigencia";
+
+export interface NcmCandidate {
+  codigo: string;
+  descricao: string;
+  // Sum of buscar_ncm relevance over the search terms; 0 when unranked
+  relevancia: number;
+}
+
+export interface NcmVerification {
+  status: NcmVerificationStatus;
+  // As the model wrote it
+  codigo_original: string;
+  // Code kept or put in its place, formatted; null when none was
+  codigo: string | null;
+  // Official description of that code
+  descricao: string | null;
+  problemas: NcmIssue[];
+  motivos: string[];
+  alternativas: NcmCandidate[];
+}
+
+interface NcmRow {
+  codigo: string;
+  descricao: string;
+  tipo: string;
+  data_inicio: string | null;
+  data_fim: string | null;
+}
+
+const NCM_COLUMNS = "codigo, descricao, tipo, data_inicio, data_fim";
+const ALTERNATIVES = 3;
+// buscar_ncm ranks the whole table; enough rows to reach the ancestor's items
+const SEARCH_LIMIT = 200;
+const KEYWORDS = 3;
+
+const CONFIDENCE_DOWNGRADE: Record<string, string> = { alta: "media", media: "baixa", baixa: "baixa" };
+
+/**
+ * 84672100 -> 8467.21.00; shorter codes as they are
+ */
+export const formatNcm = (digits: string) =>
+  digits.length === 8 ? `${digits.slice(0, 4)}.${digits.slice(4, 6)}.${digits.slice(6)}` : digits;
+
+const formatDate = (iso: string) => iso.split("-").reverse().join("/");
+
+const inForce = (row: NcmRow, today: string) =>
+  (!row.data_inicio || row.data_inicio <= today) && (!row.data_fim || row.data_fim >= today);
+
+// An empty table means sync-ncm never ran; once it has rows it stays that way
+let tableLoaded = false;
+
+async function isTableLoaded(client: SupabaseClient): Promise<boolean> {
+  if (tableLoaded) return true;
+  const { count, error } = await client
+    .from("ncm_cache")
+    .select("codigo", { count: "exact", head: true })
+    .eq("tipo", "ncm");
+  if (error) console.error("Erro ao consultar tabela NCM:", error);
+  tableLoaded = !error && (count ?? 0) > 0;
+  return tableLoaded;
+}
+
+/**
+ * Search terms for buscar_ncm: the model's NCM description, the product name
+ * and its longest words, since buscar_ncm needs every word of a term to match
+ */
+function searchTerms(descricaoNcm: string, produto: Record<string, unknown>): string[] {
+  const nome = String(produto.nome ?? produto.Nome ?? produto.descricao ?? produto["Descrição"] ?? "").trim();
+  const keywords = [...new Set(`${descricaoNcm} ${nome}`.toLowerCase().split(/[^\p{L}\d]+/u))]
+    .filter((word) => word.length >= 4)
+    .sort((a, b) => b.length - a.length)
+    .slice(0, KEYWORDS);
+  return [...new Set([descricaoNcm.trim(), nome, ...keywords].filter(Boolean))];
+}
+
+/**
+ * Valid 8-digit items under an ancestor, best ranked first
+ */
+async function rankDescendants(
+  client: SupabaseClient,
+  ancestor: string,
+  exclude: string,
+  terms: string[],
+  today: string,
+): Promise<NcmCandidate[]> {
+  const scores = new Map<string, number>();
+  const searches = await Promise.all(
+    terms.map((termo) => client.rpc("buscar_ncm", { termo, limite: SEARCH_LIMIT })),
+  );
+  for (const { data, error } of searches) {
+    if (error) {
+      console.error("Erro em buscar_ncm:", error);
+      continue;
+    }
+    for (const row of (data ?? []) as { codigo: string; tipo: string; relevancia: number }[]) {
+      if (row.tipo !== "ncm" || row.codigo.length !== 8 || !row.codigo.startsWith(ancestor) || row.codigo === exclude) {
+        continue;
+      }
+      scores.set(row.codigo, (scores.get(row.codigo) ?? 0) + row.relevancia);
+    }
+  }
+
+  // Ranked codes still need their validity; unranked ones come from the table in code order
+  const query = client.from("ncm_cache").select(NCM_COLUMNS).eq("tipo", "ncm");
+  const { data, error } = scores.size > 0
+    ? await query.in("codigo", [...scores.keys()])
+    : await query.like("codigo", `${ancestor}${"_".repeat(8 - ancestor.length)}`).order("codigo").limit(ALTERNATIVES + 1);
+  if (error) {
+    console.error("Erro ao carregar itens NCM:", error);
+    return [];
+  }
+
+  return ((data ?? []) as NcmRow[])
+    .filter((row) => row.codigo !== exclude && inForce(row, today))
+    .map((row) => ({
+      codigo: formatNcm(row.codigo),
+      descricao: row.descricao,
+      relevancia: Math.round((scores.get(row.codigo) ?? 0) * 1000) / 1000,
+    }))
+    .sort((a, b) => b.relevancia - a.relevancia);
+}
+
+/**
+ * Check a suggested NCM; null when the model suggested none
+ */
+export async function verifyNcm(
+  client: SupabaseClient,
+  sugestao: Record<string, unknown> | undefined,
+  produto: Record<string, unknown>,
+): Promise<NcmVerification | null> {
+  const original = String(sugestao?.codigo ?? "").trim();
+  const digits = original.replace(/\D/g, "");
+  if (!digits) return null;
+
+  const verification: NcmVerification = {
+    status: "nao_verificado",
+    codigo_original: original,
+    codigo: null,
+    descricao: null,
+    problemas: [],
+    motivos: [],
+    alternativas: [],
+  };
+
+  if (!(await isTableLoaded(client))) {
+    verification.motivos.push("Tabela NCM não sincronizada");
+    return verification;
+  }
+
+  // The code and its ancestors (chapter, heading, subheading...) in one query
+  const prefixes = [2, 4, 5, 6, 7, 8].filter((size) => size <= digits.length).map((size) => digits.slice(0, size));
+  const { data, error } = await client.from("ncm_cache").select(NCM_COLUMNS).eq("tipo", "ncm").in("codigo", prefixes);
+  if (error) {
+    console.error("Erro ao verificar NCM:", error);
+    verification.motivos.push("Falha ao consultar a tabela NCM");
+    return verification;
+  }
+
+  const rows = (data ?? []) as NcmRow[];
+  const today = new Date().toISOString().slice(0, 10);
+  const exact = rows.find((row) => row.codigo === digits);
+
+  if (!exact) {
+    verification.problemas.push("inexistente");
+    verification.motivos.push(`NCM ${original} não existe na tabela oficial`);
+  } else if (digits.length !== 8) {
+    verification.problemas.push("nao_folha");
+    verification.motivos.push(`NCM ${original} é uma posição, não um item de 8 dígitos`);
+  } else if (!inForce(exact, today)) {
+    verification.problemas.push("fora_vigencia");
+    verification.motivos.push(
+      exact.data_fim && exact.data_fim < today
+        ? `NCM ${original} fora de vigência desde ${formatDate(exact.data_fim)}`
+        : `NCM ${original} ainda não está em vigor`,
+    );
+  }
+
+  if (verification.problemas.length === 0) {
+    return { ...verification, status: "valido", codigo: formatNcm(digits), descricao: exact?.descricao ?? null };
+  }
+
+  // Closest existing ancestor: the code itself when it is a heading, else its longest listed prefix
+  const ancestor = rows
+    .map((row) => row.codigo)
+    .filter((codigo) => codigo.length < 8)
+    .sort((a, b) => b.length - a.length)[0];
+  if (!ancestor) {
+    verification.status = "invalido";
+    verification.motivos.push("Nenhuma posição da tabela corresponde ao código");
+    return verification;
+  }
+
+  const candidates = await rankDescendants(
+    client,
+    ancestor,
+    digits,
+    searchTerms(String(sugestao?.descricao ?? ""), produto),
+    today,
+  );
+  const best = candidates[0];
+
+  // Unranked items are only a guess unless there is just one
+  if (!best || (best.relevancia === 0 && candidates.length > 1)) {
+    verification.status = "invalido";
+    verification.alternativas = candidates.slice(0, ALTERNATIVES);
+    verification.motivos.push(`Nenhum item sob ${formatNcm(ancestor)} corresponde ao produto`);
+    return verification;
+  }
+
+  return {
+    ...verification,
+    status: "substituido",
+    codigo: best.codigo,
+    descricao: best.descricao,
+    alternativas: candidates.slice(1, ALTERNATIVES + 1),
+  };
+}
+
+/**
+ * The suggestion after a verification: a replaced code takes the new item
+ * with a lower confidence, an invalid one is cleared; both need review
+ */
+export function applyNcmVerification(
+  sugestao: Record<string, unknown>,
+  verification: NcmVerification,
+): Record<string, unknown> {
+  if (verification.status === "valido") return { ...sugestao, codigo: verification.codigo };
+  if (verification.status === "nao_verificado") return sugestao;
+
+  const motivo = verification.motivos.join("; ");
+  if (verification.status === "substituido") {
+    return {
+      ...sugestao,
+      codigo: verification.codigo,
+      descricao: verification.descricao,
+      confianca: CONFIDENCE_DOWNGRADE[String(sugestao.confianca)] ?? "baixa",
+      observacao: [sugestao.observacao, `Substitui ${verification.codigo_original}: ${motivo}.`].filter(Boolean).join(" "),
+    };
+  }
+
+  return {
+    ...sugestao,
+    codigo: "",
+    confianca: "baixa",
+    observacao: [sugestao.observacao, `${motivo}.`].filter(Boolean).join(" "),
+  };
+}
@@ -0,0 +1,82 @@
+// Versioned system prompts of the AI functions. prompts.json is the single
+// copy, also read by the front end through src/config. A published version
+// is never edited: a changed text goes in as a new version and "current"
+// moves to it, so the version stored with each output still means something.
+// Each version also names the model it was written for, used unless the
+// environment picks another one (see llm.ts).
+
+import prompts from "./prompts.json" with { type: "json" };
+
+export type PromptName = "enriquecer_produto" | "corrigir_texto" | "gerar_tags" | "gerar_imagem";
+
+interface PromptVersion {
+  version: number;
+  // For gerar_imagem, the image request itself
+  system: string;
+  // Image models take none
+  temperature?: number;
+  model: string;
+  // gerar_imagem only: text for each picture style
+  styles?: Record<string, string>;
+}
+
+// Choice saved in the user's preset: a pinned version and/or their own system prompt
+export interface PromptOverride {
+  version?: number;
+  system?: string;
+}
+
+export interface ResolvedPrompt {
+  name: PromptName;
+  version: number;
+  system: string;
+  temperature?: number;
+  model: string;
+  styles: Record<string, string>;
+  // System prompt came from the preset instead of prompts.json
+  custom: boolean;
+}
+
+const MAX_CUSTOM_SYSTEM = 20_000;
+
+/**
+ * Invalid prompt choice in a request; functions answer 400
+ */
+export class PromptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromptError";
+  }
+}
+
+/**
+ * Prompt for a call: the pinned version or the current one, with the user's
+ * system prompt when the preset has one
+ */
+export function resolvePrompt(name: PromptName, override?: PromptOverride | null): ResolvedPrompt {
+  const config = prompts[name];
+  const version = override?.version ?? config.current;
+  const base = (config.versions as PromptVersion[]).find((v) => v.version === version);
+  if (!base) throw new PromptError(`Versão ${version} do prompt ${name} não existe`);
+
+  const custom = typeof override?.system === "string" ? override.system.trim() : "";
+  if (custom.length > MAX_CUSTOM_SYSTEM) {
+    throw new PromptError(`Prompt personalizado maior que ${MAX_CUSTOM_SYSTEM} caracteres`);
+  }
+
+  return {
+    name,
+    version: base.version,
+    system: custom || base.system,
+    temperature: base.temperature,
+    model: base.model,
+    styles: base.styles ?? {},
+    custom: custom.length > 0,
+  };
+}
+
+/**
+ * Replace {name} placeholders of a prompt; JSON examples in it are left alone
+ */
+export const fillPrompt = (text: string, values: Record<string, string | number>): string =>
+  text.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match));
@@ -0,0 +1,219 @@
+// AI usage accounting. Every call made through meteredProvider becomes a row
+// in ai_usage_ledger (retried attempts too: each one is billed), and
+// enforceQuota refuses new calls once the user's usage for the calendar month
+// (UTC) reaches the limits in ai_usage_quotas.
+//
+//   AI_PRICES   JSON extending or overriding the price table below, in USD
+//               per million tokens: {"model": {"input": 0.27, "output": 1.1}}
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.1";
+import type { CompletionUsage, LlmProvider } from "./llm.ts";
+
+export interface UsageContext {
+  client: SupabaseClient;
+  // null for calls without a signed-in user: recorded, never limited
+  userId: string | null;
+  sessionId?: string | null;
+  functionName: string;
+}
+
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices per million tokens; models missing here get no cost estimate
+const PRICES: Record<string, ModelPrice> = {
+  "deepseek-chat": { input: 0.27, output: 1.1 },
+  "google/gemini-3-flash-preview": { input: 0.5, output: 3 },
+  "google/gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "google/gemini-2.5-flash-image-preview": { input: 0.3, output: 30 },
+  mock: { input: 0, output: 0 },
+};
+
+let priceTable: Record<string, ModelPrice> | null = null;
+
+const prices = (): Record<string, ModelPrice> => {
+  if (priceTable) return priceTable;
+  priceTable = { ...PRICES };
+  const override = Deno.env.get("AI_PRICES");
+  if (override) {
+    try {
+      Object.assign(priceTable, JSON.parse(override));
+    } catch {
+      console.error("AI_PRICES não é um JSON válido; usando a tabela padrão");
+    }
+  }
+  return priceTable;
+};
+
+/**
+ * Estimated cost in USD. Providers may answer with a more specific model
+ * name than the one requested, so each candidate name is tried in turn.
+ */
+export function estimateCost(models: string[], usage: CompletionUsage | null): number | null {
+  const price = models.map((model) => prices()[model]).find(Boolean);
+  if (!price || !usage) return null;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+const record = async (context: UsageContext, row: Record<string, unknown>) => {
+  const { error } = await context.client.from("ai_usage_ledger").insert({
+    user_id: context.userId,
+    session_id: context.sessionId || null,
+    function_name: context.functionName,
+    ...row,
+  });
+  if (error) console.error("Erro ao registrar consumo de IA:", error);
+};
+
+/**
+ * Provider that writes each call to the ledger, failed ones included
+ */
+export function meteredProvider(provider: LlmProvider, context: UsageContext | null): LlmProvider {
+  if (!context) return provider;
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(request, signal) {
+      const startTime = Date.now();
+      try {
+        const result = await provider.complete(request, signal);
+        await record(context, {
+          provider: result.provider,
+          model: result.model,
+          prompt_tokens: result.usage?.promptTokens ?? 0,
+          completion_tokens: result.usage?.completionTokens ?? 0,
+          latency_ms: Date.now() - startTime,
+          estimated_cost_usd: estimateCost([result.model, provider.model], result.usage),
+          success: true,
+        });
+        return result;
+      } catch (error) {
+        await record(context, {
+          provider: provider.name,
+          model: provider.model,
+          latency_ms: Date.now() - startTime,
+          estimated_cost_usd: 0,
+          success: false,
+          error: signal.aborted ? "Tempo limite excedido" : error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    },
+  };
+}
+
+export type QuotaLimit = "calls" | "tokens" | "cost";
+
+/**
+ * The user reached a monthly limit; functions answer 402 and background
+ * jobs pause until the next month or a higher quota
+ */
+export class QuotaError extends Error {
+  constructor(message: string, readonly limit: QuotaLimit) {
+    super(message);
+    this.name = "QuotaError";
+  }
+}
+
+export interface MonthlyQuota {
+  calls: number | null;
+  tokens: number | null;
+  costUsd: number | null;
+}
+
+export interface MonthlyUsage {
+  calls: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export const monthStart = (date = new Date()) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+/**
+ * Limits for the user: their own row, else the default row (user_id null)
+ */
+export async function getQuota(client: SupabaseClient, userId: string): Promise<MonthlyQuota | null> {
+  const quotas = () => client.from("ai_usage_quotas").select("monthly_calls, monthly_tokens, monthly_cost_usd");
+
+  const own = await quotas().eq("user_id", userId).maybeSingle();
+  if (own.error) throw own.error;
+  let row = own.data;
+  if (!row) {
+    const fallback = await quotas().is("user_id", null).maybeSingle();
+    if (fallback.error) throw fallback.error;
+    row = fallback.data;
+  }
+  if (!row) return null;
+  return {
+    calls: row.monthly_calls,
+    tokens: row.monthly_tokens,
+    costUsd: row.monthly_cost_usd === null ? null : Number(row.monthly_cost_usd),
+  };
+}
+
+/**
+ * The user's usage in the current month, all functions together
+ */
+export async function getMonthlyUsage(client: SupabaseClient, userId: string): Promise<MonthlyUsage> {
+  const { data, error } = await client
+    .from("ai_usage_monthly")
+    .select("calls, prompt_tokens, completion_tokens, estimated_cost_usd")
+    .eq("user_id", userId)
+    .eq("month", monthStart().toISOString());
+  if (error) throw error;
+
+  return data.reduce(
+    (total: MonthlyUsage, row: Record<string, number | string | null>) => ({
+      calls: total.calls + Number(row.calls ?? 0),
+      tokens: total.tokens + Number(row.prompt_tokens ?? 0) + Number(row.completion_tokens ?? 0),
+      costUsd: total.costUsd + Number(row.estimated_cost_usd ?? 0),
+    }),
+    { calls: 0, tokens: 0, costUsd: 0 },
+  );
+}
+
+/**
+ * Throw QuotaError when the user is at or over a monthly limit. Lookup
+ * failures let the call through: accounting problems must not stop work.
+ */
+export async function enforceQuota(context: UsageContext): Promise<void> {
+  if (!context.userId) return;
+
+  let quota: MonthlyQuota | null;
+  let usage: MonthlyUsage;
+  try {
+    quota = await getQuota(context.client, context.userId);
+    if (!quota || (quota.calls === null && quota.tokens === null && quota.costUsd === null)) return;
+    usage = await getMonthlyUsage(context.client, context.userId);
+  } catch (error) {
+    console.error("Erro ao verificar cota de IA:", error);
+    return;
+  }
+
+  if (quota.calls !== null && usage.calls >= quota.calls) {
+    throw new QuotaError(`Cota mensal de IA atingida: ${usage.calls} de ${quota.calls} chamadas`, "calls");
+  }
+  if (quota.tokens !== null && usage.tokens >= quota.tokens) {
+    throw new QuotaError(`Cota mensal de IA atingida: ${usage.tokens} de ${quota.tokens} tokens`, "tokens");
+  }
+  if (quota.costUsd !== null && usage.costUsd >= quota.costUsd) {
+    throw new QuotaError(
+      `Cota mensal de IA atingida: US$ ${usage.costUsd.toFixed(2)} de US$ ${quota.costUsd.toFixed(2)}`,
+      "cost",
+    );
+  }
+}
+
+/**
+ * Signed-in user of the request, from the JWT the client sends
+ */
+export async function requestUserId(client: SupabaseClient, req: Request): Promise<string | null> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+  const { data } = await client.auth.getUser(token);
+  return data.user?.id ?? null;
+}
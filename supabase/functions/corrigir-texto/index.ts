@@ -1,75 +1,42 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.1";
+import { completeJson, getProvider } from "../_shared/llm.ts";
+import type { JsonSchema } from "../_shared/jsonSchema.ts";
+import { PromptError, type PromptOverride, resolvePrompt } from "../_shared/prompts.ts";
+import { enforceQuota, meteredProvider, QuotaError, requestUserId } from "../_shared/usage.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Prompt otimizado para correção de texto em produtos brasileiros
-const SISTEMA_PROMPT = `
-Você é um especialista em correção de textos para catálogos de produtos brasileiros.
-
-<TAREFA>
-Corrija ortografia, gramática e padronize o texto recebido seguindo as regras abaixo.
-</TAREFA>
-
-<REGRAS>
-1. Corrija erros de ortografia e acentuação
-2. Padronize capitalização (primeira letra de cada palavra significativa em maiúscula para nomes de produtos)
-3. Remova espaços extras e caracteres especiais desnecessários
-4. Mantenha números, códigos e siglas intactos
-5. NÃO altere o significado do texto
-6. NÃO invente informações
-7. NÃO remova informações técnicas (medidas, modelos, etc.)
-</REGRAS>
-
-<FORMATO DE RESPOSTA>
-Responda APENAS com este JSON:
-{
-  "texto_corrigido": "string (texto corrigido)",
-  "alteracoes": [
-    {
-      "original": "string (parte original)",
-      "corrigido": "string (parte corrigida)",
-      "tipo": "ortografia" | "acentuacao" | "capitalizacao" | "espacos" | "pontuacao"
-    }
-  ],
-  "houve_alteracao": boolean
-}
-</FORMATO DE RESPOSTA>
-
-<EXEMPLOS>
-Entrada: "chave de fenda ponta philips 3/16 x 4" profissional"
-Saída: {
-  "texto_corrigido": "Chave de Fenda Ponta Philips 3/16 x 4\" Profissional",
-  "alteracoes": [
-    {"original": "chave", "corrigido": "Chave", "tipo": "capitalizacao"},
-    {"original": "fenda", "corrigido": "Fenda", "tipo": "capitalizacao"},
-    {"original": "ponta", "corrigido": "Ponta", "tipo": "capitalizacao"},
-    {"original": "philips", "corrigido": "Philips", "tipo": "capitalizacao"},
-    {"original": "profissional", "corrigido": "Profissional", "tipo": "capitalizacao"}
-  ],
-  "houve_alteracao": true
-}
-
-Entrada: "parafuso   sextavado  m8 x 50mm  zincado"
-Saída: {
-  "texto_corrigido": "Parafuso Sextavado M8 x 50mm Zincado",
-  "alteracoes": [
-    {"original": "parafuso   sextavado", "corrigido": "Parafuso Sextavado", "tipo": "espacos"},
-    {"original": "50mm  zincado", "corrigido": "50mm Zincado", "tipo": "espacos"}
-  ],
-  "houve_alteracao": true
-}
+// Formato exigido da resposta; saídas fora dele são repetidas
+const RESPOSTA_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["texto_corrigido", "houve_alteracao"],
+  properties: {
+    texto_corrigido: { type: "string" },
+    alteracoes: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["original", "corrigido"],
+        properties: {
+          original: { type: "string" },
+          corrigido: { type: "string" },
+          tipo: { type: "string" },
+        },
+      },
+    },
+    houve_alteracao: { type: "boolean" },
+  },
+};
 
-Entrada: "Alicate Universal 8 Polegadas"
-Saída: {
-  "texto_corrigido": "Alicate Universal 8 Polegadas",
-  "alteracoes": [],
-  "houve_alteracao": false
+interface RespostaCorrecao {
+  texto_corrigido: string;
+  alteracoes?: Array<{ original: string; corrigido: string; tipo: string }>;
+  houve_alteracao: boolean;
 }
-</EXEMPLOS>
-`;
 
 interface TextoParaCorrigir {
   id: string | number;
@@ -99,9 +66,11 @@ serve(async (req) => {
   const startTime = Date.now();
 
   try {
-    const { textos, user_id } = await req.json() as { 
+    const { textos, session_id, prompt: promptOverride } = await req.json() as { 
       textos: TextoParaCorrigir[]; 
-      user_id?: string;
+      session_id?: string;
+      // Versão fixada e/ou prompt de sistema do preset do usuário
+      prompt?: PromptOverride;
     };
     
     if (!textos || !Array.isArray(textos) || textos.length === 0) {
@@ -111,13 +80,25 @@ serve(async (req) => {
       );
     }
 
-    const deepseekApiKey = Deno.env.get("DEEPSEEK_API_KEY");
-    if (!deepseekApiKey) {
-      return new Response(
-        JSON.stringify({ error: true, mensagem: "DEEPSEEK_API_KEY não configurada" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    const prompt = resolvePrompt("corrigir_texto", promptOverride);
+
+    // Consumo registrado por chamada; a cota é verificada uma vez por requisição
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+    const usage = {
+      client: supabaseClient,
+      // Sempre o usuário do token, nunca um user_id do corpo
+      userId: await requestUserId(supabaseClient, req),
+      sessionId: session_id,
+      functionName: "corrigir-texto",
+    };
+    await enforceQuota(usage);
+    const provider = meteredProvider(
+      getProvider("corrigir-texto", { provider: "deepseek", model: prompt.model }, RESPOSTA_SCHEMA),
+      usage,
+    );
 
     const resultados: ResultadoCorrecao[] = [];
 
@@ -139,29 +120,19 @@ serve(async (req) => {
         }
 
         try {
-          const deepseekResponse = await fetch("https://api.deepseek.com/v1/chat/completions", {
-            method: "POST",
-            headers: {
-              "Authorization": `Bearer ${deepseekApiKey}`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              model: "deepseek-chat",
+          const { data: resultado } = await completeJson<RespostaCorrecao>(
+            provider,
+            {
               messages: [
-                { role: "system", content: SISTEMA_PROMPT },
+                { role: "system", content: prompt.system },
                 { role: "user", content: item.texto }
               ],
-              temperature: 0.1,
-              response_format: { type: "json_object" }
-            }),
-          });
-
-          if (!deepseekResponse.ok) {
-            throw new Error(`API retornou ${deepseekResponse.status}`);
-          }
-
-          const deepseekData = await deepseekResponse.json();
-          const resultado = JSON.parse(deepseekData.choices[0].message.content);
+              temperature: prompt.temperature,
+            },
+            RESPOSTA_SCHEMA,
+            // Lote de vários textos: menos tentativas para caber no tempo da função
+            { retries: 1, timeoutMs: 20_000 },
+          );
 
           return {
             id: item.id,
@@ -205,6 +176,7 @@ serve(async (req) => {
           alterados: totalAlterados,
           sem_alteracao: textos.length - totalAlterados,
           tempo_ms: tempoProcessamento,
+          prompt_versao: prompt.version,
         }
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -212,6 +184,18 @@ serve(async (req) => {
 
   } catch (error) {
     console.error("Erro no processamento:", error);
+    if (error instanceof PromptError) {
+      return new Response(
+        JSON.stringify({ error: true, mensagem: error.message }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (error instanceof QuotaError) {
+      return new Response(
+        JSON.stringify({ error: true, mensagem: error.message, cota_excedida: true }),
+        { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
     return new Response(
       JSON.stringify({ 
         error: true, 
@@ -0,0 +1,387 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.1";
+import { LlmError } from "../_shared/llm.ts";
+import { type PromptOverride, PromptError, resolvePrompt } from "../_shared/prompts.ts";
+import type { CacheMode } from "../_shared/enrichmentCache.ts";
+import { enrichProduct, saveFailedProduct, saveProcessedProduct } from "../_shared/enrichment.ts";
+import { resolveCategoryTree } from "../_shared/categories.ts";
+import { QuotaError } from "../_shared/usage.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Enriquecimento em segundo plano. O cliente envia os itens de uma sessão
+// (acao "iniciar") e o worker os processa em trechos, gravando o cursor em
+// product_enrichment_sessions e cada resultado em produtos_processados. Cada
+// invocação trabalha por um tempo limitado e agenda a seguinte, então o lote
+// continua com a aba fechada. Pausar, retomar e cancelar valem de qualquer
+// dispositivo, pelo status da sessão.
+
+// Itens por sessão
+const MAX_ITENS = 10_000;
+// Produtos enviados à IA em paralelo
+const CONCORRENCIA = 3;
+// Tempo de trabalho por invocação; o restante segue numa nova chamada
+const ORCAMENTO_MS = 45_000;
+// Reserva da sessão pelo worker; vencida (worker derrubado), outra chamada assume
+const RESERVA_MS = 120_000;
+// Erros transitórios seguidos num item antes de registrá-lo como falha
+const MAX_TENTATIVAS = 5;
+const BACKOFF_BASE_MS = 15_000;
+const BACKOFF_MAX_MS = 10 * 60_000;
+// Espera máxima dentro de uma invocação; esperas maiores passam por novas chamadas
+const ESPERA_MAX_MS = 60_000;
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
+const SERVICE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+type Acao = "iniciar" | "executar" | "pausar" | "retomar" | "cancelar";
+
+// Opções do lote, aplicadas a todos os itens
+interface JobConfig {
+  abbreviations?: Record<string, string>;
+  prompt?: PromptOverride | null;
+  cache?: CacheMode;
+  cache_ttl_dias?: number;
+  // Caminhos permitidos; false desliga a restrição; ausente usa a árvore ativa do usuário
+  categorias?: string[] | false;
+}
+
+const resposta = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Mantém a função viva após a resposta (Edge Runtime); fora dele a promessa só segue
+const emSegundoPlano = (tarefa: Promise<unknown>) => {
+  const runtime = (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } }).EdgeRuntime;
+  runtime?.waitUntil(tarefa.catch((error) => console.error("Erro no lote:", error)));
+};
+
+/**
+ * Próxima invocação do worker para a sessão, depois de `esperaMs`
+ */
+const agendar = (sessionId: string, esperaMs = 0) =>
+  emSegundoPlano((async () => {
+    if (esperaMs > 0) await sleep(Math.min(esperaMs, ESPERA_MAX_MS));
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/enriquecer-lote`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${SERVICE_KEY}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ acao: "executar", session_id: sessionId }),
+    });
+    await response.body?.cancel();
+  })());
+
+// Erros que valem para todos os itens (chave, créditos, cota, prompt): o lote pausa com o motivo
+const erroDoLote = (error: unknown) =>
+  error instanceof PromptError || error instanceof QuotaError ||
+  (error instanceof LlmError && (error.status === 401 || error.status === 402 || error.status === 403 ||
+    (error.status === null && !error.retryable)));
+
+const erroTransitorio = (error: unknown) =>
+  (error instanceof LlmError && error.retryable) || error instanceof TypeError;
+
+const mensagemDe = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Processa a sessão a partir do cursor até acabar os itens, o tempo da
+ * invocação ou o lote ser pausado/cancelado. Sai sem fazer nada se a sessão
+ * não está em processamento ou outro worker a reservou.
+ */
+async function processarTrecho(client: SupabaseClient, sessionId: string, userId: string | null) {
+  const agora = new Date();
+  let claim = client
+    .from("product_enrichment_sessions")
+    .update({ job_locked_until: new Date(agora.getTime() + RESERVA_MS).toISOString() })
+    .eq("id", sessionId)
+    .eq("status", "processing")
+    .or(`job_locked_until.is.null,job_locked_until.lt.${agora.toISOString()}`);
+  if (userId) claim = claim.eq("user_id", userId);
+
+  const { data: sessao, error } = await claim
+    .select("user_id, items_processed, items_failed, job_items, job_config, job_attempts, job_next_attempt_at")
+    .maybeSingle();
+  if (error) throw error;
+  if (!sessao) return;
+
+  const liberar = () =>
+    client.from("product_enrichment_sessions").update({ job_locked_until: null }).eq("id", sessionId);
+
+  // Sessão processada no navegador, sem itens enviados ao worker
+  if (!Array.isArray(sessao.job_items)) {
+    await liberar();
+    return;
+  }
+
+  // Aguardando o backoff de um erro transitório
+  const espera = sessao.job_next_attempt_at ? Date.parse(sessao.job_next_attempt_at) - Date.now() : 0;
+  if (espera > 0) {
+    await liberar();
+    agendar(sessionId, espera);
+    return;
+  }
+
+  const itens = sessao.job_items as Record<string, unknown>[];
+  const config = (sessao.job_config ?? {}) as JobConfig;
+  let cursor: number = sessao.items_processed;
+  let falhas: number = sessao.items_failed;
+  let tentativas: number = sessao.job_attempts;
+  let ultimoErro: string | null = null;
+  let proximaTentativa: string | null = null;
+  let pausarLote = false;
+  let continuar = true;
+  const inicio = Date.now();
+  const usage = { client, userId: sessao.user_id, sessionId, functionName: "enriquecer-lote" };
+  // Lida a cada trecho: mudanças na árvore valem para o restante do lote
+  const categoryTree = await resolveCategoryTree(client, sessao.user_id, config.categorias);
+
+  // Itens à frente do cursor já gravados numa invocação anterior, quando um
+  // item antes deles parou o trecho; não são enviados (nem cobrados) de novo
+  const { data: gravados, error: gravadosError } = await client
+    .from("produtos_processados")
+    .select("item_index")
+    .eq("session_id", sessionId)
+    .gte("item_index", cursor);
+  if (gravadosError) throw gravadosError;
+  const adiantados = new Set(((gravados ?? []) as { item_index: number }[]).map((row) => row.item_index));
+
+  // Gravação que falhou conta como erro transitório; esgotadas as tentativas, o lote pausa
+  const falhaDeGravacao = () => {
+    ultimoErro = "Falha ao gravar o resultado no banco";
+    if (tentativas + 1 < MAX_TENTATIVAS) {
+      tentativas++;
+      proximaTentativa = new Date(Date.now() + Math.min(BACKOFF_BASE_MS * 2 ** (tentativas - 1), BACKOFF_MAX_MS)).toISOString();
+    } else {
+      pausarLote = true;
+    }
+  };
+
+  while (continuar && cursor < itens.length && Date.now() - inicio < ORCAMENTO_MS) {
+    const indices = Array.from({ length: Math.min(CONCORRENCIA, itens.length - cursor) }, (_, i) => cursor + i);
+    const resultados = await Promise.allSettled(indices.map((indice) =>
+      adiantados.has(indice) ? Promise.resolve(null) : enrichProduct(client, sessao.user_id, {
+        produto: itens[indice],
+        abbreviations: config.abbreviations,
+        prompt: config.prompt,
+        cache: config.cache,
+        cacheTtlDays: config.cache_ttl_dias,
+        usage,
+        categoryTree,
+        ncmTable: client,
+      })
+    ));
+
+    // Resultados em ordem: o cursor só passa de um item depois de gravá-lo.
+    // Depois de um item que para o cursor, os seguintes que deram certo são
+    // gravados assim mesmo, pois já foram cobrados
+    let parado = false;
+    for (const [i, resultado] of resultados.entries()) {
+      const indice = indices[i];
+      const alvo = { userId: sessao.user_id, sessionId, itemIndex: indice, produto: itens[indice] };
+
+      if (parado) {
+        if (resultado.status === "fulfilled" && resultado.value && await saveProcessedProduct(client, alvo, resultado.value)) {
+          adiantados.add(indice);
+        }
+        continue;
+      }
+
+      if (resultado.status === "fulfilled") {
+        if (resultado.value && !(await saveProcessedProduct(client, alvo, resultado.value))) {
+          falhaDeGravacao();
+          parado = true;
+          continue;
+        }
+        adiantados.delete(indice);
+        cursor++;
+        tentativas = 0;
+        ultimoErro = null;
+        continue;
+      }
+
+      const error = resultado.reason;
+      ultimoErro = mensagemDe(error);
+      console.error(`Item ${cursor} da sessão ${sessionId}:`, ultimoErro);
+
+      if (erroDoLote(error)) {
+        pausarLote = true;
+      } else if (erroTransitorio(error) && tentativas + 1 < MAX_TENTATIVAS) {
+        tentativas++;
+        const backoff = Math.min(BACKOFF_BASE_MS * 2 ** (tentativas - 1), BACKOFF_MAX_MS);
+        proximaTentativa = new Date(Date.now() + backoff).toISOString();
+      } else if (!(await saveFailedProduct(client, alvo, ultimoErro))) {
+        falhaDeGravacao();
+      } else {
+        // Erro do próprio item, ou transitório que esgotou as tentativas
+        cursor++;
+        falhas++;
+        tentativas = 0;
+        ultimoErro = null;
+        continue;
+      }
+      parado = true;
+    }
+
+    // Checkpoint; o status devolvido mostra se o usuário pausou ou cancelou
+    const { data: estado, error: checkpointError } = await client
+      .from("product_enrichment_sessions")
+      .update({
+        items_processed: cursor,
+        items_failed: falhas,
+        job_attempts: tentativas,
+        job_last_error: ultimoErro,
+        job_next_attempt_at: proximaTentativa,
+        job_locked_until: new Date(Date.now() + RESERVA_MS).toISOString(),
+      })
+      .eq("id", sessionId)
+      .select("status")
+      .single();
+    if (checkpointError) throw checkpointError;
+
+    continuar = estado.status === "processing" && !pausarLote && !proximaTentativa;
+  }
+
+  await liberar();
+
+  if (pausarLote) {
+    await client.from("product_enrichment_sessions").update({ status: "paused" }).eq("id", sessionId).eq("status", "processing");
+  } else if (cursor >= itens.length) {
+    await client.from("product_enrichment_sessions").update({ status: "completed" }).eq("id", sessionId).eq("status", "processing");
+    console.log(`Lote ${sessionId} concluído: ${itens.length} itens, ${falhas} com falha`);
+  } else if (continuar || proximaTentativa) {
+    agendar(sessionId, proximaTentativa ? Date.parse(proximaTentativa) - Date.now() : 0);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const acao = body.acao as Acao;
+    const sessionId: string | undefined = body.session_id;
+    const client = createClient(SUPABASE_URL, SERVICE_KEY);
+
+    // Chamadas internas (worker agendando a si mesmo) usam a service role
+    const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+    const interno = token === SERVICE_KEY;
+    let userId: string | null = null;
+    if (!interno) {
+      const { data } = await client.auth.getUser(token);
+      userId = data.user?.id ?? null;
+      if (!userId) return resposta({ error: true, mensagem: "Faça login para processar em segundo plano" }, 401);
+    } else if (acao !== "executar") {
+      return resposta({ error: true, mensagem: "Ação não permitida" }, 403);
+    }
+
+    if (acao !== "iniciar" && !sessionId) {
+      return resposta({ error: true, mensagem: "Sessão não informada" }, 400);
+    }
+
+    const sessoes = () => client.from("product_enrichment_sessions");
+
+    switch (acao) {
+      case "iniciar": {
+        const itens = body.itens;
+        const config: JobConfig = body.config ?? {};
+        if (!Array.isArray(itens) || itens.length === 0) {
+          return resposta({ error: true, mensagem: "Nenhum item para processar" }, 400);
+        }
+        if (itens.length > MAX_ITENS) {
+          return resposta({ error: true, mensagem: `Máximo de ${MAX_ITENS} itens por lote` }, 400);
+        }
+        // Valida a escolha de prompt antes de aceitar o lote
+        resolvePrompt("enriquecer_produto", config.prompt);
+
+        const campos = {
+          status: "processing",
+          total_items: itens.length,
+          items_processed: 0,
+          items_failed: 0,
+          job_items: itens,
+          job_config: config,
+          job_attempts: 0,
+          job_last_error: null,
+          job_next_attempt_at: null,
+          job_locked_until: null,
+        };
+
+        let id = sessionId;
+        if (id) {
+          const agora = new Date().toISOString();
+          const { data, error } = await sessoes()
+            .update(campos)
+            .eq("id", id)
+            .eq("user_id", userId)
+            .or(`status.neq.processing,job_locked_until.is.null,job_locked_until.lt.${agora}`)
+            .select("id")
+            .maybeSingle();
+          if (error) throw error;
+          if (!data) return resposta({ error: true, mensagem: "Sessão não encontrada ou com lote em andamento" }, 409);
+
+          // Resultados de um envio anterior da mesma sessão
+          await client.from("produtos_processados").delete().eq("session_id", id).not("item_index", "is", null);
+        } else {
+          const { data, error } = await sessoes()
+            .insert({
+              user_id: userId,
+              original_filename: body.nome_arquivo || `Lote de ${itens.length} produtos`,
+              ...campos,
+            })
+            .select("id")
+            .single();
+          if (error) throw error;
+          id = data.id as string;
+        }
+
+        emSegundoPlano(processarTrecho(client, id, null));
+        return resposta({ session_id: id }, 202);
+      }
+
+      case "executar": {
+        emSegundoPlano(processarTrecho(client, sessionId!, userId));
+        return resposta({ session_id: sessionId }, 202);
+      }
+
+      case "pausar":
+      case "retomar":
+      case "cancelar": {
+        const transicoes: Record<typeof acao, { de: string[]; para: Record<string, unknown> }> = {
+          pausar: { de: ["processing"], para: { status: "paused" } },
+          retomar: {
+            de: ["paused"],
+            para: { status: "processing", job_attempts: 0, job_last_error: null, job_next_attempt_at: null },
+          },
+          cancelar: { de: ["pending", "processing", "paused"], para: { status: "cancelled" } },
+        };
+        const { de, para } = transicoes[acao];
+
+        const { data, error } = await sessoes()
+          .update(para)
+          .eq("id", sessionId)
+          .eq("user_id", userId)
+          .in("status", de)
+          .select("id")
+          .maybeSingle();
+        if (error) throw error;
+        if (!data) return resposta({ error: true, mensagem: "Sessão não encontrada ou em outro estado" }, 409);
+
+        if (acao === "retomar") emSegundoPlano(processarTrecho(client, sessionId!, null));
+        return resposta({ session_id: sessionId });
+      }
+
+      default:
+        return resposta({ error: true, mensagem: `Ação desconhecida: ${acao}` }, 400);
+    }
+  } catch (error) {
+    console.error("Erro no lote:", error);
+    if (error instanceof PromptError) {
+      return resposta({ error: true, mensagem: error.message }, 400);
+    }
+    return resposta({ error: true, mensagem: mensagemDe(error) }, 500);
+  }
+});
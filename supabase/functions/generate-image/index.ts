@@ -1,4 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.1";
+import { complete, getProvider, LlmError, type LlmProvider } from "../_shared/llm.ts";
+import { enforceQuota, meteredProvider, QuotaError, requestUserId } from "../_shared/usage.ts";
+import { fillPrompt, resolvePrompt } from "../_shared/prompts.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,6 +13,8 @@ interface ImageGenerationRequest {
   productName: string;
   productDescription?: string;
   style?: 'catalog' | 'lifestyle' | 'minimal';
+  // Enrichment session the call belongs to, for the usage ledger
+  sessionId?: string;
 }
 
 serve(async (req) => {
@@ -18,7 +24,7 @@ serve(async (req) => {
   }
 
   try {
-    const { productName, productDescription, style = 'catalog' }: ImageGenerationRequest = await req.json();
+    const { productName, productDescription, style = 'catalog', sessionId }: ImageGenerationRequest = await req.json();
 
     if (!productName) {
       return new Response(
@@ -27,70 +33,53 @@ serve(async (req) => {
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
+    // Usage is recorded per call and checked against the user's monthly quota
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const usage = {
+      client: supabaseClient,
+      userId: await requestUserId(supabaseClient, req),
+      sessionId,
+      functionName: 'generate-image',
+    };
+    await enforceQuota(usage);
+
+    const imagePrompt = resolvePrompt('gerar_imagem');
+    let provider: LlmProvider;
+    try {
+      provider = meteredProvider(getProvider('generate-image', { provider: 'lovable', model: imagePrompt.model }), usage);
+    } catch (error) {
+      console.error('AI provider config error:', error);
       return new Response(
         JSON.stringify({ error: 'AI service not configured' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Build the prompt based on style
-    let stylePrompt = '';
-    switch (style) {
-      case 'catalog':
-        stylePrompt = 'professional product photography, clean white background, studio lighting, e-commerce catalog style';
-        break;
-      case 'lifestyle':
-        stylePrompt = 'lifestyle product photography, natural setting, warm lighting, aspirational';
-        break;
-      case 'minimal':
-        stylePrompt = 'minimalist product shot, pure white background, soft shadows, clean and modern';
-        break;
-    }
-
-    const prompt = `${productName}${productDescription ? `, ${productDescription}` : ''}, ${stylePrompt}, 1080x1080 square format, high resolution, ultra-detailed`;
+    // The style picks its wording from prompts.json; unknown styles fall back to catalog
+    const prompt = fillPrompt(imagePrompt.system, {
+      produto: `${productName}${productDescription ? `, ${productDescription}` : ''}`,
+      estilo: imagePrompt.styles[style] ?? imagePrompt.styles.catalog,
+    });
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash-image-preview',
+    // Image models are slow; one retry with a longer timeout
+    const result = await complete(
+      provider,
+      {
         messages: [
           { 
             role: 'user', 
             content: prompt
           }
         ],
-        modalities: ['image', 'text']
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI credits exhausted. Please add credits to continue.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      const errorText = await response.text();
-      console.error('AI gateway error:', response.status, errorText);
-      throw new Error(`AI request failed: ${response.status}`);
-    }
+        modalities: ['image', 'text'],
+      },
+      { retries: 1, timeoutMs: 90_000 },
+    );
 
-    const data = await response.json();
-    
-    // Extract image from response
-    const images = data.choices?.[0]?.message?.images || [];
+    const images = result.images;
     if (images.length === 0) {
       return new Response(
         JSON.stringify({ error: 'No image generated' }),
@@ -98,18 +87,37 @@ serve(async (req) => {
       );
     }
 
-    const imageUrl = images[0]?.image_url?.url;
+    const imageUrl = images[0];
 
     return new Response(
       JSON.stringify({ 
         imageUrl,
         prompt,
-        model: 'google/gemini-2.5-flash-image-preview'
+        model: result.model,
+        promptVersion: imagePrompt.version,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
+    if (error instanceof QuotaError) {
+      return new Response(
+        JSON.stringify({ error: error.message, quotaExceeded: true }),
+        { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (error instanceof LlmError && error.status === 429) {
+      return new Response(
+        JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (error instanceof LlmError && error.status === 402) {
+      return new Response(
+        JSON.stringify({ error: 'AI credits exhausted. Please add credits to continue.' }),
+        { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
     console.error('Image generation error:', error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
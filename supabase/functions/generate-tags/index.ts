@@ -1,4 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.1";
+import { completeJson, getProvider, LlmError, type LlmProvider } from "../_shared/llm.ts";
+import { enforceQuota, meteredProvider, QuotaError, requestUserId } from "../_shared/usage.ts";
+import { fillPrompt, resolvePrompt } from "../_shared/prompts.ts";
+import type { JsonSchema } from "../_shared/jsonSchema.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,8 +15,18 @@ interface TagGenerationRequest {
   productDescription?: string;
   existingTags?: string;
   count?: number;
+  // Enrichment session the call belongs to, for the usage ledger
+  sessionId?: string;
 }
 
+const TAGS_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['tags'],
+  properties: {
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+};
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -19,7 +34,7 @@ serve(async (req) => {
   }
 
   try {
-    const { productName, productDescription, existingTags, count = 10 }: TagGenerationRequest = await req.json();
+    const { productName, productDescription, existingTags, count = 10, sessionId }: TagGenerationRequest = await req.json();
 
     if (!productName) {
       return new Response(
@@ -28,29 +43,32 @@ serve(async (req) => {
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
+    // Usage is recorded per call and checked against the user's monthly quota
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const usage = {
+      client: supabaseClient,
+      userId: await requestUserId(supabaseClient, req),
+      sessionId,
+      functionName: 'generate-tags',
+    };
+    await enforceQuota(usage);
+
+    const prompt = resolvePrompt('gerar_tags');
+    let provider: LlmProvider;
+    try {
+      provider = meteredProvider(getProvider('generate-tags', { provider: 'lovable', model: prompt.model }, TAGS_SCHEMA), usage);
+    } catch (error) {
+      console.error('AI provider config error:', error);
       return new Response(
         JSON.stringify({ error: 'AI service not configured' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const systemPrompt = `Você é um especialista em SEO e e-commerce brasileiro. Sua tarefa é gerar tags/palavras-chave relevantes para produtos de catálogo.
-
-REGRAS:
-1. Gere exatamente ${count} tags únicas e relevantes
-2. Tags devem ser em português brasileiro
-3. Use palavras-chave que clientes reais pesquisariam
-4. Inclua variações (singular/plural, com/sem acento)
-5. Priorize termos específicos sobre genéricos
-6. Considere sinônimos e termos relacionados
-7. NÃO repita tags que já existem no produto
-
-Retorne APENAS um JSON válido no formato:
-{
-  "tags": ["tag1", "tag2", "tag3", ...]
-}`;
+    const systemPrompt = fillPrompt(prompt.system, { quantidade: count });
 
     const userPrompt = `Produto: ${productName}
 ${productDescription ? `Descrição: ${productDescription}` : ''}
@@ -58,73 +76,52 @@ ${existingTags ? `Tags existentes (NÃO repetir): ${existingTags}` : ''}
 
 Gere ${count} novas tags SEO para este produto.`;
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-3-flash-preview',
+    const { data, result } = await completeJson<{ tags: string[] }>(
+      provider,
+      {
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
         ],
-        temperature: 0.7,
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI credits exhausted. Please add credits to continue.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      throw new Error(`AI request failed: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content || '';
-
-    // Extract JSON from response
-    let tags: string[] = [];
-    try {
-      // Try to parse as JSON directly
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        tags = parsed.tags || [];
-      }
-    } catch (parseError) {
-      // If JSON parsing fails, try to extract tags from text
-      const lines = content.split('\n').filter((line: string) => line.trim());
-      tags = lines
-        .map((line: string) => line.replace(/^[-*\d.)\s]+/, '').trim())
-        .filter((tag: string) => tag.length > 0 && tag.length < 50);
-    }
+        temperature: prompt.temperature,
+      },
+      TAGS_SCHEMA,
+    );
 
     // Clean and dedupe tags
-    tags = [...new Set(tags.map(t => t.toLowerCase().trim()))]
+    const tags = [...new Set(data.tags.map(t => t.toLowerCase().trim()))]
       .filter(t => t.length >= 2)
       .slice(0, count);
 
     return new Response(
       JSON.stringify({ 
         tags,
-        model: 'google/gemini-3-flash-preview',
-        prompt: userPrompt 
+        model: result.model,
+        prompt: userPrompt,
+        promptVersion: prompt.version,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
+    if (error instanceof QuotaError) {
+      return new Response(
+        JSON.stringify({ error: error.message, quotaExceeded: true }),
+        { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (error instanceof LlmError && error.status === 429) {
+      return new Response(
+        JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (error instanceof LlmError && error.status === 402) {
+      return new Response(
+        JSON.stringify({ error: 'AI credits exhausted. Please add credits to continue.' }),
+        { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
     console.error('Tag generation error:', error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
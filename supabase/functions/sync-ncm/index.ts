@@ -6,6 +6,13 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
+// "31/12/9999" -> "9999-12-31"; ISO dates pass through
+const toIsoDate = (value?: string): string | null => {
+  const match = value?.trim().match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (match) return `${match[3]}-${match[2]}-${match[1]}`;
+  return value && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : null;
+};
+
 interface NcmItem {
   Codigo: string;
   Descricao: string;
@@ -74,6 +81,8 @@ Deno.serve(async (req) => {
           ncmData = altData.map((item: any) => ({
             Codigo: item.codigo,
             Descricao: item.descricao,
+            Data_Inicio: item.data_inicio,
+            Data_Fim: item.data_fim,
           }));
         }
       } catch {
@@ -101,6 +110,8 @@ Deno.serve(async (req) => {
         codigo: item.Codigo?.replace(/\./g, "").trim() || "",
         descricao: item.Descricao?.trim() || "",
         tipo: "ncm" as const,
+        data_inicio: toIsoDate(item.Data_Inicio),
+        data_fim: toIsoDate(item.Data_Fim),
       })).filter(item => item.codigo && item.descricao);
 
       if (batch.length === 0) continue;
@@ -0,0 +1,7 @@
+
+-- Mapeamentos de colunas por fornecedor salvos como presets
+ALTER TABLE public.user_presets ADD COLUMN IF NOT EXISTS supplier_name text DEFAULT null;
+ALTER TABLE public.user_presets ADD COLUMN IF NOT EXISTS column_mapping jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_user_presets_supplier ON public.user_presets (user_id, supplier_name)
+WHERE supplier_name IS NOT NULL;
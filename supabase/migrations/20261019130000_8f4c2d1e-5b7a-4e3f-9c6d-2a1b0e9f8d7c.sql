@@ -0,0 +1,39 @@
+-- Decisões de resolução de duplicados (não duplicado / mesclado)
+CREATE TABLE public.duplicate_decisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  pair_key TEXT NOT NULL,
+  decision TEXT NOT NULL CHECK (decision IN ('not_duplicate', 'merged')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.duplicate_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own duplicate decisions" 
+ON public.duplicate_decisions 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own duplicate decisions" 
+ON public.duplicate_decisions 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own duplicate decisions" 
+ON public.duplicate_decisions 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own duplicate decisions" 
+ON public.duplicate_decisions 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_duplicate_decisions_updated_at
+BEFORE UPDATE ON public.duplicate_decisions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE UNIQUE INDEX duplicate_decisions_user_pair_unique ON public.duplicate_decisions (user_id, pair_key);
@@ -0,0 +1,3 @@
+
+-- Regras de transformação declarativas, salvas no preset junto do column_config
+ALTER TABLE public.user_presets ADD COLUMN IF NOT EXISTS transform_rules jsonb NOT NULL DEFAULT '[]'::jsonb;
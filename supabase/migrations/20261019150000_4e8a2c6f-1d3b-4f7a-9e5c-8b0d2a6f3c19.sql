@@ -0,0 +1,3 @@
+
+-- Modelos de título por categoria, salvos no preset junto das regras
+ALTER TABLE public.user_presets ADD COLUMN IF NOT EXISTS title_templates jsonb NOT NULL DEFAULT '[]'::jsonb;
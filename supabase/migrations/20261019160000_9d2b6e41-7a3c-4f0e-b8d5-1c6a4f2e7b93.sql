@@ -0,0 +1,3 @@
+
+-- Escolha de prompt por função de IA (versão fixada e/ou prompt de sistema próprio), salva no preset
+ALTER TABLE public.user_presets ADD COLUMN IF NOT EXISTS prompt_settings jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,61 @@
+-- =====================================================
+-- CACHE PERSISTENTE DO ENRIQUECIMENTO
+-- =====================================================
+
+-- Resposta da IA por usuário, chaveada pelo hash dos campos analisados
+-- normalizados, pela versão do prompt e pelo modelo. Gravada pela função
+-- enriquecer-produto (service role); o usuário consulta e invalida.
+CREATE TABLE IF NOT EXISTS public.enrichment_cache (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  fingerprint TEXT NOT NULL,
+  prompt_versao INTEGER NOT NULL,
+  modelo_ia TEXT NOT NULL,
+  resposta JSONB NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, fingerprint, prompt_versao, modelo_ia)
+);
+
+ALTER TABLE public.enrichment_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own enrichment cache"
+  ON public.enrichment_cache FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own enrichment cache"
+  ON public.enrichment_cache FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_enrichment_cache_updated_at
+  BEFORE UPDATE ON public.enrichment_cache
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_enrichment_cache_expires_at ON public.enrichment_cache(expires_at);
+
+-- Acertos de cache por sessão, a partir do metadata.cache_hit de cada produto processado
+CREATE OR REPLACE VIEW public.enrichment_cache_session_stats
+WITH (security_invoker = true) AS
+SELECT
+  session_id,
+  user_id,
+  count(*) FILTER (WHERE (metadata->>'cache_hit')::boolean) AS cache_hits,
+  count(*) FILTER (WHERE NOT coalesce((metadata->>'cache_hit')::boolean, false)) AS cache_misses
+FROM public.produtos_processados
+WHERE session_id IS NOT NULL
+GROUP BY session_id, user_id;
+
+-- Resumo do cache do usuário: respostas salvas, vencidas e reaproveitamentos
+CREATE OR REPLACE VIEW public.enrichment_cache_stats
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  count(*) AS entries,
+  count(*) FILTER (WHERE expires_at <= now()) AS expired,
+  coalesce(sum(hits), 0) AS hits
+FROM public.enrichment_cache
+GROUP BY user_id;
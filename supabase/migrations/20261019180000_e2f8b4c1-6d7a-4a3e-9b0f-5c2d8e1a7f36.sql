@@ -0,0 +1,24 @@
+-- =====================================================
+-- ENRIQUECIMENTO EM SEGUNDO PLANO
+-- =====================================================
+
+-- 'paused' já era gravado pelo front e barrado pelo CHECK; 'cancelled' encerra um lote pelo usuário
+ALTER TABLE public.product_enrichment_sessions DROP CONSTRAINT IF EXISTS product_enrichment_sessions_status_check;
+ALTER TABLE public.product_enrichment_sessions ADD CONSTRAINT product_enrichment_sessions_status_check
+  CHECK (status IN ('pending', 'processing', 'paused', 'completed', 'failed', 'cancelled'));
+
+-- Fila do lote: itens enviados pelo cliente e estado do worker (enriquecer-lote).
+-- items_processed é o cursor: itens antes dele já têm linha em produtos_processados.
+ALTER TABLE public.product_enrichment_sessions
+  ADD COLUMN IF NOT EXISTS job_items JSONB,
+  ADD COLUMN IF NOT EXISTS job_config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS items_failed INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS job_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS job_last_error TEXT,
+  ADD COLUMN IF NOT EXISTS job_next_attempt_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS job_locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Posição do item no lote; refazer um trecho substitui a linha em vez de duplicar
+ALTER TABLE public.produtos_processados ADD COLUMN IF NOT EXISTS item_index INTEGER;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_produtos_processados_session_item
+  ON public.produtos_processados(session_id, item_index);
@@ -0,0 +1,79 @@
+-- =====================================================
+-- CONSUMO DE IA E COTAS MENSAIS
+-- =====================================================
+
+-- Uma linha por chamada a um provedor de IA, gravada pelas funções
+-- (service role). Tentativas repetidas também entram: cada uma consome.
+-- user_id nulo: chamada sem usuário autenticado.
+CREATE TABLE IF NOT EXISTS public.ai_usage_ledger (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES public.product_enrichment_sessions(id) ON DELETE SET NULL,
+  function_name TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  -- Nulo quando o modelo não tem preço conhecido
+  estimated_cost_usd NUMERIC(12, 6),
+  success BOOLEAN NOT NULL,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ai_usage_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI usage"
+  ON public.ai_usage_ledger FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_ai_usage_ledger_user_created ON public.ai_usage_ledger(user_id, created_at DESC);
+CREATE INDEX idx_ai_usage_ledger_session ON public.ai_usage_ledger(session_id);
+
+-- Limites mensais (mês civil, UTC). A linha com user_id nulo é o padrão de
+-- todos; uma linha do usuário a substitui. Limite nulo: sem limite.
+-- Mantidas pelo administrador; o usuário só consulta.
+CREATE TABLE IF NOT EXISTS public.ai_usage_quotas (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  monthly_calls INTEGER,
+  monthly_tokens BIGINT,
+  monthly_cost_usd NUMERIC(12, 2),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (user_id)
+);
+
+ALTER TABLE public.ai_usage_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own and the default AI quota"
+  ON public.ai_usage_quotas FOR SELECT
+  USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE TRIGGER update_ai_usage_quotas_updated_at
+  BEFORE UPDATE ON public.ai_usage_quotas
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Padrão inicial sem limites: o consumo passa a ser registrado sem bloquear ninguém
+INSERT INTO public.ai_usage_quotas (user_id) VALUES (NULL)
+ON CONFLICT DO NOTHING;
+
+-- Consumo por usuário, mês, função e modelo; calls conta só chamadas bem-sucedidas
+CREATE OR REPLACE VIEW public.ai_usage_monthly
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  date_trunc('month', created_at AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS month,
+  function_name,
+  provider,
+  model,
+  count(*) FILTER (WHERE success) AS calls,
+  count(*) FILTER (WHERE NOT success) AS failed_calls,
+  coalesce(sum(prompt_tokens), 0) AS prompt_tokens,
+  coalesce(sum(completion_tokens), 0) AS completion_tokens,
+  coalesce(sum(estimated_cost_usd), 0) AS estimated_cost_usd,
+  round(avg(latency_ms)) AS avg_latency_ms
+FROM public.ai_usage_ledger
+GROUP BY 1, 2, 3, 4, 5;
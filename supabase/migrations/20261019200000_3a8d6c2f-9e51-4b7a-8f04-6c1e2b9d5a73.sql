@@ -0,0 +1,70 @@
+-- =====================================================
+-- PROPOSTAS DE NOVAS CATEGORIAS
+-- =====================================================
+
+-- Categorias sugeridas pela IA que não existem na árvore do usuário. O
+-- enriquecimento só devolve caminhos da árvore; o que ficou de fora é
+-- registrado aqui, agrupado pelo caminho normalizado, para o usuário
+-- decidir se cria a categoria.
+CREATE TABLE IF NOT EXISTS public.category_proposals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  category_tree_id UUID REFERENCES public.category_trees(id) ON DELETE SET NULL,
+  proposed_path TEXT NOT NULL,
+  -- Sem acentos, minúsculas, níveis separados por " > "
+  normalized_path TEXT NOT NULL,
+  occurrences INTEGER NOT NULL DEFAULT 1,
+  -- Último produto que recebeu a sugestão, como exemplo
+  sample_product JSONB,
+  last_session_id UUID REFERENCES public.product_enrichment_sessions(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, normalized_path)
+);
+
+ALTER TABLE public.category_proposals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own category proposals"
+  ON public.category_proposals FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own category proposals"
+  ON public.category_proposals FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own category proposals"
+  ON public.category_proposals FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_category_proposals_updated_at
+  BEFORE UPDATE ON public.category_proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Registra uma ocorrência: cria a proposta ou soma à existente. Chamada
+-- pelas funções de enriquecimento (service role).
+CREATE OR REPLACE FUNCTION public.record_category_proposal(
+  p_user_id UUID,
+  p_category_tree_id UUID,
+  p_proposed_path TEXT,
+  p_normalized_path TEXT,
+  p_sample_product JSONB,
+  p_session_id UUID
+)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  INSERT INTO public.category_proposals (
+    user_id, category_tree_id, proposed_path, normalized_path, sample_product, last_session_id
+  )
+  VALUES (p_user_id, p_category_tree_id, p_proposed_path, p_normalized_path, p_sample_product, p_session_id)
+  ON CONFLICT (user_id, normalized_path) DO UPDATE SET
+    occurrences = category_proposals.occurrences + 1,
+    category_tree_id = coalesce(EXCLUDED.category_tree_id, category_proposals.category_tree_id),
+    sample_product = EXCLUDED.sample_product,
+    last_session_id = coalesce(EXCLUDED.last_session_id, category_proposals.last_session_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_category_proposal(UUID, UUID, TEXT, TEXT, JSONB, UUID) FROM PUBLIC, anon, authenticated;
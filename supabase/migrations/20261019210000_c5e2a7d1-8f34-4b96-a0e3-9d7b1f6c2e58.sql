@@ -0,0 +1,13 @@
+-- =====================================================
+-- VIGÊNCIA DOS CÓDIGOS NCM
+-- =====================================================
+
+-- Datas de início e fim de vigência da tabela oficial (SISCOMEX), gravadas
+-- pelo sync-ncm. O NCM sugerido pela IA só é aceito se estiver em vigor;
+-- sem data, o código é considerado vigente.
+ALTER TABLE public.ncm_cache
+  ADD COLUMN IF NOT EXISTS data_inicio DATE,
+  ADD COLUMN IF NOT EXISTS data_fim DATE;
+
+-- Itens de 8 dígitos sob uma posição: codigo LIKE '8467____'
+CREATE INDEX IF NOT EXISTS idx_ncm_cache_codigo_pattern ON public.ncm_cache (codigo text_pattern_ops);